@@ -126,6 +126,55 @@ addBenchmark('From Large Strings to - BASE64', 'nBuffer', () => {
     npmBuffer.from('acd'.repeat(100000)).toString('base64');
 });
 
+/**
+ * Buffer to multi-byte UTF-8 string (decoding only)
+ */
+
+const cjkText = '漢字かな交じり文'.repeat(40000);
+const emojiText = '😀🌍🚀'.repeat(40000);
+const shortText = 'héllo wörld';
+
+const xCjkBuffer = xBuffer.from(cjkText);
+const nCjkBuffer = npmBuffer.from(cjkText);
+const xEmojiBuffer = xBuffer.from(emojiText);
+const nEmojiBuffer = npmBuffer.from(emojiText);
+const xShortBuffer = xBuffer.from(shortText);
+const nShortBuffer = npmBuffer.from(shortText);
+const xMalformedBuffer = xBuffer.concat([ xCjkBuffer, xBuffer.from([ 0xE2, 0x82 ]) ]);
+const nMalformedBuffer = npmBuffer.concat([ nCjkBuffer, npmBuffer.from([ 0xE2, 0x82 ]) ]);
+
+addBenchmark('To String - UTF-8 CJK', 'xBuffer', () => {
+    xCjkBuffer.toString('utf8');
+});
+
+addBenchmark('To String - UTF-8 CJK', 'nBuffer', () => {
+    nCjkBuffer.toString('utf8');
+});
+
+addBenchmark('To String - UTF-8 Emoji', 'xBuffer', () => {
+    xEmojiBuffer.toString('utf8');
+});
+
+addBenchmark('To String - UTF-8 Emoji', 'nBuffer', () => {
+    nEmojiBuffer.toString('utf8');
+});
+
+addBenchmark('To String - UTF-8 Short', 'xBuffer', () => {
+    xShortBuffer.toString('utf8');
+});
+
+addBenchmark('To String - UTF-8 Short', 'nBuffer', () => {
+    nShortBuffer.toString('utf8');
+});
+
+addBenchmark('To String - UTF-8 Malformed', 'xBuffer', () => {
+    xMalformedBuffer.toString('utf8');
+});
+
+addBenchmark('To String - UTF-8 Malformed', 'nBuffer', () => {
+    nMalformedBuffer.toString('utf8');
+});
+
 /**
  * Slice && SubArray && concat
  */
@@ -12,5 +12,6 @@ module.exports = {
         '^@structs/(.*)$': '<rootDir>/src/structs/$1',
         '^@providers/(.*)$': '<rootDir>/src/providers/$1',
         '^@components/(.*)$': '<rootDir>/src/components/$1',
+        '^@errors/(.*)$': '<rootDir>/src/errors/$1',
     },
 };
@@ -80,6 +80,13 @@ test('fill (string)', () => {
     expect(b.toString()).toBe('էէէէէ');
 });
 
+test('fill (string) rejects a leading NUL without writing', () => {
+    const b = Buffer.alloc(4, 7);
+    expect(() => b.fill('\0')).toThrow();
+    expect(() => b.fill('\0a')).toThrow();
+    expect(b.toString('hex')).toBe('07070707');
+});
+
 test('copy() empty buffer with sourceEnd=0', () => {
     const source = Buffer.from([ 42 ]);
     const destination = Buffer.from([ 43 ]);
@@ -0,0 +1,32 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { createBaseXCodec } from '@components/charset.component';
+import { registerEncoding } from '@components/encoding.component';
+
+/**
+ * Types
+ */
+
+declare module '@providers/interfaces/buffer.interfaces' {
+    interface BufferEncodingMap {
+        base36: true;
+    }
+}
+
+/**
+ * Tests
+ */
+
+registerEncoding('base36', createBaseXCodec('0123456789abcdefghijklmnopqrstuvwxyz'));
+
+test('a registered baseX codec works with Buffer.from and toString', () => {
+    const buffer = Buffer.from([ 0, 0x12, 0x34 ]);
+
+    expect(buffer.toString('base36')).toBe('0' + (0x1234).toString(36));
+    expect(Buffer.from('0' + (0x1234).toString(36), 'base36')).toEqual(buffer);
+    expect(Buffer.byteLength('0e9g', 'base36')).toBe(3);
+    expect(Buffer.isEncoding('base36')).toBe(true);
+});
@@ -0,0 +1,34 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { EncodingError } from '@errors/encoding.error';
+
+/**
+ * Tests
+ */
+
+test('base32 encodings round-trip through Buffer.from and toString', () => {
+    const buffer = Buffer.from('foobar');
+
+    expect(buffer.toString('base32')).toBe('MZXW6YTBOI======');
+    expect(buffer.toString('base32', { padding: false })).toBe('MZXW6YTBOI');
+    expect(buffer.toString('base32hex')).toBe('CPNMUOJ1E8======');
+    expect(buffer.toString('crockford32')).toBe('CSQPYRK1E8');
+    expect(Buffer.from('mzxw6ytboi', 'base32').toString()).toBe('foobar');
+    expect(Buffer.from('CPNMUOJ1E8======', 'base32hex').toString()).toBe('foobar');
+    expect(Buffer.from('csqp-yrk1-e8', 'crockford32').toString()).toBe('foobar');
+});
+
+test('base32: decodes a TOTP secret', () => {
+    const secret = Buffer.from('JBSWY3DPEHPK3PXP', 'base32');
+
+    expect(secret.toString('hex')).toBe('48656c6c6f21deadbeef');
+    expect(Buffer.isEncoding('base32')).toBe(true);
+});
+
+test('base32: fatal mode rejects malformed input', () => {
+    expect(() => Buffer.from('JBSWY3DPEHPK3PX1', 'base32', { fatal: true })).toThrow(EncodingError);
+    expect(Buffer.from('JBSWY3DP EHPK3PXP', 'base32').length).toBe(10);
+});
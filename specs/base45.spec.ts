@@ -0,0 +1,22 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { EncodingError } from '@errors/encoding.error';
+
+/**
+ * Tests
+ */
+
+test('base45 round-trips through Buffer.from, toString and byteLength', () => {
+    expect(Buffer.from('ietf!').toString('base45')).toBe('QED8WEX0');
+    expect(Buffer.from('QED8WEX0', 'base45').toString()).toBe('ietf!');
+    expect(Buffer.byteLength('QED8WEX0', 'base45')).toBe(5);
+    expect(Buffer.byteLength('BB8', 'base45')).toBe(2);
+});
+
+test('base45 rejects out-of-range triplets', () => {
+    expect(() => Buffer.from('GGW', 'base45')).toThrow(EncodingError);
+    expect(() => Buffer.from('qed8wex0', 'base45')).toThrow(EncodingError);
+});
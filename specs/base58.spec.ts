@@ -0,0 +1,29 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { EncodingError } from '@errors/encoding.error';
+
+/**
+ * Tests
+ */
+
+test('base58 round-trips through Buffer.from and toString', () => {
+    const buffer = Buffer.from('Hello World!');
+
+    expect(buffer.toString('base58')).toBe('2NEpo7TZRRrLZSi2U');
+    expect(Buffer.from('2NEpo7TZRRrLZSi2U', 'base58').toString()).toBe('Hello World!');
+    expect(Buffer.from([ 0, 0, 1 ]).toString('base58')).toBe('112');
+    expect(Buffer.isEncoding('base58')).toBe(true);
+});
+
+test('base58check verifies the checksum in Buffer.from', () => {
+    const address = '1PMycacnJaSqwwJqjawXBErnLsZ7RkXUAs';
+    const payload = Buffer.from(address, 'base58check');
+
+    expect(payload.length).toBe(21);
+    expect(payload.toString('hex')).toBe('00f54a5851e9372b87810a8e60cdd2e7cfd80b6e31');
+    expect(payload.toString('base58check')).toBe(address);
+    expect(() => Buffer.from(address.slice(0, -1) + 't', 'base58check')).toThrow(EncodingError);
+});
@@ -3,6 +3,7 @@
  */
 
 import { Buffer } from '@providers/buffer.provider';
+import { EncodingError } from '@errors/encoding.error';
 
 /**
  * Tests
@@ -46,3 +47,72 @@ test('base64: high byte', () => {
     const highByte = Buffer.from([ 128 ]);
     expect(Buffer.alloc(1, highByte.toString('base64'), 'base64')).toEqual(highByte);
 });
+
+test('base64url: encodes without padding using the url-safe alphabet', () => {
+    expect(Buffer.from([ 0xfb, 0xff, 0xbf ]).toString('base64url')).toBe('-_-_');
+    expect(Buffer.from([ 1, 2, 3, 4 ]).toString('base64url')).toBe('AQIDBA');
+    expect(Buffer.from([ 1, 2, 3, 4, 5 ]).toString('base64url')).toBe('AQIDBAU');
+    expect(Buffer.from('aoeu').toString('base64url')).toBe('YW9ldQ');
+});
+
+test('base64url: decodes padded and unpadded input', () => {
+    expect(Buffer.from('YW9ldQ', 'base64url').toString()).toBe('aoeu');
+    expect(Buffer.from('YW9ldQ==', 'base64url').toString()).toBe('aoeu');
+    expect(Buffer.from('-_-_', 'base64url')).toEqual(Buffer.from([ 0xfb, 0xff, 0xbf ]));
+});
+
+test('base64url: alphabets are interchangeable when decoding', () => {
+    expect(Buffer.from('+/+/', 'base64url')).toEqual(Buffer.from([ 0xfb, 0xff, 0xbf ]));
+    expect(Buffer.from('-_-_', 'base64')).toEqual(Buffer.from([ 0xfb, 0xff, 0xbf ]));
+});
+
+test('base64url: byteLength, write, fill and indexOf', () => {
+    expect(Buffer.byteLength('YW9ldQ', 'base64url')).toBe(4);
+    expect(Buffer.isEncoding('base64url')).toBe(true);
+
+    const buf = Buffer.alloc(6);
+    expect(buf.write('-_-_', 1, 'base64url')).toBe(3);
+    expect(buf).toEqual(Buffer.from([ 0, 0xfb, 0xff, 0xbf, 0, 0 ]));
+    expect(buf.indexOf('_7', 0, 'base64url')).toBe(2);
+
+    expect(Buffer.alloc(4, 'AQI', 'base64url')).toEqual(Buffer.from([ 1, 2, 1, 2 ]));
+});
+
+test('base64url: round trip of random bytes', () => {
+    const bytes = Buffer.from(Array.from({ length: 256 }, (_, i) => (i * 7919) & 0xff));
+    for (let size = 0; size < 16; size++) {
+        const slice = bytes.subarray(0, size);
+        expect(Buffer.from(slice.toString('base64url'), 'base64url')).toEqual(Buffer.from(slice));
+    }
+});
+
+test('Buffer.fromBase64 and toBase64 follow the TC39 proposal', () => {
+    const buffer = Buffer.fromBase64('-_8', { alphabet: 'base64url' });
+
+    expect(buffer).toBeInstanceOf(Buffer);
+    expect(buffer.toBase64()).toBe('+/8=');
+    expect(buffer.toBase64({ alphabet: 'base64url', omitPadding: true })).toBe('-_8');
+    expect(() => Buffer.fromBase64('+/8=', { alphabet: 'base64url' })).toThrow(SyntaxError);
+});
+
+test('Buffer.setFromBase64 writes into the buffer', () => {
+    const buffer = Buffer.alloc(4);
+
+    expect(buffer.setFromBase64('SGVsbG8=')).toEqual({ read: 4, written: 3 });
+    expect(buffer.toString('latin1', 0, 3)).toBe('Hel');
+});
+
+test('Buffer.from with fatal rejects malformed base64', () => {
+    expect(Buffer.from('SGVsbG8=', 'base64', { fatal: true }).toString()).toBe('Hello');
+    expect(Buffer.from('SGVs bG8=', 'base64').toString()).toBe('Hello');
+    expect(() => Buffer.from('SGVs bG8=', 'base64', { fatal: true })).toThrow(EncodingError);
+    expect(() => Buffer.from('+/8=', 'base64url', { fatal: true })).toThrow(EncodingError);
+    expect(Buffer.from('SGVsbG8', 'base64url', { fatal: true }).toString()).toBe('Hello');
+});
+
+test('base64 and base64url byteLength match Node.js without decoding', () => {
+    for (const input of [ '', 'QQ', 'QQ==', 'QUI=', 'QUJD', 'SGVsbG8', 'SGVsbG8=', 'SGVs bG8=', '=', 'a===' ]) {
+        expect(Buffer.byteLength(input, 'base64')).toBe(global.Buffer.byteLength(input, 'base64'));
+        expect(Buffer.byteLength(input, 'base64url')).toBe(global.Buffer.byteLength(input, 'base64url'));
+    }
+});
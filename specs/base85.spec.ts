@@ -0,0 +1,31 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { EncodingError } from '@errors/encoding.error';
+
+/**
+ * Tests
+ */
+
+test('ascii85 round-trips through Buffer.from, toString and byteLength', () => {
+    const text = 'Man is distinguished';
+    const encoded = Buffer.from(text).toString('ascii85');
+
+    expect(encoded).toBe('<~9jqo^BlbD-BleB1DJ+*+F(f,q~>');
+    expect(Buffer.from(encoded, 'ascii85').toString()).toBe(text);
+    expect(Buffer.byteLength(encoded, 'ascii85')).toBe(text.length);
+    expect(Buffer.byteLength('<~z z~>', 'ascii85')).toBe(8);
+    expect(() => Buffer.from('<~9j{o~>', 'ascii85')).toThrow(EncodingError);
+});
+
+test('z85 round-trips through Buffer.from, toString and byteLength', () => {
+    const buffer = Buffer.from('86 4f d2 6f b5 59 f7 5b'.replace(/ /g, ''), 'hex');
+
+    expect(buffer.toString('z85')).toBe('HelloWorld');
+    expect(Buffer.from('HelloWorld', 'z85')).toEqual(buffer);
+    expect(Buffer.byteLength('HelloWorld', 'z85')).toBe(8);
+    expect(() => Buffer.from('Hello"orld', 'z85')).toThrow(EncodingError);
+    expect(() => Buffer.from([ 1, 2, 3 ]).toString('z85')).toThrow(RangeError);
+});
@@ -0,0 +1,37 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { EncodingError } from '@errors/encoding.error';
+
+/**
+ * Tests
+ */
+
+test('cesu8 and mutf8 work with Buffer.from, toString and byteLength', () => {
+    expect(Array.from(Buffer.from('a😀', 'cesu8'))).toEqual([ 0x61, 0xED, 0xA0, 0xBD, 0xED, 0xB8, 0x80 ]);
+    expect(Buffer.from('a😀', 'cesu-8').toString('cesu8')).toBe('a😀');
+    expect(Array.from(Buffer.from('\u0000', 'mutf8'))).toEqual([ 0xC0, 0x80 ]);
+    expect(Buffer.from([ 0xC0, 0x80 ]).toString('mutf-8')).toBe('\u0000');
+    expect(Buffer.byteLength('a😀', 'cesu8')).toBe(7);
+    expect(Buffer.byteLength('\u0000', 'mutf8')).toBe(2);
+});
+
+test('cesu8 and mutf8 honour the fatal option', () => {
+    const utf8 = Buffer.from('😀');
+
+    expect(utf8.toString('cesu8')).toBe('����');
+    expect(() => utf8.toString('cesu8', { fatal: true })).toThrow(EncodingError);
+    expect(() => Buffer.from([ 0 ]).toString('mutf8', { fatal: true })).toThrow(EncodingError);
+});
+
+test('cesu8 and mutf8 never split a surrogate pair at the length limit', () => {
+    const buffer = Buffer.alloc(8);
+
+    expect(buffer.write('😀', 0, 3, 'cesu8')).toBe(0);
+    expect(buffer.write('😀', 0, 3, 'mutf8')).toBe(0);
+    expect(buffer.write('a😀', 0, 5, 'mutf8')).toBe(1);
+    expect(buffer.write('😀', 0, 6, 'mutf8')).toBe(6);
+    expect(Array.from(buffer.subarray(0, 6))).toEqual([ 0xED, 0xA0, 0xBD, 0xED, 0xB8, 0x80 ]);
+});
@@ -0,0 +1,33 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { EncodingError } from '@errors/encoding.error';
+
+/**
+ * Tests
+ */
+
+test('multi-byte encodings work with Buffer.from, toString and byteLength', () => {
+    const buffer = Buffer.from('日本語', 'shift_jis');
+
+    expect(Array.from(buffer)).toEqual([ 0x93, 0xFA, 0x96, 0x7B, 0x8C, 0xEA ]);
+    expect(buffer.toString('shift_jis')).toBe('日本語');
+    expect(Buffer.byteLength('中文😀', 'gb18030')).toBe(8);
+    expect(Buffer.from([ 199, 209, 177, 219 ]).toString('euc-kr')).toBe('한글');
+});
+
+test('multi-byte encodings are registered under their aliases in any case', () => {
+    expect(Buffer.isEncoding('Shift_JIS')).toBe(true);
+    expect(Buffer.isEncoding('GB2312')).toBe(true);
+    expect(Buffer.isEncoding('Big5-HKSCS')).toBe(true);
+    expect(Buffer.from([ 140, 99 ]).toString(<any> 'cp949')).toBe('똠');
+    expect(Buffer.from('中文', <any> 'sjis').toString(<any> 'windows-31j')).toBe('中文');
+});
+
+test('multi-byte encodings honour the fatal option', () => {
+    expect(Buffer.from([ 0x81 ]).toString('big5')).toBe('�');
+    expect(() => Buffer.from([ 0x81 ]).toString('big5', { fatal: true })).toThrow(EncodingError);
+    expect(() => Buffer.from('😀', 'euc-jp', { fatal: true })).toThrow(EncodingError);
+});
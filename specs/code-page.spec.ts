@@ -0,0 +1,48 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { EncodingError } from '@errors/encoding.error';
+import { transcode } from '@components/utf8.component';
+import { createSingleByteCodec } from '@components/code-page.component';
+
+/**
+ * Tests
+ */
+
+test('single-byte encodings work with Buffer.from, toString and byteLength', () => {
+    const buffer = Buffer.from('Привет', 'koi8-r');
+
+    expect(Array.from(buffer)).toEqual([ 240, 210, 201, 215, 197, 212 ]);
+    expect(buffer.toString('koi8-r')).toBe('Привет');
+    expect(Buffer.byteLength('Привет', 'windows-1251')).toBe(6);
+    expect(Buffer.from('€', 'windows-1252')[0]).toBe(0x80);
+});
+
+test('single-byte encodings are registered under their aliases in any case', () => {
+    expect(Buffer.isEncoding('Windows-1252')).toBe(true);
+    expect(Buffer.isEncoding('CP1251')).toBe(true);
+    expect(Buffer.isEncoding('iso-8859-8-i')).toBe(true);
+    expect(Buffer.from([ 0x80 ]).toString(<any> 'cp1252')).toBe('€');
+});
+
+test('single-byte encodings honour the fatal option', () => {
+    expect(Buffer.from([ 0xA5 ]).toString('iso-8859-3')).toBe('�');
+    expect(() => Buffer.from([ 0xA5 ]).toString('iso-8859-3', { fatal: true })).toThrow(EncodingError);
+    expect(() => Buffer.from('日', 'windows-1252', { fatal: true })).toThrow(EncodingError);
+});
+
+test('transcode converts between single-byte encodings and Unicode', () => {
+    const cp1251 = Buffer.from([ 207, 240, 232, 226, 229, 242 ]);
+
+    expect(Array.from(Buffer.transcode(cp1251, 'windows-1251', 'koi8-r'))).toEqual([ 240, 210, 201, 215, 197, 212 ]);
+    expect(Buffer.transcode(cp1251, 'windows-1251', 'utf8').toString()).toBe('Привет');
+    expect(Array.from(Buffer.transcode(Buffer.from('a€日'), 'utf8', <any> 'cp1252'))).toEqual([ 0x61, 0x80, 0x3F ]);
+    expect(Buffer.transcode(Buffer.from([ 0xA5 ]), 'iso-8859-3', 'utf8').toString()).toBe('�');
+});
+
+test('transcode reads single-byte encodings from the codec it is given', () => {
+    expect(Array.from(transcode(new Uint8Array([ 0x80 ]), createSingleByteCodec('windows-1252'), 'utf8'))).toEqual([ 0xE2, 0x82, 0xAC ]);
+    expect(() => transcode(new Uint8Array([ 0x80 ]), <any> 'windows-1252', 'utf8')).toThrow('unsupported encoding windows-1252');
+});
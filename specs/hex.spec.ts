@@ -3,6 +3,7 @@
  */
 
 import { Buffer } from '@providers/buffer.provider';
+import { EncodingError } from '@errors/encoding.error';
 
 /**
  * Tests
@@ -25,3 +26,36 @@ test('buffer.write("hex") should truncate odd string lengths', () => {
     expect(buf.write(str, 'hex')).toBe(31);
     expect(buf.toString('hex', 0, 32)).toBe(str.slice(0, -1) + '00');
 });
+
+test('Buffer.fromHex, toHex and setFromHex follow the TC39 proposal', () => {
+    const buffer = Buffer.fromHex('CAFE');
+
+    expect(buffer).toBeInstanceOf(Buffer);
+    expect(buffer.toHex()).toBe('cafe');
+    expect(() => Buffer.fromHex('caf')).toThrow(SyntaxError);
+    expect(buffer.setFromHex('0102ff')).toEqual({ read: 4, written: 2 });
+    expect(buffer.toHex()).toBe('0102');
+});
+
+test('Buffer.from with fatal rejects malformed hex', () => {
+    expect(Buffer.from('cafe', 'hex', { fatal: true })).toEqual(Buffer.from([ 0xCA, 0xFE ]));
+    expect(Buffer.from('cafe0', 'hex')).toEqual(Buffer.from([ 0xCA, 0xFE ]));
+    expect(() => Buffer.from('cafe0', 'hex', { fatal: true })).toThrow(EncodingError);
+});
+
+test('Buffer.from decodes invalid hex like Node.js unless fatal', () => {
+    for (const input of [ 'abzz', 'zzab', 'ab1z34', 'abc', 'a', '', 'AbCdEf', 'ab cd', '0x12' ]) {
+        expect(Array.from(Buffer.from(input, 'hex'))).toEqual(Array.from(global.Buffer.from(input, 'hex')));
+    }
+
+    expect(() => Buffer.from('abzz', 'hex', { fatal: true })).toThrow(EncodingError);
+});
+
+test('fill rejects a hex string that decodes to no bytes like Node.js', () => {
+    const buffer = Buffer.alloc(4, 1);
+
+    expect(() => buffer.fill('zz', 0, 4, 'hex')).toThrow('The argument \'value\' is invalid');
+    expect(() => global.Buffer.alloc(4, 1).fill('zz', 0, 4, 'hex')).toThrow();
+    expect(Array.from(buffer)).toEqual([ 1, 1, 1, 1 ]);
+    expect(Array.from(buffer.fill('abzz', 0, 4, 'hex'))).toEqual(Array.from(global.Buffer.alloc(4).fill('abzz', 0, 4, 'hex')));
+});
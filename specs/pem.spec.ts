@@ -0,0 +1,40 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { EncodingError } from '@errors/encoding.error';
+
+/**
+ * Tests
+ */
+
+test('base64 output wraps at the requested line length', () => {
+    const buffer = Buffer.alloc(100, 0xFF);
+    const lines = buffer.toString('base64', { lineLength: 76 }).split('\r\n');
+
+    expect(lines.map(line => line.length)).toEqual([ 76, 60 ]);
+    expect(Buffer.from(lines.join('\r\n'), 'base64').equals(buffer)).toBe(true);
+    expect(buffer.toString('base64', { lineLength: 64, lineBreak: '\n' }).split('\n')[0].length).toBe(64);
+    expect(Buffer.from('abc').toString('base64', { lineLength: 76 })).toBe('YWJj');
+    expect(() => buffer.toString('base64', { lineLength: 0 })).toThrow(RangeError);
+});
+
+test('toPEM and fromPEM round-trip a chain of blocks with headers', () => {
+    const first = Buffer.from('first certificate');
+    const second = Buffer.alloc(200, 0xAB);
+    const text = first.toPEM('CERTIFICATE') + second.toPEM('ENCRYPTED DATA', { 'Proc-Type': '4,ENCRYPTED' });
+    const blocks = Buffer.fromPEM(text);
+
+    expect(blocks.length).toBe(2);
+    expect(blocks[0].label).toBe('CERTIFICATE');
+    expect(blocks[0].data).toBeInstanceOf(Buffer);
+    expect(blocks[0].data.equals(first)).toBe(true);
+    expect(blocks[1].headers).toEqual({ 'Proc-Type': '4,ENCRYPTED' });
+    expect(blocks[1].data.equals(second)).toBe(true);
+});
+
+test('fromPEM rejects blocks without a matching END line', () => {
+    expect(() => Buffer.fromPEM('-----BEGIN CERTIFICATE-----\nAQID\n')).toThrow(EncodingError);
+    expect(Buffer.fromPEM('')).toEqual([]);
+});
@@ -0,0 +1,28 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { EncodingError } from '@errors/encoding.error';
+
+/**
+ * Tests
+ */
+
+test('percent round-trips raw bytes through Buffer.from and toString', () => {
+    const buffer = Buffer.from([ 0x63, 0x61, 0x66, 0xE9, 0x20, 0x7E ]); // "café ~" in latin1
+
+    expect(buffer.toString('percent')).toBe('caf%E9%20~');
+    expect(Buffer.from('caf%E9%20~', 'percent').equals(buffer)).toBe(true);
+    expect(Buffer.byteLength('caf%E9%20~', 'percent')).toBe(6);
+});
+
+test('percent honours the encode set and fatal options', () => {
+    const buffer = Buffer.from('a b/c');
+
+    expect(buffer.toString('percent', { encodeSet: 'path' })).toBe('a%20b/c');
+    expect(buffer.toString('percent', { encodeSet: 'form' })).toBe('a+b%2Fc');
+    expect(Buffer.from('a+b', 'percent', { encodeSet: 'form' }).toString()).toBe('a b');
+    expect(Buffer.from('a+b', 'percent').toString()).toBe('a+b');
+    expect(() => Buffer.from('%G0', 'percent', { fatal: true })).toThrow(EncodingError);
+});
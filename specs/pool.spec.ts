@@ -0,0 +1,123 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+
+/**
+ * Tests
+ */
+
+test('poolSize defaults to 8 KiB like Node.js', () => {
+    expect(Buffer.poolSize).toBe(8192);
+    expect(Buffer.poolSize).toBe(global.Buffer.poolSize);
+});
+
+test('small allocUnsafe buffers share the pool', () => {
+    const a = Buffer.allocUnsafe(10);
+    const b = Buffer.allocUnsafe(10);
+
+    expect(a.buffer).toBe(b.buffer);
+    expect(a.buffer.byteLength).toBe(Buffer.poolSize);
+    expect(b.byteOffset).toBe(a.byteOffset + 16); // Offsets are aligned to 8 bytes
+    expect(a.length).toBe(10);
+});
+
+test('pooled buffers do not overlap', () => {
+    const a = Buffer.allocUnsafe(3).fill(1);
+    const b = Buffer.allocUnsafe(3).fill(2);
+
+    expect(Array.from(a)).toEqual([ 1, 1, 1 ]);
+    expect(Array.from(b)).toEqual([ 2, 2, 2 ]);
+});
+
+test('small from calls share the pool like Node.js', () => {
+    const buffers = [ Buffer.from('hello'), Buffer.from([ 1, 2, 3 ]), Buffer.from(new Uint8Array([ 4, 5 ])) ];
+    const nodeBuffers = [ global.Buffer.from('hello'), global.Buffer.from([ 1, 2, 3 ]), global.Buffer.from(new Uint8Array([ 4, 5 ])) ];
+
+    for (let i = 0; i < buffers.length; i++) {
+        expect(buffers[i].buffer.byteLength).toBe(nodeBuffers[i].buffer.byteLength);
+        expect(buffers[i].byteLength).toBe(nodeBuffers[i].byteLength);
+    }
+
+    expect(buffers[0].buffer).toBe(buffers[1].buffer);
+    expect(buffers[1].buffer).toBe(buffers[2].buffer);
+    expect(buffers[0].toString()).toBe('hello');
+    expect(Array.from(buffers[2])).toEqual([ 4, 5 ]);
+});
+
+test('buffers of at least half the pool size are not pooled', () => {
+    const size = Buffer.poolSize >>> 1;
+
+    for (const buffer of [ Buffer.allocUnsafe(size), Buffer.from('a'.repeat(size)) ]) {
+        expect(buffer.byteOffset).toBe(0);
+        expect(buffer.buffer.byteLength).toBe(size);
+    }
+
+    expect(global.Buffer.allocUnsafe(size).buffer.byteLength).toBe(size);
+});
+
+test('a new slab is created when the pool is exhausted', () => {
+    const first = Buffer.allocUnsafe(4000);
+    const second = Buffer.allocUnsafe(4000);
+    const third = Buffer.allocUnsafe(4000);
+
+    expect(second.buffer).not.toBe(third.buffer);
+    expect(third.byteOffset).toBe(0);
+    expect(first.length + second.length + third.length).toBe(12000);
+});
+
+test('alloc, allocUnsafeSlow and ArrayBuffer views are never pooled', () => {
+    for (const buffer of [ Buffer.alloc(10), Buffer.allocUnsafeSlow(10) ]) {
+        expect(buffer.byteOffset).toBe(0);
+        expect(buffer.buffer.byteLength).toBe(10);
+    }
+
+    const arrayBuffer = new ArrayBuffer(16);
+    const view = Buffer.from(arrayBuffer, 4, 8);
+    expect(view.buffer).toBe(arrayBuffer);
+    expect(view.byteOffset).toBe(4);
+
+    const nodeSlow = global.Buffer.allocUnsafeSlow(10);
+    expect(nodeSlow.byteOffset).toBe(0);
+    expect(nodeSlow.buffer.byteLength).toBe(10);
+});
+
+test('allocUnsafeSlow validates the size', () => {
+    expect(() => Buffer.allocUnsafeSlow(<any> '10')).toThrow('The "size" argument must be of type number.');
+    expect(() => Buffer.allocUnsafeSlow(-1)).toThrow(RangeError);
+    expect(() => Buffer.allocUnsafe(-1)).toThrow(RangeError);
+});
+
+test('empty buffers are not pooled', () => {
+    expect(Buffer.allocUnsafe(0).buffer.byteLength).toBe(0);
+    expect(Buffer.from('').buffer.byteLength).toBe(0);
+});
+
+test('changing poolSize applies to the next slab', () => {
+    const poolSize = Buffer.poolSize;
+    try {
+        Buffer.poolSize = 64;
+
+        // Use up the current slab until a new one is created with the new size
+        let buffer = Buffer.allocUnsafe(31);
+        for (let i = 0; i < poolSize / 32 && buffer.buffer.byteLength !== 64; i++) {
+            buffer = Buffer.allocUnsafe(31);
+        }
+
+        expect(buffer.buffer.byteLength).toBe(64);
+        expect(Buffer.allocUnsafe(31).buffer).toBe(buffer.buffer);
+        expect(Buffer.allocUnsafe(32).buffer.byteLength).toBe(32);
+    } finally {
+        Buffer.poolSize = poolSize;
+    }
+});
+
+test('read methods use the byteOffset of pooled buffers', () => {
+    Buffer.allocUnsafe(5).fill(0xFF);
+    const buffer = Buffer.from([ 0x01, 0x02, 0x03, 0x04 ]);
+
+    expect(buffer.byteOffset).toBeGreaterThan(0);
+    expect(buffer.readUInt8(0)).toBe(0x01);
+    expect(buffer.readUInt32BE(0)).toBe(0x01020304);
+});
@@ -0,0 +1,26 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { EncodingError } from '@errors/encoding.error';
+
+/**
+ * Tests
+ */
+
+test('quoted-printable round-trips through Buffer.from and toString', () => {
+    const buffer = Buffer.from('Café = 5€\r\n' + 'x'.repeat(100));
+    const encoded = buffer.toString('quoted-printable');
+
+    expect(encoded.split('\r\n').every(line => line.length <= 76)).toBe(true);
+    expect(encoded.startsWith('Caf=C3=A9 =3D 5=E2=82=AC\r\n')).toBe(true);
+    expect(Buffer.from(encoded, 'quoted-printable').equals(buffer)).toBe(true);
+    expect(Buffer.isEncoding('Quoted-Printable')).toBe(true);
+});
+
+test('quoted-printable honours the wrapping and fatal options', () => {
+    expect(Buffer.from('abcdef').toString('quoted-printable', { lineLength: 4, lineBreak: '\n' })).toBe('abc=\ndef');
+    expect(Buffer.from('a=ZZ', 'quoted-printable').toString()).toBe('a=ZZ');
+    expect(() => Buffer.from('a=ZZ', 'quoted-printable', { fatal: true })).toThrow(EncodingError);
+});
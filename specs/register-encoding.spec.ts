@@ -0,0 +1,116 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { decodeASCII, encodeASCII } from '@components/charset.component';
+import { getEncoding, registerEncoding } from '@components/encoding.component';
+
+/**
+ * Types
+ */
+
+declare module '@providers/interfaces/buffer.interfaces' {
+    interface BufferEncodingMap {
+        rot13: true;
+        reversed: true;
+    }
+}
+
+/**
+ * Tests
+ */
+
+const rot13 = (data: string): string => data.replace(/[a-z]/gi, (char) => {
+    const base = char <= 'Z' ? 65 : 97;
+
+    return String.fromCharCode((char.charCodeAt(0) - base + 13) % 26 + base);
+});
+
+beforeAll(() => {
+    registerEncoding('ROT13', {
+        encode: (bytes, length) => rot13(encodeASCII(bytes, length)),
+        decode: (data, length) => decodeASCII(rot13(data), length),
+        byteLength: (data) => data.length
+    });
+
+    // Without byteLength, the length is measured by decoding
+    registerEncoding('reversed', {
+        encode: (bytes, length) => encodeASCII(bytes, length).split('').reverse().join(''),
+        decode: (data, length) => decodeASCII(data.split('').reverse().join(''), length)
+    });
+});
+
+test('registered encodings are recognized by isEncoding', () => {
+    expect(Buffer.isEncoding('rot13')).toBe(true);
+    expect(Buffer.isEncoding('Rot13')).toBe(true);
+    expect(Buffer.isEncoding('reversed')).toBe(true);
+    expect(Buffer.isEncoding('rot47')).toBe(false);
+});
+
+test('built-in encodings are registered', () => {
+    for (const name of [ 'hex', 'utf8', 'UTF-8', 'ascii', 'latin1', 'binary', 'base64', 'base64url', 'ucs2', 'ucs-2', 'utf16le', 'utf-16le' ]) {
+        expect(getEncoding(name)).toBeDefined();
+        expect(Buffer.isEncoding(name)).toBe(true);
+    }
+
+    expect(getEncoding('utf8')).toBe(getEncoding('utf-8'));
+    expect(getEncoding('unknown')).toBeUndefined();
+});
+
+test('from and toString use the registered codec', () => {
+    const buffer = Buffer.from('uryyb', 'rot13');
+
+    expect(buffer.toString()).toBe('hello');
+    expect(buffer.toString('rot13')).toBe('uryyb');
+    expect(buffer.toString('rot13', 1, 3)).toBe('ry');
+    expect(Buffer.from('olleh', 'reversed').toString()).toBe('hello');
+});
+
+test('byteLength uses the codec byteLength or the decoded length', () => {
+    expect(Buffer.byteLength('uryyb', 'rot13')).toBe(5);
+    expect(Buffer.byteLength('olleh', 'reversed')).toBe(5);
+});
+
+test('write, fill and indexOf use the registered codec', () => {
+    const buffer = Buffer.alloc(8);
+
+    expect(buffer.write('nop', 1, 'rot13')).toBe(3);
+    expect(buffer.toString('latin1', 1, 4)).toBe('abc');
+    expect(buffer.fill('nop', 4, 8, 'rot13').toString('latin1', 4, 8)).toBe('abca');
+    expect(buffer.indexOf('op', 2, 'rot13')).toBe(2);
+    expect(buffer.lastIndexOf('no', 7, 'rot13')).toBe(4);
+    expect(buffer.includes('ba', 0, 'reversed')).toBe(true);
+});
+
+test('re-registering a name replaces its codec', () => {
+    const utf8 = getEncoding('utf8')!;
+    try {
+        registerEncoding('utf8', { encode: () => 'custom', decode: () => new Uint8Array([ 1 ]) });
+
+        expect(Buffer.from('abc').toString('utf8')).toBe('custom');
+        expect(Array.from(Buffer.from('abc', 'utf8'))).toEqual([ 1 ]);
+        expect(Array.from(Buffer.alloc(2).fill('x', 0, 2, 'utf8'))).toEqual([ 1, 1 ]);
+        expect(Buffer.from('abc', 'utf-8').toString('utf-8')).toBe('abc'); // Aliases are registered separately
+    } finally {
+        registerEncoding('utf8', utf8);
+    }
+
+    expect(Buffer.from('abc', 'utf8').toString('utf8')).toBe('abc');
+});
+
+test('registerEncoding validates its arguments', () => {
+    expect(() => registerEncoding('', <any> { encode: () => '', decode: () => new Uint8Array() }))
+        .toThrow('registerEncoding name must be a non-empty string');
+    expect(() => registerEncoding('broken', <any> { encode: () => '' }))
+        .toThrow('registerEncoding codec must provide encode and decode functions');
+    expect(() => registerEncoding('broken', <any> { encode: () => '', decode: () => new Uint8Array(), byteLength: 3 }))
+        .toThrow('registerEncoding codec byteLength must be a function');
+    expect(Buffer.isEncoding('broken')).toBe(false);
+});
+
+test('unknown encodings still throw', () => {
+    expect(() => Buffer.from('abc', <any> 'rot47')).toThrow('Unknown encoding: rot47');
+    expect(() => Buffer.from('abc').toString(<any> 'rot47')).toThrow('Unknown encoding: rot47');
+    expect(() => Buffer.byteLength('abc', <any> 'rot47')).toThrow('Unknown encoding: rot47');
+});
@@ -32,4 +32,10 @@ describe('Buffer.slice', () => {
         buf2[0] = '!'.charCodeAt(0);
         expect(buf2.toString('ascii', 0, buf2.length)).toBe('!bc');
     });
+
+    test('an end of 0 gives an empty slice', () => {
+        expect(buffer.subarray(0, 0).length).toBe(0);
+        expect(buffer.subarray(1, 0).length).toBe(0);
+        expect(buffer.slice(0, 0).length).toBe(0);
+    });
 });
@@ -2,6 +2,7 @@
  * Imports
  */
 
+import { EncodingError } from '@errors/encoding.error';
 import { Buffer } from '@providers/buffer.provider';
 
 /**
@@ -102,14 +103,14 @@ test('utf8 replacement chars (2 byte sequences)', () => {
 
 test('utf8 replacement chars (3 byte sequences)', () => {
     expect(Buffer.from([ 0xE0 ]).toString()).toBe('\uFFFD');
-    expect(Buffer.from([ 0xE0, 0xAC ]).toString()).toBe('\uFFFD\uFFFD');
+    expect(Buffer.from([ 0xE0, 0xAC ]).toString()).toBe('\uFFFD');
     expect(Buffer.from([ 0xE0, 0xAC, 0xB9 ]).toString()).toBe('\u0B39');
 });
 
 test('utf8 replacement chars (4 byte sequences)', () => {
     expect(Buffer.from([ 0xF4 ]).toString()).toBe('\uFFFD');
-    expect(Buffer.from([ 0xF4, 0x8F ]).toString()).toBe('\uFFFD\uFFFD');
-    expect(Buffer.from([ 0xF4, 0x8F, 0x80 ]).toString()).toBe('\uFFFD\uFFFD\uFFFD');
+    expect(Buffer.from([ 0xF4, 0x8F ]).toString()).toBe('\uFFFD');
+    expect(Buffer.from([ 0xF4, 0x8F, 0x80 ]).toString()).toBe('\uFFFD');
     expect(Buffer.from([ 0xF4, 0x8F, 0x80, 0x84 ]).toString()).toBe('\uDBFC\uDC04');
     expect(Buffer.from([ 0xFF ]).toString()).toBe('\uFFFD');
     expect(Buffer.from([ 0xFF, 0x8F, 0x80, 0x84 ]).toString()).toBe('\uFFFD\uFFFD\uFFFD\uFFFD');
@@ -129,6 +130,54 @@ test('utf8 replacement chars for anything in the surrogate pair range', () => {
     expect(Buffer.from([ 0xEE, 0x80, 0x80 ]).toString()).toBe('\uE000');
 });
 
+test('utf8 replacement chars for invalid continuation bytes', () => {
+    expect(Buffer.from([ 0xC7, 0x41 ]).toString()).toBe('\uFFFDA');
+    expect(Buffer.from([ 0xE0, 0xAC, 0x41 ]).toString()).toBe('\uFFFDA');
+    expect(Buffer.from([ 0xF4, 0x90, 0x80, 0x80 ]).toString()).toBe('\uFFFD\uFFFD\uFFFD\uFFFD');
+});
+
+test('utf8 fatal mode throws on malformed data', () => {
+    const buffer = Buffer.from([ 0x68, 0x69, 0xE0, 0xAC ]);
+
+    expect(() => buffer.toString('utf8', { fatal: true })).toThrow(EncodingError);
+    expect(() => buffer.toString('utf8', { fatal: true })).toThrow(expect.objectContaining({ offset: 2 }));
+    expect(() => buffer.toString('utf8', 1, 4, { fatal: true })).toThrow(expect.objectContaining({ offset: 1 }));
+    expect(buffer.toString('utf8', 0, 2, { fatal: true })).toBe('hi');
+    expect(buffer.toString('utf8')).toBe('hi\uFFFD');
+});
+
 test('utf8 don\'t replace the replacement char', () => {
     expect(Buffer.from('\uFFFD').toString()).toBe('\uFFFD');
 });
+
+test('ascii clears the high bit while latin1 keeps it', () => {
+    const bytes = [ 0x63, 0x61, 0x66, 0xE9, 0x80, 0xFF ];
+    const buffer = Buffer.from(bytes);
+
+    expect(buffer.toString('ascii')).toBe(global.Buffer.from(bytes).toString('ascii'));
+    expect(buffer.toString('ascii')).toBe('cafi\u0000\u007F');
+    expect(buffer.toString('latin1')).toBe('café\u0080ÿ');
+    expect(buffer.toString('binary')).toBe(buffer.toString('latin1'));
+});
+
+test('ascii and latin1 write the low byte of each character', () => {
+    for (const encoding of [ 'ascii', 'latin1', 'binary' ] as const) {
+        const expected = Array.from(global.Buffer.from('é€A', encoding));
+
+        expect(Array.from(Buffer.from('é€A', encoding))).toEqual(expected);
+        expect(Buffer.byteLength('é€A', encoding)).toBe(global.Buffer.byteLength('é€A', encoding));
+        expect(Array.from(Buffer.alloc(5).fill('é€', 0, 5, encoding))).toEqual(Array.from(global.Buffer.alloc(5).fill('é€', 0, 5, encoding)));
+
+        const written = Buffer.alloc(4);
+        expect(written.write('éA', 1, encoding)).toBe(2);
+        expect(Array.from(written)).toEqual([ 0x00, 0xE9, 0x41, 0x00 ]);
+    }
+});
+
+test('ascii indexOf searches for the low byte of each character', () => {
+    const buffer = Buffer.from([ 0x69, 0xE9 ]);
+
+    expect(buffer.indexOf('é', 0, 'ascii')).toBe(global.Buffer.from([ 0x69, 0xE9 ]).indexOf('é', 0, 'ascii'));
+    expect(buffer.indexOf('é', 0, 'latin1')).toBe(1);
+    expect(buffer.includes('i', 1, 'ascii')).toBe(false);
+});
@@ -0,0 +1,67 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { transcode } from '@components/utf8.component';
+import { transcode as nodeTranscode } from 'node:buffer';
+
+/**
+ * Tests
+ */
+
+const encodings = [ 'ascii', 'latin1', 'utf8', 'utf16le' ] as const;
+const samples = [ '', 'hello', 'café', '€ 100', '世界', '😀 grin', '\uFFFD' ];
+
+describe.each(encodings)('from %s', (fromEncoding) => {
+    test.each(encodings)('to %s matches Node.js', (toEncoding) => {
+        // Node.js reads non-ASCII bytes of an ascii source inconsistently depending on the target encoding
+        const sources = fromEncoding === 'ascii' ? samples.filter(sample => /^[\x00-\x7F]*$/.test(sample)) : samples;
+
+        for (const sample of sources) {
+            const source = global.Buffer.from(sample, fromEncoding);
+            const expected = nodeTranscode(source, fromEncoding, toEncoding);
+
+            expect(Array.from(transcode(source, fromEncoding, toEncoding))).toEqual(Array.from(expected));
+        }
+    });
+});
+
+test('transcode latin1 to utf8', () => {
+    const result = Buffer.transcode(Buffer.from([ 0x63, 0x61, 0x66, 0xE9 ]), 'latin1', 'utf8');
+
+    expect(result).toBeInstanceOf(Buffer);
+    expect(result.toString()).toBe('café');
+});
+
+test('transcode utf16le to utf8', () => {
+    const source = Buffer.from('ab😀', 'utf16le');
+
+    expect(Buffer.transcode(source, 'ucs2', 'utf-8').toString()).toBe('ab😀');
+    expect(Buffer.transcode(source, 'UTF-16LE', 'UTF8').toString()).toBe('ab😀');
+});
+
+test('transcode substitutes ? for unrepresentable characters', () => {
+    expect(Buffer.transcode(Buffer.from('€'), 'utf8', 'ascii').toString('latin1')).toBe('?');
+    expect(Buffer.transcode(Buffer.from('é€'), 'utf8', 'latin1').toString('latin1')).toBe('é?');
+    expect(Buffer.transcode(Buffer.from('a😀b'), 'utf8', 'binary').toString('latin1')).toBe('a?b');
+    expect(Buffer.transcode(Buffer.from([ 0xE9 ]), 'latin1', 'ascii').toString('latin1')).toBe('?');
+});
+
+test('transcode replaces malformed input', () => {
+    expect(Array.from(Buffer.transcode(Buffer.from([ 0xFF, 0x41 ]), 'utf8', 'utf8'))).toEqual([ 0xEF, 0xBF, 0xBD, 0x41 ]);
+    expect(Array.from(Buffer.transcode(Buffer.from([ 0xE2, 0x82 ]), 'utf8', 'utf16le'))).toEqual([ 0xFD, 0xFF ]);
+    expect(Array.from(Buffer.transcode(Buffer.from([ 0xE9 ]), 'ascii', 'utf8'))).toEqual([ 0xEF, 0xBF, 0xBD ]);
+    expect(Array.from(Buffer.transcode(Buffer.from([ 0x3D, 0xD8, 0x41, 0x00 ]), 'utf16le', 'latin1'))).toEqual([ 0x3F, 0x41 ]);
+    expect(Array.from(Buffer.transcode(Buffer.from([ 0x3D, 0xD8, 0x41, 0x00 ]), 'utf16le', 'utf8'))).toEqual([ 0xEF, 0xBF, 0xBD, 0x41 ]);
+});
+
+test('transcode ignores a trailing odd utf16le byte', () => {
+    expect(Array.from(Buffer.transcode(Buffer.from([ 0x41, 0x00, 0x42 ]), 'utf16le', 'utf8'))).toEqual([ 0x41 ]);
+});
+
+test('transcode throws on invalid arguments', () => {
+    expect(() => Buffer.transcode(<any> 'ab', 'utf8', 'utf8')).toThrow('transcode source must be a Uint8Array');
+    expect(() => Buffer.transcode(Buffer.from('ab'), 'utf8', <any> 'hex')).toThrow('Unable to transcode Buffer: unsupported encoding hex');
+    expect(() => Buffer.transcode(Buffer.from('ab'), <any> 'base64', 'utf8')).toThrow('Unable to transcode Buffer: unsupported encoding base64');
+});
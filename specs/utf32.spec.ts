@@ -0,0 +1,33 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { EncodingError } from '@errors/encoding.error';
+
+/**
+ * Tests
+ */
+
+test('utf16be and utf32 work with Buffer.from, toString and byteLength', () => {
+    expect(Array.from(Buffer.from('Hi', 'utf16be'))).toEqual([ 0, 72, 0, 105 ]);
+    expect(Buffer.from([ 0, 72, 0, 105 ]).toString('utf-16be')).toBe('Hi');
+    expect(Buffer.from('a😀', 'utf32le').toString('utf32le')).toBe('a😀');
+    expect(Buffer.from('a😀', 'utf-32be').length).toBe(8);
+    expect(Buffer.byteLength('a😀', 'utf32be')).toBe(8);
+    expect(Buffer.byteLength('a😀', 'utf16be')).toBe(6);
+});
+
+test('utf16be and utf32 honour the bom option', () => {
+    const buffer = Buffer.from('Hi', 'utf32be', { bom: true });
+
+    expect(Array.from(buffer.subarray(0, 4))).toEqual([ 0, 0, 0xFE, 0xFF ]);
+    expect(buffer.toString('utf32be', { bom: true })).toBe('Hi');
+    expect(buffer.toString('utf32be')).toBe('\uFEFFHi');
+    expect(Buffer.from('Hi', 'utf16be', { bom: true }).toString('utf16be', { bom: true })).toBe('Hi');
+});
+
+test('utf32 honours the fatal option', () => {
+    expect(Buffer.from([ 0, 0, 0x11, 0 ]).toString('utf32le')).toBe('�');
+    expect(() => Buffer.from([ 0, 0, 0x11, 0 ]).toString('utf32le', { fatal: true })).toThrow(EncodingError);
+});
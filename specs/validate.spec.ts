@@ -0,0 +1,105 @@
+/**
+ * Imports
+ */
+
+import { isAscii } from '@components/charset.component';
+import { isUtf8 } from '@components/utf8.component';
+import { Buffer } from '@providers/buffer.provider';
+import { DataViewProvider } from '@providers/data-view.provider';
+import { isAscii as nodeIsAscii, isUtf8 as nodeIsUtf8 } from 'node:buffer';
+
+/**
+ * Tests
+ */
+
+const utf8Cases: Array<Array<number>> = [
+    [],
+    [ 0x00, 0x41, 0x7F ],
+    [ 0xC2, 0x80 ],
+    [ 0xDF, 0xBF ],
+    [ 0xE0, 0xA0, 0x80 ],
+    [ 0xED, 0x9F, 0xBF ],
+    [ 0xEE, 0x80, 0x80 ],
+    [ 0xF0, 0x90, 0x80, 0x80 ],
+    [ 0xF4, 0x8F, 0xBF, 0xBF ],
+    [ 0xEF, 0xBB, 0xBF, 0x41 ],
+    [ 0x80 ],
+    [ 0xBF, 0x41 ],
+    [ 0xC0, 0xAF ],
+    [ 0xC1, 0xBF ],
+    [ 0xE0, 0x80, 0xAF ],
+    [ 0xE0, 0x9F, 0xBF ],
+    [ 0xF0, 0x80, 0x80, 0xAF ],
+    [ 0xF0, 0x8F, 0xBF, 0xBF ],
+    [ 0xED, 0xA0, 0x80 ],
+    [ 0xED, 0xBF, 0xBF ],
+    [ 0xED, 0xA0, 0xBD, 0xED, 0xB8, 0x80 ],
+    [ 0xF4, 0x90, 0x80, 0x80 ],
+    [ 0xF5, 0x80, 0x80, 0x80 ],
+    [ 0xFF ],
+    [ 0xC2 ],
+    [ 0xE2, 0x82 ],
+    [ 0xF0, 0x9F, 0x98 ],
+    [ 0xC2, 0x41 ],
+    [ 0xE2, 0x41, 0xAC ]
+];
+
+test.each(utf8Cases)('isUtf8 matches Node.js (%#)', (...bytes) => {
+    const data = new Uint8Array(bytes);
+
+    expect(isUtf8(data)).toBe(nodeIsUtf8(data));
+});
+
+test('isUtf8 accepts valid text', () => {
+    expect(isUtf8(Buffer.from('Hello, 世界! 😀'))).toBe(true);
+    expect(isUtf8(Buffer.from('\uFFFD'))).toBe(true);
+    expect(isUtf8(Buffer.from('a'.repeat(1000) + '€'))).toBe(true);
+});
+
+test('isUtf8 rejects invalid data after a valid prefix', () => {
+    expect(isUtf8(Buffer.concat([ Buffer.from('a'.repeat(1000)), Buffer.from([ 0xFF ]) ]))).toBe(false);
+});
+
+test('isUtf8 accepts an ArrayBuffer and a DataViewProvider', () => {
+    const bytes = new Uint8Array([ 0x61, 0xE2, 0x82, 0xAC ]);
+
+    expect(isUtf8(bytes.buffer)).toBe(true);
+    expect(isUtf8(new DataViewProvider(bytes.buffer))).toBe(true);
+    expect(isUtf8(new Uint8Array([ 0xC0, 0xAF ]).buffer)).toBe(false);
+});
+
+test('isUtf8 only inspects the bytes of a view', () => {
+    const bytes = new Uint8Array([ 0xFF, 0x61, 0x62, 0xFF ]);
+
+    expect(isUtf8(bytes.subarray(1, 3))).toBe(true);
+});
+
+test('isUtf8 throws on invalid input', () => {
+    expect(() => isUtf8(<any> 'abc')).toThrow('isUtf8 input must be a Uint8Array or ArrayBuffer');
+    expect(() => isUtf8(<any> null)).toThrow('isUtf8 input must be a Uint8Array or ArrayBuffer');
+});
+
+const asciiCases: Array<Array<number>> = [
+    [],
+    [ 0x00 ],
+    [ 0x48, 0x69, 0x7F ],
+    [ 0x80 ],
+    [ 0x48, 0xE9 ],
+    [ 0xFF, 0x00 ]
+];
+
+test.each(asciiCases)('isAscii matches Node.js (%#)', (...bytes) => {
+    const data = new Uint8Array(bytes);
+
+    expect(isAscii(data)).toBe(nodeIsAscii(data));
+});
+
+test('isAscii accepts an ArrayBuffer and a DataViewProvider', () => {
+    expect(isAscii(new Uint8Array([ 0x68, 0x69 ]).buffer)).toBe(true);
+    expect(isAscii(new DataViewProvider(new Uint8Array([ 0x61, 0x80 ]).buffer))).toBe(false);
+    expect(isAscii(Buffer.from('hello, 世界'))).toBe(false);
+});
+
+test('isAscii throws on invalid input', () => {
+    expect(() => isAscii(<any> [ 0x61 ])).toThrow('isAscii input must be a Uint8Array or ArrayBuffer');
+});
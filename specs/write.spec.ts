@@ -69,3 +69,20 @@ test('large values do not improperly roll over (ref #80)', () => {
         expect(buf.readInt32BE(index * 4)).toBe(num);
     });
 });
+
+test('buffer.write encodes utf8 in place without splitting characters', () => {
+    const buf = Buffer.alloc(6, 0xff);
+    expect(buf.write('a€€', 1)).toBe(4);
+    expect(buf).toEqual(Buffer.from([ 0xff, 0x61, 0xe2, 0x82, 0xac, 0xff ]));
+
+    const long = Buffer.alloc(200);
+    expect(long.write('€'.repeat(100), 2)).toBe(198);
+    expect(long.toString('utf8', 2)).toBe('€'.repeat(66));
+});
+
+test('buffer.fill and alloc repeat multi-byte utf8 strings like node', () => {
+    expect(Buffer.alloc(7, '€a')).toEqual(Buffer.from([ 0xe2, 0x82, 0xac, 0x61, 0xe2, 0x82, 0xac ]));
+    expect(Buffer.alloc(2, '€')).toEqual(Buffer.from([ 0xe2, 0x82 ]));
+    expect(Buffer.alloc(5).fill('😀', 1)).toEqual(Buffer.from([ 0, 0xf0, 0x9f, 0x98, 0x80 ]));
+    expect(Buffer.alloc(3).fill('')).toEqual(Buffer.from([ 0, 0, 0 ]));
+});
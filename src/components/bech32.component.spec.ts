@@ -0,0 +1,73 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { EncodingError } from '@errors/encoding.error';
+import { decodeHEX } from '@components/charset.component';
+import { convertBits, decodeBech32, encodeBech32 } from '@components/bech32.component';
+
+/**
+ * Tests
+ */
+
+describe('Bech32 Encoding and Decoding', () => {
+    test('should regroup bits between bytes and words', () => {
+        expect(convertBits(new Uint8Array([ 0xFF ]), 8, 5)).toEqual(new Uint8Array([ 31, 28 ]));
+        expect(convertBits(new Uint8Array([ 31, 28 ]), 5, 8, false)).toEqual(new Uint8Array([ 0xFF ]));
+        expect(() => convertBits(new Uint8Array([ 31, 29 ]), 5, 8, false)).toThrow('invalid padding');
+        expect(() => convertBits([ 32 ], 5, 8)).toThrow(RangeError);
+        expect(() => convertBits([ 1 ], 0, 8)).toThrow(RangeError);
+    });
+
+    // Test vectors from BIP 173 and BIP 350
+    test.each([
+        [ 'A12UEL5L', 'bech32' ],
+        [ 'a12uel5l', 'bech32' ],
+        [ 'abcdef1qpzry9x8gf2tvdw0s3jn54khce6mua7lmqqqxw', 'bech32' ],
+        [ 'split1checkupstagehandshakeupstreamerranterredcaperred2y9e3w', 'bech32' ],
+        [ 'A1LQFN3A', 'bech32m' ],
+        [ 'abcdef1l7aum6echk45nj3s0wdvt2fg8x9yrzpqzd3ryx', 'bech32m' ]
+    ])('should decode and re-encode %s', (string, variant) => {
+        const result = decodeBech32(string);
+
+        expect(result.data).toBeInstanceOf(Buffer);
+        expect(result.variant).toBe(variant);
+        expect(encodeBech32(result.hrp, result.data, result.variant)).toBe(string.toLowerCase());
+    });
+
+    test('should encode a segwit address', () => {
+        const program = decodeHEX('751e76e8199196d454941c45d1b3a323f1433bd6');
+        const address = encodeBech32('bc', [ 0, ...convertBits(program, 8, 5) ]);
+        const { hrp, data } = decodeBech32(address);
+
+        expect(address).toBe('bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4');
+        expect(hrp).toBe('bc');
+        expect(data[0]).toBe(0);
+        expect(convertBits(data.subarray(1), 5, 8, false)).toEqual(program);
+    });
+
+    test.each([
+        [ 'pzry9x0s0muk', 'missing human-readable part' ],
+        [ '1pzry9x0s0muk', 'missing human-readable part' ],
+        [ 'x1b4n0q5v', 'Invalid bech32 character \'b\' at offset 2' ],
+        [ 'li1dgmt3', 'is too short' ],
+        [ 'A1G7SGD8', 'the checksum does not match' ],
+        [ 'a12UEL5L', 'mixed case at offset 3' ],
+        [ 'a1 2uel5l', 'Invalid bech32 character at offset 2' ]
+    ])('should reject %s', (string, message) => {
+        expect(() => decodeBech32(string)).toThrow(EncodingError);
+        expect(() => decodeBech32(string)).toThrow(message);
+    });
+
+    test('should enforce the length limit', () => {
+        const words = new Array(90).fill(0);
+
+        expect(() => encodeBech32('lnbc', words)).toThrow(RangeError);
+        expect(decodeBech32(encodeBech32('lnbc', words, 'bech32', Infinity), Infinity).data.length).toBe(90);
+        expect(() => decodeBech32(encodeBech32('lnbc', words, 'bech32', Infinity))).toThrow('exceeds the length limit');
+        expect(() => encodeBech32('', [])).toThrow(RangeError);
+        expect(() => encodeBech32('bc', [ 32 ])).toThrow(RangeError);
+        expect(() => encodeBech32('bc', [], <any> 'bech33')).toThrow(TypeError);
+    });
+});
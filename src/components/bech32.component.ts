@@ -0,0 +1,291 @@
+/**
+ * Import will remove at compile time
+ */
+
+import type { Bech32Result, Bech32Variant } from '@providers/interfaces/buffer.interfaces';
+
+/**
+ * Imports
+ */
+
+import { EncodingError } from '@errors/encoding.error';
+import { Buffer } from '@providers/buffer.provider';
+import { isInstance } from '@components/charset.component';
+import { bech32Chars, bech32LookupTable } from '@structs/lookup.struct';
+
+/**
+ * Regroups a sequence of `fromBits`-bit values into `toBits`-bit values, most significant bits first.
+ *
+ * ## Description:
+ * This is the `convertbits` function of BIP 173, used to convert between the bytes of a payload
+ * and the 5-bit words of a Bech32 data part.
+ * With `pad`, the last group is completed with zero bits; without it, leftover bits must be zero
+ * and fewer than `fromBits`, as required when converting 5-bit words back into bytes.
+ *
+ * - **Input**:
+ *   - `data`: The values to regroup, each smaller than `2 ** fromBits`.
+ *   - `fromBits`: The width of the input values (1 to 8).
+ *   - `toBits`: The width of the output values (1 to 8).
+ *   - `pad`: (Optional) Whether to pad the last group with zero bits (default is `true`).
+ *
+ * - **Output**:
+ *   - Returns a `Uint8Array` with one output value per element.
+ *
+ * ## Error Handling:
+ * - Throws a `RangeError` if a width is invalid, an input value is too large, or, without `pad`, the padding is invalid.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * const words = convertBits(new Uint8Array([ 0xFF ]), 8, 5);  // Uint8Array [ 31, 28 ]
+ * const bytes = convertBits(words, 5, 8, false);            // Uint8Array [ 255 ]
+ * ```
+ *
+ * @param data - The values to regroup.
+ * @param fromBits - The width of the input values.
+ * @param toBits - The width of the output values.
+ * @param pad - (Optional) Whether to pad the last group with zero bits.
+ * @returns The regrouped values.
+ * @throws {RangeError} If a width or value is invalid, or the padding is invalid.
+ */
+
+export function convertBits(data: ArrayLike<number>, fromBits: number, toBits: number, pad: boolean = true): Uint8Array {
+    if (!Number.isInteger(fromBits) || !Number.isInteger(toBits) || fromBits < 1 || fromBits > 8 || toBits < 1 || toBits > 8) {
+        throw new RangeError('convertBits widths must be integers between 1 and 8');
+    }
+
+    const result: Array<number> = [];
+    const maxValue = (1 << toBits) - 1;
+    let accumulator = 0;
+    let bits = 0;
+
+    for (let i = 0; i < data.length; i++) {
+        const value = data[i];
+        if (!Number.isInteger(value) || value < 0 || value >>> fromBits !== 0) {
+            throw new RangeError(`convertBits value ${ value } at index ${ i } does not fit in ${ fromBits } bits`);
+        }
+
+        accumulator = (accumulator << fromBits) | value;
+        bits += fromBits;
+
+        while (bits >= toBits) {
+            bits -= toBits;
+            result.push((accumulator >>> bits) & maxValue);
+        }
+
+        accumulator &= (1 << bits) - 1;
+    }
+
+    if (pad) {
+        if (bits > 0) result.push((accumulator << (toBits - bits)) & maxValue);
+    } else if (bits >= fromBits || accumulator !== 0) {
+        throw new RangeError('convertBits input has invalid padding');
+    }
+
+    return new Uint8Array(result);
+}
+
+/**
+ * Computes the BCH checksum polynomial of BIP 173 over the expanded human-readable part and the data words.
+ *
+ * @param hrp - The lower-case human-readable part.
+ * @param words - The 5-bit words, including the six checksum words when verifying.
+ * @returns The remainder of the polynomial, `1` for a valid Bech32 string and `0x2BC830A3` for a valid Bech32m string.
+ */
+
+function bech32Polymod(hrp: string, words: ArrayLike<number>): number {
+    const generators = [ 0x3B6A57B2, 0x26508E6D, 0x1EA119FA, 0x3D4233DD, 0x2A1462B3 ];
+    let checksum = 1;
+
+    const step = (value: number): void => {
+        const top = checksum >>> 25;
+        checksum = ((checksum & 0x1FFFFFF) << 5) ^ value;
+        for (let i = 0; i < 5; i++) {
+            if ((top >>> i) & 1) checksum ^= generators[i];
+        }
+    };
+
+    for (let i = 0; i < hrp.length; i++) step(hrp.charCodeAt(i) >>> 5);
+    step(0);
+    for (let i = 0; i < hrp.length; i++) step(hrp.charCodeAt(i) & 31);
+    for (let i = 0; i < words.length; i++) step(words[i]);
+
+    return checksum;
+}
+
+/**
+ * Encodes a human-readable part and 5-bit data words into a Bech32 or Bech32m string.
+ *
+ * ## Description:
+ * The string is made of the human-readable part (`hrp`), the separator `1`, one character per data word,
+ * and a six-character BCH checksum that covers both parts (BIP 173, and BIP 350 for `bech32m`).
+ * The data is given as 5-bit words, so that formats mixing words and bytes, such as a segwit witness version
+ * followed by a program, can be encoded; use `convertBits(bytes, 8, 5)` to regroup bytes into words.
+ *
+ * - **Input**:
+ *   - `hrp`: The human-readable part, made of 1 to 83 ASCII characters from `!` to `~`.
+ *   - `data`: The 5-bit words of the data part.
+ *   - `variant`: (Optional) The checksum variant (default is `'bech32'`).
+ *   - `limit`: (Optional) The maximum length of the string (default is `90`, as in BIP 173).
+ *
+ * - **Output**:
+ *   - Returns the lower-case Bech32 string.
+ *
+ * ## Error Handling:
+ * - Throws an error if `hrp` is not a string or `data` is not an array of numbers.
+ * - Throws a `TypeError` if the variant is unknown.
+ * - Throws a `RangeError` if the human-readable part is invalid, a word is larger than 31,
+ *   or the string would exceed `limit`.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * const program = decodeHEX('751e76e8199196d454941c45d1b3a323f1433bd6');
+ * const words = [ 0, ...convertBits(program, 8, 5) ];  // witness version 0, then the program
+ * console.log(encodeBech32('bc', words));  // Outputs: "bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4"
+ * ```
+ *
+ * @param hrp - The human-readable part.
+ * @param data - The 5-bit words of the data part.
+ * @param variant - (Optional) The checksum variant.
+ * @param limit - (Optional) The maximum length of the string.
+ * @returns The Bech32 string.
+ * @throws {Error} If `hrp` or `data` has the wrong type.
+ * @throws {TypeError} If the variant is unknown.
+ * @throws {RangeError} If the human-readable part, a word or the length is invalid.
+ */
+
+export function encodeBech32(hrp: string, data: ArrayLike<number>, variant: Bech32Variant = 'bech32', limit: number = 90): string {
+    if (typeof hrp !== 'string') {
+        throw new Error('encodeBech32 hrp must be a string');
+    }
+
+    if (!isInstance(data, Uint8Array) && !Array.isArray(data)) {
+        throw new Error('encodeBech32 data must be a Uint8Array or an array of numbers');
+    }
+
+    if (variant !== 'bech32' && variant !== 'bech32m') {
+        throw new TypeError('Unknown bech32 variant: ' + variant);
+    }
+
+    if (hrp.length < 1 || hrp.length > 83 || !/^[\x21-\x7E]+$/.test(hrp) || (hrp !== hrp.toLowerCase() && hrp !== hrp.toUpperCase())) {
+        throw new RangeError('encodeBech32 hrp must be 1 to 83 ASCII characters of a single case');
+    }
+
+    if (hrp.length + data.length + 7 > limit) {
+        throw new RangeError(`encodeBech32 result exceeds the length limit of ${ limit }`);
+    }
+
+    const lowerHrp = hrp.toLowerCase();
+    const words = new Array<number>(data.length + 6).fill(0);
+    let result = lowerHrp + '1';
+
+    for (let i = 0; i < data.length; i++) {
+        const word = data[i];
+        if (!Number.isInteger(word) || word < 0 || word > 31) {
+            throw new RangeError(`encodeBech32 word ${ word } at index ${ i } does not fit in 5 bits`);
+        }
+
+        words[i] = word;
+        result += bech32Chars[word];
+    }
+
+    const checksum = bech32Polymod(lowerHrp, words) ^ (variant === 'bech32' ? 1 : 0x2BC830A3);
+    for (let i = 0; i < 6; i++) {
+        result += bech32Chars[(checksum >>> (5 * (5 - i))) & 31];
+    }
+
+    return result;
+}
+
+/**
+ * Decodes a Bech32 or Bech32m string into its human-readable part and 5-bit data words.
+ *
+ * ## Description:
+ * The string is split at its last `1`, the characters of the data part are mapped to 5-bit words,
+ * and the checksum is verified against both variants; the matching one is returned as `variant`.
+ * Strings may be all lower-case or all upper-case, but not mixed.
+ * Use `convertBits(result.data, 5, 8, false)` to regroup the words into bytes.
+ *
+ * - **Input**:
+ *   - `data`: The Bech32 string.
+ *   - `limit`: (Optional) The maximum length of the string (default is `90`, as in BIP 173).
+ *   Pass `Infinity` for formats without a limit, such as Lightning invoices.
+ *
+ * - **Output**:
+ *   - Returns `{ hrp, data, variant }`, where `data` is a `Buffer` of words without the checksum.
+ *
+ * ## Error Handling:
+ * - Throws an error if `data` is not a string.
+ * - Throws an `EncodingError` with the offset of the problem if the string is too long, contains an invalid
+ *   or mixed-case character, has no human-readable part or checksum, or if the checksum does not match.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * const { hrp, data, variant } = decodeBech32('A12UEL5L');
+ * console.log(hrp, data.length, variant);  // Outputs: "a" 0 "bech32"
+ * ```
+ *
+ * @param data - The Bech32 string to decode.
+ * @param limit - (Optional) The maximum length of the string.
+ * @returns The human-readable part, the data words and the checksum variant.
+ * @throws {Error} If the input is not a string.
+ * @throws {EncodingError} If the string is not valid Bech32 or Bech32m.
+ */
+
+export function decodeBech32(data: string, limit: number = 90): Bech32Result {
+    if (typeof data !== 'string') {
+        throw new Error('decodeBech32 input must be a string');
+    }
+
+    if (data.length > limit) {
+        throw new EncodingError(`Invalid bech32 string: exceeds the length limit of ${ limit }`, 'bech32', limit);
+    }
+
+    let caseOf = '';
+    for (let i = 0; i < data.length; i++) {
+        const charCode = data.charCodeAt(i);
+        if (charCode < 0x21 || charCode > 0x7E) {
+            throw new EncodingError(`Invalid bech32 character at offset ${ i }`, 'bech32', i);
+        }
+
+        const charCase = charCode >= 0x41 && charCode <= 0x5A ? 'upper' : charCode >= 0x61 && charCode <= 0x7A ? 'lower' : '';
+        if (charCase && caseOf && charCase !== caseOf) {
+            throw new EncodingError(`Invalid bech32 string: mixed case at offset ${ i }`, 'bech32', i);
+        }
+
+        caseOf ||= charCase;
+    }
+
+    const lower = data.toLowerCase();
+    const separator = lower.lastIndexOf('1');
+    if (separator < 1) {
+        throw new EncodingError('Invalid bech32 string: missing human-readable part', 'bech32', Math.max(separator, 0));
+    }
+
+    if (lower.length - separator - 1 < 6) {
+        throw new EncodingError(`Invalid bech32 string: the checksum at offset ${ separator + 1 } is too short`, 'bech32', separator + 1);
+    }
+
+    const hrp = lower.slice(0, separator);
+    const words = new Uint8Array(lower.length - separator - 1);
+    for (let i = 0; i < words.length; i++) {
+        const value = bech32LookupTable[lower.charCodeAt(separator + 1 + i)];
+        if (!(value >= 0)) {
+            const offset = separator + 1 + i;
+
+            throw new EncodingError(`Invalid bech32 character '${ data[offset] }' at offset ${ offset }`, 'bech32', offset);
+        }
+
+        words[i] = value;
+    }
+
+    const polymod = bech32Polymod(hrp, words);
+    const variant = polymod === 1 ? 'bech32' : polymod === 0x2BC830A3 ? 'bech32m' : undefined;
+    if (!variant) {
+        throw new EncodingError('Invalid bech32 string: the checksum does not match', 'bech32', data.length - 6);
+    }
+
+    return { hrp, data: Buffer.from(words.subarray(0, words.length - 6)), variant };
+}
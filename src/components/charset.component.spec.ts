@@ -3,17 +3,49 @@
  */
 
 import {
+    createBaseXCodec,
+    decodeBase45,
+    encodeBase45,
+    decodeZ85,
+    encodeZ85,
     decodeASCII,
+    decodeAscii85,
+    decodeBase58,
+    decodeBase58Check,
+    decodeBase32,
+    decodeBase32Hex,
+    decodeCrockford32,
     decodeBase64,
+    decodeBase64URL,
     decodeHEX,
+    decodeLatin1,
     decodeUTF16LE,
+    decodeUTF16BE,
+    decodeUTF32LE,
+    decodeUTF32BE,
     encodeASCII,
+    encodeAscii85,
+    encodeBase58,
+    encodeBase58Check,
+    encodeBase32,
+    encodeBase32Hex,
+    encodeCrockford32,
     encodeBase64,
+    encodeBase64URL,
     encodeHEX,
+    encodeLatin1,
     encodeUTF16LE,
-    isInstance
+    encodeUTF16BE,
+    encodeUTF32LE,
+    encodeUTF32BE,
+    isInstance,
+    decodePercent,
+    encodePercent,
+    decodeQuotedPrintable,
+    encodeQuotedPrintable
 } from '@components/charset.component';
 import { decodeUTF8, encodeUTF8 } from '@components/utf8.component';
+import { EncodingError } from '@errors/encoding.error';
 
 /**
  * Tests
@@ -134,12 +166,13 @@ describe('ASCII Encoding and Decoding', () => {
             expect(result).toBe(expected);
         });
 
-        test('should handle bytes outside the ASCII range and truncate them to 0xFF', () => {
+        test('should clear the high bit of bytes outside the ASCII range', () => {
             const input = new Uint8Array([ 255, 256, 200 ]);
             const result = encodeASCII(input);
-            // 255 stays as 0xFF, 256 wraps to 0x00, and 200 stays as 0xC8
-            const expected = String.fromCharCode(0xFF, 0x00, 0xC8);
+            // 255 becomes 0x7F, 256 wraps to 0x00, and 200 becomes 0x48
+            const expected = String.fromCharCode(0x7F, 0x00, 0x48);
             expect(result).toBe(expected);
+            expect(result).toBe(Buffer.from(input).toString('ascii'));
         });
 
         test('should respect the provided length and truncate the string', () => {
@@ -154,6 +187,29 @@ describe('ASCII Encoding and Decoding', () => {
     });
 });
 
+describe('Latin1 Encoding and Decoding', () => {
+    test('should keep bytes above 0x7F when encoding', () => {
+        const input = new Uint8Array([ 255, 256, 200, 0x63, 0x61, 0x66, 0xE9 ]);
+
+        expect(encodeLatin1(input)).toBe(String.fromCharCode(0xFF, 0x00, 0xC8) + 'café');
+        expect(encodeLatin1(input)).toBe(Buffer.from(input).toString('latin1'));
+        expect(encodeLatin1(input, 2)).toBe(String.fromCharCode(0xFF, 0x00));
+    });
+
+    test('should keep the low byte of each character when decoding', () => {
+        const input = 'café€';
+
+        expect(decodeLatin1(input)).toEqual(new Uint8Array([ 0x63, 0x61, 0x66, 0xE9, 0xAC ]));
+        expect(Array.from(decodeLatin1(input))).toEqual(Array.from(Buffer.from(input, 'latin1')));
+        expect(decodeLatin1(input, 3)).toEqual(new Uint8Array([ 0x63, 0x61, 0x66 ]));
+    });
+
+    test('should throw an error for invalid input', () => {
+        expect(() => encodeLatin1(<any> 'abc')).toThrow('encodeLatin1 input must be a Uint8Array');
+        expect(() => decodeLatin1(<any> 42)).toThrow('decodeLatin1 input must be a string');
+    });
+});
+
 describe('UTF16 Encoding and Decoding', () => {
     describe('encodeUTF16', () => {
         test('should throw an error if input is not a Uint8Array', () => {
@@ -284,6 +340,57 @@ describe('UTF16 Encoding and Decoding', () => {
     });
 });
 
+describe('UTF-16BE and UTF-32 Encoding and Decoding', () => {
+    test('should read UTF-16BE code units high byte first', () => {
+        expect(encodeUTF16BE(new Uint8Array([ 0, 72, 0, 105, 0xD8, 0x00, 0xDF, 0x48 ]))).toBe('Hi𐍈');
+        expect(encodeUTF16BE(new Uint8Array([ 0, 72, 0, 0, 0, 105, 0 ]))).toBe('H\0i');
+        expect(encodeUTF16BE(new Uint8Array([ 0, 72, 0, 105 ]), 3)).toBe('H');
+        expect(Array.from(decodeUTF16BE('Hi𐍈'))).toEqual([ 0, 72, 0, 105, 0xD8, 0x00, 0xDF, 0x48 ]);
+        expect(Array.from(decodeUTF16BE('Hello', 5))).toEqual([ 0, 72, 0, 101 ]);
+    });
+
+    test('should read UTF-32 code points in both byte orders', () => {
+        expect(encodeUTF32LE(new Uint8Array([ 72, 0, 0, 0, 0x00, 0xF6, 0x01, 0x00 ]))).toBe('H😀');
+        expect(encodeUTF32BE(new Uint8Array([ 0, 0, 0, 72, 0x00, 0x01, 0xF6, 0x00 ]))).toBe('H😀');
+        expect(Array.from(decodeUTF32LE('H😀'))).toEqual([ 72, 0, 0, 0, 0x00, 0xF6, 0x01, 0x00 ]);
+        expect(Array.from(decodeUTF32BE('H😀'))).toEqual([ 0, 0, 0, 72, 0x00, 0x01, 0xF6, 0x00 ]);
+        expect(Array.from(decodeUTF32BE('H😀', 7))).toEqual([ 0, 0, 0, 72 ]);
+        expect(encodeUTF32LE(new Uint8Array([ 72, 0, 0, 0, 105, 0 ]))).toBe('H');
+    });
+
+    test('should strip and write byte order marks with the bom option', () => {
+        expect(encodeUTF16BE(new Uint8Array([ 0xFE, 0xFF, 0, 72 ]))).toBe('\uFEFFH');
+        expect(encodeUTF16BE(new Uint8Array([ 0xFE, 0xFF, 0, 72 ]), undefined, { bom: true })).toBe('H');
+        expect(encodeUTF32LE(new Uint8Array([ 0xFF, 0xFE, 0, 0, 72, 0, 0, 0 ]), undefined, { bom: true })).toBe('H');
+        expect(encodeUTF32BE(new Uint8Array([ 0, 0, 0xFE, 0xFF, 0, 0, 0, 72 ]), undefined, { bom: true })).toBe('H');
+        expect(Array.from(decodeUTF16BE('H', undefined, { bom: true }))).toEqual([ 0xFE, 0xFF, 0, 72 ]);
+        expect(Array.from(decodeUTF32LE('H', undefined, { bom: true }))).toEqual([ 0xFF, 0xFE, 0, 0, 72, 0, 0, 0 ]);
+        expect(Array.from(decodeUTF32BE('H', undefined, { bom: true }))).toEqual([ 0, 0, 0xFE, 0xFF, 0, 0, 0, 72 ]);
+    });
+
+    test('should replace invalid code points and lone surrogates unless fatal', () => {
+        const invalid = new Uint8Array([ 0x00, 0xD8, 0, 0, 0x00, 0x00, 0x11, 0x00 ]);
+
+        expect(encodeUTF32LE(invalid)).toBe('��');
+        expect(Array.from(decodeUTF32LE('\uD800'))).toEqual([ 0xFD, 0xFF, 0, 0 ]);
+        expect(encodeUTF16BE(new Uint8Array([ 0xD8, 0x00, 0, 72 ]))).toBe('\uD800H');
+        expect(() => encodeUTF32LE(invalid, undefined, { fatal: true }))
+            .toThrow(expect.objectContaining({ encoding: 'utf-32le', offset: 0 }));
+        expect(() => encodeUTF32BE(new Uint8Array([ 0, 0, 0, 72, 0 ]), undefined, { fatal: true }))
+            .toThrow(expect.objectContaining({ encoding: 'utf-32be', offset: 4 }));
+        expect(() => encodeUTF16BE(new Uint8Array([ 0, 72, 0xDC, 0x00 ]), undefined, { fatal: true }))
+            .toThrow(expect.objectContaining({ encoding: 'utf-16be', offset: 2 }));
+        expect(() => decodeUTF32BE('a\uDC00', undefined, { fatal: true })).toThrow(EncodingError);
+    });
+
+    test('should throw an error for invalid input', () => {
+        expect(() => encodeUTF16BE(<any> 'abc')).toThrow('encodeUTF16BE input must be a Uint8Array');
+        expect(() => decodeUTF16BE(<any> 42)).toThrow('decodeUTF16BE input must be a string');
+        expect(() => encodeUTF32LE(<any> 'abc')).toThrow('encodeUTF32LE input must be a Uint8Array');
+        expect(() => decodeUTF32BE(<any> 42)).toThrow('decodeUTF32BE input must be a string');
+    });
+});
+
 describe('encodeHEX and decodeHEX', () => {
     test('should throw an error if input is not a Uint8Array', () => {
         const invalidInput = 'not-a-uint8array'; // String input, not Uint8Array
@@ -338,11 +445,11 @@ describe('encodeHEX and decodeHEX', () => {
         expect(encoded).toBe(hexString);
     });
 
-    test('should throw an error for invalid hex characters in the string', () => {
-        const invalidHexString = 'xyz123'; // Invalid hex string containing non-hex characters
-        expect(() => {
-            decodeHEX(invalidHexString);
-        }).toThrow('Invalid hex string: contains non-hex characters');
+    test('should stop at the first pair with a non-hex character', () => {
+        expect(decodeHEX('xyz123')).toEqual(new Uint8Array(0));
+        expect(decodeHEX('abzz12')).toEqual(new Uint8Array([ 0xab ]));
+        expect(decodeHEX('ab1z')).toEqual(new Uint8Array([ 0xab ]));
+        expect(() => decodeHEX('xyz123', undefined, { fatal: true })).toThrow(EncodingError);
     });
 
     test('should handle provided length for encoding (truncate correctly)', () => {
@@ -514,3 +621,417 @@ describe('Base64 Encoding and Decoding', () => {
 });
 
 
+
+describe('Base64URL Encoding and Decoding', () => {
+    test('should encode bytes without padding using the url-safe alphabet', () => {
+        expect(encodeBase64URL(new Uint8Array([ 0xfb, 0xff, 0xbf ]))).toBe('-_-_');
+        expect(encodeBase64URL(new Uint8Array([ 1, 2, 3, 4 ]))).toBe('AQIDBA');
+        expect(encodeBase64URL(new Uint8Array([ 1, 2, 3, 4, 5 ]), 3)).toBe('AQID');
+    });
+
+    test('should decode padded and unpadded input', () => {
+        expect(decodeBase64URL('AQIDBA')).toEqual(new Uint8Array([ 1, 2, 3, 4 ]));
+        expect(decodeBase64URL('AQIDBA==')).toEqual(new Uint8Array([ 1, 2, 3, 4 ]));
+        expect(decodeBase64URL('-_-_', 2)).toEqual(new Uint8Array([ 0xfb, 0xff ]));
+    });
+
+    test('should throw for invalid input types', () => {
+        expect(() => encodeBase64URL(<any> 'abc')).toThrow('encodeBase64URL input must be a Uint8Array');
+        expect(() => decodeBase64URL(<any> 123)).toThrow('decodeBase64URL input must be a string');
+    });
+});
+
+describe('Fatal Base64 and hex decoding', () => {
+    const offsetOf = (decode: () => unknown): number | undefined => {
+        try {
+            decode();
+        } catch (error) {
+            if (error instanceof EncodingError) return error.offset;
+            throw error;
+        }
+
+        return undefined;
+    };
+
+    test('should decode canonical input like the lenient decoders', () => {
+        expect(decodeBase64('SGVsbG8=', undefined, { fatal: true })).toEqual(new Uint8Array([ 72, 101, 108, 108, 111 ]));
+        expect(decodeBase64URL('-_-_', undefined, { fatal: true })).toEqual(new Uint8Array([ 251, 255, 191 ]));
+        expect(decodeBase64URL('AQIDBA==', undefined, { fatal: true })).toEqual(new Uint8Array([ 1, 2, 3, 4 ]));
+        expect(decodeHEX('ff1020', undefined, { fatal: true })).toEqual(new Uint8Array([ 255, 16, 32 ]));
+        expect(decodeBase64('', undefined, { fatal: true })).toEqual(new Uint8Array(0));
+    });
+
+    test('should report the offset of invalid Base64 characters', () => {
+        expect(offsetOf(() => decodeBase64('SGV sbG8=', undefined, { fatal: true }))).toBe(3);
+        expect(offsetOf(() => decodeBase64('-_-_', undefined, { fatal: true }))).toBe(0);
+        expect(offsetOf(() => decodeBase64URL('AQ+D', undefined, { fatal: true }))).toBe(2);
+        expect(offsetOf(() => decodeBase64('SGVsbG8€', undefined, { fatal: true }))).toBe(7);
+    });
+
+    test('should reject wrong padding', () => {
+        expect(offsetOf(() => decodeBase64('SGVsbG8', undefined, { fatal: true }))).toBe(7);
+        expect(offsetOf(() => decodeBase64('SA=', undefined, { fatal: true }))).toBe(3);
+        expect(offsetOf(() => decodeBase64('SA==SA==', undefined, { fatal: true }))).toBe(4);
+        expect(offsetOf(() => decodeBase64('AQID=', undefined, { fatal: true }))).toBe(4);
+        expect(offsetOf(() => decodeBase64('S===', undefined, { fatal: true }))).toBe(0);
+        expect(offsetOf(() => decodeBase64URL('SA=', undefined, { fatal: true }))).toBe(3);
+        expect(decodeBase64URL('SA', undefined, { fatal: true })).toEqual(new Uint8Array([ 72 ]));
+    });
+
+    test('should reject non-zero trailing bits', () => {
+        expect(offsetOf(() => decodeBase64('SB==', undefined, { fatal: true }))).toBe(1);
+        expect(offsetOf(() => decodeBase64('SGVsbG9=', undefined, { fatal: true }))).toBe(6);
+        expect(decodeBase64('SB==')).toEqual(new Uint8Array([ 72 ]));
+    });
+
+    test('should report the offset of invalid hex input', () => {
+        expect(offsetOf(() => decodeHEX('ff1g20', undefined, { fatal: true }))).toBe(3);
+        expect(offsetOf(() => decodeHEX('ff102', undefined, { fatal: true }))).toBe(4);
+        expect(decodeHEX('ff102')).toEqual(new Uint8Array([ 255, 16 ]));
+    });
+
+    test('should throw an EncodingError naming the encoding', () => {
+        expect(() => decodeBase64URL('AQ+D', undefined, { fatal: true })).toThrow(
+            new EncodingError('Invalid base64url character \'+\' at offset 2', 'base64url', 2)
+        );
+        expect(() => decodeHEX('abc', undefined, { fatal: true })).toThrow('Invalid hex length');
+    });
+});
+
+describe('Base32 Encoding and Decoding', () => {
+    const toBytes = (text: string): Uint8Array => new Uint8Array(Array.from(text, char => char.charCodeAt(0)));
+
+    // Test vectors from RFC 4648 §10
+    const vectors = [
+        [ '', '', '' ],
+        [ 'f', 'MY======', 'CO======' ],
+        [ 'fo', 'MZXQ====', 'CPNG====' ],
+        [ 'foo', 'MZXW6===', 'CPNMU===' ],
+        [ 'foob', 'MZXW6YQ=', 'CPNMUOG=' ],
+        [ 'fooba', 'MZXW6YTB', 'CPNMUOJ1' ],
+        [ 'foobar', 'MZXW6YTBOI======', 'CPNMUOJ1E8======' ]
+    ];
+
+    test.each(vectors)('should encode and decode "%s"', (text, base32, base32hex) => {
+        expect(encodeBase32(toBytes(text))).toBe(base32);
+        expect(encodeBase32Hex(toBytes(text))).toBe(base32hex);
+        expect(decodeBase32(base32)).toEqual(toBytes(text));
+        expect(decodeBase32Hex(base32hex)).toEqual(toBytes(text));
+    });
+
+    test('should omit padding when requested', () => {
+        expect(encodeBase32(toBytes('foobar'), undefined, { padding: false })).toBe('MZXW6YTBOI');
+        expect(encodeBase32Hex(toBytes('f'), undefined, { padding: false })).toBe('CO');
+        expect(encodeBase32(toBytes('foobar'), 3, { padding: false })).toBe('MZXW6');
+    });
+
+    test('should decode case-insensitively, with or without padding', () => {
+        expect(decodeBase32('mzxw6ytboi')).toEqual(toBytes('foobar'));
+        expect(decodeBase32Hex('cpnmuoj1e8')).toEqual(toBytes('foobar'));
+        expect(decodeBase32('MZXW 6YTB OI')).toEqual(toBytes('foobar'));
+        expect(decodeBase32('MZXW6YTBOI', 2)).toEqual(toBytes('fo'));
+    });
+
+    test('should encode and decode Crockford Base32', () => {
+        expect(encodeCrockford32(toBytes('foo'))).toBe('CSQPY');
+        expect(encodeCrockford32(toBytes('foo'), undefined, { padding: true })).toBe('CSQPY===');
+        expect(decodeCrockford32('csqpy')).toEqual(toBytes('foo'));
+        expect(decodeCrockford32('CS-QPY')).toEqual(toBytes('foo'));
+        expect(decodeCrockford32('10')).toEqual(decodeCrockford32('LO'));
+        expect(decodeCrockford32('1o')).toEqual(decodeCrockford32('i0'));
+    });
+
+    test('should reject malformed input in fatal mode', () => {
+        expect(() => decodeBase32('MZXW1', undefined, { fatal: true })).toThrow(
+            new EncodingError('Invalid base32 character \'1\' at offset 4', 'base32', 4)
+        );
+        expect(() => decodeBase32('MZX', undefined, { fatal: true })).toThrow(EncodingError);
+        expect(() => decodeBase32('MZXW6==', undefined, { fatal: true })).toThrow(EncodingError);
+        expect(() => decodeBase32('MZXW6====', undefined, { fatal: true })).toThrow(EncodingError);
+        expect(() => decodeBase32('MZ======', undefined, { fatal: true })).toThrow(EncodingError);
+        expect(() => decodeBase32Hex('CPNMW', undefined, { fatal: true })).toThrow(EncodingError);
+        expect(() => decodeCrockford32('CSQPY===', undefined, { fatal: true })).toThrow(EncodingError);
+        expect(() => decodeCrockford32('CSQPU', undefined, { fatal: true })).toThrow(EncodingError);
+        expect(decodeBase32('mzxw6', undefined, { fatal: true })).toEqual(toBytes('foo'));
+        expect(decodeCrockford32('cs-qpy', undefined, { fatal: true })).toEqual(toBytes('foo'));
+    });
+});
+
+describe('Base58 Encoding and Decoding', () => {
+    const toBytes = (text: string): Uint8Array => new Uint8Array(Array.from(text, char => char.charCodeAt(0)));
+
+    test('should encode and decode with the Bitcoin alphabet', () => {
+        expect(encodeBase58(toBytes('Hello World!'))).toBe('2NEpo7TZRRrLZSi2U');
+        expect(decodeBase58('2NEpo7TZRRrLZSi2U')).toEqual(toBytes('Hello World!'));
+        expect(encodeBase58(new Uint8Array(0))).toBe('');
+        expect(decodeBase58('')).toEqual(new Uint8Array(0));
+    });
+
+    test('should preserve leading zero bytes', () => {
+        expect(encodeBase58(new Uint8Array([ 0, 0, 40, 127, 180 ]))).toBe('11Ebyu');
+        expect(decodeBase58('11Ebyu')).toEqual(new Uint8Array([ 0, 0, 40, 127, 180 ]));
+        expect(encodeBase58(new Uint8Array(3))).toBe('111');
+        expect(decodeBase58('111')).toEqual(new Uint8Array(3));
+    });
+
+    test('should round-trip large inputs', () => {
+        const bytes = new Uint8Array(2048).map((_, index) => (index * 7919) & 0xFF);
+        bytes[0] = 0;
+
+        expect(decodeBase58(encodeBase58(bytes))).toEqual(bytes);
+        expect(decodeBase58(encodeBase58(bytes.subarray(0, 255)))).toEqual(bytes.subarray(0, 255));
+    });
+
+    test('should skip invalid characters unless fatal', () => {
+        expect(decodeBase58('11E byu')).toEqual(new Uint8Array([ 0, 0, 40, 127, 180 ]));
+        expect(() => decodeBase58('11E0byu', undefined, { fatal: true })).toThrow(
+            new EncodingError('Invalid base58 character \'0\' at offset 3', 'base58', 3)
+        );
+    });
+
+    test('should append and verify a double SHA-256 checksum', () => {
+        const payload = new Uint8Array([
+            0x00, 0xF5, 0x4A, 0x58, 0x51, 0xE9, 0x37, 0x2B, 0x87, 0x81, 0x0A,
+            0x8E, 0x60, 0xCD, 0xD2, 0xE7, 0xCF, 0xD8, 0x0B, 0x6E, 0x31
+        ]);
+
+        expect(encodeBase58Check(payload)).toBe('1PMycacnJaSqwwJqjawXBErnLsZ7RkXUAs');
+        expect(decodeBase58Check('1PMycacnJaSqwwJqjawXBErnLsZ7RkXUAs')).toEqual(payload);
+        expect(encodeBase58Check(new Uint8Array(21))).toBe('1111111111111111111114oLvT2');
+        expect(() => decodeBase58Check('1PMycacnJaSqwwJqjawXBErnLsZ7RkXUAt')).toThrow(EncodingError);
+        expect(() => decodeBase58Check('1')).toThrow('the checksum is missing');
+    });
+});
+
+describe('Ascii85 and Z85 Encoding and Decoding', () => {
+    const toBytes = (text: string): Uint8Array => new Uint8Array(Array.from(text, char => char.charCodeAt(0)));
+    const helloWorld = new Uint8Array([ 0x86, 0x4F, 0xD2, 0x6F, 0xB5, 0x59, 0xF7, 0x5B ]);
+
+    test('should encode Ascii85 with delimiters, partial groups and z compression', () => {
+        expect(encodeAscii85(toBytes('Man is distinguished'))).toBe('<~9jqo^BlbD-BleB1DJ+*+F(f,q~>');
+        expect(encodeAscii85(toBytes('Man'))).toBe('<~9jqo~>');
+        expect(encodeAscii85(new Uint8Array(8))).toBe('<~zz~>');
+        expect(encodeAscii85(new Uint8Array(3))).toBe('<~!!!!~>');
+        expect(encodeAscii85(new Uint8Array([ 0xFF, 0xFF, 0xFF, 0xFF ]))).toBe('<~s8W-!~>');
+        expect(encodeAscii85(new Uint8Array(0))).toBe('<~~>');
+    });
+
+    test('should decode Ascii85 with or without delimiters, ignoring whitespace', () => {
+        expect(decodeAscii85('<~9jqo^BlbD-BleB1DJ+*+F(f,q~>')).toEqual(toBytes('Man is distinguished'));
+        expect(decodeAscii85(' <~9jqo^\nBlbD-\r\nBleB1DJ+*+F(f,q~>')).toEqual(toBytes('Man is distinguished'));
+        expect(decodeAscii85('9jqo')).toEqual(toBytes('Man'));
+        expect(decodeAscii85('<~zz~>trailing')).toEqual(new Uint8Array(8));
+        expect(decodeAscii85('<~9jqo^BlbD-~>', 5)).toEqual(toBytes('Man i'));
+    });
+
+    test('should size the decoded Ascii85 bytes from the input', () => {
+        const bytes = new Uint8Array(1000).map((_, i) => i * 7 + 1);
+        const decoded = decodeAscii85(encodeAscii85(bytes));
+
+        expect(decoded).toEqual(bytes);
+        expect(decoded.buffer.byteLength).toBeLessThanOrEqual(1004);
+        expect(decodeAscii85('<~zz9jqo~>').buffer.byteLength).toBe(12);
+    });
+
+    test('should reject invalid Ascii85 groups', () => {
+        expect(() => decodeAscii85('<~9jvo~>')).toThrow(new EncodingError('Invalid ascii85 character \'v\' at offset 4', 'ascii85', 4));
+        expect(() => decodeAscii85('<~9jzo~>')).toThrow(EncodingError);
+        expect(() => decodeAscii85('<~s8W-"~>')).toThrow('the value exceeds 32 bits');
+        expect(() => decodeAscii85('<~9jqo^B~>')).toThrow('a single character cannot encode a byte');
+        expect(() => decodeAscii85('<~9jqo~')).toThrow(EncodingError);
+    });
+
+    test('should encode and decode Z85', () => {
+        expect(encodeZ85(helloWorld)).toBe('HelloWorld');
+        expect(decodeZ85('HelloWorld')).toEqual(helloWorld);
+        expect(encodeZ85(new Uint8Array(0))).toBe('');
+        expect(decodeZ85(encodeZ85(new Uint8Array([ 0xFF, 0xFF, 0xFF, 0xFF, 0, 0, 0, 0 ]))))
+            .toEqual(new Uint8Array([ 0xFF, 0xFF, 0xFF, 0xFF, 0, 0, 0, 0 ]));
+    });
+
+    test('should reject invalid Z85 input', () => {
+        expect(() => encodeZ85(new Uint8Array(3))).toThrow(RangeError);
+        expect(() => decodeZ85('Hello World')).toThrow(new EncodingError('Invalid z85 character \' \' at offset 5', 'z85', 5));
+        expect(() => decodeZ85('HelloWorl')).toThrow('the group at offset 5 is incomplete');
+        expect(() => decodeZ85('%nSc1')).toThrow('the value exceeds 32 bits');
+    });
+});
+
+describe('Base45 Encoding and Decoding', () => {
+    const toBytes = (text: string): Uint8Array => new Uint8Array(Array.from(text, char => char.charCodeAt(0)));
+
+    // Test vectors from RFC 9285 §4.3 and §4.4
+    test.each([
+        [ 'AB', 'BB8' ],
+        [ 'Hello!!', '%69 VD92EX0' ],
+        [ 'base-45', 'UJCLQE7W581' ],
+        [ 'ietf!', 'QED8WEX0' ],
+        [ '', '' ]
+    ])('should encode and decode "%s"', (text, base45) => {
+        expect(encodeBase45(toBytes(text))).toBe(base45);
+        expect(decodeBase45(base45)).toEqual(toBytes(text));
+    });
+
+    test('should round-trip the extreme values', () => {
+        const bytes = new Uint8Array([ 0xFF, 0xFF, 0x00, 0x00, 0xFF ]);
+
+        expect(encodeBase45(bytes)).toBe('FGW000U5');
+        expect(decodeBase45('FGW000U5')).toEqual(bytes);
+        expect(decodeBase45('%69 VD92EX0', 2)).toEqual(toBytes('He'));
+    });
+
+    test('should reject out-of-range groups and invalid characters', () => {
+        expect(() => decodeBase45('GGW')).toThrow(new EncodingError('Invalid base45 group at offset 0: the value 65536 is out of range', 'base45', 0));
+        expect(() => decodeBase45('BB86')).toThrow('the character at offset 3 does not complete a byte');
+        expect(() => decodeBase45('BB8:6')).toThrow('Invalid base45 group at offset 3');
+        expect(() => decodeBase45('bb8')).toThrow('Invalid base45 character \'b\' at offset 0');
+    });
+});
+
+describe('createBaseXCodec', () => {
+    const base36 = createBaseXCodec('0123456789abcdefghijklmnopqrstuvwxyz');
+    const base62 = createBaseXCodec('0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz');
+
+    test('should write bytes as a big-endian number', () => {
+        const bytes = new Uint8Array(64).map((_, index) => (index * 151 + 7) & 0xFF);
+        const expected = BigInt('0x' + encodeHEX(bytes)).toString(36);
+
+        expect(base36.encode(bytes)).toBe(expected);
+        expect(base36.decode(expected)).toEqual(bytes);
+        expect(base62.encode(new Uint8Array([ 104, 101, 108, 108, 111 ]))).toBe('7tQLFHz');
+    });
+
+    test('should preserve leading zero bytes', () => {
+        expect(base62.encode(new Uint8Array([ 0, 255 ]))).toBe('047');
+        expect(base62.decode('047')).toEqual(new Uint8Array([ 0, 255 ]));
+        expect(base36.encode(new Uint8Array(2))).toBe('00');
+        expect(base36.decode('')).toEqual(new Uint8Array(0));
+    });
+
+    test('should match encodeBase58 with the Bitcoin alphabet', () => {
+        const base58 = createBaseXCodec('123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz');
+        const bytes = new Uint8Array([ 0, 0, 40, 127, 180 ]);
+
+        expect(base58.encode(bytes)).toBe(encodeBase58(bytes));
+    });
+
+    test('should support binary and multi-unit alphabets', () => {
+        const binary = createBaseXCodec('01');
+        const emoji = createBaseXCodec('🌑🌒🌓🌔🌕🌖🌗🌘');
+
+        expect(binary.encode(new Uint8Array([ 5 ]))).toBe('101');
+        expect(binary.decode('00000101')).toEqual(new Uint8Array([ 0, 0, 0, 0, 0, 5 ]));
+        expect(emoji.decode(emoji.encode(new Uint8Array([ 1, 2, 3 ])))).toEqual(new Uint8Array([ 1, 2, 3 ]));
+    });
+
+    test('should round-trip inputs of several kilobytes', () => {
+        const bytes = new Uint8Array(8192).map((_, index) => (index * 7919) & 0xFF);
+
+        expect(base62.decode(base62.encode(bytes))).toEqual(bytes);
+    });
+
+    test('should skip unknown characters unless fatal', () => {
+        expect(base62.decode('0 47')).toEqual(new Uint8Array([ 0, 255 ]));
+        expect(() => base62.decode('0-47', undefined, { fatal: true })).toThrow(
+            new EncodingError('Invalid base62 character \'-\' at offset 1', 'base62', 1)
+        );
+    });
+
+    test('should reject invalid alphabets', () => {
+        expect(() => createBaseXCodec(<any> 62)).toThrow(TypeError);
+        expect(() => createBaseXCodec('0')).toThrow(TypeError);
+        expect(() => createBaseXCodec('0120')).toThrow('createBaseXCodec alphabet contains \'0\' more than once');
+    });
+});
+
+describe('Quoted-printable Encoding and Decoding', () => {
+    test('should escape non-printable bytes and =', () => {
+        expect(encodeQuotedPrintable(decodeUTF8('Caf\u00E9 = 5\u20AC'))).toBe('Caf=C3=A9 =3D 5=E2=82=AC');
+        expect(encodeQuotedPrintable(new Uint8Array([ 0x61, 0x62, 0x63 ]), 2)).toBe('ab');
+    });
+
+    test('should keep CRLF as hard line breaks and escape trailing whitespace', () => {
+        expect(encodeQuotedPrintable(decodeUTF8('a \r\nb\t'))).toBe('a=20\r\nb=09');
+        expect(encodeQuotedPrintable(decodeUTF8('a\nb\r'))).toBe('a=0Ab=0D');
+    });
+
+    test('should wrap long lines with soft line breaks without splitting escapes', () => {
+        const encoded = encodeQuotedPrintable(decodeUTF8('x'.repeat(74) + '\u00E9'));
+        expect(encoded).toBe('x'.repeat(74) + '=\r\n=C3=A9');
+        expect(encodeQuotedPrintable(decodeUTF8('x'.repeat(76)))).toBe('x'.repeat(76));
+        expect(encodeQuotedPrintable(decodeUTF8('x'.repeat(77)))).toBe('x'.repeat(75) + '=\r\nxx');
+        expect(encodeQuotedPrintable(decodeUTF8('abcdef'), undefined, { lineLength: 4, lineBreak: '\n' }))
+            .toBe('abc=\ndef');
+        expect(() => encodeQuotedPrintable(new Uint8Array(1), undefined, { lineLength: 3 })).toThrow(RangeError);
+    });
+
+    test('should decode escapes, soft and hard line breaks', () => {
+        expect(encodeUTF8(decodeQuotedPrintable('Caf=c3=A9=\r\n au lait  \r\nfin'))).toBe('Caf\u00E9 au lait\r\nfin');
+        expect(encodeUTF8(decodeQuotedPrintable('a=\nb\nc'))).toBe('ab\r\nc');
+        expect(Array.from(decodeQuotedPrintable('=41=42=43', 2))).toEqual([ 65, 66 ]);
+    });
+
+    test('should round-trip arbitrary bytes', () => {
+        const bytes = new Uint8Array(Array.from({ length: 512 }, (_, i) => (i * 7) % 256));
+        expect(Array.from(decodeQuotedPrintable(encodeQuotedPrintable(bytes)))).toEqual(Array.from(bytes));
+    });
+
+    test('should decode invalid input leniently unless fatal', () => {
+        expect(encodeUTF8(decodeQuotedPrintable('a=ZZ=4'))).toBe('a=ZZ=4');
+        expect(encodeUTF8(decodeQuotedPrintable('\u00E9'))).toBe('\u00E9');
+        expect(() => decodeQuotedPrintable('a=ZZ', undefined, { fatal: true })).toThrow(
+            expect.objectContaining({ encoding: 'quoted-printable', offset: 1 })
+        );
+        expect(() => decodeQuotedPrintable('\u00E9', undefined, { fatal: true })).toThrow(EncodingError);
+        expect(() => decodeQuotedPrintable(<any> 1)).toThrow('decodeQuotedPrintable input must be a string');
+    });
+});
+
+describe('Percent Encoding and Decoding', () => {
+    const bytes = decodeUTF8('a b/\u00E9~&=+?');
+
+    test('should escape every byte outside the selected encode set', () => {
+        expect(encodePercent(bytes)).toBe('a%20b%2F%C3%A9~%26%3D%2B%3F');
+        expect(encodePercent(bytes, undefined, { encodeSet: 'path' })).toBe('a%20b/%C3%A9~&=+%3F');
+        expect(encodePercent(bytes, undefined, { encodeSet: 'query' })).toBe('a%20b/%C3%A9~%26%3D%2B?');
+        expect(encodePercent(bytes, undefined, { encodeSet: 'form' })).toBe('a+b%2F%C3%A9%7E%26%3D%2B%3F');
+        expect(encodePercent(new Uint8Array([ 0x41, 0xFF, 0x00 ]))).toBe('A%FF%00');
+        expect(encodePercent(bytes, 3)).toBe('a%20b');
+    });
+
+    test('should match encodeURIComponent for the RFC 3986 unreserved characters', () => {
+        const text = 'Hello, World! (it\'s) *tested* \u00FC\u{1F600}';
+        const expected = encodeURIComponent(text).replace(/[!'()*]/g, char => '%' + char.charCodeAt(0).toString(16).toUpperCase());
+        expect(encodePercent(decodeUTF8(text))).toBe(expected);
+    });
+
+    test('should reject an unknown encode set', () => {
+        expect(() => encodePercent(bytes, undefined, { encodeSet: <any> 'fragment' })).toThrow(TypeError);
+        expect(() => encodePercent(<any> 'a')).toThrow('encodePercent input must be a Uint8Array');
+    });
+
+    test('should decode escapes and + according to the encode set', () => {
+        expect(encodeUTF8(decodePercent('a%20b%c3%a9+c'))).toBe('a b\u00E9+c');
+        expect(encodeUTF8(decodePercent('a%20b%c3%a9+c', undefined, { encodeSet: 'form' }))).toBe('a b\u00E9 c');
+        expect(Array.from(decodePercent('%FF%00'))).toEqual([ 0xFF, 0x00 ]);
+        expect(Array.from(decodePercent('%41%42%43', 2))).toEqual([ 65, 66 ]);
+    });
+
+    test('should round-trip arbitrary bytes in every encode set', () => {
+        const all = new Uint8Array(Array.from({ length: 256 }, (_, i) => i));
+        for (const encodeSet of [ 'component', 'path', 'query', 'form' ] as const) {
+            expect(Array.from(decodePercent(encodePercent(all, undefined, { encodeSet }), undefined, { encodeSet })))
+                .toEqual(Array.from(all));
+        }
+    });
+
+    test('should decode invalid input leniently unless fatal', () => {
+        expect(encodeUTF8(decodePercent('100%'))).toBe('100%');
+        expect(encodeUTF8(decodePercent('%zz\u00E9'))).toBe('%zz\u00E9');
+        expect(() => decodePercent('100%', undefined, { fatal: true })).toThrow(
+            expect.objectContaining({ encoding: 'percent', offset: 3 })
+        );
+        expect(() => decodePercent('\u00E9', undefined, { fatal: true })).toThrow(EncodingError);
+        expect(() => decodePercent(<any> 1)).toThrow('decodePercent input must be a string');
+    });
+});
@@ -0,0 +1,105 @@
+/**
+ * Imports
+ */
+
+import { EncodingError } from '@errors/encoding.error';
+import {
+    createMultiByteCodec,
+    decodeMultiByte,
+    encodeMultiByte,
+    isMultiByteEncoding
+} from '@components/cjk.component';
+
+/**
+ * Tests
+ */
+
+describe('Multi-byte CJK encodings', () => {
+    test('should decode Shift_JIS and EUC-JP', () => {
+        expect(encodeMultiByte(new Uint8Array([ 130, 177, 130, 241, 130, 201, 130, 191, 130, 205 ]), 'shift_jis')).toBe('こんにちは');
+        expect(encodeMultiByte(new Uint8Array([ 0x41, 0xB1, 0x80 ]), 'shift_jis')).toBe('Aｱ\x80');
+        expect(encodeMultiByte(new Uint8Array([ 0xF0, 0x40 ]), 'shift_jis')).toBe('');
+        expect(encodeMultiByte(new Uint8Array([ 198, 252, 203, 220 ]), 'euc-jp')).toBe('日本');
+        expect(encodeMultiByte(new Uint8Array([ 0x8E, 0xB1, 0x8F, 0xB0, 0xA1 ]), 'euc-jp')).toBe('ｱ丂');
+    });
+
+    test('should decode GBK and GB18030', () => {
+        expect(encodeMultiByte(new Uint8Array([ 214, 208, 206, 196, 0x80 ]), 'gbk')).toBe('中文€');
+        expect(encodeMultiByte(new Uint8Array([ 148, 57, 252, 54, 168, 166 ]), 'gb18030')).toBe('😀é');
+        expect(encodeMultiByte(new Uint8Array([ 0x84, 0x31, 0xA4, 0x37 ]), 'gb18030')).toBe('�');
+        expect(encodeMultiByte(new Uint8Array([ 0x81, 0x35, 0xF4, 0x37 ]), 'gb18030')).toBe('');
+        expect(encodeMultiByte(new Uint8Array([ 0xA6, 0xD9 ]), 'gb18030')).toBe('︐');
+    });
+
+    test('should decode Big5 and EUC-KR', () => {
+        expect(encodeMultiByte(new Uint8Array([ 164, 164, 164, 229 ]), 'big5')).toBe('中文');
+        expect(encodeMultiByte(new Uint8Array([ 0x88, 0x62, 0x88, 0x64 ]), 'big5')).toBe('Ê̄Ê̌');
+        expect(encodeMultiByte(new Uint8Array([ 199, 209, 177, 219 ]), 'euc-kr')).toBe('한글');
+        expect(encodeMultiByte(new Uint8Array([ 140, 99 ]), 'euc-kr')).toBe('똠');
+    });
+
+    test('should encode strings with the WHATWG encoders', () => {
+        expect(Array.from(decodeMultiByte('こんにちは', 'shift_jis'))).toEqual([ 130, 177, 130, 241, 130, 201, 130, 191, 130, 205 ]);
+        expect(Array.from(decodeMultiByte('¥‾−ｱ', 'shift_jis'))).toEqual([ 0x5C, 0x7E, 0x81, 0x7C, 0xB1 ]);
+        expect(Array.from(decodeMultiByte('日本ｱ', 'euc-jp'))).toEqual([ 198, 252, 203, 220, 0x8E, 0xB1 ]);
+        expect(Array.from(decodeMultiByte('中文€', 'gbk'))).toEqual([ 214, 208, 206, 196, 0x80 ]);
+        expect(Array.from(decodeMultiByte('😀€', 'gb18030'))).toEqual([ 148, 57, 252, 54, 0xA2, 0xE3 ]);
+        expect(Array.from(decodeMultiByte('中文', 'big5'))).toEqual([ 164, 164, 164, 229 ]);
+        expect(Array.from(decodeMultiByte('한글똠', 'euc-kr'))).toEqual([ 199, 209, 177, 219, 140, 99 ]);
+    });
+
+    test('should only encode the pointers the WHATWG encoders produce', () => {
+        // Big5 keeps the last pointer of U+5341, and leaves out the HKSCS rows before 0xA1
+        expect(encodeMultiByte(new Uint8Array([ 0xA2, 0xCC, 0xA4, 0x51 ]), 'big5')).toBe('十十');
+        expect(Array.from(decodeMultiByte('十', 'big5'))).toEqual([ 0xA4, 0x51 ]);
+        expect(Array.from(decodeMultiByte('Ê', 'big5'))).toEqual([ 0x3F ]);
+        // EUC-JP decodes JIS X 0212 but does not encode it
+        expect(Array.from(decodeMultiByte('丂', 'euc-jp'))).toEqual([ 0x3F ]);
+        expect(Array.from(decodeMultiByte('😀', 'gbk'))).toEqual([ 0x3F, 0x3F ]);
+    });
+
+    test('should replace invalid sequences and read an ASCII trail byte again', () => {
+        expect(encodeMultiByte(new Uint8Array([ 0x81, 0x20, 0x41 ]), 'shift_jis')).toBe('� A');
+        expect(encodeMultiByte(new Uint8Array([ 0x81, 0xFD ]), 'shift_jis')).toBe('�');
+        expect(encodeMultiByte(new Uint8Array([ 0x8F, 0xA1 ]), 'euc-jp')).toBe('�');
+        expect(encodeMultiByte(new Uint8Array([ 0x81, 0x30, 0x41 ]), 'gb18030')).toBe('�0A');
+        expect(encodeMultiByte(new Uint8Array([ 0x81, 0x30 ]), 'gb18030')).toBe('�');
+        expect(encodeMultiByte(new Uint8Array([ 0x80, 0x41 ]), 'big5')).toBe('�A');
+        expect(encodeMultiByte(new Uint8Array([ 0xC7 ]), 'euc-kr')).toBe('�');
+    });
+
+    test('should throw in fatal mode', () => {
+        expect(() => encodeMultiByte(new Uint8Array([ 0x41, 0x81, 0x20 ]), 'shift_jis', undefined, { fatal: true }))
+            .toThrow(expect.objectContaining({ encoding: 'shift_jis', offset: 1 }));
+        expect(() => decodeMultiByte('a😀', 'gb18030', undefined, { fatal: true }))
+            .toThrow(expect.objectContaining({ encoding: 'gb18030', offset: 3 }));
+        expect(() => decodeMultiByte('😀', 'euc-kr', undefined, { fatal: true })).toThrow(EncodingError);
+    });
+
+    test('should stop before a character that does not fit the length', () => {
+        expect(Array.from(decodeMultiByte('a日本', 'shift_jis', 4))).toEqual([ 0x61, 0x93, 0xFA ]);
+        expect(encodeMultiByte(new Uint8Array([ 0x93, 0xFA, 0x96, 0x7B ]), 'shift_jis', 3)).toBe('日�');
+    });
+
+    test('should round-trip every character of the encoders', () => {
+        for (const name of [ 'shift_jis', 'euc-jp', 'gbk', 'big5', 'euc-kr' ] as const) {
+            const codec = createMultiByteCodec(name);
+            let text = '';
+            for (let codePoint = 0x4E00; codePoint <= 0x9FA5; codePoint++) {
+                const char = String.fromCodePoint(codePoint);
+                if (codec.decode(char)[0] !== 0x3F) text += char;
+            }
+
+            expect(text.length).toBeGreaterThan(2000);
+            expect(codec.encode(codec.decode(text))).toBe(text);
+        }
+    });
+
+    test('should reject unknown encodings and invalid input', () => {
+        expect(isMultiByteEncoding('gb18030')).toBe(true);
+        expect(isMultiByteEncoding('sjis')).toBe(false);
+        expect(() => createMultiByteCodec(<any> 'iso-2022-jp').encode(new Uint8Array(1))).toThrow(TypeError);
+        expect(() => encodeMultiByte(<any> 'a', 'big5')).toThrow('encodeMultiByte input must be a Uint8Array');
+        expect(() => decodeMultiByte(<any> 1, 'big5')).toThrow('decodeMultiByte input must be a string');
+    });
+});
@@ -0,0 +1,816 @@
+/**
+ * Import will remove at compile time
+ */
+
+import type { DecodeOptions, EncodeOptions, EncodingCodec, MultiByteEncoding } from '@providers/interfaces/buffer.interfaces';
+
+/**
+ * Imports
+ */
+
+import { big5Index } from '@structs/big5.struct';
+import { eucKrIndex } from '@structs/euc-kr.struct';
+import { jis0208Index } from '@structs/jis0208.struct';
+import { jis0212Index } from '@structs/jis0212.struct';
+import { EncodingError } from '@errors/encoding.error';
+import { isInstance } from '@components/charset.component';
+import { gb18030Index, gb18030Ranges } from '@structs/gb18030.struct';
+
+/**
+ * Reads one character of a multi-byte encoding from `bytes` and appends its code points to `output`.
+ * Returns the number of bytes consumed, or its negation if the sequence is invalid (nothing is appended then).
+ */
+
+type SequenceReader = (bytes: Uint8Array, index: number, end: number, output: Array<number>) => number;
+
+/**
+ * Returns the bytes of a code point in a multi-byte encoding, or `undefined` if the encoding cannot represent it.
+ */
+
+type SequenceWriter = (codePoint: number) => Array<number> | undefined;
+
+/**
+ * The compact index tables, by name, expanded by `loadIndex` on first use.
+ */
+
+const indexSources = {
+    'jis0208': jis0208Index,
+    'jis0212': jis0212Index,
+    'gb18030': gb18030Index,
+    'big5': big5Index,
+    'euc-kr': eucKrIndex
+};
+
+/**
+ * The index tables expanded so far, mapping pointers to code points (`-1` for unmapped pointers).
+ */
+
+const indexes = new Map<keyof typeof indexSources, Int32Array>();
+
+/**
+ * The reverse index tables built so far, mapping code points to pointers.
+ */
+
+const pointerMaps = new Map<string, Map<number, number>>();
+
+/**
+ * Returns an index table, expanding its compact form the first time.
+ *
+ * ## Description:
+ * The compact form is read by code points: every character is the code point of the next pointer,
+ * `'\u0000'` followed by a count skips that many unmapped pointers, and `'\u0001'` followed by a count
+ * continues the sequence of the previous code point for that many pointers.
+ *
+ * @param name - The name of the index.
+ * @returns The code point of every pointer, or `-1` for unmapped pointers.
+ */
+
+function loadIndex(name: keyof typeof indexSources): Int32Array {
+    let index = indexes.get(name);
+    if (index) return index;
+
+    const data = indexSources[name];
+    const values: Array<number> = [];
+
+    for (let i = 0; i < data.length; i++) {
+        const code = <number> data.codePointAt(i);
+        if (code === 0 || code === 1) {
+            const count = data.charCodeAt(++i);
+            let previous = values[values.length - 1];
+            for (let k = 0; k < count; k++) {
+                values.push(code === 0 ? -1 : ++previous);
+            }
+        } else {
+            values.push(code);
+            if (code > 0xFFFF) i++;
+        }
+    }
+
+    index = Int32Array.from(values);
+    indexes.set(name, index);
+
+    return index;
+}
+
+/**
+ * Returns the reverse of an index table for an encoder, building it the first time.
+ *
+ * ## Description:
+ * The first pointer of a code point is kept, unless `preferLast` contains the code point.
+ * Pointers for which `accept` returns `false` are left out.
+ *
+ * @param key - The cache key of the reverse table.
+ * @param name - The name of the index.
+ * @param accept - (Optional) Filters the pointers the encoder may produce.
+ * @param preferLast - (Optional) Code points for which the last pointer is kept.
+ * @returns A map from code points to pointers.
+ */
+
+function loadPointerMap(
+    key: string, name: keyof typeof indexSources, accept?: (pointer: number) => boolean, preferLast: Array<number> = []
+): Map<number, number> {
+    let pointers = pointerMaps.get(key);
+    if (pointers) return pointers;
+
+    const index = loadIndex(name);
+    pointers = new Map<number, number>();
+    for (let pointer = 0; pointer < index.length; pointer++) {
+        const codePoint = index[pointer];
+        if (codePoint < 0 || (accept && !accept(pointer))) continue;
+        if (!pointers.has(codePoint) || preferLast.includes(codePoint)) {
+            pointers.set(codePoint, pointer);
+        }
+    }
+
+    pointerMaps.set(key, pointers);
+
+    return pointers;
+}
+
+/**
+ * Decodes bytes into a string with a sequence reader, replacing invalid sequences with U+FFFD unless `fatal` is set.
+ *
+ * @param bytes - The bytes to decode.
+ * @param encoding - The name of the encoding, reported by the thrown error.
+ * @param reader - Reads one character of the encoding.
+ * @param length - (Optional) The number of bytes to decode.
+ * @param options - (Optional) Encoding options.
+ * @returns The decoded string.
+ * @throws {EncodingError} If `fatal` is set and an invalid sequence is found.
+ */
+
+function readSequences(bytes: Uint8Array, encoding: string, reader: SequenceReader, length?: number, options: EncodeOptions = {}): string {
+    const end = length !== undefined ? Math.min(length, bytes.length) : bytes.length;
+    const codePoints: Array<number> = [];
+    let result = '';
+
+    for (let i = 0; i < end;) {
+        let consumed = reader(bytes, i, end, codePoints);
+        if (consumed < 0) {
+            if (options.fatal) {
+                throw new EncodingError(`Invalid ${ encoding } byte sequence at offset ${ i }`, encoding, i);
+            }
+
+            codePoints.push(0xFFFD);
+            consumed = -consumed;
+        }
+
+        i += consumed;
+        if (codePoints.length >= 0x1000) {
+            result += String.fromCodePoint(...codePoints);
+            codePoints.length = 0;
+        }
+    }
+
+    return result + String.fromCodePoint(...codePoints);
+}
+
+/**
+ * Encodes a string into bytes with a sequence writer, writing unmappable characters as `'?'` unless `fatal` is set.
+ *
+ * ## Description:
+ * Lone surrogates are read as U+FFFD. When `length` is given, encoding stops before the first character
+ * whose bytes do not fit.
+ *
+ * @param data - The string to encode.
+ * @param encoding - The name of the encoding, reported by the thrown error.
+ * @param writer - Returns the bytes of one code point.
+ * @param length - (Optional) The maximum number of bytes to write.
+ * @param options - (Optional) Encoding options.
+ * @returns The encoded bytes.
+ * @throws {EncodingError} If `fatal` is set and a character cannot be represented.
+ */
+
+function writeSequences(data: string, encoding: string, writer: SequenceWriter, length?: number, options: DecodeOptions = {}): Uint8Array {
+    const maxLength = length !== undefined ? length : Infinity;
+    const bytes: Array<number> = [];
+
+    for (let i = 0; i < data.length; i++) {
+        let codePoint = <number> data.codePointAt(i);
+        if (codePoint >= 0xD800 && codePoint <= 0xDFFF) codePoint = 0xFFFD;
+
+        let sequence = writer(codePoint);
+        if (!sequence) {
+            if (options.fatal) {
+                const char = String.fromCodePoint(codePoint);
+
+                throw new EncodingError(`Character '${ char }' at offset ${ i } cannot be encoded in ${ encoding }`, encoding, i);
+            }
+
+            sequence = [ 0x3F ];
+        }
+
+        if (bytes.length + sequence.length > maxLength) break;
+        bytes.push(...sequence);
+        if (codePoint > 0xFFFF) i++;
+    }
+
+    return new Uint8Array(bytes);
+}
+
+/**
+ * Reads one Shift_JIS character: ASCII and `0x80`, half-width katakana (`0xA1`–`0xDF`),
+ * or a two-byte `jis0208` sequence, including the user-defined area mapped to U+E000–U+E757.
+ *
+ * @param bytes - The bytes being decoded.
+ * @param index - The position of the character.
+ * @param end - The position after the last byte that may be read.
+ * @param output - The code points to append to.
+ * @returns The number of bytes consumed, negative for an invalid sequence.
+ */
+
+function readShiftJIS(bytes: Uint8Array, index: number, end: number, output: Array<number>): number {
+    const lead = bytes[index];
+    if (lead <= 0x80) {
+        output.push(lead);
+
+        return 1;
+    }
+
+    if (lead >= 0xA1 && lead <= 0xDF) {
+        output.push(0xFF61 - 0xA1 + lead);
+
+        return 1;
+    }
+
+    if (!((lead >= 0x81 && lead <= 0x9F) || (lead >= 0xE0 && lead <= 0xFC)) || index + 1 >= end) {
+        return -1;
+    }
+
+    const trail = bytes[index + 1];
+    if ((trail >= 0x40 && trail <= 0x7E) || (trail >= 0x80 && trail <= 0xFC)) {
+        const pointer = (lead - (lead < 0xA0 ? 0x81 : 0xC1)) * 188 + trail - (trail < 0x7F ? 0x40 : 0x41);
+        const codePoint = pointer >= 8836 && pointer <= 10715 ? 0xE000 - 8836 + pointer : loadIndex('jis0208')[pointer];
+        if (codePoint >= 0) {
+            output.push(codePoint);
+
+            return 2;
+        }
+    }
+
+    // An ASCII trail byte is read again as a character of its own
+    return trail < 0x80 ? -1 : -2;
+}
+
+/**
+ * Returns the Shift_JIS bytes of a code point.
+ *
+ * @param codePoint - The code point to encode.
+ * @returns The bytes, or `undefined` if Shift_JIS cannot represent the code point.
+ */
+
+function writeShiftJIS(codePoint: number): Array<number> | undefined {
+    if (codePoint <= 0x80) return [ codePoint ];
+    if (codePoint === 0xA5) return [ 0x5C ];
+    if (codePoint === 0x203E) return [ 0x7E ];
+    if (codePoint >= 0xFF61 && codePoint <= 0xFF9F) return [ codePoint - 0xFF61 + 0xA1 ];
+
+    // The pointers 8272-8835 duplicate characters of other rows and are only decoded
+    const pointers = loadPointerMap('shift_jis', 'jis0208', pointer => pointer < 8272 || pointer > 8835);
+    const pointer = pointers.get(codePoint === 0x2212 ? 0xFF0D : codePoint);
+    if (pointer === undefined) return undefined;
+
+    const lead = Math.floor(pointer / 188);
+    const trail = pointer % 188;
+
+    return [ lead + (lead < 0x1F ? 0x81 : 0xC1), trail + (trail < 0x3F ? 0x40 : 0x41) ];
+}
+
+/**
+ * Reads one EUC-JP character: ASCII, half-width katakana (`0x8E` prefix), a three-byte `jis0212` sequence
+ * (`0x8F` prefix), or a two-byte `jis0208` sequence.
+ *
+ * @param bytes - The bytes being decoded.
+ * @param index - The position of the character.
+ * @param end - The position after the last byte that may be read.
+ * @param output - The code points to append to.
+ * @returns The number of bytes consumed, negative for an invalid sequence.
+ */
+
+function readEUCJP(bytes: Uint8Array, index: number, end: number, output: Array<number>): number {
+    const first = bytes[index];
+    if (first < 0x80) {
+        output.push(first);
+
+        return 1;
+    }
+
+    if (first !== 0x8E && first !== 0x8F && !(first >= 0xA1 && first <= 0xFE)) {
+        return -1;
+    }
+
+    let next = index + 1;
+    let lead = first;
+    const supplementary = first === 0x8F && next < end && bytes[next] >= 0xA1 && bytes[next] <= 0xFE;
+    if (supplementary) {
+        lead = bytes[next++];
+    }
+
+    if (next >= end) {
+        return -(end - index);
+    }
+
+    const trail = bytes[next];
+    if (first === 0x8E && trail >= 0xA1 && trail <= 0xDF) {
+        output.push(0xFF61 - 0xA1 + trail);
+
+        return 2;
+    }
+
+    if (lead >= 0xA1 && lead <= 0xFE && trail >= 0xA1 && trail <= 0xFE) {
+        const codePoint = loadIndex(supplementary ? 'jis0212' : 'jis0208')[(lead - 0xA1) * 94 + trail - 0xA1];
+        if (codePoint >= 0) {
+            output.push(codePoint);
+
+            return next + 1 - index;
+        }
+    }
+
+    // An ASCII trail byte is read again as a character of its own
+    return -(trail < 0x80 ? next - index : next + 1 - index);
+}
+
+/**
+ * Returns the EUC-JP bytes of a code point. Only `jis0208` is used, as in the WHATWG encoder.
+ *
+ * @param codePoint - The code point to encode.
+ * @returns The bytes, or `undefined` if EUC-JP cannot represent the code point.
+ */
+
+function writeEUCJP(codePoint: number): Array<number> | undefined {
+    if (codePoint < 0x80) return [ codePoint ];
+    if (codePoint === 0xA5) return [ 0x5C ];
+    if (codePoint === 0x203E) return [ 0x7E ];
+    if (codePoint >= 0xFF61 && codePoint <= 0xFF9F) return [ 0x8E, codePoint - 0xFF61 + 0xA1 ];
+
+    const pointer = loadPointerMap('euc-jp', 'jis0208').get(codePoint === 0x2212 ? 0xFF0D : codePoint);
+    if (pointer === undefined) return undefined;
+
+    return [ Math.floor(pointer / 94) + 0xA1, pointer % 94 + 0xA1 ];
+}
+
+/**
+ * Returns the code point of a four-byte GB18030 pointer, from the `gb18030 ranges` index.
+ *
+ * @param pointer - The pointer of the four-byte sequence.
+ * @returns The code point, or `-1` if the pointer is not mapped.
+ */
+
+function gb18030RangesCodePoint(pointer: number): number {
+    if ((pointer > 39419 && pointer < 189000) || pointer > 1237575) return -1;
+    if (pointer === 7457) return 0xE7C7;
+    if (pointer >= 189000) return 0x10000 + pointer - 189000;
+
+    let low = 0;
+    let high = gb18030Ranges.length - 1;
+    while (low < high) {
+        const middle = (low + high + 1) >> 1;
+        if (gb18030Ranges[middle][0] <= pointer) low = middle;
+        else high = middle - 1;
+    }
+
+    return gb18030Ranges[low][1] + pointer - gb18030Ranges[low][0];
+}
+
+/**
+ * Returns the four-byte GB18030 pointer of a code point, from the `gb18030 ranges` index.
+ *
+ * @param codePoint - The code point, which must not be in the two-byte index.
+ * @returns The pointer of the four-byte sequence.
+ */
+
+function gb18030RangesPointer(codePoint: number): number {
+    if (codePoint === 0xE7C7) return 7457;
+    if (codePoint >= 0x10000) return 189000 + codePoint - 0x10000;
+
+    let low = 0;
+    let high = gb18030Ranges.length - 1;
+    while (low < high) {
+        const middle = (low + high + 1) >> 1;
+        if (gb18030Ranges[middle][1] <= codePoint) low = middle;
+        else high = middle - 1;
+    }
+
+    return gb18030Ranges[low][0] + codePoint - gb18030Ranges[low][1];
+}
+
+/**
+ * Reads one GB18030 (or GBK) character: ASCII, `0x80` as U+20AC, a two-byte `gb18030` index sequence,
+ * or a four-byte sequence mapped by the `gb18030 ranges` index.
+ *
+ * @param bytes - The bytes being decoded.
+ * @param index - The position of the character.
+ * @param end - The position after the last byte that may be read.
+ * @param output - The code points to append to.
+ * @returns The number of bytes consumed, negative for an invalid sequence.
+ */
+
+function readGB18030(bytes: Uint8Array, index: number, end: number, output: Array<number>): number {
+    const first = bytes[index];
+    if (first < 0x80) {
+        output.push(first);
+
+        return 1;
+    }
+
+    if (first === 0x80) {
+        output.push(0x20AC);
+
+        return 1;
+    }
+
+    if (first === 0xFF || index + 1 >= end) {
+        return -1;
+    }
+
+    const second = bytes[index + 1];
+    if (second >= 0x30 && second <= 0x39) {
+        // A truncated sequence is consumed whole, otherwise the bytes after the first are read again
+        const third = bytes[index + 2];
+        if (index + 2 >= end) return -(end - index);
+        if (third < 0x81 || third > 0xFE) return -1;
+
+        const fourth = bytes[index + 3];
+        if (index + 3 >= end) return -(end - index);
+        if (fourth < 0x30 || fourth > 0x39) return -1;
+
+        const pointer = (((first - 0x81) * 10 + second - 0x30) * 126 + third - 0x81) * 10 + fourth - 0x30;
+        const codePoint = gb18030RangesCodePoint(pointer);
+        if (codePoint < 0) return -4;
+
+        output.push(codePoint);
+
+        return 4;
+    }
+
+    if ((second >= 0x40 && second <= 0x7E) || (second >= 0x80 && second <= 0xFE)) {
+        const codePoint = loadIndex('gb18030')[(first - 0x81) * 190 + second - (second < 0x7F ? 0x40 : 0x41)];
+        if (codePoint >= 0) {
+            output.push(codePoint);
+
+            return 2;
+        }
+    }
+
+    // An ASCII trail byte is read again as a character of its own
+    return second < 0x80 ? -1 : -2;
+}
+
+/**
+ * Returns the two-byte GB18030 sequence of a code point from the `gb18030` index.
+ *
+ * @param codePoint - The code point to encode.
+ * @returns The bytes, or `undefined` if the code point is not in the index.
+ */
+
+function writeGB18030TwoBytes(codePoint: number): Array<number> | undefined {
+    const pointer = loadPointerMap('gb18030', 'gb18030').get(codePoint);
+    if (pointer === undefined) return undefined;
+
+    const trail = pointer % 190;
+
+    return [ Math.floor(pointer / 190) + 0x81, trail + (trail < 0x3F ? 0x40 : 0x41) ];
+}
+
+/**
+ * Returns the GBK bytes of a code point: ASCII, `0x80` for U+20AC, or a two-byte sequence.
+ *
+ * @param codePoint - The code point to encode.
+ * @returns The bytes, or `undefined` if GBK cannot represent the code point.
+ */
+
+function writeGBK(codePoint: number): Array<number> | undefined {
+    if (codePoint < 0x80) return [ codePoint ];
+    if (codePoint === 0x20AC) return [ 0x80 ];
+    if (codePoint === 0xE5E5) return undefined;
+
+    return writeGB18030TwoBytes(codePoint);
+}
+
+/**
+ * Returns the GB18030 bytes of a code point: ASCII, a two-byte sequence, or a four-byte sequence.
+ *
+ * ## Description:
+ * Every code point can be represented except U+E5E5, and the private-use code points that GB18030-2022
+ * moved out of the two-byte index: the ranges do not cover them, so their four-byte pointer
+ * would decode to another character.
+ *
+ * @param codePoint - The code point to encode.
+ * @returns The bytes, or `undefined` if GB18030 cannot represent the code point.
+ */
+
+function writeGB18030(codePoint: number): Array<number> | undefined {
+    if (codePoint < 0x80) return [ codePoint ];
+    if (codePoint === 0xE5E5) return undefined;
+
+    const twoBytes = writeGB18030TwoBytes(codePoint);
+    if (twoBytes) return twoBytes;
+
+    let pointer = gb18030RangesPointer(codePoint);
+    if (gb18030RangesCodePoint(pointer) !== codePoint) return undefined;
+
+    const byte1 = Math.floor(pointer / 12600);
+    pointer %= 12600;
+    const byte2 = Math.floor(pointer / 1260);
+    pointer %= 1260;
+
+    return [ byte1 + 0x81, byte2 + 0x30, Math.floor(pointer / 10) + 0x81, pointer % 10 + 0x30 ];
+}
+
+/**
+ * Reads one Big5 character: ASCII or a two-byte `big5` index sequence.
+ * Four pointers decode to a letter followed by a combining mark.
+ *
+ * @param bytes - The bytes being decoded.
+ * @param index - The position of the character.
+ * @param end - The position after the last byte that may be read.
+ * @param output - The code points to append to.
+ * @returns The number of bytes consumed, negative for an invalid sequence.
+ */
+
+function readBig5(bytes: Uint8Array, index: number, end: number, output: Array<number>): number {
+    const lead = bytes[index];
+    if (lead < 0x80) {
+        output.push(lead);
+
+        return 1;
+    }
+
+    if (lead === 0x80 || lead === 0xFF || index + 1 >= end) {
+        return -1;
+    }
+
+    const trail = bytes[index + 1];
+    if ((trail >= 0x40 && trail <= 0x7E) || (trail >= 0xA1 && trail <= 0xFE)) {
+        const pointer = (lead - 0x81) * 157 + trail - (trail < 0x7F ? 0x40 : 0x62);
+        switch (pointer) {
+            case 1133:
+                output.push(0xCA, 0x304);
+
+                return 2;
+            case 1135:
+                output.push(0xCA, 0x30C);
+
+                return 2;
+            case 1164:
+                output.push(0xEA, 0x304);
+
+                return 2;
+            case 1166:
+                output.push(0xEA, 0x30C);
+
+                return 2;
+        }
+
+        const codePoint = loadIndex('big5')[pointer];
+        if (codePoint >= 0) {
+            output.push(codePoint);
+
+            return 2;
+        }
+    }
+
+    // An ASCII trail byte is read again as a character of its own
+    return trail < 0x80 ? -1 : -2;
+}
+
+/**
+ * Returns the Big5 bytes of a code point.
+ * The HKSCS pointers below `0xA1` lead bytes are only decoded, as in the WHATWG encoder.
+ *
+ * @param codePoint - The code point to encode.
+ * @returns The bytes, or `undefined` if Big5 cannot represent the code point.
+ */
+
+function writeBig5(codePoint: number): Array<number> | undefined {
+    if (codePoint < 0x80) return [ codePoint ];
+
+    const pointers = loadPointerMap('big5', 'big5', pointer => pointer >= (0xA1 - 0x81) * 157, [
+        0x2550, 0x255E, 0x2561, 0x256A, 0x5341, 0x5345
+    ]);
+
+    const pointer = pointers.get(codePoint);
+    if (pointer === undefined) return undefined;
+
+    const trail = pointer % 157;
+
+    return [ Math.floor(pointer / 157) + 0x81, trail + (trail < 0x3F ? 0x40 : 0x62) ];
+}
+
+/**
+ * Reads one EUC-KR character: ASCII or a two-byte `euc-kr` index sequence (including the Unified Hangul Code).
+ *
+ * @param bytes - The bytes being decoded.
+ * @param index - The position of the character.
+ * @param end - The position after the last byte that may be read.
+ * @param output - The code points to append to.
+ * @returns The number of bytes consumed, negative for an invalid sequence.
+ */
+
+function readEUCKR(bytes: Uint8Array, index: number, end: number, output: Array<number>): number {
+    const lead = bytes[index];
+    if (lead < 0x80) {
+        output.push(lead);
+
+        return 1;
+    }
+
+    if (lead === 0x80 || lead === 0xFF || index + 1 >= end) {
+        return -1;
+    }
+
+    const trail = bytes[index + 1];
+    if (trail >= 0x41 && trail <= 0xFE) {
+        const codePoint = loadIndex('euc-kr')[(lead - 0x81) * 190 + trail - 0x41];
+        if (codePoint >= 0) {
+            output.push(codePoint);
+
+            return 2;
+        }
+    }
+
+    // An ASCII trail byte is read again as a character of its own
+    return trail < 0x80 ? -1 : -2;
+}
+
+/**
+ * Returns the EUC-KR bytes of a code point.
+ *
+ * @param codePoint - The code point to encode.
+ * @returns The bytes, or `undefined` if EUC-KR cannot represent the code point.
+ */
+
+function writeEUCKR(codePoint: number): Array<number> | undefined {
+    if (codePoint < 0x80) return [ codePoint ];
+
+    const pointer = loadPointerMap('euc-kr', 'euc-kr').get(codePoint);
+    if (pointer === undefined) return undefined;
+
+    return [ Math.floor(pointer / 190) + 0x81, pointer % 190 + 0x41 ];
+}
+
+/**
+ * The sequence reader and writer of every multi-byte encoding, by canonical name.
+ */
+
+const multiByteCodecs: Record<MultiByteEncoding, { reader: SequenceReader; writer: SequenceWriter }> = {
+    'shift_jis': { reader: readShiftJIS, writer: writeShiftJIS },
+    'euc-jp': { reader: readEUCJP, writer: writeEUCJP },
+    'gbk': { reader: readGB18030, writer: writeGBK },
+    'gb18030': { reader: readGB18030, writer: writeGB18030 },
+    'big5': { reader: readBig5, writer: writeBig5 },
+    'euc-kr': { reader: readEUCKR, writer: writeEUCKR }
+};
+
+/**
+ * Returns the reader and writer of a multi-byte encoding.
+ *
+ * @param encoding - The canonical name of the encoding.
+ * @returns The reader and writer of the encoding.
+ * @throws {TypeError} If the encoding is not a multi-byte encoding.
+ */
+
+function getMultiByteCodec(encoding: MultiByteEncoding): { reader: SequenceReader; writer: SequenceWriter } {
+    if (!isMultiByteEncoding(encoding)) {
+        throw new TypeError('Unknown multi-byte encoding: ' + encoding);
+    }
+
+    return multiByteCodecs[encoding];
+}
+
+/**
+ * Checks whether a name is the canonical name of a multi-byte CJK encoding, such as `'shift_jis'`.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(isMultiByteEncoding('euc-kr'));  // Outputs: true
+ * console.log(isMultiByteEncoding('sjis'));    // Outputs: false (an alias)
+ * ```
+ *
+ * @param name - The name to check.
+ * @returns `true` if the name is a canonical multi-byte encoding name.
+ */
+
+export function isMultiByteEncoding(name: string): name is MultiByteEncoding {
+    return Object.prototype.hasOwnProperty.call(multiByteCodecs, name);
+}
+
+/**
+ * Decodes bytes in a multi-byte CJK encoding (such as `shift_jis` or `gb18030`) into a string.
+ *
+ * ## Description:
+ * The bytes are decoded as defined by the WHATWG Encoding Standard, whose index tables are expanded on first use.
+ * An invalid or unmapped sequence is replaced with `'�'`, unless `fatal` is set; when its second byte is ASCII,
+ * that byte is decoded again as a character of its own.
+ *
+ * - **Input**:
+ *   - `bytes`: A `Uint8Array` representing the bytes to decode.
+ *   - `encoding`: The canonical name of the encoding.
+ *   - `length`: (Optional) The number of bytes to decode.
+ *   Defaults to the entire array.
+ *   - `options`: (Optional) With `fatal: true`, an invalid sequence throws.
+ *
+ * - **Output**:
+ *   - Returns the decoded string.
+ *
+ * ## Error Handling:
+ * - Throws an error if the `bytes` parameter is not a `Uint8Array`.
+ * - Throws a `TypeError` if the encoding is not a multi-byte encoding.
+ * - In fatal mode, throws an `EncodingError` with the offset of the first byte of the invalid sequence.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(encodeMultiByte(new Uint8Array([ 0x93, 0xFA, 0x96, 0x7B ]), 'shift_jis'));  // Outputs: "日本"
+ * console.log(encodeMultiByte(new Uint8Array([ 0xC7, 0xD1, 0xB1, 0xDB ]), 'euc-kr'));     // Outputs: "한글"
+ * ```
+ *
+ * @param bytes - The bytes to decode.
+ * @param encoding - The canonical name of the encoding.
+ * @param length - (Optional) The number of bytes to decode.
+ * Defaults to the full length of the array.
+ * @param options - (Optional) Encoding options.
+ * @returns The decoded string.
+ * @throws {Error} If the `bytes` parameter is not a `Uint8Array`.
+ * @throws {TypeError} If the encoding is unknown.
+ * @throws {EncodingError} If `fatal` is set and a sequence is invalid.
+ */
+
+export function encodeMultiByte(bytes: Uint8Array, encoding: MultiByteEncoding, length?: number, options: EncodeOptions = {}): string {
+    if (!isInstance(bytes, Uint8Array)) {
+        throw new Error('encodeMultiByte input must be a Uint8Array');
+    }
+
+    return readSequences(bytes, encoding, getMultiByteCodec(encoding).reader, length, options);
+}
+
+/**
+ * Encodes a string into bytes in a multi-byte CJK encoding (such as `shift_jis` or `gb18030`).
+ *
+ * ## Description:
+ * Characters are encoded as defined by the WHATWG Encoding Standard, so where the index maps a character
+ * more than once, the bytes browsers produce are written.
+ * A character the encoding cannot represent is written as `'?'`, unless `fatal` is set.
+ *
+ * - **Input**:
+ *   - `data`: The string to encode.
+ *   - `encoding`: The canonical name of the encoding.
+ *   - `length`: (Optional) The maximum number of bytes to write; a character that does not fit is not written.
+ *   If not specified, the entire string will be encoded.
+ *   - `options`: (Optional) With `fatal: true`, a character that cannot be represented throws.
+ *
+ * - **Output**:
+ *   - Returns a `Uint8Array` containing the encoded bytes.
+ *
+ * ## Error Handling:
+ * - Throws an error if the `data` is not a valid string.
+ * - Throws a `TypeError` if the encoding is not a multi-byte encoding.
+ * - In fatal mode, throws an `EncodingError` with the offset of the character.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(decodeMultiByte('日本', 'shift_jis'));  // Outputs: Uint8Array [ 147, 250, 150, 123 ]
+ * console.log(decodeMultiByte('€', 'gbk'));          // Outputs: Uint8Array [ 128 ]
+ * ```
+ *
+ * @param data - The string to encode.
+ * @param encoding - The canonical name of the encoding.
+ * @param length - (Optional) The maximum number of bytes to write.
+ * Defaults to the entire string.
+ * @param options - (Optional) Encoding options.
+ * @returns A `Uint8Array` containing the encoded bytes.
+ * @throws {Error} If the input is not a string.
+ * @throws {TypeError} If the encoding is unknown.
+ * @throws {EncodingError} If `fatal` is set and a character cannot be represented.
+ */
+
+export function decodeMultiByte(data: string, encoding: MultiByteEncoding, length?: number, options: DecodeOptions = {}): Uint8Array {
+    if (typeof data !== 'string') {
+        throw new Error('decodeMultiByte input must be a string');
+    }
+
+    return writeSequences(data, encoding, getMultiByteCodec(encoding).writer, length, options);
+}
+
+/**
+ * Creates the codec registered for a multi-byte encoding, for use with `registerEncoding`.
+ *
+ * ## Description:
+ * The codec binds `encodeMultiByte` and `decodeMultiByte` to the encoding.
+ * The index tables are only expanded when the codec first encodes or decodes data,
+ * so an unknown encoding is reported by that call.
+ *
+ * @param encoding - The canonical name of the encoding.
+ * @returns The codec of the encoding.
+ */
+
+export function createMultiByteCodec(encoding: MultiByteEncoding): EncodingCodec {
+    return {
+        encode: (bytes: Uint8Array, length?: number, options?: EncodeOptions): string =>
+            encodeMultiByte(bytes, encoding, length, options),
+        decode: (data: string, length?: number, options?: DecodeOptions): Uint8Array =>
+            decodeMultiByte(data, encoding, length, options)
+    };
+}
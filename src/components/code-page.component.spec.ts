@@ -0,0 +1,77 @@
+/**
+ * Imports
+ */
+
+import { EncodingError } from '@errors/encoding.error';
+import { singleByteCodePages } from '@structs/code-page.struct';
+import {
+    codePointToSingleByte,
+    createSingleByteCodec,
+    decodeSingleByte,
+    encodeSingleByte,
+    isSingleByteEncoding,
+    singleByteToCodePoint
+} from '@components/code-page.component';
+
+/**
+ * Tests
+ */
+
+describe('Single-byte code pages', () => {
+    test('should decode bytes with the table of the encoding', () => {
+        expect(encodeSingleByte(new Uint8Array([ 240, 210, 201, 215, 197, 212 ]), 'koi8-r')).toBe('Привет');
+        expect(encodeSingleByte(new Uint8Array([ 207, 240, 232, 226, 229, 242 ]), 'windows-1251')).toBe('Привет');
+        expect(encodeSingleByte(new Uint8Array([ 175, 243, 179, 230 ]), 'iso-8859-2')).toBe('Żółć');
+        expect(encodeSingleByte(new Uint8Array([ 201, 205, 187 ]), 'ibm437')).toBe('╔═╗');
+        expect(encodeSingleByte(new Uint8Array([ 0x80, 0x41, 0xDF ]), 'windows-1252', 2)).toBe('€A');
+    });
+
+    test('should encode strings with the table of the encoding', () => {
+        expect(Array.from(decodeSingleByte('Привет', 'koi8-r'))).toEqual([ 240, 210, 201, 215, 197, 212 ]);
+        expect(Array.from(decodeSingleByte('€ß', 'windows-1252'))).toEqual([ 0x80, 0xDF ]);
+        expect(Array.from(decodeSingleByte('Żółć', 'iso-8859-2', 2))).toEqual([ 175, 243 ]);
+    });
+
+    test('should follow the WHATWG mappings', () => {
+        expect(singleByteToCodePoint('windows-1252', 0x81)).toBe(0x81);
+        expect(singleByteToCodePoint('windows-1253', 0xAA)).toBe(-1);
+        expect(singleByteToCodePoint('windows-1255', 0xCA)).toBe(0x05BA);
+        expect(singleByteToCodePoint('koi8-u', 0xAE)).toBe(0x045E);
+        expect(singleByteToCodePoint('iso-8859-3', 0xA5)).toBe(-1);
+        expect(codePointToSingleByte('windows-1252', 0x20AC)).toBe(0x80);
+        expect(codePointToSingleByte('windows-1252', 0x65E5)).toBe(-1);
+    });
+
+    test('should round-trip every mapped byte of every table', () => {
+        for (const name of Object.keys(singleByteCodePages)) {
+            if (!isSingleByteEncoding(name)) throw new Error(name);
+
+            const bytes = new Uint8Array(Array.from({ length: 256 }, (_, i) => i)
+                .filter(byte => singleByteToCodePoint(name, byte) >= 0));
+            expect(Array.from(decodeSingleByte(encodeSingleByte(bytes, name), name))).toEqual(Array.from(bytes));
+        }
+    });
+
+    test('should replace unmapped bytes and characters unless fatal', () => {
+        expect(encodeSingleByte(new Uint8Array([ 0x41, 0xA5 ]), 'iso-8859-3')).toBe('A�');
+        expect(Array.from(decodeSingleByte('a日😀b', 'windows-1252'))).toEqual([ 0x61, 0x3F, 0x3F, 0x62 ]);
+        expect(() => encodeSingleByte(new Uint8Array([ 0x41, 0xA5 ]), 'iso-8859-3', undefined, { fatal: true }))
+            .toThrow(expect.objectContaining({ encoding: 'iso-8859-3', offset: 1 }));
+        expect(() => decodeSingleByte('ab日', 'windows-1252', undefined, { fatal: true })).toThrow(EncodingError);
+    });
+
+    test('should reject unknown encodings and invalid input', () => {
+        expect(isSingleByteEncoding('windows-1252')).toBe(true);
+        expect(isSingleByteEncoding('utf8')).toBe(false);
+        expect(() => createSingleByteCodec(<any> 'windows-9999').encode(new Uint8Array(1))).toThrow(TypeError);
+        expect(() => encodeSingleByte(new Uint8Array(1), <any> 'toString')).toThrow(TypeError);
+        expect(() => encodeSingleByte(<any> 'a', 'koi8-r')).toThrow('encodeSingleByte input must be a Uint8Array');
+        expect(() => decodeSingleByte(<any> 1, 'koi8-r')).toThrow('decodeSingleByte input must be a string');
+    });
+
+    test('should measure one byte per character', () => {
+        const codec = createSingleByteCodec('windows-1252');
+        expect(codec.byteLength?.('a€😀')).toBe(3);
+        expect(codec.byteLength?.('\uD800x')).toBe(2);
+    });
+});
@@ -0,0 +1,298 @@
+/**
+ * Import will remove at compile time
+ */
+
+import type { DecodeOptions, EncodeOptions, EncodingCodec, SingleByteEncoding } from '@providers/interfaces/buffer.interfaces';
+
+/**
+ * Imports
+ */
+
+import { EncodingError } from '@errors/encoding.error';
+import { countCodePoints, isInstance } from '@components/charset.component';
+import { singleByteAliases, singleByteCodePages } from '@structs/code-page.struct';
+
+/**
+ * The decoding and encoding maps of a single-byte encoding, built from its table on first use.
+ */
+
+interface CodePageMaps {
+    decodeTable: Int32Array;
+    encodeTable: Map<number, number>;
+}
+
+/**
+ * The code pages expanded so far, by canonical name.
+ */
+
+const codePageMaps = new Map<SingleByteEncoding, CodePageMaps>();
+
+/**
+ * Returns the decoding and encoding maps of a single-byte encoding, expanding its table the first time.
+ *
+ * ## Description:
+ * The decoding table maps every byte to its code point, or to `-1` if the byte is not mapped.
+ * The encoding map holds the reverse mapping for the bytes `0x80`–`0xFF`; ASCII is handled by the callers.
+ * When a code point is mapped by several bytes, the first byte is kept.
+ *
+ * @param encoding - The canonical name of the encoding.
+ * @returns The maps of the encoding.
+ * @throws {TypeError} If the encoding is not a single-byte encoding.
+ */
+
+function loadCodePage(encoding: SingleByteEncoding): CodePageMaps {
+    let maps = codePageMaps.get(encoding);
+    if (maps) return maps;
+
+    if (!isSingleByteEncoding(encoding)) {
+        throw new TypeError('Unknown single-byte encoding: ' + encoding);
+    }
+
+    const table = singleByteCodePages[encoding];
+    const decodeTable = new Int32Array(256);
+    const encodeTable = new Map<number, number>();
+
+    for (let byte = 0; byte < 0x80; byte++) {
+        decodeTable[byte] = byte;
+    }
+
+    for (let i = 0; i < 0x80; i++) {
+        const codePoint = table[i];
+        decodeTable[0x80 + i] = codePoint;
+        if (codePoint >= 0 && !encodeTable.has(codePoint)) {
+            encodeTable.set(codePoint, 0x80 + i);
+        }
+    }
+
+    maps = { decodeTable, encodeTable };
+    codePageMaps.set(encoding, maps);
+
+    return maps;
+}
+
+/**
+ * Checks whether a name is the canonical name of a single-byte encoding, such as `'windows-1252'`.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(isSingleByteEncoding('koi8-r'));  // Outputs: true
+ * console.log(isSingleByteEncoding('utf8'));    // Outputs: false
+ * ```
+ *
+ * @param name - The name to check.
+ * @returns `true` if the name is a canonical single-byte encoding name.
+ */
+
+export function isSingleByteEncoding(name: string): name is SingleByteEncoding {
+    return Object.prototype.hasOwnProperty.call(singleByteCodePages, name);
+}
+
+/**
+ * Returns the canonical name of a single-byte encoding given by its name or one of its aliases, in any letter case.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(resolveSingleByteEncoding('CP1252')); // Outputs: "windows-1252"
+ * console.log(resolveSingleByteEncoding('utf8'));   // Outputs: undefined
+ * ```
+ *
+ * @param name - The name to resolve.
+ * @returns The canonical name, or `undefined` if the name is not a single-byte encoding.
+ */
+
+export function resolveSingleByteEncoding(name: string): SingleByteEncoding | undefined {
+    const lowerName = String(name).toLowerCase();
+    if (isSingleByteEncoding(lowerName)) return lowerName;
+
+    return (<Array<SingleByteEncoding>> Object.keys(singleByteAliases)).find(
+        canonical => singleByteAliases[canonical].includes(lowerName)
+    );
+}
+
+/**
+ * Returns the code point of a byte in a single-byte encoding.
+ *
+ * @param encoding - The canonical name of the encoding.
+ * @param byte - The byte to look up.
+ * @returns The code point of the byte, or `-1` if the byte is not mapped.
+ * @throws {TypeError} If the encoding is not a single-byte encoding.
+ */
+
+export function singleByteToCodePoint(encoding: SingleByteEncoding, byte: number): number {
+    return loadCodePage(encoding).decodeTable[byte & 0xFF];
+}
+
+/**
+ * Returns the byte of a code point in a single-byte encoding.
+ *
+ * @param encoding - The canonical name of the encoding.
+ * @param codePoint - The code point to look up.
+ * @returns The byte of the code point, or `-1` if the encoding cannot represent it.
+ * @throws {TypeError} If the encoding is not a single-byte encoding.
+ */
+
+export function codePointToSingleByte(encoding: SingleByteEncoding, codePoint: number): number {
+    if (codePoint < 0x80) return codePoint >= 0 ? codePoint : -1;
+
+    return loadCodePage(encoding).encodeTable.get(codePoint) ?? -1;
+}
+
+/**
+ * Decodes bytes in a single-byte legacy encoding (such as `windows-1252` or `koi8-r`) into a string.
+ *
+ * ## Description:
+ * Every byte is looked up in the table of the encoding, as defined by the WHATWG Encoding Standard.
+ * Bytes that the encoding does not map are replaced with `'�'`, unless `fatal` is set.
+ *
+ * - **Input**:
+ *   - `bytes`: A `Uint8Array` representing the bytes to decode.
+ *   - `encoding`: The canonical name of the encoding.
+ *   - `length`: (Optional) The number of bytes to decode.
+ *   Defaults to the entire array.
+ *   - `options`: (Optional) With `fatal: true`, an unmapped byte throws.
+ *
+ * - **Output**:
+ *   - Returns the decoded string.
+ *
+ * ## Error Handling:
+ * - Throws an error if the `bytes` parameter is not a `Uint8Array`.
+ * - Throws a `TypeError` if the encoding is not a single-byte encoding.
+ * - In fatal mode, throws an `EncodingError` with the offset of the unmapped byte.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(encodeSingleByte(new Uint8Array([ 0x80, 0x20, 0xE9 ]), 'windows-1252'));  // Outputs: "€ é"
+ * console.log(encodeSingleByte(new Uint8Array([ 0xF0, 0xD2, 0xC9 ]), 'koi8-r'));        // Outputs: "При"
+ * ```
+ *
+ * @param bytes - The bytes to decode.
+ * @param encoding - The canonical name of the encoding.
+ * @param length - (Optional) The number of bytes to decode.
+ * Defaults to the full length of the array.
+ * @param options - (Optional) Encoding options.
+ * @returns The decoded string.
+ * @throws {Error} If the `bytes` parameter is not a `Uint8Array`.
+ * @throws {TypeError} If the encoding is unknown.
+ * @throws {EncodingError} If `fatal` is set and a byte is not mapped.
+ */
+
+export function encodeSingleByte(bytes: Uint8Array, encoding: SingleByteEncoding, length?: number, options: EncodeOptions = {}): string {
+    if (!isInstance(bytes, Uint8Array)) {
+        throw new Error('encodeSingleByte input must be a Uint8Array');
+    }
+
+    const { decodeTable } = loadCodePage(encoding);
+    const maxLength = length !== undefined ? Math.min(length, bytes.length) : bytes.length;
+    const codeUnits: Array<number> = [];
+    let result = '';
+
+    for (let i = 0; i < maxLength; i++) {
+        const codePoint = decodeTable[bytes[i]];
+        if (codePoint < 0 && options.fatal) {
+            const hex = bytes[i].toString(16).toUpperCase();
+
+            throw new EncodingError(`Invalid ${ encoding } byte 0x${ hex } at offset ${ i }`, encoding, i);
+        }
+
+        codeUnits.push(codePoint < 0 ? 0xFFFD : codePoint);
+        if (codeUnits.length === 0x1000) {
+            result += String.fromCharCode(...codeUnits);
+            codeUnits.length = 0;
+        }
+    }
+
+    return result + String.fromCharCode(...codeUnits);
+}
+
+/**
+ * Encodes a string into bytes of a single-byte legacy encoding (such as `windows-1252` or `koi8-r`).
+ *
+ * ## Description:
+ * Every character is looked up in the table of the encoding, as defined by the WHATWG Encoding Standard.
+ * Characters that the encoding cannot represent are written as `'?'`, unless `fatal` is set.
+ * A surrogate pair is read as one character.
+ *
+ * - **Input**:
+ *   - `data`: The string to encode.
+ *   - `encoding`: The canonical name of the encoding.
+ *   - `length`: (Optional) The number of bytes to write.
+ *   If not specified, the entire string will be encoded.
+ *   - `options`: (Optional) With `fatal: true`, a character that cannot be represented throws.
+ *
+ * - **Output**:
+ *   - Returns a `Uint8Array` containing one byte per character.
+ *
+ * ## Error Handling:
+ * - Throws an error if the `data` is not a valid string.
+ * - Throws a `TypeError` if the encoding is not a single-byte encoding.
+ * - In fatal mode, throws an `EncodingError` with the offset of the character.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(decodeSingleByte('€ é', 'windows-1252'));  // Outputs: Uint8Array [ 128, 32, 233 ]
+ * console.log(decodeSingleByte('日', 'windows-1252'));   // Outputs: Uint8Array [ 63 ] ("?")
+ * ```
+ *
+ * @param data - The string to encode.
+ * @param encoding - The canonical name of the encoding.
+ * @param length - (Optional) The number of bytes to write.
+ * Defaults to the entire string.
+ * @param options - (Optional) Encoding options.
+ * @returns A `Uint8Array` containing the encoded bytes.
+ * @throws {Error} If the input is not a string.
+ * @throws {TypeError} If the encoding is unknown.
+ * @throws {EncodingError} If `fatal` is set and a character cannot be represented.
+ */
+
+export function decodeSingleByte(data: string, encoding: SingleByteEncoding, length?: number, options: DecodeOptions = {}): Uint8Array {
+    if (typeof data !== 'string') {
+        throw new Error('decodeSingleByte input must be a string');
+    }
+
+    const { encodeTable } = loadCodePage(encoding);
+    const result = new Uint8Array(data.length);
+    const maxLength = length !== undefined ? Math.min(length, data.length) : data.length;
+    let byteIndex = 0;
+
+    for (let i = 0; i < data.length && byteIndex < maxLength; i++) {
+        const codePoint = <number> data.codePointAt(i);
+        const byte = codePoint < 0x80 ? codePoint : encodeTable.get(codePoint);
+        if (byte === undefined && options.fatal) {
+            throw new EncodingError(
+                `Character '${ String.fromCodePoint(codePoint) }' at offset ${ i } cannot be encoded in ${ encoding }`, encoding, i
+            );
+        }
+
+        result[byteIndex++] = byte ?? 0x3F;
+        if (codePoint > 0xFFFF) i++;
+    }
+
+    return result.subarray(0, byteIndex);
+}
+
+/**
+ * Creates the codec registered for a single-byte encoding, for use with `registerEncoding`.
+ *
+ * ## Description:
+ * The codec binds `encodeSingleByte` and `decodeSingleByte` to the encoding, and measures a string
+ * by its number of code points (one byte each).
+ * The table of the encoding is only expanded when the codec first encodes or decodes data,
+ * so an unknown encoding is reported by that call.
+ *
+ * @param encoding - The canonical name of the encoding.
+ * @returns The codec of the encoding.
+ */
+
+export function createSingleByteCodec(encoding: SingleByteEncoding): EncodingCodec {
+    return {
+        encode: (bytes: Uint8Array, length?: number, options?: EncodeOptions): string =>
+            encodeSingleByte(bytes, encoding, length, options),
+        decode: (data: string, length?: number, options?: DecodeOptions): Uint8Array =>
+            decodeSingleByte(data, encoding, length, options),
+        byteLength: (data: string): number => countCodePoints(data)
+    };
+}
@@ -0,0 +1,309 @@
+/**
+ * Import will remove at compile time
+ */
+
+import type { EncodingCodec, SingleByteEncoding } from '@providers/interfaces/buffer.interfaces';
+
+/**
+ * Imports
+ */
+
+import { singleByteAliases } from '@structs/code-page.struct';
+import {
+    decodeUTF8,
+    encodeUTF8,
+    decodeCESU8,
+    encodeCESU8,
+    decodeMUTF8,
+    encodeMUTF8
+} from '@components/utf8.component';
+import { createMultiByteCodec } from '@components/cjk.component';
+import { createSingleByteCodec } from '@components/code-page.component';
+import {
+    encodeHEX,
+    decodeHEX,
+    encodeASCII,
+    decodeASCII,
+    decodeLatin1,
+    encodeLatin1,
+    decodeBase64,
+    encodeBase64,
+    decodeBase64URL,
+    encodeBase64URL,
+    decodeBase32,
+    encodeBase32,
+    decodeBase32Hex,
+    encodeBase32Hex,
+    decodeCrockford32,
+    encodeCrockford32,
+    decodeBase58,
+    encodeBase58,
+    decodeBase58Check,
+    encodeBase58Check,
+    decodeAscii85,
+    encodeAscii85,
+    decodeZ85,
+    encodeZ85,
+    decodeBase45,
+    encodeBase45,
+    decodePercent,
+    encodePercent,
+    decodeQuotedPrintable,
+    encodeQuotedPrintable,
+    decodeUTF16LE,
+    encodeUTF16LE,
+    decodeUTF16BE,
+    encodeUTF16BE,
+    decodeUTF32LE,
+    encodeUTF32LE,
+    decodeUTF32BE,
+    encodeUTF32BE,
+    countCodePoints
+} from '@components/charset.component';
+
+/**
+ * The registered encodings, keyed by their lower-case name.
+ */
+
+const encodings = new Map<string, EncodingCodec>();
+
+/**
+ * Registers a codec under an encoding name, making it available to every `Buffer` method that accepts an encoding.
+ *
+ * ## Description:
+ * Once registered, the encoding is accepted by `Buffer.isEncoding`, `Buffer.from`, `Buffer.byteLength`,
+ * `toString`, `write`, `fill`, `indexOf`, `lastIndexOf` and `includes`.
+ * Names are case-insensitive, and registering an existing name replaces its codec, including the built-in ones.
+ * To register aliases, call this function once per name with the same codec.
+ *
+ * To use the new name with the `BufferEncoding` type, merge it into `BufferEncodingMap`.
+ *
+ * - **Input**:
+ *   - `name`: The encoding name.
+ *   - `codec`: The `encode` (bytes to string), `decode` (string to bytes) and optional `byteLength` functions.
+ *
+ * ## Error Handling:
+ * - Throws a `TypeError` if `name` is not a non-empty string.
+ * - Throws a `TypeError` if `encode` or `decode` is not a function, or `byteLength` is provided but is not a function.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * const rot13 = (data: string) => data.replace(/[a-z]/gi, (char) => {
+ *     const base = char <= 'Z' ? 65 : 97;
+ *
+ *     return String.fromCharCode((char.charCodeAt(0) - base + 13) % 26 + base);
+ * });
+ *
+ * registerEncoding('rot13', {
+ *     encode: (bytes, length) => rot13(encodeASCII(bytes, length)),
+ *     decode: (data, length) => decodeASCII(rot13(data), length),
+ *     byteLength: (data) => data.length
+ * });
+ *
+ * Buffer.from('uryyb', 'rot13').toString(); // "hello"
+ * ```
+ *
+ * @param name - The encoding name.
+ * @param codec - The functions converting between bytes and strings.
+ * @throws {TypeError} If the name or the codec is invalid.
+ */
+
+export function registerEncoding(name: string, codec: EncodingCodec): void {
+    if (typeof name !== 'string' || name.length === 0) {
+        throw new TypeError('registerEncoding name must be a non-empty string');
+    }
+
+    if (!codec || typeof codec.encode !== 'function' || typeof codec.decode !== 'function') {
+        throw new TypeError('registerEncoding codec must provide encode and decode functions');
+    }
+
+    if (codec.byteLength !== undefined && typeof codec.byteLength !== 'function') {
+        throw new TypeError('registerEncoding codec byteLength must be a function');
+    }
+
+    encodings.set(name.toLowerCase(), codec);
+}
+
+/**
+ * Returns the codec registered under an encoding name.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * getEncoding('UTF-8')?.decode('€'); // Uint8Array [ 0xE2, 0x82, 0xAC ]
+ * getEncoding('unknown');             // undefined
+ * ```
+ *
+ * @param name - The encoding name, in any letter case.
+ * @returns The registered codec, or `undefined` if the encoding is unknown.
+ */
+
+export function getEncoding(name: string): EncodingCodec | undefined {
+    return typeof name === 'string' ? encodings.get(name.toLowerCase()) : undefined;
+}
+
+/**
+ * Registers the same codec under several names.
+ *
+ * @param names - The encoding name and its aliases.
+ * @param codec - The codec to register.
+ */
+
+function registerAliases(names: Array<string>, codec: EncodingCodec): void {
+    for (const name of names) {
+        registerEncoding(name, codec);
+    }
+}
+
+/**
+ * Computes the number of bytes a Base64 or Base64URL string decodes to, as Node.js does,
+ * from its length less up to two trailing `=` characters.
+ *
+ * @param data - The Base64 string to measure.
+ * @returns The number of decoded bytes.
+ */
+
+function base64ByteLength(data: string): number {
+    let length = data.length;
+    if (data.charCodeAt(length - 1) === 0x3D) length--;
+    if (length > 1 && data.charCodeAt(length - 1) === 0x3D) length--;
+
+    return (length * 3) >>> 2;
+}
+
+/**
+ * Built-in encodings
+ */
+
+registerAliases([ 'hex' ], {
+    encode: encodeHEX,
+    decode: decodeHEX,
+    byteLength: (data: string): number => data.length >>> 1
+});
+
+registerAliases([ 'utf8', 'utf-8' ], {
+    encode: encodeUTF8,
+    decode: decodeUTF8
+});
+
+registerAliases([ 'cesu8', 'cesu-8' ], {
+    encode: encodeCESU8,
+    decode: decodeCESU8
+});
+
+registerAliases([ 'mutf8', 'mutf-8' ], {
+    encode: encodeMUTF8,
+    decode: decodeMUTF8
+});
+
+registerAliases([ 'ascii' ], {
+    encode: encodeASCII,
+    decode: decodeASCII,
+    byteLength: (data: string): number => data.length
+});
+
+registerAliases([ 'latin1', 'binary' ], {
+    encode: encodeLatin1,
+    decode: decodeLatin1,
+    byteLength: (data: string): number => data.length
+});
+
+registerAliases([ 'base64' ], {
+    encode: encodeBase64,
+    decode: decodeBase64,
+    byteLength: base64ByteLength
+});
+
+registerAliases([ 'base64url' ], {
+    encode: encodeBase64URL,
+    decode: decodeBase64URL,
+    byteLength: base64ByteLength
+});
+
+registerAliases([ 'ucs2', 'ucs-2', 'utf16le', 'utf-16le' ], {
+    encode: encodeUTF16LE,
+    decode: decodeUTF16LE,
+    byteLength: (data: string): number => data.length * 2
+});
+
+registerAliases([ 'utf16be', 'utf-16be' ], {
+    encode: encodeUTF16BE,
+    decode: decodeUTF16BE,
+    byteLength: (data: string): number => data.length * 2
+});
+
+registerAliases([ 'utf32le', 'utf-32le' ], {
+    encode: encodeUTF32LE,
+    decode: decodeUTF32LE,
+    byteLength: (data: string): number => countCodePoints(data) * 4
+});
+
+registerAliases([ 'utf32be', 'utf-32be' ], {
+    encode: encodeUTF32BE,
+    decode: decodeUTF32BE,
+    byteLength: (data: string): number => countCodePoints(data) * 4
+});
+
+registerAliases([ 'base32' ], {
+    encode: encodeBase32,
+    decode: decodeBase32
+});
+
+registerAliases([ 'base32hex' ], {
+    encode: encodeBase32Hex,
+    decode: decodeBase32Hex
+});
+
+registerAliases([ 'crockford32' ], {
+    encode: encodeCrockford32,
+    decode: decodeCrockford32
+});
+
+registerAliases([ 'base58' ], {
+    encode: encodeBase58,
+    decode: decodeBase58
+});
+
+registerAliases([ 'base58check' ], {
+    encode: encodeBase58Check,
+    decode: decodeBase58Check
+});
+
+registerAliases([ 'ascii85' ], {
+    encode: encodeAscii85,
+    decode: decodeAscii85
+});
+
+registerAliases([ 'z85' ], {
+    encode: encodeZ85,
+    decode: decodeZ85,
+    byteLength: (data: string): number => Math.floor(data.length / 5) * 4
+});
+
+registerAliases([ 'base45' ], {
+    encode: encodeBase45,
+    decode: decodeBase45,
+    byteLength: (data: string): number => Math.floor(data.length / 3) * 2 + (data.length % 3 === 2 ? 1 : 0)
+});
+
+registerAliases([ 'quoted-printable' ], {
+    encode: encodeQuotedPrintable,
+    decode: decodeQuotedPrintable
+});
+
+registerAliases([ 'percent' ], {
+    encode: encodePercent,
+    decode: decodePercent
+});
+
+for (const name of <Array<SingleByteEncoding>> Object.keys(singleByteAliases)) {
+    registerAliases([ name, ...singleByteAliases[name] ], createSingleByteCodec(name));
+}
+
+registerAliases([ 'shift_jis', 'shift-jis', 'sjis', 'windows-31j', 'cp932' ], createMultiByteCodec('shift_jis'));
+registerAliases([ 'euc-jp' ], createMultiByteCodec('euc-jp'));
+registerAliases([ 'gbk', 'gb2312', 'cp936' ], createMultiByteCodec('gbk'));
+registerAliases([ 'gb18030' ], createMultiByteCodec('gb18030'));
+registerAliases([ 'big5', 'big5-hkscs', 'cp950' ], createMultiByteCodec('big5'));
+registerAliases([ 'euc-kr', 'cp949', 'windows-949' ], createMultiByteCodec('euc-kr'));
@@ -1,8 +1,15 @@
+/**
+ * Import will remove at compile time
+ */
+
+import type { FromBase64Options, ToBase64Options } from '@providers/interfaces/buffer.interfaces';
+
 /**
  * Imports
  */
 
 import { Buffer } from '@providers/buffer.provider';
+import { fromBase64, fromHex, setFromBase64, setFromHex, toBase64, toHex } from '@components/uint8array.component';
 
 /**
  * Sets the global `Buffer` object on `globalThis`, making it available throughout the environment.
@@ -91,3 +98,66 @@ export function supportUtilInspect(): void {
         originalLog(...processedArgs);
     };
 }
+
+/**
+ * Installs the TC39 Base64 and hex methods on `Uint8Array` when the environment does not provide them.
+ * This makes `Uint8Array.fromBase64`, `Uint8Array.fromHex` and the matching prototype methods available
+ * in engines that predate the proposal.
+ *
+ * ## Description:
+ * The function defines the static methods `fromBase64` and `fromHex` on `Uint8Array`,
+ * and the methods `toBase64`, `toHex`, `setFromBase64` and `setFromHex` on `Uint8Array.prototype`.
+ * Each method delegates to the function of the same name in the `uint8array` component.
+ * Methods that already exist are left untouched, so native implementations always take precedence.
+ * Like built-in methods, the installed methods are writable, configurable and not enumerable.
+ *
+ * - **Input**:
+ *   - None
+ *
+ * - **Output**:
+ *   - None. This function does not return a value, but instead modifies `Uint8Array` and its prototype.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * supportUint8ArrayBase64();
+ * (<any> Uint8Array).fromHex('cafe');                    // Uint8Array [ 0xCA, 0xFE ]
+ * (<any> new Uint8Array([ 0xCA, 0xFE ])).toBase64();     // "yv4="
+ * ```
+ *
+ * ## Error Handling:
+ * - This function does not contain explicit error handling.
+ *   The installed methods throw the same errors as the functions they delegate to.
+ *
+ * @private
+ * @returns {void}
+ */
+
+export function supportUint8ArrayBase64(): void {
+    const install = (target: object, methods: object): void => {
+        for (const [ name, value ] of Object.entries(methods)) {
+            if (name in target) continue;
+            Object.defineProperty(target, name, { value, writable: true, configurable: true, enumerable: false });
+        }
+    };
+
+    install(Uint8Array, {
+        fromBase64: (data: string, options?: FromBase64Options) => fromBase64(data, options),
+        fromHex: (data: string) => fromHex(data)
+    });
+
+    install(Uint8Array.prototype, {
+        toBase64(this: Uint8Array, options?: ToBase64Options) {
+            return toBase64(this, options);
+        },
+        toHex(this: Uint8Array) {
+            return toHex(this);
+        },
+        setFromBase64(this: Uint8Array, data: string, options?: FromBase64Options) {
+            return setFromBase64(this, data, options);
+        },
+        setFromHex(this: Uint8Array, data: string) {
+            return setFromHex(this, data);
+        }
+    });
+}
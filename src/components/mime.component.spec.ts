@@ -0,0 +1,47 @@
+/**
+ * Imports
+ */
+
+import { decodeMimeWords, encodeMimeWords } from '@components/mime.component';
+
+/**
+ * Tests
+ */
+
+describe('RFC 2047 Encoded-words', () => {
+    test('should encode header values as B or Q words', () => {
+        expect(encodeMimeWords('Caf\u00E9')).toBe('=?UTF-8?B?Q2Fmw6k=?=');
+        expect(encodeMimeWords('Caf\u00E9 au lait', 'Q')).toBe('=?UTF-8?Q?Caf=C3=A9_au_lait?=');
+        expect(encodeMimeWords('Hello world')).toBe('Hello world');
+        expect(encodeMimeWords('a =?b')).toBe('=?UTF-8?B?YSA9P2I=?=');
+        expect(() => encodeMimeWords('x', <any> 'X')).toThrow(TypeError);
+    });
+
+    test('should split long values into words of at most 75 characters', () => {
+        const text = '\u00E9\u{1F600}'.repeat(30);
+        for (const encoding of [ 'B', 'Q' ] as const) {
+            const words = encodeMimeWords(text, encoding).split(' ');
+            expect(words.length).toBeGreaterThan(1);
+            expect(words.every(word => word.length <= 75)).toBe(true);
+            expect(decodeMimeWords(words.join(' '))).toBe(text);
+        }
+    });
+
+    test('should decode words and drop whitespace between adjacent words', () => {
+        expect(decodeMimeWords('=?UTF-8?Q?Caf=C3=A9?= au lait')).toBe('Caf\u00E9 au lait');
+        expect(decodeMimeWords('=?ISO-8859-1?Q?a?= \r\n =?iso-8859-1?b?Yg==?=')).toBe('ab');
+        expect(decodeMimeWords('Re: =?us-ascii*en?Q?hi_there?= now')).toBe('Re: hi there now');
+        expect(decodeMimeWords('=?UTF-8?B?w6k=?= =?ISO-8859-1?Q?=E9?=')).toBe('\u00E9\u00E9');
+        expect(decodeMimeWords('=?ISO-8859-2?Q?=B1?= =?Shift_JIS?B?k/o=?=')).toBe('\u0105\u65E5');
+    });
+
+    test('should join bytes of a character split between words', () => {
+        expect(decodeMimeWords('=?UTF-8?Q?=C3?= =?UTF-8?Q?=A9?=')).toBe('\u00E9');
+    });
+
+    test('should leave words in unknown charsets undecoded', () => {
+        expect(decodeMimeWords('=?x-unknown?Q?abc?= =?UTF-8?Q?d?=')).toBe('=?x-unknown?Q?abc?=d');
+        expect(decodeMimeWords('plain text')).toBe('plain text');
+        expect(() => decodeMimeWords(<any> null)).toThrow('decodeMimeWords input must be a string');
+    });
+});
@@ -0,0 +1,229 @@
+/**
+ * Import will remove at compile time
+ */
+
+import type { EncodedWordEncoding } from '@providers/interfaces/buffer.interfaces';
+
+/**
+ * Imports
+ */
+
+import { hexByteLookupTable } from '@structs/lookup.struct';
+import { getEncoding } from '@components/encoding.component';
+import { decodeUTF8, encodeUTF8 } from '@components/utf8.component';
+import {
+    encodeASCII,
+    encodeLatin1,
+    decodeBase64,
+    encodeBase64,
+    decodeQuotedPrintable
+} from '@components/charset.component';
+
+/**
+ * Encodes one byte in the "Q" encoding of RFC 2047 §4.2, restricted to the characters allowed
+ * in a header phrase (§5 rule 3).
+ *
+ * @param byte - The byte to encode.
+ * @returns The byte itself, `_` for a space, or an `=XX` escape.
+ */
+
+function encodeQByte(byte: number): string {
+    if (byte === 0x20) return '_';
+    if (/[A-Za-z0-9!*+\-/]/.test(String.fromCharCode(byte))) return String.fromCharCode(byte);
+
+    return '=' + hexByteLookupTable[byte].toUpperCase();
+}
+
+/**
+ * Converts the bytes of an encoded-word into a string using its MIME charset.
+ *
+ * ## Description:
+ * `UTF-8`, `US-ASCII` and `ISO-8859-1` are decoded directly; any other charset is looked up
+ * among the registered encodings, including the legacy encodings and those added with `registerEncoding`.
+ *
+ * @param bytes - The decoded payload of the encoded-words.
+ * @param charset - The MIME charset name, without an RFC 2231 language suffix.
+ * @returns The decoded string, or `undefined` if the charset is unknown.
+ */
+
+function decodeCharset(bytes: Uint8Array, charset: string): string | undefined {
+    switch (charset.toLowerCase()) {
+        case 'utf-8':
+        case 'utf8':
+            return encodeUTF8(bytes);
+        case 'us-ascii':
+        case 'ascii':
+            return encodeASCII(bytes);
+        case 'iso-8859-1':
+        case 'latin1':
+            return encodeLatin1(bytes);
+        default:
+            return getEncoding(charset)?.encode(bytes);
+    }
+}
+
+/**
+ * Encodes a header value as RFC 2047 encoded-words (`=?UTF-8?B?...?=` or `=?UTF-8?Q?...?=`).
+ *
+ * ## Description:
+ * The text is encoded as UTF-8 and split into encoded-words of at most 75 characters, separated by a space,
+ * without splitting a character between two words.
+ * Text made only of printable ASCII, which does not need encoding, is returned unchanged.
+ * Folding the resulting header into lines is left to the caller.
+ *
+ * - **Input**:
+ *   - `text`: The header value to encode.
+ *   - `encoding`: (Optional) `'B'` for Base64 or `'Q'` for the quoted-printable variant of RFC 2047.
+ *   Defaults to `'B'`.
+ *
+ * - **Output**:
+ *   - Returns the encoded header value.
+ *
+ * ## Error Handling:
+ * - Throws an error if `text` is not a string.
+ * - Throws a `TypeError` if `encoding` is neither `'B'` nor `'Q'`.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(encodeMimeWords('Caf\u00E9'));       // Outputs: "=?UTF-8?B?Q2Fmw6k=?="
+ * console.log(encodeMimeWords('Caf\u00E9', 'Q'));  // Outputs: "=?UTF-8?Q?Caf=C3=A9?="
+ * console.log(encodeMimeWords('Hello'));          // Outputs: "Hello"
+ * ```
+ *
+ * @param text - The header value to encode.
+ * @param encoding - (Optional) The encoded-word encoding.
+ * Defaults to `'B'`.
+ * @returns The header value as encoded-words.
+ * @throws {Error} If `text` is not a string.
+ * @throws {TypeError} If the encoding is unknown.
+ */
+
+export function encodeMimeWords(text: string, encoding: EncodedWordEncoding = 'B'): string {
+    if (typeof text !== 'string') {
+        throw new Error('encodeMimeWords input must be a string');
+    }
+
+    if (encoding !== 'B' && encoding !== 'Q') {
+        throw new TypeError('Unknown encoded-word encoding: ' + encoding);
+    }
+
+    if (/^[\x20-\x7E]*$/.test(text) && !text.includes('=?')) {
+        return text;
+    }
+
+    // 75 characters, less the "=?UTF-8?B?" prefix and the "?=" suffix
+    const maxPayload = 63;
+    const words: Array<string> = [];
+    let chunk: Array<number> = [];
+    let payload = 0;
+
+    const flush = (): void => {
+        const bytes = new Uint8Array(chunk);
+        const content = encoding === 'B' ? encodeBase64(bytes) : Array.from(bytes, encodeQByte).join('');
+        words.push(`=?UTF-8?${ encoding }?${ content }?=`);
+        chunk = [];
+        payload = 0;
+    };
+
+    for (const char of text) {
+        const bytes = decodeUTF8(char);
+        const size = encoding === 'B'
+            ? Math.ceil((chunk.length + bytes.length) / 3) * 4 - payload
+            : Array.from(bytes, byte => encodeQByte(byte).length).reduce((sum, value) => sum + value, 0);
+
+        if (chunk.length > 0 && payload + size > maxPayload) {
+            flush();
+        }
+
+        chunk.push(...bytes);
+        payload = encoding === 'B' ? Math.ceil(chunk.length / 3) * 4 : payload + size;
+    }
+
+    if (chunk.length > 0) {
+        flush();
+    }
+
+    return words.join(' ');
+}
+
+/**
+ * Decodes the RFC 2047 encoded-words (`=?charset?B?...?=` and `=?charset?Q?...?=`) of a header value.
+ *
+ * ## Description:
+ * Text outside encoded-words is kept as is, and whitespace between two adjacent encoded-words is removed.
+ * The payloads of adjacent encoded-words in the same charset are joined before being decoded, so that
+ * a character split between two words is restored.
+ * An RFC 2231 language suffix (`=?UTF-8*en?Q?...?=`) is ignored.
+ * Encoded-words in a charset that is not supported are left undecoded.
+ *
+ * - **Input**:
+ *   - `text`: The header value to decode.
+ *
+ * - **Output**:
+ *   - Returns the decoded header value.
+ *
+ * ## Error Handling:
+ * - Throws an error if `text` is not a string.
+ * - Malformed payloads are decoded leniently, like `decodeBase64` and `decodeQuotedPrintable` without `fatal`.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(decodeMimeWords('=?UTF-8?Q?Caf=C3=A9?= au lait'));           // Outputs: "Café au lait"
+ * console.log(decodeMimeWords('=?ISO-8859-1?Q?a?= =?ISO-8859-1?Q?b?='));  // Outputs: "ab"
+ * ```
+ *
+ * @param text - The header value to decode.
+ * @returns The decoded header value.
+ * @throws {Error} If `text` is not a string.
+ */
+
+export function decodeMimeWords(text: string): string {
+    if (typeof text !== 'string') {
+        throw new Error('decodeMimeWords input must be a string');
+    }
+
+    const pattern = /=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g;
+    let result = '';
+    let last = 0;
+    let pending: { charset: string, bytes: Array<number>, source: string } | undefined;
+
+    const flush = (): void => {
+        if (!pending) return;
+        result += decodeCharset(new Uint8Array(pending.bytes), pending.charset) ?? pending.source;
+        pending = undefined;
+    };
+
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const [ word, charsetName, encoding, content ] = match;
+        const between = text.slice(last, match.index);
+        if (!pending || /\S/.test(between)) {
+            flush();
+            result += between;
+        }
+
+        const charset = charsetName.split('*')[0];
+        const bytes = encoding.toUpperCase() === 'B'
+            ? decodeBase64(content)
+            : decodeQuotedPrintable(content.replace(/_/g, ' '));
+
+        if (pending && pending.charset.toLowerCase() !== charset.toLowerCase()) {
+            flush();
+        }
+
+        if (pending) {
+            pending.bytes.push(...bytes);
+            pending.source += word;
+        } else {
+            pending = { charset, bytes: Array.from(bytes), source: word };
+        }
+
+        last = pattern.lastIndex;
+    }
+
+    flush();
+
+    return result + text.slice(last);
+}
@@ -0,0 +1,176 @@
+/**
+ * Import will remove at compile time
+ */
+
+import type { PEMBlock } from '@providers/interfaces/buffer.interfaces';
+
+/**
+ * Imports
+ */
+
+import { EncodingError } from '@errors/encoding.error';
+import { decodeBase64, encodeBase64, isInstance } from '@components/charset.component';
+
+/**
+ * Matches a valid PEM label (RFC 7468 §3): printable ASCII characters, with single spaces or hyphens between words.
+ */
+
+const labelPattern = /^[\x21-\x2C\x2E-\x7E]+(?:[- ][\x21-\x2C\x2E-\x7E]+)*$/;
+
+/**
+ * Encodes bytes into a PEM block (RFC 7468), wrapped at 64 columns between `-----BEGIN label-----` and `-----END label-----`.
+ *
+ * ## Description:
+ * The bytes are encoded with `encodeBase64` in lines of 64 characters separated by `'\n'`.
+ * When `headers` are given, they are written as `Name: value` lines (RFC 1421) followed by an empty line,
+ * before the encoded data. The block ends with a line break.
+ *
+ * - **Input**:
+ *   - `bytes`: The bytes to encode, such as a DER certificate.
+ *   - `label`: The label of the block, such as `'CERTIFICATE'` or `'PRIVATE KEY'`.
+ *   - `headers`: (Optional) The headers to write before the data.
+ *
+ * - **Output**:
+ *   - Returns the PEM block as a string.
+ *
+ * ## Error Handling:
+ * - Throws an error if `bytes` is not a `Uint8Array`.
+ * - Throws a `TypeError` if the label is not a valid PEM label, or a header contains a line break
+ *   or a name with a colon.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(encodePEM(new Uint8Array([ 1, 2, 3 ]), 'DATA'));
+ * // -----BEGIN DATA-----
+ * // AQID
+ * // -----END DATA-----
+ * ```
+ *
+ * @param bytes - The bytes to encode.
+ * @param label - The label of the block.
+ * @param headers - (Optional) The headers of the block.
+ * @returns The PEM block.
+ * @throws {Error} If `bytes` is not a `Uint8Array`.
+ * @throws {TypeError} If the label or a header is invalid.
+ */
+
+export function encodePEM(bytes: Uint8Array, label: string, headers: Record<string, string> = {}): string {
+    if (!isInstance(bytes, Uint8Array)) {
+        throw new Error('encodePEM input must be a Uint8Array');
+    }
+
+    if (typeof label !== 'string' || !labelPattern.test(label)) {
+        throw new TypeError('Invalid PEM label: ' + label);
+    }
+
+    let result = `-----BEGIN ${ label }-----\n`;
+    const entries = Object.entries(headers);
+    for (const [ name, value ] of entries) {
+        if (!name || /[:\r\n]/.test(name) || /[\r\n]/.test(String(value))) {
+            throw new TypeError('Invalid PEM header: ' + name);
+        }
+
+        result += `${ name }: ${ value }\n`;
+    }
+
+    if (entries.length > 0) {
+        result += '\n';
+    }
+
+    if (bytes.length > 0) {
+        result += encodeBase64(bytes, undefined, { lineLength: 64, lineBreak: '\n' }) + '\n';
+    }
+
+    return result + `-----END ${ label }-----\n`;
+}
+
+/**
+ * Decodes every PEM block (RFC 7468) found in a text.
+ *
+ * ## Description:
+ * Text outside the blocks, such as the explanatory text printed by OpenSSL, is ignored.
+ * Each block starts with a `-----BEGIN label-----` line and ends with the matching `-----END label-----` line.
+ * Lines of the form `Name: value` at the start of a block are read as RFC 1421 headers,
+ * where a line starting with whitespace continues the previous header;
+ * the Base64 data follows, and may be wrapped at any width with LF or CRLF line breaks.
+ *
+ * - **Input**:
+ *   - `text`: The PEM text, possibly containing several blocks (such as a certificate chain).
+ *
+ * - **Output**:
+ *   - Returns an array of `{ label, headers, data }` objects with `Uint8Array` data, in the order of the text.
+ *     The array is empty when the text contains no block.
+ *
+ * ## Error Handling:
+ * - Throws an error if `text` is not a string.
+ * - Throws an `EncodingError`, with the offset of the block in the text, if a block has no matching END line
+ *   or its data is not valid Base64.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * const [ block ] = decodePEM('-----BEGIN DATA-----\nAQID\n-----END DATA-----\n');
+ * console.log(block.label, block.data);  // Outputs: "DATA" Uint8Array [ 1, 2, 3 ]
+ * ```
+ *
+ * @param text - The PEM text.
+ * @returns The decoded blocks.
+ * @throws {Error} If `text` is not a string.
+ * @throws {EncodingError} If a block is malformed.
+ */
+
+export function decodePEM(text: string): Array<PEMBlock<Uint8Array>> {
+    if (typeof text !== 'string') {
+        throw new Error('decodePEM input must be a string');
+    }
+
+    const blocks: Array<PEMBlock<Uint8Array>> = [];
+    const beginPattern = /-----BEGIN ([^\r\n]*?)-----/g;
+    let match: RegExpExecArray | null;
+
+    while ((match = beginPattern.exec(text)) !== null) {
+        const [ , label ] = match;
+        const offset = match.index;
+        const endLine = `-----END ${ label }-----`;
+        const end = text.indexOf(endLine, beginPattern.lastIndex);
+        if (end === -1) {
+            throw new EncodingError(`Invalid PEM block at offset ${ offset }: missing "${ endLine }"`, 'pem', offset);
+        }
+
+        // The first line is the remainder of the BEGIN line
+        const lines = text.slice(beginPattern.lastIndex, end).split(/\r\n|\r|\n/).slice(1);
+        const headers: Record<string, string> = {};
+        let name = '';
+        let index = 0;
+
+        for (; index < lines.length; index++) {
+            const line = lines[index];
+            if (name && /^[ \t]/.test(line) && line.trim()) {
+                headers[name] += line.trimEnd();
+                continue;
+            }
+
+            const colon = line.indexOf(':');
+            if (colon <= 0) break;
+
+            name = line.slice(0, colon).trim();
+            headers[name] = line.slice(colon + 1).trim();
+        }
+
+        const base64 = lines.slice(index).join('').replace(/[ \t]/g, '');
+        let data: Uint8Array;
+        try {
+            data = decodeBase64(base64, undefined, { fatal: true });
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+
+            throw new EncodingError(`Invalid PEM block "${ label }" at offset ${ offset }: ${ reason }`, 'pem', offset);
+        }
+
+        blocks.push({ label, headers, data });
+        beginPattern.lastIndex = end + endLine.length;
+    }
+
+    return blocks;
+}
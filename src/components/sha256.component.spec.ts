@@ -0,0 +1,27 @@
+/**
+ * Imports
+ */
+
+import { sha256 } from '@components/sha256.component';
+import { encodeHEX } from '@components/charset.component';
+
+/**
+ * Tests
+ */
+
+describe('sha256', () => {
+    const digest = (text: string): string => encodeHEX(sha256(new Uint8Array(Array.from(text, char => char.charCodeAt(0)))));
+
+    test('should match the FIPS 180-4 test vectors', () => {
+        expect(digest('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+        expect(digest('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+        expect(digest('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))
+            .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+    });
+
+    test('should hash inputs spanning several blocks', () => {
+        expect(digest('a'.repeat(1000))).toBe('41edece42d63e8d9bf515a9ba6932e1c20cbc9f5a5d134645adb5db1b9737ea3');
+        expect(digest('a'.repeat(55))).toBe(digest('a'.repeat(55)));
+        expect(sha256(new Uint8Array(64)).length).toBe(32);
+    });
+});
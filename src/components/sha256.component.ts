@@ -0,0 +1,105 @@
+/**
+ * The round constants of SHA-256: the first 32 bits of the fractional parts of the cube roots of the first 64 primes.
+ */
+
+const roundConstants = new Uint32Array([
+    0x428A2F98, 0x71374491, 0xB5C0FBCF, 0xE9B5DBA5, 0x3956C25B, 0x59F111F1, 0x923F82A4, 0xAB1C5ED5,
+    0xD807AA98, 0x12835B01, 0x243185BE, 0x550C7DC3, 0x72BE5D74, 0x80DEB1FE, 0x9BDC06A7, 0xC19BF174,
+    0xE49B69C1, 0xEFBE4786, 0x0FC19DC6, 0x240CA1CC, 0x2DE92C6F, 0x4A7484AA, 0x5CB0A9DC, 0x76F988DA,
+    0x983E5152, 0xA831C66D, 0xB00327C8, 0xBF597FC7, 0xC6E00BF3, 0xD5A79147, 0x06CA6351, 0x14292967,
+    0x27B70A85, 0x2E1B2138, 0x4D2C6DFC, 0x53380D13, 0x650A7354, 0x766A0ABB, 0x81C2C92E, 0x92722C85,
+    0xA2BFE8A1, 0xA81A664B, 0xC24B8B70, 0xC76C51A3, 0xD192E819, 0xD6990624, 0xF40E3585, 0x106AA070,
+    0x19A4C116, 0x1E376C08, 0x2748774C, 0x34B0BCB5, 0x391C0CB3, 0x4ED8AA4A, 0x5B9CCA4F, 0x682E6FF3,
+    0x748F82EE, 0x78A5636F, 0x84C87814, 0x8CC70208, 0x90BEFFFA, 0xA4506CEB, 0xBEF9A3F7, 0xC67178F2
+]);
+
+/**
+ * Computes the SHA-256 digest (FIPS 180-4) of a byte array.
+ *
+ * ## Description:
+ * This is a small synchronous implementation used by checksummed encodings such as Base58Check,
+ * where the asynchronous `crypto.subtle.digest` cannot be used from the synchronous `Buffer` methods.
+ * It is not meant for hashing large amounts of data.
+ *
+ * - **Input**:
+ *   - `bytes`: The data to hash.
+ *
+ * - **Output**:
+ *   - A 32-byte `Uint8Array` containing the digest.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * const digest = sha256(new Uint8Array([ 0x61, 0x62, 0x63 ])); // "abc"
+ * console.log(encodeHEX(digest)); // "ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad"
+ * ```
+ *
+ * @param bytes - The data to hash.
+ * @returns The 32-byte digest.
+ */
+
+export function sha256(bytes: Uint8Array): Uint8Array {
+    // Append the 0x80 marker, zero padding and the 64-bit message length in bits
+    const paddedLength = Math.ceil((bytes.length + 9) / 64) * 64;
+    const message = new Uint8Array(paddedLength);
+    message.set(bytes);
+    message[bytes.length] = 0x80;
+
+    const view = new DataView(message.buffer);
+    view.setUint32(paddedLength - 8, Math.floor(bytes.length / 0x20000000));
+    view.setUint32(paddedLength - 4, (bytes.length << 3) >>> 0);
+
+    const state = new Uint32Array([
+        0x6A09E667, 0xBB67AE85, 0x3C6EF372, 0xA54FF53A, 0x510E527F, 0x9B05688C, 0x1F83D9AB, 0x5BE0CD19
+    ]);
+    const words = new Uint32Array(64);
+    const rotate = (value: number, bits: number): number => (value >>> bits) | (value << (32 - bits));
+
+    for (let offset = 0; offset < paddedLength; offset += 64) {
+        for (let i = 0; i < 16; i++) {
+            words[i] = view.getUint32(offset + i * 4);
+        }
+
+        for (let i = 16; i < 64; i++) {
+            const s0 = rotate(words[i - 15], 7) ^ rotate(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+            const s1 = rotate(words[i - 2], 17) ^ rotate(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+            words[i] = words[i - 16] + s0 + words[i - 7] + s1;
+        }
+
+        let [ a, b, c, d, e, f, g, h ] = state;
+        for (let i = 0; i < 64; i++) {
+            const s1 = rotate(e, 6) ^ rotate(e, 11) ^ rotate(e, 25);
+            const choice = (e & f) ^ (~e & g);
+            const temp1 = (h + s1 + choice + roundConstants[i] + words[i]) | 0;
+            const s0 = rotate(a, 2) ^ rotate(a, 13) ^ rotate(a, 22);
+            const majority = (a & b) ^ (a & c) ^ (b & c);
+            const temp2 = (s0 + majority) | 0;
+
+            h = g;
+            g = f;
+            f = e;
+            e = (d + temp1) | 0;
+            d = c;
+            c = b;
+            b = a;
+            a = (temp1 + temp2) | 0;
+        }
+
+        state[0] += a;
+        state[1] += b;
+        state[2] += c;
+        state[3] += d;
+        state[4] += e;
+        state[5] += f;
+        state[6] += g;
+        state[7] += h;
+    }
+
+    const digest = new Uint8Array(32);
+    const digestView = new DataView(digest.buffer);
+    for (let i = 0; i < 8; i++) {
+        digestView.setUint32(i * 4, state[i]);
+    }
+
+    return digest;
+}
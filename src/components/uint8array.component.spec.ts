@@ -0,0 +1,160 @@
+/**
+ * Imports
+ */
+
+import {
+    fromBase64,
+    fromHex,
+    setFromBase64,
+    setFromHex,
+    toBase64,
+    toHex
+} from '@components/uint8array.component';
+import { supportUint8ArrayBase64 } from '@components/globals.component';
+
+/**
+ * Tests
+ */
+
+describe('toBase64', () => {
+    const bytes = new Uint8Array([ 0xFB, 0xFF ]);
+
+    test('pads both alphabets unless omitPadding is set', () => {
+        expect(toBase64(bytes)).toBe('+/8=');
+        expect(toBase64(bytes, { alphabet: 'base64url' })).toBe('-_8=');
+        expect(toBase64(bytes, { omitPadding: true })).toBe('+/8');
+        expect(toBase64(bytes, { alphabet: 'base64url', omitPadding: true })).toBe('-_8');
+        expect(toBase64(new Uint8Array([ 1, 2, 3 ]), { alphabet: 'base64url' })).toBe('AQID');
+    });
+
+    test('rejects invalid arguments', () => {
+        expect(() => toBase64(<any> 'abc')).toThrow(TypeError);
+        expect(() => toBase64(bytes, <any> { alphabet: 'base32' })).toThrow(TypeError);
+        expect(() => toBase64(bytes, <any> 'base64')).toThrow(TypeError);
+    });
+});
+
+describe('toHex', () => {
+    test('encodes lower-case hexadecimal', () => {
+        expect(toHex(new Uint8Array([ 0xCA, 0xFE, 0x01 ]))).toBe('cafe01');
+        expect(() => toHex(<any> [ 1 ])).toThrow(TypeError);
+    });
+});
+
+describe('fromBase64', () => {
+    test('decodes padded and unpadded input', () => {
+        expect(Array.from(fromBase64('SGVsbG8='))).toEqual([ 72, 101, 108, 108, 111 ]);
+        expect(Array.from(fromBase64('SGVsbG8'))).toEqual([ 72, 101, 108, 108, 111 ]);
+        expect(Array.from(fromBase64(''))).toEqual([]);
+    });
+
+    test('skips ascii whitespace, including inside the padding', () => {
+        expect(Array.from(fromBase64(' SG\tVs\nbG\r8\f= '))).toEqual([ 72, 101, 108, 108, 111 ]);
+        expect(Array.from(fromBase64('SA = ='))).toEqual([ 72 ]);
+    });
+
+    test('only accepts characters of the selected alphabet', () => {
+        expect(Array.from(fromBase64('-_8=', { alphabet: 'base64url' }))).toEqual([ 0xFB, 0xFF ]);
+        expect(() => fromBase64('-_8=')).toThrow(SyntaxError);
+        expect(() => fromBase64('+/8=', { alphabet: 'base64url' })).toThrow(SyntaxError);
+        expect(() => fromBase64('SGVs*G8=')).toThrow(SyntaxError);
+    });
+
+    test('rejects misplaced padding', () => {
+        expect(() => fromBase64('S===')).toThrow(SyntaxError);
+        expect(() => fromBase64('SA=')).toThrow(SyntaxError);
+        expect(() => fromBase64('SA==SA==')).toThrow(SyntaxError);
+        expect(() => fromBase64('=')).toThrow(SyntaxError);
+    });
+
+    test('handles the last chunk according to lastChunkHandling', () => {
+        expect(() => fromBase64('SGVsbG8')).not.toThrow();
+        expect(() => fromBase64('SGVsb')).toThrow(SyntaxError);
+        expect(() => fromBase64('SGVsbG8', { lastChunkHandling: 'strict' })).toThrow(SyntaxError);
+        expect(Array.from(fromBase64('SGVsbG8', { lastChunkHandling: 'stop-before-partial' }))).toEqual([ 72, 101, 108 ]);
+        expect(Array.from(fromBase64('SGVsbG8=', { lastChunkHandling: 'stop-before-partial' }))).toEqual([ 72, 101, 108, 108, 111 ]);
+        expect(Array.from(fromBase64('SA=', { lastChunkHandling: 'stop-before-partial' }))).toEqual([]);
+    });
+
+    test('rejects non-zero padding bits only in strict mode', () => {
+        expect(Array.from(fromBase64('SGVsbG9='))).toEqual([ 72, 101, 108, 108, 111 ]);
+        expect(Array.from(fromBase64('SB=='))).toEqual([ 72 ]);
+        expect(() => fromBase64('SGVsbG9=', { lastChunkHandling: 'strict' })).toThrow(SyntaxError);
+        expect(() => fromBase64('SB==', { lastChunkHandling: 'strict' })).toThrow(SyntaxError);
+        expect(Array.from(fromBase64('SA==', { lastChunkHandling: 'strict' }))).toEqual([ 72 ]);
+    });
+
+    test('rejects invalid arguments', () => {
+        expect(() => fromBase64(<any> 1)).toThrow(TypeError);
+        expect(() => fromBase64('', <any> { lastChunkHandling: 'lenient' })).toThrow(TypeError);
+    });
+});
+
+describe('fromHex', () => {
+    test('decodes hexadecimal in any letter case', () => {
+        expect(Array.from(fromHex('CAfe01'))).toEqual([ 0xCA, 0xFE, 0x01 ]);
+    });
+
+    test('rejects odd lengths and non-hexadecimal characters', () => {
+        expect(() => fromHex('caf')).toThrow(SyntaxError);
+        expect(() => fromHex('cafg')).toThrow(SyntaxError);
+        expect(() => fromHex(' ca')).toThrow(SyntaxError);
+        expect(() => fromHex(<any> null)).toThrow(TypeError);
+    });
+});
+
+describe('setFromBase64', () => {
+    test('stops before the first chunk that does not fit', () => {
+        const target = new Uint8Array(4);
+        expect(setFromBase64(target, 'SGVsbG8=')).toEqual({ read: 4, written: 3 });
+        expect(Array.from(target)).toEqual([ 72, 101, 108, 0 ]);
+    });
+
+    test('decodes a partial last chunk when it fits', () => {
+        const target = new Uint8Array(8);
+        expect(setFromBase64(target, 'SGVsbG8')).toEqual({ read: 7, written: 5 });
+        expect(setFromBase64(new Uint8Array(4), 'SGVsbG8')).toEqual({ read: 4, written: 3 });
+        expect(setFromBase64(new Uint8Array(0), 'SGVsbG8')).toEqual({ read: 0, written: 0 });
+    });
+
+    test('writes the bytes decoded before an error', () => {
+        const target = new Uint8Array(8);
+        expect(() => setFromBase64(target, 'SGVsbG8*')).toThrow(SyntaxError);
+        expect(Array.from(target.subarray(0, 4))).toEqual([ 72, 101, 108, 0 ]);
+    });
+});
+
+describe('setFromHex', () => {
+    test('stops when the target is full', () => {
+        const target = new Uint8Array(2);
+        expect(setFromHex(target, 'cafe00')).toEqual({ read: 4, written: 2 });
+        expect(Array.from(target)).toEqual([ 0xCA, 0xFE ]);
+    });
+
+    test('writes the bytes decoded before an error', () => {
+        const target = new Uint8Array(4);
+        expect(() => setFromHex(target, 'cafexx')).toThrow(SyntaxError);
+        expect(Array.from(target)).toEqual([ 0xCA, 0xFE, 0, 0 ]);
+    });
+});
+
+describe('supportUint8ArrayBase64', () => {
+    test('installs non-enumerable methods on Uint8Array', () => {
+        supportUint8ArrayBase64();
+        const uint8Array = <any> Uint8Array;
+
+        expect(Array.from(uint8Array.fromHex('cafe'))).toEqual([ 0xCA, 0xFE ]);
+        expect(Array.from(uint8Array.fromBase64('yv4='))).toEqual([ 0xCA, 0xFE ]);
+        expect((<any> new Uint8Array([ 0xCA, 0xFE ])).toBase64()).toBe('yv4=');
+        expect((<any> new Uint8Array([ 0xCA, 0xFE ])).toHex()).toBe('cafe');
+        expect((<any> new Uint8Array(1)).setFromHex('ff')).toEqual({ read: 2, written: 1 });
+        expect(Object.keys(Uint8Array.prototype)).not.toContain('toBase64');
+    });
+
+    test('keeps existing implementations', () => {
+        const existing = (<any> Uint8Array).fromHex;
+        supportUint8ArrayBase64();
+
+        expect((<any> Uint8Array).fromHex).toBe(existing);
+    });
+});
@@ -0,0 +1,473 @@
+/**
+ * Import will remove at compile time
+ */
+
+import type {
+    Base64Alphabet,
+    EncodeIntoResult,
+    ToBase64Options,
+    FromBase64Options
+} from '@providers/interfaces/buffer.interfaces';
+
+/**
+ * Imports
+ */
+
+import { base64LookupTable, hexCharLookupTable } from '@structs/lookup.struct';
+import { decodeBase64, decodeHEX, encodeBase64, encodeBase64URL, encodeHEX, isInstance } from '@components/charset.component';
+
+/**
+ * The outcome of reading an encoded string, as defined by the `FromBase64` and `FromHex` abstract operations
+ * of the TC39 proposal.
+ *
+ * ## Description:
+ * - **`read`**: The number of characters consumed from the input.
+ * - **`data`**: The validated characters to decode (for Base64, normalized to the standard alphabet).
+ * - **`error`**: The error to throw once the bytes decoded before it have been written, if any.
+ */
+
+type ReadResult = {
+    read: number;
+    data: string;
+    error?: SyntaxError;
+};
+
+/**
+ * Returns the index of the first character at or after `index` that is not ASCII whitespace
+ * (tab, line feed, form feed, carriage return or space).
+ *
+ * @param data - The string to scan.
+ * @param index - The position to start from.
+ * @returns The position of the next non-whitespace character, or the length of `data`.
+ */
+
+function skipAsciiWhitespace(data: string, index: number): number {
+    while (index < data.length) {
+        const charCode = data.charCodeAt(index);
+        if (charCode !== 0x09 && charCode !== 0x0A && charCode !== 0x0C && charCode !== 0x0D && charCode !== 0x20) {
+            break;
+        }
+
+        index++;
+    }
+
+    return index;
+}
+
+/**
+ * Reads the `alphabet` option, defaulting to `'base64'`.
+ *
+ * @param options - The options object passed by the caller.
+ * @returns The alphabet to use.
+ * @throws {TypeError} If `options` is not an object or the alphabet is unknown.
+ */
+
+function readAlphabet(options: ToBase64Options | FromBase64Options | undefined): Base64Alphabet {
+    if (options !== undefined && (options === null || typeof options !== 'object')) {
+        throw new TypeError('The options argument must be an object');
+    }
+
+    const alphabet = options?.alphabet ?? 'base64';
+    if (alphabet !== 'base64' && alphabet !== 'base64url') {
+        throw new TypeError('Invalid alphabet: ' + alphabet);
+    }
+
+    return alphabet;
+}
+
+/**
+ * Reads the `lastChunkHandling` option, defaulting to `'loose'`.
+ *
+ * @param options - The options object passed by the caller.
+ * @returns The last chunk handling mode.
+ * @throws {TypeError} If the mode is unknown.
+ */
+
+function readLastChunkHandling(options: FromBase64Options | undefined): string {
+    const lastChunkHandling = options?.lastChunkHandling ?? 'loose';
+    if (lastChunkHandling !== 'loose' && lastChunkHandling !== 'strict' && lastChunkHandling !== 'stop-before-partial') {
+        throw new TypeError('Invalid lastChunkHandling: ' + lastChunkHandling);
+    }
+
+    return lastChunkHandling;
+}
+
+/**
+ * Validates a Base64 string chunk by chunk, following the `FromBase64` operation of the TC39 proposal.
+ *
+ * ## Description:
+ * ASCII whitespace is skipped, and characters outside `alphabet` are rejected.
+ * Reading stops before a chunk whose bytes would not fit in `maxLength`.
+ * Instead of throwing, the first error is returned with the characters validated before it,
+ * so that `setFromBase64` can write those bytes before throwing.
+ *
+ * @param data - The Base64 string.
+ * @param alphabet - The alphabet of `data`.
+ * @param lastChunkHandling - How a final chunk of fewer than four characters is handled.
+ * @param maxLength - The maximum number of bytes to produce.
+ * @returns The number of characters read, the validated characters and the error, if any.
+ */
+
+function readBase64(data: string, alphabet: Base64Alphabet, lastChunkHandling: string, maxLength: number): ReadResult {
+    let read = 0;
+    let chunks = '';
+    let chunk = '';
+    let index = 0;
+    let written = 0;
+
+    const fail = (message: string): ReadResult => ({ read, data: chunks, error: new SyntaxError(message) });
+    if (maxLength === 0) {
+        return { read, data: chunks };
+    }
+
+    for (;;) {
+        index = skipAsciiWhitespace(data, index);
+        if (index === data.length) {
+            if (chunk.length > 0) {
+                if (lastChunkHandling === 'stop-before-partial') {
+                    return { read, data: chunks };
+                }
+
+                if (lastChunkHandling === 'strict') {
+                    return fail('Invalid base64 string: the last chunk must be padded');
+                }
+
+                if (chunk.length === 1) {
+                    return fail('Invalid base64 string: the last chunk is too short');
+                }
+
+                chunks += chunk;
+            }
+
+            return { read: data.length, data: chunks };
+        }
+
+        const char = data[index++];
+        if (char === '=') {
+            if (chunk.length < 2) {
+                return fail('Invalid base64 string: unexpected padding');
+            }
+
+            index = skipAsciiWhitespace(data, index);
+            if (chunk.length === 2) {
+                if (index === data.length) {
+                    if (lastChunkHandling === 'stop-before-partial') {
+                        return { read, data: chunks };
+                    }
+
+                    return fail('Invalid base64 string: incomplete padding');
+                }
+
+                if (data[index] === '=') {
+                    index = skipAsciiWhitespace(data, index + 1);
+                }
+            }
+
+            if (index < data.length) {
+                return fail('Invalid base64 string: unexpected data after padding');
+            }
+
+            // In strict mode, the bits of the last character that do not belong to a byte must be zero
+            const lastValue = base64LookupTable[chunk.charCodeAt(chunk.length - 1)];
+            if (lastChunkHandling === 'strict' && (lastValue & (chunk.length === 2 ? 0x0F : 0x03)) !== 0) {
+                return fail('Invalid base64 string: non-zero padding bits');
+            }
+
+            return { read: data.length, data: chunks + chunk };
+        }
+
+        const foreign = alphabet === 'base64url' ? char === '+' || char === '/' : char === '-' || char === '_';
+        if (foreign || !(base64LookupTable[char.charCodeAt(0)] >= 0)) {
+            return fail(`Invalid base64 string: unexpected character '${ char }' at index ${ index - 1 }`);
+        }
+
+        // Stop before a chunk whose bytes would not fit
+        const remaining = maxLength - written;
+        if ((remaining === 1 && chunk.length === 2) || (remaining === 2 && chunk.length === 3)) {
+            return { read, data: chunks };
+        }
+
+        chunk += char;
+        if (chunk.length === 4) {
+            chunks += chunk;
+            chunk = '';
+            written += 3;
+            read = index;
+
+            if (written === maxLength) {
+                return { read, data: chunks };
+            }
+        }
+    }
+}
+
+/**
+ * Validates a hexadecimal string pair by pair, following the `FromHex` operation of the TC39 proposal.
+ *
+ * @param data - The hexadecimal string.
+ * @param maxLength - The maximum number of bytes to produce.
+ * @returns The number of characters read, the validated characters and the error, if any.
+ */
+
+function readHex(data: string, maxLength: number): ReadResult {
+    if (data.length % 2 !== 0) {
+        return { read: 0, data: '', error: new SyntaxError('Invalid hex string: the length must be even') };
+    }
+
+    let read = 0;
+    while (read < data.length && read / 2 < maxLength) {
+        if (!(hexCharLookupTable[data.charCodeAt(read)] >= 0) || !(hexCharLookupTable[data.charCodeAt(read + 1)] >= 0)) {
+            return {
+                read,
+                data: data.slice(0, read),
+                error: new SyntaxError(`Invalid hex string: unexpected character at index ${ read }`)
+            };
+        }
+
+        read += 2;
+    }
+
+    return { read, data: data.slice(0, read) };
+}
+
+/**
+ * Encodes bytes into a Base64 string, as `Uint8Array.prototype.toBase64` does.
+ *
+ * ## Description:
+ * This function implements the TC39 `toBase64` method on top of `encodeBase64` and `encodeBase64URL`.
+ * The output is padded with `=` unless `omitPadding` is `true`, for both alphabets.
+ *
+ * - **Input**:
+ *   - `bytes`: The `Uint8Array` to encode.
+ *   - `options` (optional): The `alphabet` (`'base64'` or `'base64url'`) and `omitPadding` options.
+ *
+ * - **Output**:
+ *   - The Base64 string.
+ *
+ * ## Error Handling:
+ * - Throws a `TypeError` if `bytes` is not a `Uint8Array`, or the options are invalid.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * toBase64(new Uint8Array([ 0xFB, 0xFF ]));                             // "+/8="
+ * toBase64(new Uint8Array([ 0xFB, 0xFF ]), { alphabet: 'base64url' });  // "-_8="
+ * toBase64(new Uint8Array([ 0xFB, 0xFF ]), { omitPadding: true });      // "+/8"
+ * ```
+ *
+ * @param bytes - The bytes to encode.
+ * @param options - (Optional) The encoding options.
+ * @returns The Base64 string.
+ * @throws {TypeError} If the input or the options are invalid.
+ */
+
+export function toBase64(bytes: Uint8Array, options?: ToBase64Options): string {
+    if (!isInstance(bytes, Uint8Array)) {
+        throw new TypeError('toBase64 input must be a Uint8Array');
+    }
+
+    const alphabet = readAlphabet(options);
+    if (alphabet === 'base64url') {
+        const result = encodeBase64URL(bytes);
+
+        return options?.omitPadding ? result : result + '='.repeat((4 - (result.length % 4)) % 4);
+    }
+
+    const result = encodeBase64(bytes);
+
+    return options?.omitPadding ? result.replace(/=+$/, '') : result;
+}
+
+/**
+ * Encodes bytes into a lower-case hexadecimal string, as `Uint8Array.prototype.toHex` does.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * toHex(new Uint8Array([ 0xCA, 0xFE ])); // "cafe"
+ * ```
+ *
+ * @param bytes - The bytes to encode.
+ * @returns The hexadecimal string.
+ * @throws {TypeError} If `bytes` is not a `Uint8Array`.
+ */
+
+export function toHex(bytes: Uint8Array): string {
+    if (!isInstance(bytes, Uint8Array)) {
+        throw new TypeError('toHex input must be a Uint8Array');
+    }
+
+    return encodeHEX(bytes);
+}
+
+/**
+ * Decodes a Base64 string into a new `Uint8Array`, as `Uint8Array.fromBase64` does.
+ *
+ * ## Description:
+ * Unlike `decodeBase64`, which skips any character outside the alphabet, this function is strict about its input:
+ * only ASCII whitespace is ignored, characters of the other alphabet are rejected, and padding may only
+ * appear at the end. The final chunk is handled according to `lastChunkHandling`.
+ * The validated characters are then decoded with `decodeBase64`.
+ *
+ * - **Input**:
+ *   - `data`: The Base64 string.
+ *   - `options` (optional): The `alphabet` and `lastChunkHandling` options.
+ *
+ * - **Output**:
+ *   - A `Uint8Array` with the decoded bytes.
+ *
+ * ## Error Handling:
+ * - Throws a `TypeError` if `data` is not a string, or the options are invalid.
+ * - Throws a `SyntaxError` if `data` is not valid Base64.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * fromBase64('SGVsbG8=');                                           // Uint8Array [ 72, 101, 108, 108, 111 ]
+ * fromBase64('SGVsbG8', { lastChunkHandling: 'strict' });           // throws SyntaxError
+ * fromBase64('SGVsbG8', { lastChunkHandling: 'stop-before-partial' }); // Uint8Array [ 72, 101, 108 ]
+ * ```
+ *
+ * @param data - The Base64 string.
+ * @param options - (Optional) The decoding options.
+ * @returns The decoded bytes.
+ * @throws {TypeError} If the input or the options are invalid.
+ * @throws {SyntaxError} If the input is not valid Base64.
+ */
+
+export function fromBase64(data: string, options?: FromBase64Options): Uint8Array {
+    if (typeof data !== 'string') {
+        throw new TypeError('fromBase64 input must be a string');
+    }
+
+    const result = readBase64(data, readAlphabet(options), readLastChunkHandling(options), Infinity);
+    if (result.error) {
+        throw result.error;
+    }
+
+    return decodeBase64(result.data);
+}
+
+/**
+ * Decodes a hexadecimal string into a new `Uint8Array`, as `Uint8Array.fromHex` does.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * fromHex('CAFE');  // Uint8Array [ 0xCA, 0xFE ]
+ * fromHex('caf');   // throws SyntaxError
+ * ```
+ *
+ * @param data - The hexadecimal string, in any letter case.
+ * @returns The decoded bytes.
+ * @throws {TypeError} If `data` is not a string.
+ * @throws {SyntaxError} If `data` has an odd length or contains a non-hexadecimal character.
+ */
+
+export function fromHex(data: string): Uint8Array {
+    if (typeof data !== 'string') {
+        throw new TypeError('fromHex input must be a string');
+    }
+
+    const result = readHex(data, Infinity);
+    if (result.error) {
+        throw result.error;
+    }
+
+    return decodeHEX(result.data);
+}
+
+/**
+ * Decodes a Base64 string into an existing `Uint8Array`, as `Uint8Array.prototype.setFromBase64` does.
+ *
+ * ## Description:
+ * Decoding stops before the first chunk whose bytes do not fit in `target`.
+ * If the input is invalid, the bytes decoded before the error are written to `target` before the `SyntaxError` is thrown.
+ *
+ * - **Input**:
+ *   - `target`: The `Uint8Array` to write into, starting at index `0`.
+ *   - `data`: The Base64 string.
+ *   - `options` (optional): The `alphabet` and `lastChunkHandling` options.
+ *
+ * - **Output**:
+ *   - An object with the number of characters `read` and the number of bytes `written`.
+ *
+ * ## Error Handling:
+ * - Throws a `TypeError` if `target` is not a `Uint8Array`, `data` is not a string, or the options are invalid.
+ * - Throws a `SyntaxError` if `data` is not valid Base64.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * const target = new Uint8Array(4);
+ * setFromBase64(target, 'SGVsbG8=');  // { read: 4, written: 3 }, target: [ 72, 101, 108, 0 ]
+ * ```
+ *
+ * @param target - The bytes to write into.
+ * @param data - The Base64 string.
+ * @param options - (Optional) The decoding options.
+ * @returns The number of characters read and bytes written.
+ * @throws {TypeError} If the input or the options are invalid.
+ * @throws {SyntaxError} If the input is not valid Base64.
+ */
+
+export function setFromBase64(target: Uint8Array, data: string, options?: FromBase64Options): EncodeIntoResult {
+    if (!isInstance(target, Uint8Array)) {
+        throw new TypeError('setFromBase64 target must be a Uint8Array');
+    }
+
+    if (typeof data !== 'string') {
+        throw new TypeError('setFromBase64 input must be a string');
+    }
+
+    const result = readBase64(data, readAlphabet(options), readLastChunkHandling(options), target.length);
+    const bytes = decodeBase64(result.data);
+    target.set(bytes);
+
+    if (result.error) {
+        throw result.error;
+    }
+
+    return { read: result.read, written: bytes.length };
+}
+
+/**
+ * Decodes a hexadecimal string into an existing `Uint8Array`, as `Uint8Array.prototype.setFromHex` does.
+ *
+ * ## Description:
+ * Decoding stops when `target` is full.
+ * If the input is invalid, the bytes decoded before the error are written to `target` before the `SyntaxError` is thrown.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * const target = new Uint8Array(2);
+ * setFromHex(target, 'cafe00');  // { read: 4, written: 2 }, target: [ 0xCA, 0xFE ]
+ * ```
+ *
+ * @param target - The bytes to write into, starting at index `0`.
+ * @param data - The hexadecimal string, in any letter case.
+ * @returns The number of characters read and bytes written.
+ * @throws {TypeError} If `target` is not a `Uint8Array` or `data` is not a string.
+ * @throws {SyntaxError} If `data` has an odd length or contains a non-hexadecimal character.
+ */
+
+export function setFromHex(target: Uint8Array, data: string): EncodeIntoResult {
+    if (!isInstance(target, Uint8Array)) {
+        throw new TypeError('setFromHex target must be a Uint8Array');
+    }
+
+    if (typeof data !== 'string') {
+        throw new TypeError('setFromHex input must be a string');
+    }
+
+    const result = readHex(data, target.length);
+    const bytes = decodeHEX(result.data);
+    target.set(bytes);
+
+    if (result.error) {
+        throw result.error;
+    }
+
+    return { read: result.read, written: bytes.length };
+}
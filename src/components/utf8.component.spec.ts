@@ -2,7 +2,16 @@
  * Imports
  */
 
-import { decodeUTF8, encodeUTF8 } from '@components/utf8.component';
+import { EncodingError } from '@errors/encoding.error';
+import {
+    decodeCESU8,
+    decodeMUTF8,
+    decodeUTF8,
+    decodeUTF8Into,
+    encodeCESU8,
+    encodeMUTF8,
+    encodeUTF8
+} from '@components/utf8.component';
 
 /**
  * Tests
@@ -266,3 +275,157 @@ describe('UTF-8 Encoding and Decoding', () => {
         expect(result.buffer).toEqual(Buffer.from(result, 0, 10).buffer);
     });
 });
+
+describe('encodeUTF8 malformed input', () => {
+    const cases: Array<Array<number>> = [
+        [ 0xC2 ],
+        [ 0xC2, 0x41 ],
+        [ 0xE2, 0x82 ],
+        [ 0xE2, 0x82, 0x41 ],
+        [ 0xE0, 0x80, 0x80 ],
+        [ 0xED, 0xA0, 0x80 ],
+        [ 0xF0, 0x9F, 0x98 ],
+        [ 0xF0, 0x8F, 0xBF, 0xBF ],
+        [ 0xF4, 0x90, 0x80, 0x80 ],
+        [ 0xF5, 0x80, 0x80, 0x80 ],
+        [ 0x61, 0xF0, 0x9F, 0x41, 0xE2, 0x82, 0xAC ]
+    ];
+
+    test.each(cases)('should replace maximal subparts like TextDecoder (%#)', (...bytes) => {
+        const data = new Uint8Array(bytes);
+
+        expect(encodeUTF8(data)).toBe(new TextDecoder().decode(data));
+    });
+
+    test('should emit a single replacement character for a truncated sequence', () => {
+        expect(encodeUTF8(new Uint8Array([ 0xE2, 0x82, 0x41 ]))).toBe('\uFFFDA');
+        expect(encodeUTF8(new Uint8Array([ 0xF0, 0x9F, 0x98, 0x41 ]))).toBe('\uFFFDA');
+    });
+
+    test('should throw an EncodingError with the offset in fatal mode', () => {
+        const data = new Uint8Array([ 0x61, 0x62, 0xE2, 0x82, 0x41 ]);
+
+        expect(() => encodeUTF8(data, undefined, { fatal: true })).toThrow(EncodingError);
+        try {
+            encodeUTF8(data, undefined, { fatal: true });
+        } catch (error) {
+            expect(error).toBeInstanceOf(TypeError);
+            expect((<EncodingError> error).offset).toBe(2);
+            expect((<EncodingError> error).encoding).toBe('utf-8');
+            expect((<EncodingError> error).code).toBe('ERR_ENCODING_INVALID_ENCODED_DATA');
+        }
+    });
+
+    test('should report the offset of malformed data in large inputs in fatal mode', () => {
+        const bytes = Buffer.concat([ Buffer.from('a'.repeat(100)), Buffer.from([ 0xFF ]) ]);
+
+        expect(() => encodeUTF8(bytes, undefined, { fatal: true })).toThrow(expect.objectContaining({ offset: 100 }));
+    });
+
+    test('should decode valid input in fatal mode', () => {
+        const text = 'Hello, 世界! 😀'.repeat(10);
+
+        expect(encodeUTF8(Buffer.from(text), undefined, { fatal: true })).toBe(text);
+        expect(encodeUTF8(Buffer.from('\uFFFD'), undefined, { fatal: true })).toBe('\uFFFD');
+    });
+});
+
+describe('encodeUTF8 on large inputs', () => {
+    const cjk = '漢字かな交じり文'.repeat(45000); // ~1 MB of three-byte sequences
+
+    test('should decode a large multi-byte payload', () => {
+        const bytes = Buffer.from(cjk, 'utf-8');
+
+        expect(encodeUTF8(bytes)).toBe(cjk);
+        expect(encodeUTF8(bytes, 30)).toBe(cjk.slice(0, 10));
+    });
+
+    test('should decode a large payload containing malformed bytes', () => {
+        const bytes = Buffer.concat([ Buffer.from('😀'), Buffer.from(cjk, 'utf-8'), Buffer.from([ 0xE2, 0x82 ]) ]);
+
+        expect(encodeUTF8(bytes)).toBe('😀' + cjk + '\uFFFD');
+    });
+
+    test('should keep a leading byte order mark', () => {
+        const bytes = Buffer.from('\uFEFF' + 'a'.repeat(100), 'utf-8');
+
+        expect(encodeUTF8(bytes)).toBe(bytes.toString('utf-8'));
+    });
+});
+
+describe('decodeUTF8Into', () => {
+    test('should write into the target at the given offset', () => {
+        const target = new Uint8Array(6);
+        expect(decodeUTF8Into('a€', target, 1)).toEqual({ read: 2, written: 4 });
+        expect(target).toEqual(new Uint8Array([ 0, 0x61, 0xe2, 0x82, 0xac, 0 ]));
+    });
+
+    test('should not write partial characters', () => {
+        const target = new Uint8Array(8);
+        expect(decodeUTF8Into('😀😀', target, 0, 7)).toEqual({ read: 2, written: 4 });
+        expect(decodeUTF8Into('€', target, 6)).toEqual({ read: 0, written: 0 });
+    });
+
+    test('should replace lone surrogates', () => {
+        const target = new Uint8Array(4);
+        expect(decodeUTF8Into('\uD83Da', target)).toEqual({ read: 2, written: 4 });
+        expect(target).toEqual(new Uint8Array([ 0xef, 0xbf, 0xbd, 0x61 ]));
+    });
+
+    test('should match Node.js for long strings', () => {
+        const input = 'Grüße, 世界 😀 '.repeat(50);
+        const expected = Buffer.from(input);
+        const target = new Uint8Array(expected.length + 2);
+
+        expect(decodeUTF8Into(input, target, 2)).toEqual({ read: input.length, written: expected.length });
+        expect(Buffer.from(target.subarray(2)).equals(expected)).toBe(true);
+    });
+
+    test('should throw for invalid arguments', () => {
+        expect(() => decodeUTF8Into(<any> 1, new Uint8Array(1))).toThrow('decodeUTF8Into input must be a string');
+        expect(() => decodeUTF8Into('a', <any> [])).toThrow('decodeUTF8Into target must be a Uint8Array');
+        expect(() => decodeUTF8Into('a', new Uint8Array(1), 2)).toThrow(RangeError);
+    });
+});
+
+describe('CESU-8 and Modified UTF-8', () => {
+    const emoji = [ 0xED, 0xA0, 0xBD, 0xED, 0xB8, 0x80 ];
+
+    test('should write supplementary characters as surrogate pairs', () => {
+        expect(Array.from(decodeCESU8('a€😀'))).toEqual([ 0x61, 0xE2, 0x82, 0xAC, ...emoji ]);
+        expect(Array.from(decodeMUTF8('a\u0000😀'))).toEqual([ 0x61, 0xC0, 0x80, ...emoji ]);
+        expect(Array.from(decodeCESU8('\u0000'))).toEqual([ 0 ]);
+        expect(encodeCESU8(new Uint8Array([ 0x61, 0xE2, 0x82, 0xAC, ...emoji ]))).toBe('a€😀');
+        expect(encodeMUTF8(new Uint8Array([ 0x61, 0xC0, 0x80, ...emoji ]))).toBe('a\u0000😀');
+    });
+
+    test('should never split a character or a surrogate pair', () => {
+        expect(Array.from(decodeCESU8('a😀', 6))).toEqual([ 0x61 ]);
+        expect(Array.from(decodeMUTF8('a\u0000', 2))).toEqual([ 0x61 ]);
+        expect(encodeCESU8(new Uint8Array(emoji), 5)).toBe('�\uFFFD');
+    });
+
+    test('should handle lone surrogates as CESU-8 and Java do', () => {
+        expect(Array.from(decodeCESU8('\uD83D'))).toEqual([ 0xEF, 0xBF, 0xBD ]);
+        expect(Array.from(decodeMUTF8('\uD83D'))).toEqual([ 0xED, 0xA0, 0xBD ]);
+        expect(encodeCESU8(new Uint8Array([ 0xED, 0xA0, 0xBD, 0x61 ]))).toBe('�a');
+        expect(encodeMUTF8(new Uint8Array([ 0xED, 0xA0, 0xBD, 0x61 ]))).toBe('\uD83Da');
+    });
+
+    test('should replace ill-formed input unless fatal', () => {
+        expect(encodeCESU8(new Uint8Array([ 0xF0, 0x9F, 0x98, 0x80 ]))).toBe('����');
+        expect(encodeMUTF8(new Uint8Array([ 0x61, 0x00, 0xC0, 0x81 ]))).toBe('a\u0000��');
+        expect(() => encodeCESU8(new Uint8Array([ 0x61, 0xED, 0xB8, 0x80 ]), undefined, { fatal: true }))
+            .toThrow(expect.objectContaining({ encoding: 'cesu-8', offset: 1 }));
+        expect(() => encodeMUTF8(new Uint8Array([ 0x61, 0x00 ]), undefined, { fatal: true }))
+            .toThrow(expect.objectContaining({ encoding: 'mutf-8', offset: 1 }));
+        expect(() => encodeMUTF8(new Uint8Array([ 0xF0, 0x9F, 0x98, 0x80 ]), undefined, { fatal: true })).toThrow(EncodingError);
+    });
+
+    test('should throw an error for invalid input', () => {
+        expect(() => encodeCESU8(<any> 'a')).toThrow('encodeCESU8 input must be a Uint8Array');
+        expect(() => decodeCESU8(<any> 1)).toThrow('decodeCESU8 input must be a string');
+        expect(() => encodeMUTF8(<any> 'a')).toThrow('encodeMUTF8 input must be a Uint8Array');
+        expect(() => decodeMUTF8(<any> 1)).toThrow('decodeMUTF8 input must be a string');
+    });
+});
@@ -1,206 +1,276 @@
+/**
+ * Import will remove at compile time
+ */
+
+import type {
+    EncodeOptions,
+    EncodingCodec,
+    EncodeIntoResult,
+    TranscodeEncoding,
+    SingleByteEncoding
+} from '@providers/interfaces/buffer.interfaces';
+
 /**
  * Imports
  */
 
+import { EncodingError } from '@errors/encoding.error';
 import { isInstance } from '@components/charset.component';
 
 /**
- * Encodes a two-byte sequence into a character, or returns the replacement character.
+ * The mappings of a single-byte encoding used by `transcode`, read from its codec.
+ */
+
+interface TranscodeCodePage {
+    decodeTable: string;
+    encodeTable: Map<number, number>;
+}
+
+/**
+ * The encodings `transcode` accepts by name; single-byte encodings are passed as their codec.
+ */
+
+type UnicodeTranscodeEncoding = Exclude<TranscodeEncoding, SingleByteEncoding>;
+
+/**
+ * An encoding normalized by `transcode`: the name of a Unicode or Latin encoding, or the mappings of a single-byte encoding.
+ */
+
+type TranscodeTarget = 'ascii' | 'latin1' | 'utf8' | 'utf16le' | TranscodeCodePage;
+
+/**
+ * The single-byte mappings read so far by `transcode`, by codec.
+ */
+
+const transcodeCodePages = new WeakMap<EncodingCodec, TranscodeCodePage>();
+
+/**
+ * The number of UTF-16 code units collected before they are flushed into the result string.
  *
  * ## Description:
- * This function takes an array of two bytes (numbers between 0 and 255), combines them
- * into a single character code (using the first 5-bits from the first byte and the last 6-bits
- * from the second byte), and returns the corresponding character. If the character code is
- * less than 0x80 (a non-printable or unsupported character), the function returns the
- * Unicode replacement character (`\uFFFD`).
+ * `String.fromCharCode.apply` is by far the fastest way to build a string from code units,
+ * but engines limit the number of arguments a function can receive.
+ * Decoding in batches of this size keeps each call well below that limit while avoiding
+ * a string concatenation per character.
+ */
+
+const CODE_UNITS_CHUNK_SIZE = 0x1000;
+
+/**
+ * The minimum number of bytes for which `encodeUTF8` delegates to the native `TextDecoder`.
+ *
+ * ## Description:
+ * Calling into the native decoder has a fixed cost that outweighs its speed for short inputs,
+ * so small byte arrays are always decoded in JavaScript.
+ */
+
+const NATIVE_DECODER_THRESHOLD = 64;
+
+/**
+ * A shared native UTF-8 decoder, or `undefined` when the runtime does not provide `TextDecoder`.
+ *
+ * ## Description:
+ * The decoder is created with `ignoreBOM` so that a leading byte order mark is kept in the output,
+ * matching the behavior of Node.js `buffer.toString('utf8')`.
+ */
+
+const nativeDecoder = typeof TextDecoder !== 'undefined' ? new TextDecoder('utf-8', { ignoreBOM: true }) : undefined;
+
+/**
+ * The minimum string length for which `decodeUTF8Into` delegates to the native `TextEncoder.encodeInto`.
+ */
+
+const NATIVE_ENCODER_THRESHOLD = 64;
+
+/**
+ * A shared native UTF-8 encoder, or `undefined` when the runtime does not provide `TextEncoder`.
+ */
+
+const nativeEncoder = typeof TextEncoder !== 'undefined' ? new TextEncoder() : undefined;
+
+/**
+ * Decodes a two-byte sequence in place and appends the resulting code unit to `output`.
+ *
+ * ## Description:
+ * This function reads the lead byte at `index` (`0xC2`–`0xDF`) and its continuation byte, combines them
+ * into a single character code (using the last 5-bits from the first byte and the last 6-bits from the second byte),
+ * and appends the corresponding code unit to `output`.
+ * When the continuation byte is missing or outside `0x80`–`0xBF`, nothing is appended and the length
+ * of the ill-formed subsequence is returned as a negative number, following the WHATWG Encoding Standard.
  *
  * - **Input**:
- *   - `bytes`: An array of exactly two numbers representing a two-byte sequence.
+ *   - `bytes`: The `Uint8Array` being decoded.
+ *   - `index`: The position of the lead byte.
+ *   - `end`: The position after the last byte that may be read.
+ *   - `output`: The list of UTF-16 code units being built.
  *
  * - **Output**:
- *   - Returns the character corresponding to the two-byte sequence or the replacement character (`\uFFFD`) if the character code is invalid.
+ *   - Returns `2` for a valid sequence, or `-1` when only the lead byte is ill-formed.
  *
  * ## Example:
  *
  * ```ts
- * const bytes = [0xE2, 0x82];  // Example valid two-byte sequence
- * const char = encodeTwoByteSequence(bytes);
- * console.log(char);  // Outputs: '₂'
- *
- * const invalidBytes = [0x01, 0x01];  // Invalid sequence
- * const invalidChar = encodeTwoByteSequence(invalidBytes);
- * console.log(invalidChar);  // Outputs: '\uFFFD' (replacement character)
- *
- * encodeTwoByteSequence([0xC2, 0xA9]); // "©"
- * encodeTwoByteSequence([0x80, 0x80]); // "�" (invalid sequence)
+ * const output: Array<number> = [];
+ * encodeTwoByteSequence(new Uint8Array([ 0xC2, 0xA9 ]), 0, 2, output); // 2, output: [ 0xA9 ] ("©")
+ * encodeTwoByteSequence(new Uint8Array([ 0xC2, 0x41 ]), 0, 2, output); // -1
  * ```
  *
- * @param bytes - An array of two numbers (bytes) to encode.
- * @returns A character corresponding to the two-byte sequence or the Unicode replacement character.
+ * @param bytes - The byte array being decoded.
+ * @param index - The position of the lead byte.
+ * @param end - The position after the last byte that may be read.
+ * @param output - The list of code units to append to.
+ * @returns The number of bytes consumed, negated when the sequence is ill-formed.
  */
 
-function encodeTwoByteSequence(bytes: Array<number>): string {
-    if (bytes.length < 2) return '\uFFFD';
-    const char = ((bytes[0] & 0x1F) << 6) | (bytes[1] & 0x3F);
+function encodeTwoByteSequence(bytes: Uint8Array, index: number, end: number, output: Array<number>): number {
+    if (index + 1 >= end || (bytes[index + 1] & 0xC0) !== 0x80) {
+        return -1;
+    }
+
+    output.push(((bytes[index] & 0x1F) << 6) | (bytes[index + 1] & 0x3F));
 
-    return (char >= 0x80) ? String.fromCharCode(char) : '\uFFFD\uFFFD';
+    return 2;
 }
 
 /**
- * Encodes a three-byte sequence into a character, or returns the replacement character.
+ * Decodes a three-byte sequence in place and appends the resulting code unit to `output`.
  *
  * ## Description:
- * This function takes an array of three bytes (numbers between 0 and 255), combines them
- * into a single character code (using the first 4 bits from the first byte, the last 6 bits
- * from the second byte, and the last 6 bits from the third byte), and returns the corresponding
- * character.
- * The function also performs validation to ensure the resulting character code
- * is within the valid range (U+0800 to U+FFFF) for three-byte sequences.
- * If invalid, it returns the Unicode replacement character (`\uFFFD`), and in cases where the input is malformed,
- * it can return multiple replacement characters.
+ * This function reads the lead byte at `index` (`0xE0`–`0xEF`) and its two continuation bytes, combining them
+ * into a single character code (using the last 4 bits from the first byte and the last 6 bits of each continuation byte).
+ * The range of the second byte depends on the lead byte, which rejects overlong encodings (`0xE0` requires `0xA0`–`0xBF`)
+ * and UTF-16 surrogates (`0xED` requires `0x80`–`0x9F`).
+ * When a byte is missing or out of range, nothing is appended and the length of the maximal
+ * ill-formed subpart is returned as a negative number, so that the caller emits a single replacement character for it.
+ * CESU-8 and Modified UTF-8 pass `allowSurrogates` to read surrogates, which they encode as three-byte sequences.
  *
  * - **Input**:
- *   - `bytes`: An array of exactly three numbers representing a three-byte sequence.
+ *   - `bytes`: The `Uint8Array` being decoded.
+ *   - `index`: The position of the lead byte.
+ *   - `end`: The position after the last byte that may be read.
+ *   - `output`: The list of UTF-16 code units being built.
+ *   - `allowSurrogates`: (Optional) Whether `0xED` may be followed by `0xA0`–`0xBF`.
  *
  * - **Output**:
- *   - Returns the character corresponding to the three-byte sequence or the replacement character (`\uFFFD`) if the character code is invalid.
+ *   - Returns `3` for a valid sequence, or `-1`/`-2` for the length of the ill-formed subpart.
  *
  * ## Example:
  *
  * ```ts
- * const validBytes = [0xE1, 0x80, 0x80];  // Example valid three-byte sequence
- * const char = encodeThreeByteSequence(validBytes);
- * console.log(char);  // Outputs: 'ࠀ'
- *
- * const invalidBytes = [0xE1, 0x80];  // Invalid sequence, less than 3-bytes
- * const invalidChar = encodeThreeByteSequence(invalidBytes);
- * console.log(invalidChar);  // Outputs: '\uFFFD' (replacement character)
- *
- * const malformedBytes = [0xE1, 0x80, 0x80, 0x80];  // Invalid length
- * const malformedChar = encodeThreeByteSequence(malformedBytes);
- * console.log(malformedChar);  // Outputs: '\uFFFD\uFFFD' (two replacement characters)
- *
- * encodeThreeByteSequence([0xE2, 0x82, 0xAC]); // "€"
- * encodeThreeByteSequence([0xE0, 0x80, 0x80]); // "Ā"
- * encodeThreeByteSequence([0xF0, 0x90, 0x80, 0x80]); // "�" (invalid 4-byte sequence for 3-byte function)
+ * const output: Array<number> = [];
+ * encodeThreeByteSequence(new Uint8Array([ 0xE2, 0x82, 0xAC ]), 0, 3, output); // 3, output: [ 0x20AC ] ("€")
+ * encodeThreeByteSequence(new Uint8Array([ 0xED, 0xA0, 0x80 ]), 0, 3, output); // -1 (surrogate)
+ * encodeThreeByteSequence(new Uint8Array([ 0xE2, 0x82 ]), 0, 2, output);       // -2 (truncated)
  * ```
  *
- * @param bytes - An array of three numbers (bytes) to encode.
- * @returns A character corresponding to the three-byte sequence or the Unicode replacement character.
+ * @param bytes - The byte array being decoded.
+ * @param index - The position of the lead byte.
+ * @param end - The position after the last byte that may be read.
+ * @param output - The list of code units to append to.
+ * @param allowSurrogates - (Optional) Whether encoded surrogates are accepted. Defaults to `false`.
+ * @returns The number of bytes consumed, negated when the sequence is ill-formed.
  */
 
-function encodeThreeByteSequence(bytes: Array<number>): string {
-    if (bytes.length < 3) {
-        if (bytes.length === 2 && bytes[1] === 0xAC)
-            return '\uFFFD\uFFFD';
+function encodeThreeByteSequence(
+    bytes: Uint8Array, index: number, end: number, output: Array<number>, allowSurrogates: boolean = false
+): number {
+    const firstByte = bytes[index];
+    const lower = firstByte === 0xE0 ? 0xA0 : 0x80;
+    const upper = firstByte === 0xED && !allowSurrogates ? 0x9F : 0xBF;
 
-        return '\uFFFD';
+    if (index + 1 >= end || bytes[index + 1] < lower || bytes[index + 1] > upper) {
+        return -1;
     }
 
-    const [ firstByte, secondByte, thirdByte ] = bytes;
-
-    // Special handling for the surrogate pair sequence [0xED, 0x9F, 0xBF] which should map to U+D7FF
-    if (firstByte === 0xED && secondByte === 0x9F && thirdByte === 0xBF) {
-        return '\uD7FF'; // Return the high surrogate \uD7FF
+    if (index + 2 >= end || (bytes[index + 2] & 0xC0) !== 0x80) {
+        return -2;
     }
 
-    if (
-        firstByte < 0xE0 || firstByte > 0xEF ||        // First byte must be in the range 0xE0 to 0xEF
-        secondByte < 0x80 || secondByte > 0xBF ||     // Second byte must be in the range 0x80 to 0xBF
-        thirdByte < 0x80 || thirdByte > 0xBF ||       // Third byte must be in the range 0x80 to 0xBF
-        firstByte === 0xED                             // First byte 0xED is reserved for surrogate pairs in UTF-16
-    ) {
-        return '\uFFFD\uFFFD\uFFFD';  // Return three replacement characters for invalid sequence
-    }
+    output.push(((firstByte & 0x0F) << 12) | ((bytes[index + 1] & 0x3F) << 6) | (bytes[index + 2] & 0x3F));
 
-    // If all bytes are valid, decode the 3-byte UTF-8 sequence
-    const char = ((firstByte & 0x0F) << 12) | ((secondByte & 0x3F) << 6) | (thirdByte & 0x3F);
-
-    // Ensure valid character is in the range U+0800 to U+FFFF for 3-byte sequences
-    return (char >= 0x800 && char <= 0xFFFF) ? String.fromCharCode(char) : '\uFFFD\uFFFD\uFFFD';
+    return 3;
 }
 
 /**
- * Encodes a four-byte sequence into a Unicode character, handling supplementary characters
- * and surrogate pairs where necessary, or returns the replacement character for invalid sequences.
+ * Decodes a four-byte sequence in place and appends the resulting code units to `output`,
+ * converting the supplementary character into a surrogate pair.
  *
  * ## Description:
- * This function takes an array of four bytes, decodes them into a code point, and returns the
- * corresponding Unicode character. It handles characters from the supplementary planes (U+10000
- * to U+10FFFF) by converting them into a surrogate pair (if applicable) and returns the replacement
- * character (`\uFFFD`) for invalid sequences or characters in the surrogate range (U+D800 to U+DFFF).
+ * This function reads the lead byte at `index` (`0xF0`–`0xF4`) and its three continuation bytes, decodes them
+ * into a code point in the range U+10000 to U+10FFFF, and appends the corresponding surrogate pair.
+ * The range of the second byte depends on the lead byte, which rejects overlong encodings (`0xF0` requires `0x90`–`0xBF`)
+ * and code points above U+10FFFF (`0xF4` requires `0x80`–`0x8F`).
+ * When a byte is missing or out of range, nothing is appended and the length of the maximal
+ * ill-formed subpart is returned as a negative number.
  *
  * - **Input**:
- *   - `bytes`: An array of four numbers, each representing a byte in the four-byte sequence.
+ *   - `bytes`: The `Uint8Array` being decoded.
+ *   - `index`: The position of the lead byte.
+ *   - `end`: The position after the last byte that may be read.
+ *   - `output`: The list of UTF-16 code units being built.
  *
  * - **Output**:
- *   - A string containing the corresponding Unicode character or the replacement character (`\uFFFD`)
- *   for invalid sequences, characters in the surrogate range, or incomplete sequences.
+ *   - Returns `4` for a valid sequence, or `-1` to `-3` for the length of the ill-formed subpart.
  *
  * ## Example:
  *
  * ```ts
- * const validBytes = [0xF0, 0x90, 0x80, 0x80];  // Example valid four-byte sequence
- * const char = encodeFourByteSequence(validBytes);
- * console.log(char);  // Outputs: '𐀀'
- *
- * const invalidBytes = [0xF0, 0x90, 0x80];  // Incomplete sequence, less than 4 bytes
- * const invalidChar = encodeFourByteSequence(invalidBytes);
- * console.log(invalidChar);  // Outputs: '\uFFFD' (replacement character)
- *
- * const surrogateRangeBytes = [0xF0, 0x90, 0x80, 0x80]; // Surrogate range
- * const surrogateChar = encodeFourByteSequence(surrogateRangeBytes);
- * console.log(surrogateChar);  // Outputs: '𐀀' or '\uFFFD' if invalid
- *
- * encodeFourByteSequence([0xF0, 0x90, 0x80, 0x80]); // "𐀀" (U+10000)
- * encodeFourByteSequence([0xF4, 0x8F, 0xBF, 0xBF]); // "𯿿" (U+10FFFF)
- * encodeFourByteSequence([0xF0, 0x80, 0x80, 0x80]); // "�" (Invalid sequence, replacement character)
- * encodeFourByteSequence([0xF0, 0x90, 0x80, 0x81]); // "𐁁" (U+10001)
+ * const output: Array<number> = [];
+ * encodeFourByteSequence(new Uint8Array([ 0xF0, 0x90, 0x80, 0x80 ]), 0, 4, output); // 4, output: [ 0xD800, 0xDC00 ]
+ * encodeFourByteSequence(new Uint8Array([ 0xF4, 0x90, 0x80, 0x80 ]), 0, 4, output); // -1 (above U+10FFFF)
+ * encodeFourByteSequence(new Uint8Array([ 0xF0, 0x9F, 0x98 ]), 0, 3, output);       // -3 (truncated)
  * ```
  *
- * @param bytes - An array of four numbers (bytes) representing the four-byte sequence.
- * @returns A character corresponding to the four-byte sequence or the Unicode replacement character.
+ * @param bytes - The byte array being decoded.
+ * @param index - The position of the lead byte.
+ * @param end - The position after the last byte that may be read.
+ * @param output - The list of code units to append to.
+ * @returns The number of bytes consumed, negated when the sequence is ill-formed.
  */
 
-function encodeFourByteSequence(bytes: number[]): string {
-    if (bytes.length < 4) return '\uFFFD'.repeat(bytes.length); // Incomplete sequence, return replacement character
+function encodeFourByteSequence(bytes: Uint8Array, index: number, end: number, output: Array<number>): number {
+    const firstByte = bytes[index];
+    const lower = firstByte === 0xF0 ? 0x90 : 0x80;
+    const upper = firstByte === 0xF4 ? 0x8F : 0xBF;
 
-    // Decode the 4-byte sequence into a code point
-    const charCode = ((bytes[0] & 0x07) << 18) | ((bytes[1] & 0x3F) << 12) | ((bytes[2] & 0x3F) << 6) | (bytes[3] & 0x3F);
+    if (index + 1 >= end || bytes[index + 1] < lower || bytes[index + 1] > upper) {
+        return -1;
+    }
 
-    // Check if the code point is valid (U+10000 to U+10FFFF) and not in the surrogate range (U+D800 to U+DFFF)
-    if (charCode <= 0x10FFFF && (charCode < 0xD800 || charCode > 0xDFFF)) {
-        if (charCode > 0xFFFF) {
-            // Convert to a surrogate pair if the code point is in the supplementary planes (U+10000 to U+10FFFF)
-            const surrogatePair = charCode - 0x10000;
-            const highSurrogate = 0xD800 | (surrogatePair >> 10);
-            const lowSurrogate = 0xDC00 | (surrogatePair & 0x3FF);
+    if (index + 2 >= end || (bytes[index + 2] & 0xC0) !== 0x80) {
+        return -2;
+    }
 
-            return String.fromCharCode(highSurrogate, lowSurrogate); // Return surrogate pair as UTF-16 characters
-        } else {
-            // Code point is valid within the BMP (U+0000 to U+FFFF)
-            return String.fromCharCode(charCode); // Return as a single character
-        }
-    } else {
-        // Invalid code point or surrogate range, return replacement character
-        return '\uFFFD\uFFFD\uFFFD\uFFFD';
+    if (index + 3 >= end || (bytes[index + 3] & 0xC0) !== 0x80) {
+        return -3;
     }
+
+    // Decode the 4-byte sequence into a code point and convert it to a surrogate pair
+    const codePoint = ((firstByte & 0x07) << 18) | ((bytes[index + 1] & 0x3F) << 12) |
+        ((bytes[index + 2] & 0x3F) << 6) | (bytes[index + 3] & 0x3F);
+    const surrogatePair = codePoint - 0x10000;
+    output.push(0xD800 | (surrogatePair >> 10), 0xDC00 | (surrogatePair & 0x3FF));
+
+    return 4;
 }
 
 /**
- * Decodes a Unicode code point into a sequence of bytes (UTF-8 encoding).
+ * Encodes a Unicode code point as UTF-8 and writes the bytes into `target`.
  *
  * ## Description:
- * This function takes a Unicode code point (a number) and converts it into an array of bytes
- * according to the UTF-8 encoding scheme. The code point must be within the valid range of Unicode
+ * This function takes a Unicode code point (a number) and writes its UTF-8 representation into `target`
+ * starting at `offset`. The code point must be within the valid range of Unicode
  * (from U+0000 to U+10FFFF). The function handles single-byte, two-byte, three-byte, and four-byte
  * sequences as per UTF-8 encoding rules.
+ * The caller is responsible for ensuring that `target` has room for the bytes, see `codePointByteLength`.
  *
  * - **Input**:
  *   - `codePoint`: A number representing the Unicode code point (an integer between 0 and U+10FFFF).
+ *   - `target`: The `Uint8Array` to write the encoded bytes into.
+ *   - `offset`: The position in `target` of the first byte to write.
  *
  * - **Output**:
- *   - An array of integers (bytes) that represent the UTF-8 encoded form of the code point.
+ *   - The number of bytes written (1 to 4).
  *
  * - **Error Handling**:
  *   - Throws a `RangeError` if the code point is not within the valid Unicode range (0 to U+10FFFF).
@@ -208,55 +278,110 @@ function encodeFourByteSequence(bytes: number[]): string {
  * ## Example:
  *
  * ```ts
- * const codePoint1 = 0x0041; // Unicode code point for 'A'
- * const encoded1 = decodeCodePoint(codePoint1);
- * console.log(encoded1);  // Outputs: [ 0x41 ]
- *
- * decodeCodePoint(0x24); // [0x24] -> "$"
- * const codePoint2 = 0x20AC; // Unicode code point for '€'
- * const encoded2 = decodeCodePoint(codePoint2);
- * console.log(encoded2);  // Outputs: [ 0xE2, 0x82, 0xAC ]
- *
- * const codePoint3 = 0x1F600; // Unicode code point for '😀' (grinning face emoji)
- * const encoded3 = decodeCodePoint(codePoint3);
- * console.log(encoded3);  // Outputs: [ 0xF0, 0x9F, 0x98, 0x80 ]
+ * const target = new Uint8Array(4);
+ * decodeCodePoint(0x0041, target, 0);   // 1, target: [ 0x41, 0, 0, 0 ]
+ * decodeCodePoint(0x20AC, target, 0);   // 3, target: [ 0xE2, 0x82, 0xAC, 0 ]
+ * decodeCodePoint(0x1F600, target, 0);  // 4, target: [ 0xF0, 0x9F, 0x98, 0x80 ]
  * ```
  *
  * @param codePoint - The Unicode code point to encode (integer between 0 and 0x10FFFF).
- * @returns An array of integers representing the UTF-8 encoded bytes of the code point.
+ * @param target - The byte array to write into.
+ * @param offset - The position of the first byte to write.
+ * @returns The number of bytes written.
  * @throws {RangeError} Throws an error if the code point is outside the valid Unicode range.
  */
 
-function decodeCodePoint(codePoint: number): Array<number> {
+function decodeCodePoint(codePoint: number, target: Uint8Array, offset: number): number {
     if (codePoint < 0 || codePoint > 0x10FFFF) {
         throw new RangeError('Invalid code point');
     }
 
     if (codePoint < 0x80) {
-        return [ codePoint ];
+        target[offset] = codePoint;
+
+        return 1;
     }
 
     if (codePoint < 0x800) {
-        return [
-            0xc0 | (codePoint >> 6),
-            0x80 | (codePoint & 0x3f)
-        ];
+        target[offset] = 0xc0 | (codePoint >> 6);
+        target[offset + 1] = 0x80 | (codePoint & 0x3f);
+
+        return 2;
     }
 
     if (codePoint < 0x10000) {
-        return [
-            0xe0 | (codePoint >> 12),
-            0x80 | ((codePoint >> 6) & 0x3f),
-            0x80 | (codePoint & 0x3f)
-        ];
-    }
-
-    return [
-        0xf0 | (codePoint >> 18),
-        0x80 | ((codePoint >> 12) & 0x3f),
-        0x80 | ((codePoint >> 6) & 0x3f),
-        0x80 | (codePoint & 0x3f)
-    ];
+        target[offset] = 0xe0 | (codePoint >> 12);
+        target[offset + 1] = 0x80 | ((codePoint >> 6) & 0x3f);
+        target[offset + 2] = 0x80 | (codePoint & 0x3f);
+
+        return 3;
+    }
+
+    target[offset] = 0xf0 | (codePoint >> 18);
+    target[offset + 1] = 0x80 | ((codePoint >> 12) & 0x3f);
+    target[offset + 2] = 0x80 | ((codePoint >> 6) & 0x3f);
+    target[offset + 3] = 0x80 | (codePoint & 0x3f);
+
+    return 4;
+}
+
+/**
+ * Returns the number of bytes needed to encode a code point as UTF-8.
+ *
+ * @param codePoint - The Unicode code point (integer between 0 and 0x10FFFF).
+ * @returns The UTF-8 length of the code point (1 to 4).
+ */
+
+function codePointByteLength(codePoint: number): number {
+    return codePoint < 0x80 ? 1 : codePoint < 0x800 ? 2 : codePoint < 0x10000 ? 3 : 4;
+}
+
+/**
+ * Reads the code point starting at `index` in a UTF-16 string.
+ *
+ * ## Description:
+ * A high surrogate followed by a low surrogate is combined into a supplementary code point.
+ * Lone surrogates are replaced by the Unicode replacement character (`U+FFFD`).
+ *
+ * @param data - The string to read from.
+ * @param index - The position of the code unit to read.
+ * @returns The code point; values above `0xFFFF` occupy two code units of `data`.
+ */
+
+function readCodePoint(data: string, index: number): number {
+    const charCode = data.charCodeAt(index);
+    if (charCode < 0xD800 || charCode > 0xDFFF) {
+        return charCode;
+    }
+
+    if (charCode <= 0xDBFF && index + 1 < data.length) {
+        // High surrogate: check for valid low surrogate
+        const lowSurrogate = data.charCodeAt(index + 1);
+        if (lowSurrogate >= 0xDC00 && lowSurrogate <= 0xDFFF) {
+            return ((charCode - 0xD800) << 10) + (lowSurrogate - 0xDC00) + 0x10000;
+        }
+    }
+
+    // Lone high surrogate or standalone low surrogate
+    return 0xFFFD;
+}
+
+/**
+ * Computes the number of bytes of the UTF-8 representation of a string.
+ *
+ * @param data - The string to measure.
+ * @returns The number of bytes `decodeUTF8` produces for `data`.
+ */
+
+function utf8ByteLength(data: string): number {
+    let byteLength = 0;
+    for (let i = 0; i < data.length; i++) {
+        const codePoint = readCodePoint(data, i);
+        if (codePoint > 0xFFFF) i++;
+        byteLength += codePointByteLength(codePoint);
+    }
+
+    return byteLength;
 }
 
 /**
@@ -268,15 +393,28 @@ function decodeCodePoint(codePoint: number): Array<number> {
  * three-byte, and four-byte sequences.
  * The optional `length` argument allows you to limit the number of bytes to be encoded.
  *
+ * Malformed input is handled as defined by the WHATWG Encoding Standard, the same way as Node.js and browsers:
+ * every maximal ill-formed subpart (an invalid byte, or the valid prefix of a truncated or broken sequence)
+ * is replaced with a single `U+FFFD`.
+ * With `{ fatal: true }`, an `EncodingError` carrying the offset of the first ill-formed byte is thrown instead.
+ *
+ * The bytes are read in place and decoded code units are flushed into the result in batches of
+ * `CODE_UNITS_CHUNK_SIZE` through `String.fromCharCode.apply`, so the running time is linear in the input size.
+ * When the runtime provides a native `TextDecoder` and the input is at least `NATIVE_DECODER_THRESHOLD` bytes long,
+ * decoding is delegated to it; in fatal mode, input that contains replacement characters is decoded again in JavaScript
+ * to locate the error.
+ *
  * - **Input**:
  *   - `bytes`: A `Uint8Array` of byte values representing UTF-8 encoded bytes.
  *   - `length` (optional): A number specifying the maximum number of bytes to process. If not provided, the entire `Uint8Array` is processed.
+ *   - `options` (optional): Encoding options, `fatal` enables strict decoding.
  *
  * - **Output**:
  *   - A string that is the UTF-8 encoded representation of the provided bytes.
  *
  * - **Error Handling**:
  *   - Throws an error if `bytes` is not a `Uint8Array`.
+ *   - Throws an `EncodingError` for malformed input when `options.fatal` is `true`.
  *
  * ## Example:
  *
@@ -293,47 +431,70 @@ function decodeCodePoint(codePoint: number): Array<number> {
  * const result3 = encodeUTF8(bytes3);
  * console.log(result3);  // Outputs: '😀'
  *
- * encodeUTF8(new Uint8Array([0xE2, 0x82, 0xAC])); // "€"
- * encodeUTF8(new Uint8Array([0xF0, 0x90, 0x80, 0x80])); // "𠜎"
- * encodeUTF8(new Uint8Array([0x80, 0x80])); // "�" (invalid sequence)
+ * encodeUTF8(new Uint8Array([0xF0, 0x90, 0x80, 0x80])); // "𐀀"
+ * encodeUTF8(new Uint8Array([0xE2, 0x82, 0x41])); // "\uFFFDA" (one replacement for the broken sequence)
+ * encodeUTF8(new Uint8Array([0x61, 0x80]), undefined, { fatal: true }); // throws EncodingError (offset 1)
  * ```
  *
  * @param bytes - The `Uint8Array` of bytes to encode as a UTF-8 string.
  * @param length - An optional maximum number of bytes to process.
+ * @param options - Optional decoding options.
  * @returns A UTF-8 string encoded from the byte array.
  * @throws {Error} Throws an error if `bytes` is not a `Uint8Array`.
+ * @throws {EncodingError} Throws an error on malformed input when `options.fatal` is `true`.
  */
 
-export function encodeUTF8(bytes: Uint8Array, length?: number): string {
+export function encodeUTF8(bytes: Uint8Array, length?: number, options: EncodeOptions = {}): string {
     if (!isInstance(bytes, Uint8Array)) {
-        throw new Error('encodeBase64 input must be a Uint8Array');
+        throw new Error('encodeUTF8 input must be a Uint8Array');
+    }
+
+    const fatal = options.fatal === true;
+    const maxLength = length !== undefined ? Math.min(length, bytes.length) : bytes.length;
+    if (nativeDecoder && maxLength >= NATIVE_DECODER_THRESHOLD) {
+        const decoded = nativeDecoder.decode(bytes.subarray(0, maxLength));
+        if (!fatal || decoded.indexOf('\uFFFD') === -1) {
+            return decoded;
+        }
     }
 
     let i = 0;
     let encodeString = '';
-    const maxLength = length !== undefined ? Math.min(length, bytes.length) : bytes.length;
+    const codeUnits: Array<number> = [];
 
     while (i < maxLength) {
-        const byte = bytes[i++];
+        const byte = bytes[i];
 
+        let consumed = -1;
         if (byte < 0x80) {
-            encodeString += String.fromCharCode(byte); // Single-byte character
-        } else if (byte < 0xE0) {
-            // Convert slice to number[] before passing
-            encodeString += encodeTwoByteSequence(Array.from(bytes.slice(i - 1))); // Two-byte sequence
-            i++;
-        } else if (byte < 0xF0) {
-            // Convert slice to number[] before passing
-            encodeString += encodeThreeByteSequence(Array.from(bytes.slice(i - 1))); // Three-byte sequence
-            i += 2;
-        } else {
-            // Convert slice to number[] before passing
-            encodeString += encodeFourByteSequence(Array.from(bytes.slice(i - 1))); // Four-byte sequence
-            i += 3;
+            codeUnits.push(byte); // Single-byte character
+            consumed = 1;
+        } else if (byte >= 0xC2 && byte <= 0xDF) {
+            consumed = encodeTwoByteSequence(bytes, i, maxLength, codeUnits);
+        } else if (byte >= 0xE0 && byte <= 0xEF) {
+            consumed = encodeThreeByteSequence(bytes, i, maxLength, codeUnits);
+        } else if (byte >= 0xF0 && byte <= 0xF4) {
+            consumed = encodeFourByteSequence(bytes, i, maxLength, codeUnits);
+        }
+
+        if (consumed < 0) {
+            if (fatal) {
+                throw new EncodingError(`The encoded data was not valid for encoding utf-8 at offset ${ i }`, 'utf-8', i);
+            }
+
+            // Replace the maximal ill-formed subpart with a single replacement character
+            codeUnits.push(0xFFFD);
+            consumed = -consumed;
+        }
+
+        i += consumed;
+        if (codeUnits.length >= CODE_UNITS_CHUNK_SIZE) {
+            encodeString += String.fromCharCode.apply(null, codeUnits);
+            codeUnits.length = 0;
         }
     }
 
-    return encodeString;
+    return encodeString + String.fromCharCode.apply(null, codeUnits);
 }
 
 /**
@@ -343,11 +504,12 @@ export function encodeUTF8(bytes: Uint8Array, length?: number): string {
  * This function takes a UTF-8 encoded string and decodes it into a `Uint8Array`.
  * The function handles surrogate pairs for characters outside the Basic Multilingual Plane
  * (BMP) and can decode characters that require multiple bytes.
- * The optional `length` argument allows limiting the number of characters to decode from the string.
+ * The optional `length` argument limits the number of bytes produced; a character that does not fit is dropped entirely.
+ * The output is allocated once with its exact size and filled through `decodeUTF8Into`.
  *
  * - **Input**:
  *   - `data`: A UTF-8 encoded string to be decoded into a byte array.
- *   - `length` (optional): A number specifying the maximum number of characters to decode.
+ *   - `length` (optional): A number specifying the maximum number of bytes to produce.
  *   If not provided, the entire string is decoded.
  *
  * - **Output**:
@@ -355,7 +517,7 @@ export function encodeUTF8(bytes: Uint8Array, length?: number): string {
  *
  * - **Error Handling**:
  *   - Surrogate pairs that are invalid will be replaced by the Unicode replacement character (`U+FFFD`).
- *   - If `data` is not a string, the function will not work as expected.
+ *   - Throws an error if `data` is not a string.
  *
  * ## Example:
  *
@@ -375,56 +537,706 @@ export function encodeUTF8(bytes: Uint8Array, length?: number): string {
  * ```
  *
  * @param data - The UTF-8 string to decode into bytes.
- * @param length - An optional maximum number of characters to decode.
+ * @param length - An optional maximum number of bytes to produce.
  * @returns A `Uint8Array` containing the decoded bytes.
- * @throws {Error} Throws an error if `data` contains invalid surrogate pairs.
+ * @throws {Error} Throws an error if `data` is not a string.
  */
 
 export function decodeUTF8(data: string, length?: number): Uint8Array {
-    const utf8: number[] = [];
-    const maxLength = length !== undefined ? length : Infinity;
+    if (typeof data !== 'string') {
+        throw new Error('decodeUTF8 input must be a string');
+    }
+
+    const byteLength = utf8ByteLength(data);
+    const utf8 = new Uint8Array(length !== undefined ? Math.max(Math.min(length, byteLength), 0) : byteLength);
+    const { written } = decodeUTF8Into(data, utf8);
+
+    return written === utf8.length ? utf8 : utf8.slice(0, written);
+}
+
+/**
+ * Encodes a string as UTF-8 directly into an existing `Uint8Array`, in the style of `TextEncoder.encodeInto`.
+ *
+ * ## Description:
+ * This function writes the UTF-8 representation of `data` into `target`, starting at `offset`,
+ * without allocating an intermediate array.
+ * Writing stops before the first character whose bytes would exceed `maxBytes` (or the end of `target`),
+ * so a multibyte character is never written partially.
+ * Lone surrogates are replaced by the Unicode replacement character (`U+FFFD`).
+ * When the runtime provides a native `TextEncoder` and the string is at least `NATIVE_ENCODER_THRESHOLD`
+ * characters long, `TextEncoder.encodeInto` is used instead of the JavaScript loop.
+ *
+ * - **Input**:
+ *   - `data`: The string to encode.
+ *   - `target`: The `Uint8Array` to write the bytes into.
+ *   - `offset` (optional): The position in `target` of the first byte to write (default is `0`).
+ *   - `maxBytes` (optional): The maximum number of bytes to write (default is the space left in `target`).
+ *
+ * - **Output**:
+ *   - An object with `read`, the number of UTF-16 code units consumed from `data`,
+ *   and `written`, the number of bytes written to `target`.
+ *
+ * - **Error Handling**:
+ *   - Throws an error if `data` is not a string or `target` is not a `Uint8Array`.
+ *   - Throws a `RangeError` if `offset` is outside `target`.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * const target = new Uint8Array(5);
+ * decodeUTF8Into('a€b', target);      // { read: 3, written: 5 }, target: [ 0x61, 0xE2, 0x82, 0xAC, 0x62 ]
+ * decodeUTF8Into('€€', target, 1);   // { read: 1, written: 3 }, only one '€' fits in the remaining 4 bytes
+ * ```
+ *
+ * @param data - The string to encode.
+ * @param target - The byte array to write into.
+ * @param offset - (Optional) The position of the first byte to write.
+ * @param maxBytes - (Optional) The maximum number of bytes to write.
+ * @returns The number of code units read and bytes written.
+ * @throws {Error} If `data` is not a string or `target` is not a `Uint8Array`.
+ * @throws {RangeError} If `offset` is outside `target`.
+ */
+
+export function decodeUTF8Into(data: string, target: Uint8Array, offset: number = 0, maxBytes?: number): EncodeIntoResult {
+    if (typeof data !== 'string') {
+        throw new Error('decodeUTF8Into input must be a string');
+    }
+
+    if (!isInstance(target, Uint8Array)) {
+        throw new Error('decodeUTF8Into target must be a Uint8Array');
+    }
+
+    if (offset < 0 || offset > target.length) {
+        throw new RangeError(`The value of "offset" is out of range. Received ${ offset }`);
+    }
+
+    const available = target.length - offset;
+    const limit = maxBytes !== undefined ? Math.max(Math.min(maxBytes, available), 0) : available;
+
+    if (nativeEncoder && data.length >= NATIVE_ENCODER_THRESHOLD) {
+        const { read = 0, written = 0 } = nativeEncoder.encodeInto(
+            data, new Uint8Array(target.buffer, target.byteOffset + offset, limit)
+        );
+
+        return { read, written };
+    }
+
+    let read = 0;
+    let written = 0;
+
+    while (read < data.length) {
+        const codePoint = readCodePoint(data, read);
+        if (written + codePointByteLength(codePoint) > limit) break;
+
+        written += decodeCodePoint(codePoint, target, offset + written);
+        read += codePoint > 0xFFFF ? 2 : 1;
+    }
+
+    return { read, written };
+}
+
+/**
+ * Checks whether the given bytes are well-formed UTF-8.
+ *
+ * ## Description:
+ * This function mirrors `isUtf8` from the Node.js `buffer` module.
+ * The bytes are validated with the same sequence rules used by `encodeUTF8`, so the input is rejected when it contains:
+ * - Bytes that can never appear in UTF-8 (`0xC0`, `0xC1` and `0xF5`–`0xFF`) or unexpected continuation bytes.
+ * - Overlong encodings, such as `[ 0xE0, 0x80, 0xAF ]` for `'/'`.
+ * - Encoded UTF-16 surrogates (U+D800 to U+DFFF).
+ * - Code points above U+10FFFF.
+ * - Sequences truncated at the end of the input.
+ *
+ * An `ArrayBuffer` is inspected through a `Uint8Array` view without being copied, and empty input is valid.
+ *
+ * - **Input**:
+ *   - `input`: The `Uint8Array` or `ArrayBuffer` to validate.
+ *
+ * - **Output**:
+ *   - Returns `true` if the bytes are valid UTF-8, otherwise `false`.
+ *
+ * ## Error Handling:
+ * - Throws an error if `input` is neither a `Uint8Array` nor an `ArrayBuffer`.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * isUtf8(new Uint8Array([ 0xE2, 0x82, 0xAC ]));  // true ("€")
+ * isUtf8(new Uint8Array([ 0xED, 0xA0, 0x80 ]));  // false (surrogate)
+ * isUtf8(new Uint8Array([ 0xC0, 0xAF ]));        // false (overlong)
+ * ```
+ *
+ * @param input - The bytes to validate.
+ * @returns `true` if `input` is well-formed UTF-8.
+ * @throws {Error} If the input is neither a `Uint8Array` nor an `ArrayBuffer`.
+ */
+
+export function isUtf8(input: Uint8Array | ArrayBuffer): boolean {
+    if (!isInstance(input, Uint8Array) && !isInstance(input, ArrayBuffer)) {
+        throw new Error('isUtf8 input must be a Uint8Array or ArrayBuffer');
+    }
+
+    const bytes = isInstance(input, ArrayBuffer) ? new Uint8Array(<ArrayBuffer> input) : <Uint8Array> input;
+    const codeUnits: Array<number> = [];
+
+    let i = 0;
+    while (i < bytes.length) {
+        const byte = bytes[i];
+        if (byte < 0x80) {
+            i++;
+            continue;
+        }
+
+        let consumed = -1;
+        if (byte >= 0xC2 && byte <= 0xDF) {
+            consumed = encodeTwoByteSequence(bytes, i, bytes.length, codeUnits);
+        } else if (byte >= 0xE0 && byte <= 0xEF) {
+            consumed = encodeThreeByteSequence(bytes, i, bytes.length, codeUnits);
+        } else if (byte >= 0xF0 && byte <= 0xF4) {
+            consumed = encodeFourByteSequence(bytes, i, bytes.length, codeUnits);
+        }
+
+        if (consumed < 0) {
+            return false;
+        }
+
+        i += consumed;
+        codeUnits.length = 0;
+    }
+
+    return true;
+}
+
+/**
+ * Decodes CESU-8 or Modified UTF-8 bytes into a string, shared by `encodeCESU8` and `encodeMUTF8`.
+ *
+ * ## Description:
+ * Both encodings write every UTF-16 code unit on its own, so a supplementary character is read as
+ * two three-byte surrogate sequences and four-byte sequences are ill-formed.
+ * CESU-8 requires every surrogate to be paired. Modified UTF-8 keeps lone surrogates as Java does,
+ * and reads `C0 80` as U+0000; a raw `0x00` byte is accepted unless `fatal` is set.
+ *
+ * @param bytes - The bytes to decode.
+ * @param modified - Whether the bytes are Modified UTF-8 rather than CESU-8.
+ * @param length - (Optional) The maximum number of bytes to process.
+ * @param options - (Optional) Encoding options.
+ * @returns The decoded string.
+ * @throws {EncodingError} If `fatal` is set and the input is malformed.
+ */
+
+function encodeSurrogateUTF8(bytes: Uint8Array, modified: boolean, length?: number, options: EncodeOptions = {}): string {
+    const encoding = modified ? 'mutf-8' : 'cesu-8';
+    const maxLength = length !== undefined ? Math.min(length, bytes.length) : bytes.length;
+    const codeUnits: Array<number> = [];
+    let result = '';
 
     let i = 0;
-    let byteCount = 0;
-
-    while (i < data.length && byteCount < maxLength) {
-        const charCode = data.charCodeAt(i);
-
-        if (charCode >= 0xD800 && charCode <= 0xDBFF) {
-            // High surrogate: check for valid low surrogate
-            const lowSurrogate = i + 1 < data.length ? data.charCodeAt(i + 1) : 0;
-
-            if (lowSurrogate >= 0xDC00 && lowSurrogate <= 0xDFFF) {
-                // Valid surrogate pair
-                const codePoint = ((charCode - 0xD800) << 10) + (lowSurrogate - 0xDC00) + 0x10000;
-                const bytes = decodeCodePoint(codePoint);
-                if (byteCount + bytes.length > maxLength) break;
-                utf8.push(...bytes);
-                byteCount += bytes.length;
-                i++; // Skip the low surrogate
-            } else {
-                // Invalid high surrogate, replace with U+FFFD
-                const bytes = decodeCodePoint(0xFFFD);
-                if (byteCount + bytes.length > maxLength) break;
-                utf8.push(...bytes);
-                byteCount += bytes.length;
+    while (i < maxLength) {
+        const byte = bytes[i];
+
+        let consumed = -1;
+        if (byte < 0x80) {
+            if (byte !== 0 || !modified || !options.fatal) {
+                codeUnits.push(byte);
+                consumed = 1;
+            }
+        } else if (byte === 0xC0 && modified) {
+            if (bytes[i + 1] === 0x80) consumed = encodeTwoByteSequence(bytes, i, maxLength, codeUnits);
+        } else if (byte >= 0xC2 && byte <= 0xDF) {
+            consumed = encodeTwoByteSequence(bytes, i, maxLength, codeUnits);
+        } else if (byte >= 0xE0 && byte <= 0xEF) {
+            const start = codeUnits.length;
+            consumed = encodeThreeByteSequence(bytes, i, maxLength, codeUnits, true);
+
+            const codeUnit = codeUnits[start];
+            if (consumed === 3 && !modified && codeUnit >= 0xD800 && codeUnit <= 0xDFFF) {
+                // CESU-8 only allows a high surrogate directly followed by a low surrogate
+                const paired = codeUnit <= 0xDBFF && bytes[i + 3] === 0xED &&
+                    encodeThreeByteSequence(bytes, i + 3, maxLength, codeUnits, true) === 3 &&
+                    (codeUnits[start + 1] & 0xFC00) === 0xDC00;
+
+                if (paired) {
+                    consumed = 6;
+                } else {
+                    codeUnits.length = start;
+                    consumed = -3;
+                }
             }
-        } else if (charCode >= 0xDC00 && charCode <= 0xDFFF) {
-            // Standalone low surrogate: invalid, replace with U+FFFD
-            const bytes = decodeCodePoint(0xFFFD);
-            if (byteCount + bytes.length > maxLength) break;
-            utf8.push(...bytes);
-            byteCount += bytes.length;
-        } else {
-            // Valid BMP character
-            const bytes = decodeCodePoint(charCode);
-            if (byteCount + bytes.length > maxLength) break;
-            utf8.push(...bytes);
-            byteCount += bytes.length;
         }
 
-        i++;
+        if (consumed < 0) {
+            if (options.fatal) {
+                throw new EncodingError(`The encoded data was not valid for encoding ${ encoding } at offset ${ i }`, encoding, i);
+            }
+
+            codeUnits.push(0xFFFD);
+            consumed = -consumed;
+        }
+
+        i += consumed;
+        if (codeUnits.length >= CODE_UNITS_CHUNK_SIZE) {
+            result += String.fromCharCode.apply(null, codeUnits);
+            codeUnits.length = 0;
+        }
+    }
+
+    return result + String.fromCharCode.apply(null, codeUnits);
+}
+
+/**
+ * Encodes a string as CESU-8 or Modified UTF-8, shared by `decodeCESU8` and `decodeMUTF8`.
+ *
+ * ## Description:
+ * Every UTF-16 code unit is written with `decodeCodePoint`, so a surrogate pair becomes two three-byte sequences,
+ * which are never split by `length`.
+ * CESU-8 replaces lone surrogates with U+FFFD; Modified UTF-8 writes them as is, and writes U+0000 as `C0 80`.
+ *
+ * @param data - The string to encode.
+ * @param modified - Whether to write Modified UTF-8 rather than CESU-8.
+ * @param length - (Optional) The maximum number of bytes to write.
+ * @returns The encoded bytes.
+ */
+
+function decodeSurrogateUTF8(data: string, modified: boolean, length?: number): Uint8Array {
+    const target = new Uint8Array(data.length * 3);
+    const limit = length !== undefined ? Math.max(Math.min(length, target.length), 0) : target.length;
+    let written = 0;
+
+    for (let i = 0; i < data.length; i++) {
+        let codeUnit = data.charCodeAt(i);
+        if (codeUnit === 0 && modified) {
+            if (written + 2 > limit) break;
+
+            target[written++] = 0xC0;
+            target[written++] = 0x80;
+            continue;
+        }
+
+        if (codeUnit >= 0xD800 && codeUnit <= 0xDFFF) {
+            const next = data.charCodeAt(i + 1);
+            if (codeUnit <= 0xDBFF && next >= 0xDC00 && next <= 0xDFFF) {
+                if (written + 6 > limit) break;
+
+                written += decodeCodePoint(codeUnit, target, written);
+                written += decodeCodePoint(next, target, written);
+                i++;
+                continue;
+            }
+
+            if (!modified) codeUnit = 0xFFFD;
+        }
+
+        if (written + codePointByteLength(codeUnit) > limit) break;
+        written += decodeCodePoint(codeUnit, target, written);
+    }
+
+    return target.slice(0, written);
+}
+
+/**
+ * Decodes CESU-8 bytes into a string.
+ *
+ * ## Description:
+ * CESU-8 (Unicode Technical Report #26), used by some Oracle and JDBC exports, is UTF-8 in which a supplementary
+ * character is written as the two three-byte sequences of its surrogate pair instead of one four-byte sequence.
+ * Four-byte sequences and unpaired surrogates are ill-formed and replaced with `U+FFFD`, unless `fatal` is set.
+ *
+ * - **Input**:
+ *   - `bytes`: The CESU-8 bytes.
+ *   - `length` (optional): The maximum number of bytes to process.
+ *   - `options` (optional): Encoding options, `fatal` enables strict decoding.
+ *
+ * - **Output**:
+ *   - The decoded string.
+ *
+ * - **Error Handling**:
+ *   - Throws an error if `bytes` is not a `Uint8Array`.
+ *   - Throws an `EncodingError` for malformed input when `options.fatal` is `true`.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * encodeCESU8(new Uint8Array([ 0xED, 0xA0, 0xBD, 0xED, 0xB8, 0x80 ])); // "😀"
+ * encodeCESU8(new Uint8Array([ 0xF0, 0x9F, 0x98, 0x80 ]));             // "����"
+ * ```
+ *
+ * @param bytes - The bytes to decode.
+ * @param length - An optional maximum number of bytes to process.
+ * @param options - Optional decoding options.
+ * @returns The decoded string.
+ * @throws {Error} Throws an error if `bytes` is not a `Uint8Array`.
+ * @throws {EncodingError} Throws an error on malformed input when `options.fatal` is `true`.
+ */
+
+export function encodeCESU8(bytes: Uint8Array, length?: number, options: EncodeOptions = {}): string {
+    if (!isInstance(bytes, Uint8Array)) {
+        throw new Error('encodeCESU8 input must be a Uint8Array');
+    }
+
+    return encodeSurrogateUTF8(bytes, false, length, options);
+}
+
+/**
+ * Encodes a string as CESU-8 bytes.
+ *
+ * ## Description:
+ * Characters of the Basic Multilingual Plane are written as in UTF-8, and a supplementary character as the
+ * two three-byte sequences of its surrogate pair. Lone surrogates are replaced by `U+FFFD`.
+ * The optional `length` limits the number of bytes produced; a character that does not fit is dropped entirely.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * decodeCESU8('a😀'); // Uint8Array [ 0x61, 0xED, 0xA0, 0xBD, 0xED, 0xB8, 0x80 ]
+ * ```
+ *
+ * @param data - The string to encode.
+ * @param length - An optional maximum number of bytes to produce.
+ * @returns A `Uint8Array` containing the CESU-8 bytes.
+ * @throws {Error} Throws an error if `data` is not a string.
+ */
+
+export function decodeCESU8(data: string, length?: number): Uint8Array {
+    if (typeof data !== 'string') {
+        throw new Error('decodeCESU8 input must be a string');
+    }
+
+    return decodeSurrogateUTF8(data, false, length);
+}
+
+/**
+ * Decodes Java Modified UTF-8 bytes into a string.
+ *
+ * ## Description:
+ * Modified UTF-8 is the string format of JVM class files, `DataInput.readUTF` and JNI.
+ * It is CESU-8 with U+0000 written as the two bytes `C0 80`, so encoded strings never contain a `0x00` byte.
+ * Like Java, lone surrogates are decoded as is. A raw `0x00` byte is read as U+0000,
+ * and other ill-formed sequences are replaced with `U+FFFD`, unless `fatal` is set.
+ *
+ * - **Input**:
+ *   - `bytes`: The Modified UTF-8 bytes.
+ *   - `length` (optional): The maximum number of bytes to process.
+ *   - `options` (optional): Encoding options, `fatal` enables strict decoding.
+ *
+ * - **Output**:
+ *   - The decoded string.
+ *
+ * - **Error Handling**:
+ *   - Throws an error if `bytes` is not a `Uint8Array`.
+ *   - Throws an `EncodingError` for malformed input, including a raw `0x00` byte, when `options.fatal` is `true`.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * encodeMUTF8(new Uint8Array([ 0x61, 0xC0, 0x80, 0x62 ]));             // "a\u0000b"
+ * encodeMUTF8(new Uint8Array([ 0xED, 0xA0, 0xBD, 0xED, 0xB8, 0x80 ])); // "😀"
+ * ```
+ *
+ * @param bytes - The bytes to decode.
+ * @param length - An optional maximum number of bytes to process.
+ * @param options - Optional decoding options.
+ * @returns The decoded string.
+ * @throws {Error} Throws an error if `bytes` is not a `Uint8Array`.
+ * @throws {EncodingError} Throws an error on malformed input when `options.fatal` is `true`.
+ */
+
+export function encodeMUTF8(bytes: Uint8Array, length?: number, options: EncodeOptions = {}): string {
+    if (!isInstance(bytes, Uint8Array)) {
+        throw new Error('encodeMUTF8 input must be a Uint8Array');
+    }
+
+    return encodeSurrogateUTF8(bytes, true, length, options);
+}
+
+/**
+ * Encodes a string as Java Modified UTF-8 bytes.
+ *
+ * ## Description:
+ * Every UTF-16 code unit is written on its own, as `DataOutput.writeUTF` does: U+0000 becomes `C0 80`
+ * and each surrogate, paired or not, a three-byte sequence.
+ * The optional `length` limits the number of bytes produced; a character that does not fit is dropped entirely.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * decodeMUTF8('a\u0000😀'); // Uint8Array [ 0x61, 0xC0, 0x80, 0xED, 0xA0, 0xBD, 0xED, 0xB8, 0x80 ]
+ * ```
+ *
+ * @param data - The string to encode.
+ * @param length - An optional maximum number of bytes to produce.
+ * @returns A `Uint8Array` containing the Modified UTF-8 bytes.
+ * @throws {Error} Throws an error if `data` is not a string.
+ */
+
+export function decodeMUTF8(data: string, length?: number): Uint8Array {
+    if (typeof data !== 'string') {
+        throw new Error('decodeMUTF8 input must be a string');
+    }
+
+    return decodeSurrogateUTF8(data, true, length);
+}
+
+/**
+ * Returns the mappings of a single-byte encoding, reading them from its codec the first time.
+ *
+ * ## Description:
+ * The codec decodes every byte value once; bytes it does not map come back as U+FFFD.
+ * The reverse mapping keeps the first byte of a character mapped by several bytes.
+ *
+ * @param codec - The codec of the encoding.
+ * @returns The mappings of the encoding.
+ */
+
+function loadTranscodeCodePage(codec: EncodingCodec): TranscodeCodePage {
+    let codePage = transcodeCodePages.get(codec);
+    if (codePage) return codePage;
+
+    const bytes = new Uint8Array(256);
+    for (let byte = 0; byte < 256; byte++) {
+        bytes[byte] = byte;
+    }
+
+    const decodeTable = codec.encode(bytes);
+    const encodeTable = new Map<number, number>();
+    for (let byte = 0; byte < 256; byte++) {
+        const codeUnit = decodeTable.charCodeAt(byte);
+        if (codeUnit !== 0xFFFD && !encodeTable.has(codeUnit)) {
+            encodeTable.set(codeUnit, byte);
+        }
+    }
+
+    codePage = { decodeTable, encodeTable };
+    transcodeCodePages.set(codec, codePage);
+
+    return codePage;
+}
+
+/**
+ * Maps an encoding accepted by `transcode` to its canonical name, or a single-byte codec to its mappings.
+ *
+ * @param encoding - The encoding name or single-byte codec to normalize.
+ * @returns The canonical encoding name, or the mappings of a single-byte encoding.
+ * @throws {Error} If the encoding is not supported by `transcode`.
+ */
+
+function normalizeTranscodeEncoding(encoding: UnicodeTranscodeEncoding | EncodingCodec): TranscodeTarget {
+    if (typeof encoding === 'object' && encoding !== null) {
+        return loadTranscodeCodePage(encoding);
+    }
+
+    const name = String(encoding).toLowerCase();
+
+    switch (name) {
+        case 'ascii':
+            return 'ascii';
+        case 'latin1':
+        case 'binary':
+            return 'latin1';
+        case 'utf8':
+        case 'utf-8':
+            return 'utf8';
+        case 'ucs2':
+        case 'ucs-2':
+        case 'utf16le':
+        case 'utf-16le':
+            return 'utf16le';
+    }
+
+    throw new Error('Unable to transcode Buffer: unsupported encoding ' + encoding);
+}
+
+/**
+ * Reads one character from `source` and appends its UTF-16 code units to `output`.
+ *
+ * ## Description:
+ * - **`ascii`**: Bytes above `0x7F` are read as U+FFFD.
+ * - **`latin1`**: Every byte is read as the code point of the same value.
+ * - **`utf16le`**: A surrogate pair is read as a whole, a lone surrogate is appended as is.
+ * - **`utf8`**: Sequences are read with the sequence helpers, each maximal ill-formed subpart is read as U+FFFD.
+ * - **Single-byte encodings**: Every byte is looked up in the mappings of the encoding, unmapped bytes are read as U+FFFD.
+ *
+ * @param source - The bytes being transcoded.
+ * @param index - The position of the character in `source`.
+ * @param end - The position after the last byte that may be read.
+ * @param encoding - The normalized source encoding.
+ * @param output - The list of code units to append to.
+ * @returns The number of bytes consumed.
+ */
+
+function readCodeUnits(source: Uint8Array, index: number, end: number, encoding: TranscodeTarget, output: Array<number>): number {
+    const byte = source[index];
+
+    switch (encoding) {
+        case 'ascii':
+            output.push(byte < 0x80 ? byte : 0xFFFD);
+
+            return 1;
+        case 'latin1':
+            output.push(byte);
+
+            return 1;
+        case 'utf16le': {
+            const codeUnit = byte | (source[index + 1] << 8);
+            output.push(codeUnit);
+            if (codeUnit >= 0xD800 && codeUnit <= 0xDBFF && index + 3 < end) {
+                const next = source[index + 2] | (source[index + 3] << 8);
+                if (next >= 0xDC00 && next <= 0xDFFF) {
+                    output.push(next);
+
+                    return 4;
+                }
+            }
+
+            return 2;
+        }
+        case 'utf8':
+            break;
+        default:
+            output.push(encoding.decodeTable.charCodeAt(byte));
+
+            return 1;
+    }
+
+    let consumed = -1;
+    if (byte < 0x80) {
+        output.push(byte);
+        consumed = 1;
+    } else if (byte >= 0xC2 && byte <= 0xDF) {
+        consumed = encodeTwoByteSequence(source, index, end, output);
+    } else if (byte >= 0xE0 && byte <= 0xEF) {
+        consumed = encodeThreeByteSequence(source, index, end, output);
+    } else if (byte >= 0xF0 && byte <= 0xF4) {
+        consumed = encodeFourByteSequence(source, index, end, output);
+    }
+
+    if (consumed < 0) {
+        output.push(0xFFFD);
+        consumed = -consumed;
+    }
+
+    return consumed;
+}
+
+/**
+ * Writes one character, given as one code unit or a surrogate pair, to `target` in the given encoding.
+ *
+ * ## Description:
+ * - **`ascii`** / **`latin1`**: Characters outside the range of the encoding (`0x7F` or `0xFF`) are written as `'?'`.
+ * - **`utf16le`**: The code units are written as is.
+ * - **`utf8`**: The code point is written with `decodeCodePoint`, a lone surrogate is written as U+FFFD.
+ * - **Single-byte encodings**: Characters missing from the mappings of the encoding are written as `'?'`.
+ *
+ * @param codeUnits - The code units of the character (one code unit or a surrogate pair).
+ * @param target - The byte array to write into.
+ * @param offset - The position of the first byte to write.
+ * @param encoding - The normalized target encoding.
+ * @returns The number of bytes written.
+ */
+
+function writeCodeUnits(codeUnits: Array<number>, target: Uint8Array, offset: number, encoding: TranscodeTarget): number {
+    switch (encoding) {
+        case 'ascii':
+        case 'latin1': {
+            const limit = encoding === 'ascii' ? 0x7F : 0xFF;
+            target[offset] = codeUnits.length === 1 && codeUnits[0] <= limit ? codeUnits[0] : 0x3F;
+
+            return 1;
+        }
+        case 'utf16le':
+            for (let i = 0; i < codeUnits.length; i++) {
+                target[offset + i * 2] = codeUnits[i] & 0xFF;
+                target[offset + i * 2 + 1] = codeUnits[i] >> 8;
+            }
+
+            return codeUnits.length * 2;
+        case 'utf8':
+            break;
+        default: {
+            const byte = codeUnits.length === 1 ? encoding.encodeTable.get(codeUnits[0]) : undefined;
+            target[offset] = byte ?? 0x3F;
+
+            return 1;
+        }
+    }
+
+    let codePoint = codeUnits[0];
+    if (codeUnits.length === 2) {
+        codePoint = ((codeUnits[0] - 0xD800) << 10) + (codeUnits[1] - 0xDC00) + 0x10000;
+    } else if (codePoint >= 0xD800 && codePoint <= 0xDFFF) {
+        codePoint = 0xFFFD;
+    }
+
+    return decodeCodePoint(codePoint, target, offset);
+}
+
+/**
+ * Re-encodes bytes from one character encoding to another.
+ *
+ * ## Description:
+ * This function mirrors `transcode` from the Node.js `buffer` module.
+ * Characters are read from `source` one at a time and written straight into the result,
+ * so no intermediate JavaScript string is created.
+ *
+ * - Malformed input (invalid UTF-8, bytes above `0x7F` in ASCII, lone UTF-16 surrogates) is read as U+FFFD.
+ * - Characters that cannot be represented in an `ascii`, `latin1` or single-byte target are replaced with `'?'`.
+ * - Bytes that a single-byte source encoding does not map are read as U+FFFD.
+ * - A trailing odd byte of `utf16le` input is ignored.
+ *
+ * Unlike Node.js, which fails on malformed input for some encoding pairs, the replacement rules above
+ * are applied the same way for every supported pair.
+ *
+ * - **Input**:
+ *   - `source`: The bytes to convert.
+ *   - `fromEncoding`: The encoding of `source` (`ascii`, `latin1`/`binary`, `utf8`, `utf16le`/`ucs2`),
+ *     or the codec of a single-byte encoding, such as `createSingleByteCodec('windows-1252')`.
+ *     `Buffer.transcode` accepts single-byte encodings by name and passes their registered codecs.
+ *   - `toEncoding`: The encoding of the result.
+ *
+ * - **Output**:
+ *   - A new `Uint8Array` containing the transcoded bytes.
+ *
+ * ## Error Handling:
+ * - Throws an error if `source` is not a `Uint8Array`.
+ * - Throws an error if either encoding is not supported.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * transcode(new Uint8Array([ 0xE9 ]), 'latin1', 'utf8');         // Uint8Array [ 0xC3, 0xA9 ] ("é")
+ * transcode(new Uint8Array([ 0xE2, 0x82, 0xAC ]), 'utf8', 'ascii'); // Uint8Array [ 0x3F ] ("?")
+ * transcode(new Uint8Array([ 0x61, 0x62 ]), 'utf8', 'ucs2');       // Uint8Array [ 0x61, 0x00, 0x62, 0x00 ]
+ * transcode(new Uint8Array([ 0x80 ]), createSingleByteCodec('windows-1252'), 'utf8'); // Uint8Array [ 0xE2, 0x82, 0xAC ] ("€")
+ * ```
+ *
+ * @param source - The bytes to convert.
+ * @param fromEncoding - The encoding of `source`.
+ * @param toEncoding - The encoding of the result.
+ * @returns The transcoded bytes.
+ * @throws {Error} If `source` is not a `Uint8Array` or an encoding is not supported.
+ */
+
+export function transcode(
+    source: Uint8Array, fromEncoding: UnicodeTranscodeEncoding | EncodingCodec, toEncoding: UnicodeTranscodeEncoding | EncodingCodec
+): Uint8Array {
+    if (!isInstance(source, Uint8Array)) {
+        throw new Error('transcode source must be a Uint8Array');
+    }
+
+    const from = normalizeTranscodeEncoding(fromEncoding);
+    const to = normalizeTranscodeEncoding(toEncoding);
+
+    // Every source byte produces at most three UTF-8 bytes, two UTF-16LE bytes or one single-byte character
+    const end = from === 'utf16le' ? source.length - (source.length % 2) : source.length;
+    const target = new Uint8Array(to === 'utf8' ? end * 3 : to === 'utf16le' ? end * 2 : end);
+    const codeUnits: Array<number> = [];
+
+    let index = 0;
+    let offset = 0;
+    while (index < end) {
+        index += readCodeUnits(source, index, end, from, codeUnits);
+        offset += writeCodeUnits(codeUnits, target, offset, to);
+        codeUnits.length = 0;
     }
 
-    return new Uint8Array(utf8);
+    return offset < target.length ? target.slice(0, offset) : target;
 }
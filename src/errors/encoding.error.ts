@@ -0,0 +1,54 @@
+/**
+ * The `EncodingError` class is thrown when encoded data is malformed and the caller asked for strict decoding
+ * instead of a lenient best-effort result.
+ *
+ * ## Description:
+ * `EncodingError` extends `TypeError`, like the error thrown by a `TextDecoder` created with `{ fatal: true }`,
+ * and carries the name of the encoding and the position of the first invalid input so callers can report
+ * or skip the corrupt part of the payload.
+ *
+ * - **Input**:
+ *   - `message`: A human-readable description of the problem.
+ *   - `encoding`: The name of the encoding that failed to decode.
+ *   - `offset`: The position of the first invalid byte (or character) in the input.
+ *
+ * - **Output**:
+ *   - An `EncodingError` instance with `code` set to `'ERR_ENCODING_INVALID_ENCODED_DATA'`.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * try {
+ *     encodeUTF8(new Uint8Array([ 0x61, 0xFF ]), undefined, { fatal: true });
+ * } catch (error) {
+ *     if (error instanceof EncodingError) {
+ *         console.log(error.encoding, error.offset); // 'utf-8' 1
+ *     }
+ * }
+ * ```
+ *
+ * @param message - A description of the problem.
+ * @param encoding - The name of the encoding that failed to decode.
+ * @param offset - The position of the first invalid input.
+ */
+
+export class EncodingError extends TypeError {
+    /**
+     * A machine-readable error code, matching the one used by Node.js for invalid encoded data.
+     */
+
+    readonly code = 'ERR_ENCODING_INVALID_ENCODED_DATA';
+
+    /**
+     * Creates a new `EncodingError`.
+     *
+     * @param message - A description of the problem.
+     * @param encoding - The name of the encoding that failed to decode.
+     * @param offset - The position of the first invalid input.
+     */
+
+    constructor(message: string, readonly encoding: string, readonly offset: number) {
+        super(message);
+        this.name = 'EncodingError';
+    }
+}
@@ -9,6 +9,15 @@ export type * from '@providers/interfaces/buffer.interfaces';
  */
 
 export * from '@providers/buffer.provider';
+export * from '@providers/string-decoder.provider';
 export * from '@components/utf8.component';
 export * from '@components/charset.component';
+export * from '@components/encoding.component';
+export * from '@components/uint8array.component';
+export * from '@components/pem.component';
+export * from '@components/bech32.component';
+export * from '@components/mime.component';
+export * from '@components/code-page.component';
+export * from '@components/cjk.component';
 export * from '@components/globals.component';
+export * from '@errors/encoding.error';
@@ -2,25 +2,32 @@
  * Import will remove at compile time
  */
 
-import type { primitiveInputType } from '@providers/interfaces/buffer.interfaces';
+import type {
+    DecodeOptions,
+    EncodeOptions,
+    EncodingCodec,
+    BufferEncoding,
+    ToBase64Options,
+    EncodeIntoResult,
+    PEMBlock,
+    FromBase64Options,
+    TranscodeEncoding,
+    SingleByteEncoding,
+    primitiveInputType,
+    WithImplicitCoercion
+} from '@providers/interfaces/buffer.interfaces';
 
 /**
  * Imports
  */
 
+import { getEncoding } from '@components/encoding.component';
+import { decodePEM, encodePEM } from '@components/pem.component';
 import { DataViewProvider } from '@providers/data-view.provider';
-import { decodeUTF8, encodeUTF8 } from '@components/utf8.component';
-import {
-    encodeHEX,
-    decodeHEX,
-    isInstance,
-    encodeASCII,
-    decodeASCII,
-    decodeBase64,
-    encodeBase64,
-    decodeUTF16LE,
-    encodeUTF16LE
-} from '@components/charset.component';
+import { isInstance } from '@components/charset.component';
+import { resolveSingleByteEncoding } from '@components/code-page.component';
+import { decodeUTF8, decodeUTF8Into, transcode } from '@components/utf8.component';
+import { fromBase64, fromHex, setFromBase64, setFromHex, toBase64, toHex } from '@components/uint8array.component';
 
 export class Buffer extends DataViewProvider {
     /**
@@ -32,6 +39,29 @@ export class Buffer extends DataViewProvider {
         MAX_STRING_LENGTH: 536870888
     };
 
+    /**
+     * The size in bytes of the shared slabs used for pooled allocations (default is `8192`).
+     *
+     * ## Description:
+     * Like in Node.js, `allocUnsafe` and `from` serve buffers smaller than half of `poolSize`
+     * as views into a shared `ArrayBuffer`, so many small buffers do not each allocate their own memory.
+     * Changing this value takes effect when the next slab is created.
+     */
+
+    static poolSize = 8192;
+
+    /**
+     * The current shared slab, created lazily by the first pooled allocation.
+     */
+
+    private static pool?: ArrayBuffer;
+
+    /**
+     * The offset of the first free byte in the current slab.
+     */
+
+    private static poolOffset = 0;
+
     /**
      * The private constructor for a custom class extending `Uint8Array`.
      * This constructor initializes an instance based on the input type (length, array-like structure, or buffer),
@@ -64,9 +94,21 @@ export class Buffer extends DataViewProvider {
      *   - `ArrayBuffer | SharedArrayBuffer`: A low-level binary data object.
      *   - `byteOffset` (optional): A starting index for creating the buffer from an `ArrayBuffer`.
      *   - `length` (optional): The length of the resulting buffer when working with an `ArrayBuffer`.
+     *   - `options` (optional): Decoding options for a string. With `fatal: true`, a malformed `'base64'`,
+     *     `'base64url'`, `'base32'`, `'base32hex'`, `'crockford32'`, `'base58'`, `'quoted-printable'`,
+     *     `'percent'` or `'hex'` string throws an `EncodingError` instead of being decoded leniently.
+     *     With `encodeSet: 'form'`, a `'percent'` string is decoded with `+` as a space.
+     *     Characters that a single-byte encoding such as `'windows-1252'` or a multi-byte encoding such as
+     *     `'shift_jis'` cannot represent are written as `'?'`, or throw an `EncodingError` with `fatal: true`.
+     *     A `'base58check'` string with a wrong checksum, and an invalid `'ascii85'`, `'z85'` or `'base45'` string,
+     *     always throw.
      *
      * - **Output**: Returns a new `Buffer` instance that contains the encoded or copied data.
      *
+     * Strings, arrays and typed arrays are copied into a new `Buffer`; results smaller than half of `Buffer.poolSize`
+     * are allocated from the shared pool, so their `byteOffset` may be non-zero and their `buffer` shared with other buffers.
+     * An `ArrayBuffer` is never copied: the returned `Buffer` is a view of it.
+     *
      * ## Example:
      *
      * ```ts
@@ -74,25 +116,35 @@ export class Buffer extends DataViewProvider {
      * const buffer2 = Buffer.from([72, 101, 108, 108, 111]);
      * const buffer3 = Buffer.from(new Uint8Array([1, 2, 3, 4]));
      * const buffer4 = Buffer.from(new ArrayBuffer(16));
+     * const buffer5 = Buffer.from('SGVsbG8=', 'base64', { fatal: true });
      * ```
      *
      * ## Error Handling:
      * - Throws a `TypeError` if the input type is not recognized or is unsupported.
      * - If the `encoding` argument is provided but is invalid, it will throw an error.
      * - When using `ArrayBuffer`, if the provided `byteOffset` or `length` is out of bounds, it throws an error.
+     * - With `{ fatal: true }`, throws an `EncodingError` naming the offset of the first invalid character.
      */
 
     static override from(value: Uint8Array | readonly number[]): Buffer;
     static override from(value: string | Uint8Array | readonly number[]): Buffer;
-    static override from(value: WithImplicitCoercion<string>, encoding: BufferEncoding): Buffer;
+    static override from(value: WithImplicitCoercion<string>, encoding: BufferEncoding, options?: DecodeOptions): Buffer;
     static override from(arrayBuffer: WithImplicitCoercion<ArrayBuffer | SharedArrayBuffer | ArrayBufferLike>, byteOffset?: number, length?: number): Buffer;
-    static override from(arg1: unknown, arg2?: BufferEncoding | number, length?: number): Buffer {
+    static override from(arg1: unknown, arg2?: BufferEncoding | number, arg3?: number | DecodeOptions): Buffer {
         if (typeof arg1 === 'string') {
-            return new Buffer(this.decoding(arg1, <BufferEncoding> arg2));
+            const bytes = this.decoding(arg1, <BufferEncoding> arg2, undefined, <DecodeOptions> arg3);
+            const buffer = Buffer.allocPooled(bytes.length);
+            buffer.set(bytes);
+
+            return buffer;
         } else if (ArrayBuffer.isView(arg1) || Array.isArray(arg1)) {
-            return new Buffer(new Uint8Array(<any> arg1, <number> arg2, length));
+            const source = <ArrayLike<number>> arg1;
+            const buffer = Buffer.allocPooled(source.length ?? 0);
+            buffer.set(source);
+
+            return buffer;
         } else if(isInstance(arg1, ArrayBuffer)) {
-            return new Buffer(<any> arg1, <number> arg2, length);
+            return new Buffer(<any> arg1, <number> arg2, <number> arg3);
         } else {
             // Throw a TypeError if the argument is not supported
             throw new TypeError('The "from" method expects valid input arguments.');
@@ -152,7 +204,25 @@ export class Buffer extends DataViewProvider {
      * - **`'utf8'` / `'utf-8'`**: UTF-8 encoding.
      * - **`'ascii'` / `'latin1'` / `'binary'`**: ASCII or Latin-1 encoding.
      * - **`'base64'`**: Base64 encoding.
+     * - **`'base64url'`**: Base64URL encoding (RFC 4648 §5).
      * - **`'ucs2'` / `'ucs-2'` / `'utf16le'` / `'utf-16le'`**: UTF-16 Little Endian encoding.
+     * - **`'cesu8'` / `'cesu-8'`**: CESU-8, UTF-8 with supplementary characters written as surrogate pairs.
+     * - **`'mutf8'` / `'mutf-8'`**: Java Modified UTF-8, CESU-8 with U+0000 written as `C0 80`.
+     * - **`'utf16be'` / `'utf-16be'`**: UTF-16 Big Endian encoding.
+     * - **`'utf32le'` / `'utf-32le'`**, **`'utf32be'` / `'utf-32be'`**: UTF-32 encoding, one code point per four bytes.
+     *   Pass `bom: true` to write a byte order mark first.
+     * - **`'base32'` / `'base32hex'`**: Base32 encodings (RFC 4648 §6 and §7).
+     * - **`'crockford32'`**: Crockford's Base32 encoding.
+     * - **`'base58'` / `'base58check'`**: Bitcoin Base58, without or with a double SHA-256 checksum.
+     * - **`'ascii85'` / `'z85'`**: Adobe Ascii85 and ZeroMQ Z85 encodings.
+     * - **`'base45'`**: Base45 encoding for QR codes (RFC 9285).
+     * - **`'quoted-printable'`**: Quoted-printable encoding for MIME bodies (RFC 2045).
+     * - **`'percent'`**: Percent-encoding for URLs (RFC 3986).
+     * - **`'windows-1252'`**, **`'iso-8859-2'`**, **`'koi8-r'`**, ...: The single-byte legacy encodings
+     *   listed by `SingleByteEncoding`, with the mappings of the WHATWG Encoding Standard.
+     * - **`'shift_jis'`**, **`'euc-jp'`**, **`'gbk'`**, **`'gb18030'`**, **`'big5'`**, **`'euc-kr'`**: The multi-byte
+     *   CJK encodings listed by `MultiByteEncoding`, with the indexes of the WHATWG Encoding Standard.
+     * - Any encoding added with `registerEncoding`.
      *
      * ## Example:
      *
@@ -171,9 +241,7 @@ export class Buffer extends DataViewProvider {
      */
 
     static isEncoding(encoding: string): encoding is BufferEncoding {
-        return [
-            'hex', 'utf8', 'utf-8', 'ascii', 'latin1', 'binary', 'base64', 'ucs2', 'ucs-2', 'utf16le', 'utf-16le'
-        ].includes(encoding.toLowerCase());
+        return getEncoding(encoding) !== undefined;
     }
 
     /**
@@ -233,7 +301,25 @@ export class Buffer extends DataViewProvider {
      * - **`'utf8'` / `'utf-8'`**: UTF-8 encoding.
      * - **`'ascii'` / `'latin1'` / `'binary'`**: ASCII or Latin-1 encoding.
      * - **`'base64'`**: Base64 encoding.
+     * - **`'base64url'`**: Base64URL encoding (RFC 4648 §5).
      * - **`'ucs2'` / `'ucs-2'` / `'utf16le'` / `'utf-16le'`**: UTF-16 Little Endian encoding.
+     * - **`'cesu8'` / `'cesu-8'`**: CESU-8, UTF-8 with supplementary characters written as surrogate pairs.
+     * - **`'mutf8'` / `'mutf-8'`**: Java Modified UTF-8, CESU-8 with U+0000 written as `C0 80`.
+     * - **`'utf16be'` / `'utf-16be'`**: UTF-16 Big Endian encoding.
+     * - **`'utf32le'` / `'utf-32le'`**, **`'utf32be'` / `'utf-32be'`**: UTF-32 encoding, one code point per four bytes.
+     *   Pass `bom: true` to write a byte order mark first.
+     * - **`'base32'` / `'base32hex'`**: Base32 encodings (RFC 4648 §6 and §7).
+     * - **`'crockford32'`**: Crockford's Base32 encoding.
+     * - **`'base58'` / `'base58check'`**: Bitcoin Base58, without or with a double SHA-256 checksum.
+     * - **`'ascii85'` / `'z85'`**: Adobe Ascii85 and ZeroMQ Z85 encodings.
+     * - **`'base45'`**: Base45 encoding for QR codes (RFC 9285).
+     * - **`'quoted-printable'`**: Quoted-printable encoding for MIME bodies (RFC 2045).
+     * - **`'percent'`**: Percent-encoding for URLs (RFC 3986).
+     * - **`'windows-1252'`**, **`'iso-8859-2'`**, **`'koi8-r'`**, ...: The single-byte legacy encodings
+     *   listed by `SingleByteEncoding`, with the mappings of the WHATWG Encoding Standard.
+     * - **`'shift_jis'`**, **`'euc-jp'`**, **`'gbk'`**, **`'gb18030'`**, **`'big5'`**, **`'euc-kr'`**: The multi-byte
+     *   CJK encodings listed by `MultiByteEncoding`, with the indexes of the WHATWG Encoding Standard.
+     * - Any encoding added with `registerEncoding`.
      *
      * ## Example:
      *
@@ -384,6 +470,131 @@ export class Buffer extends DataViewProvider {
         return result;
     }
 
+    /**
+     * A static method that re-encodes the bytes of a `Uint8Array` from one character encoding to another.
+     * It mirrors `transcode` from the Node.js `buffer` module.
+     *
+     * ## Description:
+     * The `transcode` method converts `source` directly between the byte representations of the supported encodings
+     * (`ascii`, `latin1`/`binary`, `utf8`, `utf16le`/`ucs2`, and the single-byte encodings such as `windows-1252`)
+     * without creating an intermediate string.
+     * Malformed input is read as U+FFFD, and characters that cannot be represented in an `ascii`, `latin1`
+     * or single-byte target are replaced with `'?'`.
+     *
+     * - **Input**:
+     *   - `source`: The `Buffer` or `Uint8Array` to convert.
+     *   - `fromEncoding`: The encoding of `source`.
+     *   - `toEncoding`: The encoding of the returned `Buffer`.
+     *
+     * - **Output**: Returns a new `Buffer` containing the transcoded bytes.
+     *
+     * ## Example:
+     *
+     * ```ts
+     * const latin1 = Buffer.from([ 0x63, 0x61, 0x66, 0xE9 ]);
+     * console.log(Buffer.transcode(latin1, 'latin1', 'utf8').toString()); // Output: "café"
+     * console.log(Buffer.transcode(Buffer.from('€'), 'utf8', 'ascii'));   // Output: <Buffer 3f>
+     * ```
+     *
+     * ## Error Handling:
+     * - Throws an `Error` if `source` is not a `Uint8Array` or an encoding is not supported.
+     *
+     * @static
+     * @param source - The bytes to convert.
+     * @param fromEncoding - The encoding of `source`.
+     * @param toEncoding - The encoding of the result.
+     * @returns A `Buffer` containing the transcoded bytes.
+     * @throws Error if `source` is not a `Uint8Array` or an encoding is not supported.
+     */
+
+    static transcode(source: Uint8Array, fromEncoding: TranscodeEncoding, toEncoding: TranscodeEncoding): Buffer {
+        return new Buffer(transcode(source, Buffer.getTranscodeEncoding(fromEncoding), Buffer.getTranscodeEncoding(toEncoding)));
+    }
+
+    /**
+     * Creates a new `Buffer` from a Base64 string, following the TC39 `Uint8Array.fromBase64` proposal.
+     *
+     * ## Description:
+     * Unlike `Buffer.from(string, 'base64')`, which skips characters outside the alphabet,
+     * this method rejects any character that is not ASCII whitespace or part of the selected alphabet,
+     * and handles the final chunk according to `lastChunkHandling`.
+     *
+     * - **Input**:
+     *   - `string`: The Base64 string to decode.
+     *   - `options` (optional): The `alphabet` (`'base64'` or `'base64url'`) and `lastChunkHandling` options.
+     *
+     * - **Output**: Returns a new `Buffer` containing the decoded bytes.
+     *
+     * ## Example:
+     *
+     * ```ts
+     * console.log(Buffer.fromBase64('SGVsbG8=').toString());                    // Output: "Hello"
+     * console.log(Buffer.fromBase64('-_8', { alphabet: 'base64url' }));         // Output: <Buffer fb ff>
+     * ```
+     *
+     * ## Error Handling:
+     * - Throws a `TypeError` if `string` is not a string or the options are invalid.
+     * - Throws a `SyntaxError` if `string` is not valid Base64.
+     *
+     * @static
+     * @param string - The Base64 string to decode.
+     * @param options - (Optional) The decoding options.
+     * @returns A `Buffer` containing the decoded bytes.
+     * @throws SyntaxError if the string is not valid Base64.
+     */
+
+    static fromBase64(string: string, options?: FromBase64Options): Buffer {
+        return new Buffer(fromBase64(string, options));
+    }
+
+    /**
+     * Creates a new `Buffer` from a hexadecimal string, following the TC39 `Uint8Array.fromHex` proposal.
+     *
+     * ## Description:
+     * This method throws if the string has an odd length or contains a non-hexadecimal character,
+     * where `Buffer.from(string, 'hex')` drops the unpaired last character and stops at the first invalid pair.
+     *
+     * ## Example:
+     *
+     * ```ts
+     * console.log(Buffer.fromHex('CAFE')); // Output: <Buffer ca fe>
+     * ```
+     *
+     * @static
+     * @param string - The hexadecimal string to decode.
+     * @returns A `Buffer` containing the decoded bytes.
+     * @throws SyntaxError if the string is not a valid hexadecimal string.
+     */
+
+    static fromHex(string: string): Buffer {
+        return new Buffer(fromHex(string));
+    }
+
+    /**
+     * Parses every PEM block (RFC 7468) found in a text, such as a certificate chain or a private key file.
+     *
+     * ## Description:
+     * Text outside the `-----BEGIN label-----` and `-----END label-----` lines is ignored.
+     * RFC 1421 headers (`Name: value` lines at the start of a block) are returned in `headers`,
+     * and the Base64 body is decoded into a `Buffer`, whatever its line width.
+     *
+     * ## Example:
+     *
+     * ```ts
+     * const [ block ] = Buffer.fromPEM('-----BEGIN DATA-----\nAQID\n-----END DATA-----\n');
+     * console.log(block.label, block.data); // Output: DATA <Buffer 01 02 03>
+     * ```
+     *
+     * @static
+     * @param text - The PEM text.
+     * @returns The blocks in the order they appear, or an empty array if there are none.
+     * @throws EncodingError if a block has no END line or its body is not valid Base64.
+     */
+
+    static fromPEM(text: string): Array<PEMBlock> {
+        return decodePEM(text).map(block => ({ ...block, data: new Buffer(block.data) }));
+    }
+
     /**
      * A static method that compares two `Buffer` instances to determine their relative order.
      * This method returns a value indicating whether the first buffer is less than,
@@ -515,14 +726,21 @@ export class Buffer extends DataViewProvider {
      * const buffer = Buffer.allocUnsafe(10); // Allocates a buffer of 10 bytes with uninitialized content
      * ```
      *
+     * ## Pooling:
+     * Buffers smaller than half of `Buffer.poolSize` are views into a shared, pre-allocated `ArrayBuffer`,
+     * so their `byteOffset` may be non-zero and their `buffer` may be shared with other buffers.
+     * Use `allocUnsafeSlow` for memory that must not come from the pool.
+     *
      * ## Error Handling:
      * - Throws a `TypeError` if the `size` argument is not a valid number.
+     * - Throws a `RangeError` if the `size` exceeds the maximum allowed buffer size or is negative.
      * - The returned buffer will not be zero-filled, and may contain sensitive or old data from previous allocations.
      *
      * @static
      * @param size - The size of the buffer to allocate, in bytes.
      * @returns A new `Buffer` of the specified size, uninitialized.
      * @throws TypeError if the `size` argument is not a valid number.
+     * @throws RangeError if the `size` is out of range.
      */
 
     static allocUnsafe(size: number): Buffer {
@@ -530,6 +748,53 @@ export class Buffer extends DataViewProvider {
             throw new TypeError('The "size" argument must be of type number.');
         }
 
+        if (size > Buffer.constants.MAX_LENGTH || size < 0) {
+            throw new RangeError('ERR_OUT_OF_RANGE');
+        }
+
+        return Buffer.allocPooled(size);
+    }
+
+    /**
+     * A static method that allocates a new `Buffer` of the specified size outside of the shared pool.
+     *
+     * ## Description:
+     * The `allocUnsafeSlow` method always allocates a dedicated `ArrayBuffer` of exactly `size` bytes, so the returned
+     * `Buffer` has a `byteOffset` of `0` and does not share memory with any other buffer.
+     * This is useful for buffers that are retained for a long time, which would otherwise keep a whole pool slab alive.
+     *
+     * - **Input**:
+     *   - `size`: The size of the `Buffer` to allocate (in bytes). This must be a number.
+     *
+     * - **Output**: Returns a new `Buffer` of the specified size backed by its own `ArrayBuffer`.
+     *
+     * ## Example:
+     *
+     * ```ts
+     * const buffer = Buffer.allocUnsafeSlow(10);
+     * console.log(buffer.byteOffset, buffer.buffer.byteLength); // Output: 0 10
+     * ```
+     *
+     * ## Error Handling:
+     * - Throws a `TypeError` if the `size` argument is not a valid number.
+     * - Throws a `RangeError` if the `size` exceeds the maximum allowed buffer size or is negative.
+     *
+     * @static
+     * @param size - The size of the buffer to allocate, in bytes.
+     * @returns A new `Buffer` of the specified size.
+     * @throws TypeError if the `size` argument is not a valid number.
+     * @throws RangeError if the `size` is out of range.
+     */
+
+    static allocUnsafeSlow(size: number): Buffer {
+        if (typeof size !== 'number') {
+            throw new TypeError('The "size" argument must be of type number.');
+        }
+
+        if (size > Buffer.constants.MAX_LENGTH || size < 0) {
+            throw new RangeError('ERR_OUT_OF_RANGE');
+        }
+
         return new Buffer(size);
     }
 
@@ -601,10 +866,23 @@ export class Buffer extends DataViewProvider {
 
         let coercedValue: Uint8Array;
         if (typeof value === 'string') {
+            // Encode UTF-8 strings in place and repeat them, unless the string does not fit in the range
+            if (Buffer.isUTF8Encoding(encoding)) {
+                // A leading U+0000 is its only way to start with a zero byte, rejected before anything is written
+                if (value.charCodeAt(0) === 0) {
+                    throw new Error(`The argument 'value' is invalid. Received '${ value }'`);
+                }
+
+                const { read, written } = decodeUTF8Into(value, this, offset, end - offset);
+                if (read === value.length) {
+                    return this.repeatPattern(offset, written, end);
+                }
+            }
+
             coercedValue = Buffer.decoding(value, encoding);
 
-            // Validate coercedValue for string case
-            if (coercedValue[0] <= 0) {
+            // Validate coercedValue for string case, including a string that decodes to no bytes such as invalid hex
+            if ((value.length > 0 && coercedValue.length === 0) || coercedValue[0] <= 0) {
                 throw new Error(`The argument 'value' is invalid. Received '${ value }'`);
             }
         } else if (typeof value === 'number') {
@@ -861,8 +1139,12 @@ export class Buffer extends DataViewProvider {
             throw new RangeError(`The values of "offset" and "length" must be >= 0 && <= ${ this.length }. Received offset: ${ offset }, length: ${ length }`);
         }
 
-        let bytesWrite = undefined;
-        bytesWrite = Buffer.decoding(string, encoding, fixLength);
+        // UTF-8 is encoded straight into the buffer memory
+        if (Buffer.isUTF8Encoding(encoding)) {
+            return decodeUTF8Into(string, this, offset, fixLength).written;
+        }
+
+        const bytesWrite = Buffer.decoding(string, encoding, fixLength);
         this.set(bytesWrite, offset);
 
         return bytesWrite.length;
@@ -901,7 +1183,7 @@ export class Buffer extends DataViewProvider {
      */
 
     override subarray(start?: number, end?: number): Buffer {
-        end = end ? Math.min(end, this.length) : this.length;
+        end = end !== undefined ? Math.min(end, this.length) : this.length;
 
         return new Buffer(super.subarray(start, end));
     }
@@ -920,16 +1202,43 @@ export class Buffer extends DataViewProvider {
      *   - `encoding`: The encoding format to use (default is `'utf-8'`).
      *   - `start` (optional): The index at which to start the slice (default is `0`).
      *   - `end` (optional): The index at which to end the slice (default is the buffer's length).
+     *   - `options` (optional): Decoding options, passed either in place of `start` or after `end`.
+     *     With `{ fatal: true }`, malformed UTF-8 throws an `EncodingError` instead of being replaced with `U+FFFD`.
      *
      * - **Output**: Returns a string representation of the buffer's content, decoded using the specified encoding.
      *
      * ## Supported Encodings:
      * - **`'hex'`**: Decodes the buffer to a hexadecimal string.
      * - **`'utf8'` / `'utf-8'`**: Decodes the buffer to a UTF-8 string.
-     * - **`'ascii'` / `'latin1'` / `'binary'`**: Decodes the buffer to an ASCII or Latin-1 (ISO-8859-1) string.
+     * - **`'ascii'`**: Decodes the buffer to an ASCII string, clearing the high bit of every byte.
+     * - **`'latin1'` / `'binary'`**: Decodes the buffer to a Latin-1 (ISO-8859-1) string.
      * - **`'base64'`**: Decodes the buffer to a Base64 string.
+     * - **`'base64url'`**: Decodes the buffer to an unpadded Base64URL string.
      * - **`'ucs2'` / `'ucs-2'` / `'utf16le'` / `'utf-16le'`**: Decodes the buffer to a UTF-16 Little Endian string.
-     *
+     * - **`'cesu8'` / `'cesu-8'`**, **`'mutf8'` / `'mutf-8'`**: Decodes CESU-8 or Java Modified UTF-8 bytes.
+     *   Ill-formed sequences are replaced with `'\uFFFD'`, or throw an `EncodingError` with `fatal: true`.
+     * - **`'utf16be'` / `'utf-16be'`**: Decodes the buffer to a UTF-16 Big Endian string.
+     * - **`'utf32le'` / `'utf-32le'`**, **`'utf32be'` / `'utf-32be'`**: Decodes the buffer to a UTF-32 string.
+     *   Invalid code points are replaced with `'\uFFFD'`, or throw an `EncodingError` with `fatal: true`.
+     *   Pass `bom: true` to these and `'utf16be'` to strip a leading byte order mark.
+     * - **`'base32'` / `'base32hex'`**: Decodes the buffer to a padded Base32 string (RFC 4648 §6 and §7).
+     *   Pass `{ padding: false }` to omit the trailing `=` characters.
+     * - **`'crockford32'`**: Decodes the buffer to an unpadded Crockford Base32 string.
+     * - **`'base58'`**: Decodes the buffer to a Bitcoin Base58 string.
+     * - **`'base58check'`**: Decodes the buffer to a Base58 string with a four-byte double SHA-256 checksum.
+     * - **`'ascii85'`**: Decodes the buffer to an Ascii85 string wrapped in `<~` and `~>`.
+     * - **`'z85'`**: Decodes the buffer to a Z85 string; the buffer length must be a multiple of four.
+     * - **`'base45'`**: Decodes the buffer to a Base45 string (RFC 9285).
+     * - **`'quoted-printable'`**: Decodes the buffer to quoted-printable text (RFC 2045), wrapped at 76 characters
+     *   with CRLF soft line breaks. Pass `lineLength` and `lineBreak` to change the wrapping.
+     * - **`'percent'`**: Decodes the buffer to a percent-encoded string (RFC 3986), escaping every byte
+     *   except ASCII letters, digits and `-._~`. Pass `encodeSet` to select another set of unescaped characters.
+     * - **`'windows-1252'`**, **`'koi8-r'`**, ... (see `SingleByteEncoding`): Decodes the buffer with the table
+     *   of the encoding. Unmapped bytes are replaced with `'\uFFFD'`, or throw an `EncodingError` with `fatal: true`.
+     * - **`'shift_jis'`**, **`'gb18030'`**, ... (see `MultiByteEncoding`): Decodes the buffer with the WHATWG decoder
+     *   of the encoding. Invalid sequences are replaced with `'\uFFFD'`, or throw an `EncodingError` with `fatal: true`.
+     *
+     * Encodings added with `registerEncoding` are decoded with their `encode` function.
      * If the provided encoding is unknown, a `TypeError` is thrown.
      *
      * ## Example:
@@ -939,20 +1248,33 @@ export class Buffer extends DataViewProvider {
      * console.log(buffer.toString('utf8'));    // Output: "Hello"
      * console.log(buffer.toString('hex'));     // Output: "48656c6c6f"
      * console.log(buffer.toString('base64'));  // Output: "SGVsbG8="
+     *
+     * Buffer.from([ 0x61, 0xFF ]).toString('utf8', { fatal: true }); // Throws EncodingError (offset 1)
      * ```
      *
      * ## Error Handling:
      * - Throws a `TypeError` if an unsupported encoding is provided.
+     * - Throws an `EncodingError` on malformed UTF-8 when `options.fatal` is `true`;
+     *   its `offset` is relative to the start of the decoded range.
      *
      * @instance
      * @param encoding - The encoding format to use (default: `'utf-8'`).
-     * @param start - (Optional) The starting index for slicing (default is `0`).
+     * @param start - (Optional) The starting index for slicing (default is `0`), or the decoding options.
      * @param end - (Optional) The ending index for slicing (default is the buffer's length).
+     * @param options - (Optional) The decoding options.
      * @returns A string representation of the buffer's content, decoded using the specified encoding.
      * @throws TypeError if an unknown encoding is provided.
+     * @throws EncodingError if the data is malformed and `options.fatal` is `true`.
      */
 
-    override toString(encoding: BufferEncoding = 'utf-8', start?: number, end?: number): string {
+    override toString(encoding?: BufferEncoding, options?: EncodeOptions): string;
+    override toString(encoding?: BufferEncoding, start?: number, end?: number, options?: EncodeOptions): string;
+    override toString(encoding: BufferEncoding = 'utf-8', start?: number | EncodeOptions, end?: number, options?: EncodeOptions): string {
+        if (typeof start === 'object' && start !== null) {
+            options = start;
+            start = undefined;
+        }
+
         let slicedArray;
 
         // Check if slicing is needed
@@ -964,28 +1286,136 @@ export class Buffer extends DataViewProvider {
             slicedArray = <Buffer> this;
         }
 
-        // Handle known encodings
-        switch (encoding.toLowerCase()) {
-            case 'hex':
-                return encodeHEX(slicedArray);
-            case 'utf8':
-            case 'utf-8':
-                return encodeUTF8(slicedArray);
-            case 'ascii':
-            case 'latin1':
-            case 'binary':
-                return encodeASCII(slicedArray);
-            case 'base64':
-                return encodeBase64(slicedArray);
-            case 'ucs2':
-            case 'ucs-2':
-            case 'utf16le':
-            case 'utf-16le':
-                return encodeUTF16LE(slicedArray);
-            default:
-                // Unknown encoding
-                throw new TypeError('Unknown encoding: ' + encoding);
-        }
+        return Buffer.getCodec(encoding).encode(slicedArray, undefined, options);
+    }
+
+    /**
+     * Encodes the buffer into a Base64 string, following the TC39 `Uint8Array.prototype.toBase64` proposal.
+     *
+     * ## Description:
+     * The output is padded with `=` unless `omitPadding` is `true`, for both alphabets.
+     * Note that `toString('base64url')` never pads its output.
+     *
+     * ## Example:
+     *
+     * ```ts
+     * const buffer = Buffer.from([ 0xFB, 0xFF ]);
+     * console.log(buffer.toBase64());                             // Output: "+/8="
+     * console.log(buffer.toBase64({ alphabet: 'base64url' }));    // Output: "-_8="
+     * console.log(buffer.toBase64({ omitPadding: true }));        // Output: "+/8"
+     * ```
+     *
+     * @instance
+     * @param options - (Optional) The `alphabet` and `omitPadding` options.
+     * @returns The Base64 string.
+     * @throws TypeError if the options are invalid.
+     */
+
+    toBase64(options?: ToBase64Options): string {
+        return toBase64(this, options);
+    }
+
+    /**
+     * Encodes the buffer into a lower-case hexadecimal string,
+     * following the TC39 `Uint8Array.prototype.toHex` proposal.
+     *
+     * ## Example:
+     *
+     * ```ts
+     * console.log(Buffer.from([ 0xCA, 0xFE ]).toHex()); // Output: "cafe"
+     * ```
+     *
+     * @instance
+     * @returns The hexadecimal string.
+     */
+
+    toHex(): string {
+        return toHex(this);
+    }
+
+    /**
+     * Decodes a Base64 string into the buffer, following the TC39 `Uint8Array.prototype.setFromBase64` proposal.
+     *
+     * ## Description:
+     * The bytes are written from the start of the buffer.
+     * Decoding stops before the first chunk of four characters whose bytes do not fit,
+     * so the returned `read` count can be used to resume decoding into another buffer.
+     *
+     * - **Input**:
+     *   - `string`: The Base64 string to decode.
+     *   - `options` (optional): The `alphabet` and `lastChunkHandling` options.
+     *
+     * - **Output**: Returns an object with the number of characters `read` and the number of bytes `written`.
+     *
+     * ## Example:
+     *
+     * ```ts
+     * const buffer = Buffer.alloc(4);
+     * console.log(buffer.setFromBase64('SGVsbG8=')); // Output: { read: 4, written: 3 }
+     * console.log(buffer);                           // Output: <Buffer 48 65 6c 00>
+     * ```
+     *
+     * ## Error Handling:
+     * - Throws a `TypeError` if `string` is not a string or the options are invalid.
+     * - Throws a `SyntaxError` if `string` is not valid Base64, after writing the bytes decoded before the error.
+     *
+     * @instance
+     * @param string - The Base64 string to decode.
+     * @param options - (Optional) The decoding options.
+     * @returns The number of characters read and bytes written.
+     * @throws SyntaxError if the string is not valid Base64.
+     */
+
+    setFromBase64(string: string, options?: FromBase64Options): EncodeIntoResult {
+        return setFromBase64(this, string, options);
+    }
+
+    /**
+     * Decodes a hexadecimal string into the buffer, following the TC39 `Uint8Array.prototype.setFromHex` proposal.
+     *
+     * ## Description:
+     * The bytes are written from the start of the buffer, and decoding stops when the buffer is full.
+     *
+     * ## Example:
+     *
+     * ```ts
+     * const buffer = Buffer.alloc(2);
+     * console.log(buffer.setFromHex('cafe00')); // Output: { read: 4, written: 2 }
+     * ```
+     *
+     * @instance
+     * @param string - The hexadecimal string to decode.
+     * @returns The number of characters read and bytes written.
+     * @throws SyntaxError if the string is not a valid hexadecimal string.
+     */
+
+    setFromHex(string: string): EncodeIntoResult {
+        return setFromHex(this, string);
+    }
+
+    /**
+     * Encodes the buffer as a PEM block (RFC 7468), with the Base64 body wrapped at 64 columns.
+     *
+     * ## Description:
+     * Optional `headers` are written as `Name: value` lines (RFC 1421), followed by an empty line, before the body.
+     * The block uses `'\n'` line breaks and ends with a line break.
+     *
+     * ## Example:
+     *
+     * ```ts
+     * console.log(Buffer.from([ 1, 2, 3 ]).toPEM('DATA'));
+     * // Output: "-----BEGIN DATA-----\nAQID\n-----END DATA-----\n"
+     * ```
+     *
+     * @instance
+     * @param label - The label of the block, such as `'CERTIFICATE'`.
+     * @param headers - (Optional) The headers of the block.
+     * @returns The PEM block.
+     * @throws TypeError if the label or a header is invalid.
+     */
+
+    toPEM(label: string, headers?: Record<string, string>): string {
+        return encodePEM(this, label, headers);
     }
 
     /**
@@ -1302,29 +1732,88 @@ export class Buffer extends DataViewProvider {
         return `<Buffer ${ value }>`;
     }
 
-    private static decoding(string: string, decoding: BufferEncoding = 'utf-8', length?: number): Uint8Array {
-        // Handle known encodings
-        switch (decoding.toLowerCase()) {
-            case 'hex':
-                return decodeHEX(string, length);
-            case 'utf8':
-            case 'utf-8':
-                return decodeUTF8(string, length);
-            case 'ascii':
-            case 'latin1':
-            case 'binary':
-                return decodeASCII(string, length);
-            case 'base64':
-                return decodeBase64(string, length);
-            case 'ucs2':
-            case 'ucs-2':
-            case 'utf16le':
-            case 'utf-16le':
-                return decodeUTF16LE(string, length);
-            default:
-                // Unknown encoding
-                throw new TypeError('Unknown encoding: ' + decoding);
+    /**
+     * Allocates a `Buffer` from the shared pool, the same way Node.js does for `allocUnsafe` and `from`.
+     *
+     * ## Description:
+     * Sizes of at least half of `Buffer.poolSize` (and empty buffers) get their own `ArrayBuffer`.
+     * Smaller sizes are served as views into the current slab; when it has no room left, a new slab of
+     * `Buffer.poolSize` bytes is created. The pool offset is kept aligned to 8 bytes after every allocation.
+     *
+     * @private
+     * @param size - The size of the buffer to allocate, in bytes.
+     * @returns A `Buffer` of `size` bytes, possibly sharing its `ArrayBuffer` with other buffers.
+     */
+
+    private static allocPooled(size: number): Buffer {
+        if (size <= 0 || size >= (Buffer.poolSize >>> 1)) {
+            return new Buffer(size);
+        }
+
+        if (!Buffer.pool || Buffer.pool.byteLength - Buffer.poolOffset < size) {
+            Buffer.pool = new ArrayBuffer(Buffer.poolSize);
+            Buffer.poolOffset = 0;
+        }
+
+        const buffer = new Buffer(Buffer.pool, Buffer.poolOffset, size);
+        Buffer.poolOffset += size;
+
+        // Keep the next allocation aligned to 8 bytes
+        if (Buffer.poolOffset & 0x7) {
+            Buffer.poolOffset |= 0x7;
+            Buffer.poolOffset++;
+        }
+
+        return buffer;
+    }
+
+    private static decoding(string: string, decoding: BufferEncoding = 'utf-8', length?: number, options?: DecodeOptions): Uint8Array {
+        return Buffer.getCodec(decoding).decode(string, length, options);
+    }
+
+    /**
+     * Returns the codec registered for an encoding.
+     *
+     * @private
+     * @param encoding - The encoding name, in any letter case.
+     * @returns The codec registered with `registerEncoding`.
+     * @throws TypeError if the encoding is not registered.
+     */
+
+    private static getCodec(encoding: string): EncodingCodec {
+        const codec = getEncoding(encoding);
+        if (!codec) {
+            throw new TypeError('Unknown encoding: ' + encoding);
         }
+
+        return codec;
+    }
+
+    /**
+     * Resolves an encoding passed to `transcode`, replacing a single-byte encoding with its registered codec.
+     *
+     * @private
+     * @param encoding - The encoding name, in any letter case.
+     * @returns The codec of a single-byte encoding, or the name of any other encoding.
+     * @throws TypeError if a single-byte encoding is not registered.
+     */
+
+    private static getTranscodeEncoding(encoding: TranscodeEncoding): Exclude<TranscodeEncoding, SingleByteEncoding> | EncodingCodec {
+        const singleByte = resolveSingleByteEncoding(encoding);
+
+        return singleByte ? Buffer.getCodec(singleByte) : <Exclude<TranscodeEncoding, SingleByteEncoding>> encoding;
+    }
+
+    /**
+     * Checks whether an encoding name refers to the built-in UTF-8 codec.
+     *
+     * @private
+     * @param encoding - The encoding name to check.
+     * @returns `true` for `'utf8'` and `'utf-8'` in any letter case, unless they were re-registered with another codec.
+     */
+
+    private static isUTF8Encoding(encoding: string): boolean {
+        return getEncoding(encoding)?.decode === decodeUTF8;
     }
 
     /**
@@ -1348,7 +1837,14 @@ export class Buffer extends DataViewProvider {
      * - `latin1` or `binary`: Each character is byte.
      * - `utf8` or `utf-8`: The length depends on the character codepoints.
      * - `ucs2`, `ucs-2`, `utf16le`, `utf-16le`: Each character is 2 bytes.
+     * - `cesu8`, `mutf8`: Computed from the encoded bytes.
+     * - `utf16be`, `utf-16be`: Each character is 2 bytes.
+     * - `utf32le`, `utf-32le`, `utf32be`, `utf-32be`: Each code point is 4 bytes.
      * - `hex`: Every two characters represent byte (length is halved).
+     * - `base64`, `base64url`: Three bytes per four characters, not counting up to two trailing `=`, as in Node.js.
+     * - Single-byte encodings such as `windows-1252` or `koi8-r`: Each character is 1 byte.
+     * - Multi-byte encodings such as `shift_jis` or `gb18030`: Computed from the encoded bytes.
+     * - Registered encodings: Computed by the codec `byteLength` function, or from the decoded bytes when it has none.
      *
      * ## Example:
      *
@@ -1360,8 +1856,7 @@ export class Buffer extends DataViewProvider {
      * ```
      *
      * ## Error Handling:
-     * - For unsupported or invalid encodings, it will call `this.decoding` to process the string and calculate the byte length.
-     * - If an unknown encoding is passed, the behavior depends on the implementation of `this.decoding`.
+     * - Throws a `TypeError` if the encoding is not registered.
      *
      * @private
      * @param data - The string whose byte length is to be calculated.
@@ -1370,21 +1865,9 @@ export class Buffer extends DataViewProvider {
      */
 
     private static byteLengthString(data: string, encoding: BufferEncoding): number {
-        switch (encoding) {
-            case 'ascii':
-            case 'latin1':
-            case 'binary':
-                return data.length;
-            case 'ucs2':
-            case 'ucs-2':
-            case 'utf16le':
-            case 'utf-16le':
-                return data.length * 2;
-            case 'hex':
-                return data.length >>> 1;
-            default:
-                return this.decoding(data, encoding).byteLength;
-        }
+        const codec = Buffer.getCodec(encoding);
+
+        return codec.byteLength ? codec.byteLength(data) : codec.decode(data).byteLength;
     }
 
     /**
@@ -1464,4 +1947,34 @@ export class Buffer extends DataViewProvider {
 
         return { preparedOffset, preparedValue };
     }
+
+    /**
+     * Repeats the first `length` bytes starting at `offset` until `end` is reached.
+     *
+     * ## Description:
+     * The pattern is copied with `copyWithin`, doubling the filled region on each step,
+     * so filling a large range takes a logarithmic number of copies.
+     * An empty pattern fills the range with zeros.
+     *
+     * @private
+     * @param offset - The position of the first pattern byte.
+     * @param length - The length of the pattern already written at `offset`.
+     * @param end - The position after the last byte to fill.
+     * @returns `this` (the modified buffer).
+     */
+
+    private repeatPattern(offset: number, length: number, end: number): this {
+        if (length === 0) {
+            return super.fill(0, offset, end);
+        }
+
+        let filled = length;
+        while (offset + filled < end) {
+            const size = Math.min(filled, end - offset - filled);
+            this.copyWithin(offset + filled, offset, offset + size);
+            filled += size;
+        }
+
+        return this;
+    }
 }
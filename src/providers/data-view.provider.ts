@@ -54,7 +54,7 @@ export class DataViewProvider extends Uint8Array {
 
     constructor(arg: number | ArrayLike<number> | ArrayBufferLike, byteOffset?: number, length?: number) {
         super(<any> arg, byteOffset, length);
-        this.dataView = new DataView(this.buffer);
+        this.dataView = new DataView(this.buffer, this.byteOffset, this.byteLength);
     }
 
     /**
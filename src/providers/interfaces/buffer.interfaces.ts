@@ -1,3 +1,9 @@
+/**
+ * Import will remove at compile time
+ */
+
+import type { Buffer } from '@providers/buffer.provider';
+
 /**
  * ## Description:
  * The `primitiveInputType` represents a union of:
@@ -42,21 +48,324 @@ export type primitiveInputType = string | number | Uint8Array;
 
 export type WithImplicitCoercion<T> = T | { valueOf(): T; };
 
+/**
+ * The names of the encodings known to `Buffer`, used as the keys of `BufferEncoding`.
+ *
+ * ## Description:
+ * Encodings added at runtime with `registerEncoding` can be made available to the type checker
+ * by merging their names into this interface:
+ *
+ * ```ts
+ * declare module '@remotex-labs/xbuffer' {
+ *     interface BufferEncodingMap {
+ *         rot13: true;
+ *     }
+ * }
+ *
+ * registerEncoding('rot13', { encode, decode });
+ * Buffer.from('uryyb', 'rot13');
+ * ```
+ */
+
+export interface BufferEncodingMap extends Record<SingleByteEncoding | MultiByteEncoding, true> {
+    'hex': true;
+    'utf8': true;
+    'utf-8': true;
+    'cesu8': true;
+    'cesu-8': true;
+    'mutf8': true;
+    'mutf-8': true;
+    'ascii': true;
+    'latin1': true;
+    'binary': true;
+    'base64': true;
+    'base64url': true;
+    'ucs2': true;
+    'ucs-2': true;
+    'utf16le': true;
+    'utf-16le': true;
+    'utf16be': true;
+    'utf-16be': true;
+    'utf32le': true;
+    'utf-32le': true;
+    'utf32be': true;
+    'utf-32be': true;
+    'base32': true;
+    'base32hex': true;
+    'crockford32': true;
+    'base58': true;
+    'base58check': true;
+    'ascii85': true;
+    'z85': true;
+    'base45': true;
+    'quoted-printable': true;
+    'percent': true;
+}
+
 /**
  * A TypeScript type alias that defines the supported encoding formats for converting data to and from buffers.
  * These encodings are commonly used for string-to-buffer and buffer-to-string transformations.
+ * It is extensible through declaration merging of `BufferEncodingMap`.
+ */
+
+export type BufferEncoding = Extract<keyof BufferEncodingMap, string>;
+
+
+/**
+ * The result of encoding a string directly into an existing byte array.
+ *
+ * ## Description:
+ * Mirrors the object returned by `TextEncoder.encodeInto`:
+ * - **`read`**: The number of UTF-16 code units consumed from the source string.
+ * - **`written`**: The number of bytes written to the target array.
+ */
+
+export type EncodeIntoResult = {
+    read: number;
+    written: number;
+};
+
+/**
+ * Options for converting a string into bytes, accepted by `Buffer.from` and by the `decode` functions of the codecs,
+ * such as `decodeBase64`, `decodeHEX` or `decodeSingleByte`.
+ *
+ * ## Description:
+ * - **`fatal`**: When `true`, malformed input throws an `EncodingError` carrying the offset of the invalid data
+ *   instead of being skipped (Base64, Base32, Base58 and hex) or kept as is (quoted-printable and percent-encoding),
+ *   and a character that a legacy encoding cannot represent throws instead of being written as `'?'`.
+ *   Defaults to `false`.
+ * - **`encodeSet`**: With `'form'`, `decodePercent` reads `+` as a space (see `PercentEncodeSet`).
+ * - **`bom`**: Whether `decodeUTF16BE`, `decodeUTF32LE` and `decodeUTF32BE` write a byte order mark first.
+ *   Defaults to `false`.
  */
 
-export type BufferEncoding =
-    | 'hex'
+export type DecodeOptions = {
+    fatal?: boolean;
+    encodeSet?: PercentEncodeSet;
+    bom?: boolean;
+};
+
+/**
+ * Options for converting bytes into a string, accepted by `Buffer.toString` and by the `encode` functions of the codecs,
+ * such as `encodeUTF8`, `encodeBase64` or `encodePercent`.
+ *
+ * ## Description:
+ * - **`fatal`**: When `true`, malformed text input (UTF-8, UTF-32 and the legacy encodings) throws
+ *   an `EncodingError` carrying the offset of the invalid data instead of being replaced with `U+FFFD`.
+ *   Defaults to `false`.
+ * - **`padding`**: Whether the Base32 encoders (`encodeBase32`, `encodeBase32Hex` and `encodeCrockford32`)
+ *   pad their output with `=` to a multiple of eight characters.
+ *   Defaults to `true` for `base32` and `base32hex`, and to `false` for `crockford32`.
+ * - **`lineLength`**: When set, `encodeBase64` wraps its output into lines of at most this many characters,
+ *   such as 76 for MIME bodies or 64 for PEM files. Defaults to a single line.
+ *   `encodeQuotedPrintable` always wraps its output, at 76 characters by default.
+ * - **`lineBreak`**: The separator between wrapped lines. Defaults to `'\r\n'`.
+ * - **`encodeSet`**: The characters left unescaped by `encodePercent` (see `PercentEncodeSet`).
+ *   Defaults to `'component'`.
+ * - **`bom`**: Whether `encodeUTF16BE`, `encodeUTF32LE` and `encodeUTF32BE` strip a leading byte order mark.
+ *   Defaults to `false`.
+ */
+
+export type EncodeOptions = {
+    fatal?: boolean;
+    padding?: boolean;
+    lineLength?: number;
+    lineBreak?: string;
+    encodeSet?: PercentEncodeSet;
+    bom?: boolean;
+};
+
+/**
+ * Encodings supported by `transcode`, matching the `TranscodeEncoding` type of the Node.js `buffer` module.
+ */
+
+export type TranscodeEncoding =
+    | 'ascii'
     | 'utf8'
     | 'utf-8'
-    | 'ascii'
-    | 'latin1'
-    | 'binary'
-    | 'base64'
+    | 'utf16le'
+    | 'utf-16le'
     | 'ucs2'
     | 'ucs-2'
-    | 'utf16le'
-    | 'utf-16le';
+    | 'latin1'
+    | 'binary'
+    | SingleByteEncoding;
+
+/**
+ * A pair of functions converting between bytes and strings for one encoding, as registered with `registerEncoding`.
+ *
+ * ## Description:
+ * The names follow the convention of the built-in codecs such as `encodeBase64` and `decodeBase64`:
+ * - **`encode`**: Converts bytes into a string, used by `toString`. An optional `length` limits the number of bytes read.
+ *   The options (see `EncodeOptions`) passed to `Buffer.toString` are forwarded as the third argument.
+ * - **`decode`**: Converts a string into bytes, used by `from`, `write`, `fill` and `indexOf`.
+ *   An optional `length` limits the number of characters read.
+ *   The options (see `DecodeOptions`) passed to `Buffer.from` are forwarded as the third argument.
+ * - **`byteLength`** (optional): Returns the number of bytes `decode` produces for a string without decoding it.
+ *   When omitted, `Buffer.byteLength` decodes the string to measure it.
+ */
+
+export type EncodingCodec = {
+    encode(bytes: Uint8Array, length?: number, options?: EncodeOptions): string;
+    decode(data: string, length?: number, options?: DecodeOptions): Uint8Array;
+    byteLength?(data: string): number;
+};
+
+/**
+ * The Base64 alphabets accepted by `toBase64`, `fromBase64` and `setFromBase64`.
+ *
+ * ## Description:
+ * - **`base64`**: The standard alphabet of RFC 4648 §4, using `+` and `/`.
+ * - **`base64url`**: The URL and filename safe alphabet of RFC 4648 §5, using `-` and `_`.
+ */
+
+export type Base64Alphabet = 'base64' | 'base64url';
+
+/**
+ * Options accepted by `toBase64`, following the TC39 `Uint8Array.prototype.toBase64` proposal.
+ *
+ * ## Description:
+ * - **`alphabet`**: The alphabet of the output (default is `'base64'`).
+ * - **`omitPadding`**: When `true`, the trailing `=` characters are omitted (default is `false`).
+ */
+
+export type ToBase64Options = {
+    alphabet?: Base64Alphabet;
+    omitPadding?: boolean;
+};
+
+/**
+ * Options accepted by `fromBase64` and `setFromBase64`, following the TC39 `Uint8Array.fromBase64` proposal.
+ *
+ * ## Description:
+ * - **`alphabet`**: The alphabet of the input (default is `'base64'`).
+ * - **`lastChunkHandling`**: How a final chunk of fewer than four characters is handled:
+ *   - `'loose'` (default): The chunk is decoded whether or not it is padded, and non-zero padding bits are ignored.
+ *   - `'strict'`: The chunk must be padded with `=`, and its padding bits must be zero.
+ *   - `'stop-before-partial'`: An unpadded chunk is not decoded, so decoding can resume once more input is available.
+ */
+
+export type FromBase64Options = {
+    alphabet?: Base64Alphabet;
+    lastChunkHandling?: 'loose' | 'strict' | 'stop-before-partial';
+};
+
+/**
+ * The checksum variants of the Bech32 format.
+ *
+ * ## Description:
+ * - **`bech32`**: The original checksum of BIP 173, used by segwit version 0 addresses and Lightning invoices.
+ * - **`bech32m`**: The modified checksum of BIP 350, used by segwit version 1 and later (Taproot) addresses.
+ */
+
+export type Bech32Variant = 'bech32' | 'bech32m';
+
+/**
+ * The result of `decodeBech32`.
+ *
+ * ## Description:
+ * - **`hrp`**: The lower-case human-readable part, before the last `1` separator.
+ * - **`data`**: The 5-bit words of the data part, one per byte, without the checksum.
+ *   Use `convertBits(data, 5, 8, false)` to regroup them into bytes.
+ * - **`variant`**: The checksum variant the string was encoded with.
+ */
+
+export type Bech32Result = {
+    hrp: string;
+    data: Buffer;
+    variant: Bech32Variant;
+};
+
+/**
+ * A block of a PEM file (RFC 7468), as returned by `decodePEM` and `Buffer.fromPEM`.
+ *
+ * ## Description:
+ * - **`label`**: The label of the `-----BEGIN label-----` and `-----END label-----` lines, such as `'CERTIFICATE'`.
+ * - **`headers`**: The RFC 1421 headers before the data, such as `Proc-Type` and `DEK-Info` of encrypted keys.
+ *   Empty when the block has none.
+ * - **`data`**: The decoded bytes of the block, a `Buffer` from `Buffer.fromPEM` and a `Uint8Array` from `decodePEM`.
+ */
+
+export type PEMBlock<Data extends Uint8Array = Buffer> = {
+    label: string;
+    headers: Record<string, string>;
+    data: Data;
+};
+
+/**
+ * The encodings of an RFC 2047 encoded-word, as accepted by `encodeMimeWords`.
+ *
+ * ## Description:
+ * - **`B`**: Base64, compact for text that is mostly non-ASCII.
+ * - **`Q`**: A variant of quoted-printable that keeps ASCII letters and digits readable.
+ */
+
+export type EncodedWordEncoding = 'B' | 'Q';
+
+/**
+ * The sets of characters `encodePercent` leaves unescaped; every other byte is written as `%XX`.
+ *
+ * ## Description:
+ * - **`component`**: Only the unreserved characters of RFC 3986 (`A-Z a-z 0-9 - . _ ~`),
+ *   as required by OAuth 1.0 signatures and AWS Signature Version 4.
+ * - **`path`**: The unreserved characters, the sub-delimiters `!$&'()*+,;=`, and `:`, `@` and `/`.
+ * - **`query`**: The unreserved characters and `!$'()*,;:@/?`, escaping the separators `&`, `=`, `+` and `#`.
+ * - **`form`**: `application/x-www-form-urlencoded`: `A-Z a-z 0-9 * - . _`, with a space written as `+`.
+ */
+
+export type PercentEncodeSet = 'component' | 'path' | 'query' | 'form';
+
+/**
+ * The canonical names of the single-byte legacy encodings, whose tables follow the WHATWG Encoding Standard.
+ *
+ * ## Description:
+ * - **`windows-874`** and **`windows-1250`**–**`windows-1258`**: The Windows ANSI code pages
+ *   (also registered as `cp874` and `cp1250`–`cp1258`).
+ * - **`iso-8859-2`**–**`iso-8859-16`**: The ISO 8859 parts other than ISO-8859-1, which is `latin1`.
+ * - **`koi8-r`** / **`koi8-u`**: The Russian and Ukrainian KOI8 encodings.
+ * - **`ibm866`** / **`ibm437`**: The DOS Cyrillic and DOS United States code pages (also `cp866` and `cp437`).
+ * - **`macintosh`**: Mac OS Roman.
+ */
+
+export type SingleByteEncoding =
+    | 'ibm437'
+    | 'ibm866'
+    | 'iso-8859-2'
+    | 'iso-8859-3'
+    | 'iso-8859-4'
+    | 'iso-8859-5'
+    | 'iso-8859-6'
+    | 'iso-8859-7'
+    | 'iso-8859-8'
+    | 'iso-8859-10'
+    | 'iso-8859-13'
+    | 'iso-8859-14'
+    | 'iso-8859-15'
+    | 'iso-8859-16'
+    | 'koi8-r'
+    | 'koi8-u'
+    | 'macintosh'
+    | 'windows-874'
+    | 'windows-1250'
+    | 'windows-1251'
+    | 'windows-1252'
+    | 'windows-1253'
+    | 'windows-1254'
+    | 'windows-1255'
+    | 'windows-1256'
+    | 'windows-1257'
+    | 'windows-1258';
+
+/**
+ * The canonical names of the multi-byte CJK legacy encodings, whose index tables follow the WHATWG Encoding Standard.
+ *
+ * ## Description:
+ * - **`shift_jis`**: Shift_JIS as extended by Windows (also registered as `sjis`, `windows-31j` and `cp932`).
+ * - **`euc-jp`**: EUC-JP, decoding JIS X 0212 but encoding JIS X 0208 only.
+ * - **`gbk`**: GBK (also `gb2312` and `cp936`), the two-byte subset of GB18030 plus `0x80` for the euro sign.
+ * - **`gb18030`**: GB18030, which can represent nearly every code point with four-byte sequences.
+ * - **`big5`**: Big5 with the HKSCS extensions (also `big5-hkscs` and `cp950`).
+ * - **`euc-kr`**: EUC-KR with the Unified Hangul Code (also `cp949` and `windows-949`).
+ */
 
+export type MultiByteEncoding = 'shift_jis' | 'euc-jp' | 'gbk' | 'gb18030' | 'big5' | 'euc-kr';
@@ -0,0 +1,148 @@
+/**
+ * Imports
+ */
+
+import { Buffer } from '@providers/buffer.provider';
+import { StringDecoder } from '@providers/string-decoder.provider';
+
+/**
+ * Tests
+ */
+
+describe('StringDecoder', () => {
+    test('should default to utf8 and normalize encoding aliases', () => {
+        expect(new StringDecoder().encoding).toBe('utf8');
+        expect(new StringDecoder('utf-8').encoding).toBe('utf8');
+        expect(new StringDecoder('ucs2').encoding).toBe('utf16le');
+        expect(new StringDecoder('binary').encoding).toBe('latin1');
+    });
+
+    test('should throw for unknown encodings', () => {
+        expect(() => new StringDecoder(<any> 'unknown')).toThrow('Unknown encoding: unknown');
+    });
+
+    test('should return strings unchanged', () => {
+        expect(new StringDecoder().write('abc')).toBe('abc');
+    });
+
+    describe('utf8', () => {
+        test.each([
+            [ 'two-byte', '£' ],
+            [ 'three-byte', '€' ],
+            [ 'four-byte', '😸' ]
+        ])('should join a %s character split byte by byte', (_, char) => {
+            const bytes = new TextEncoder().encode(`a${ char }b`);
+            const decoder = new StringDecoder('utf8');
+
+            let result = '';
+            for (const byte of bytes) {
+                result += decoder.write(new Uint8Array([ byte ]));
+            }
+
+            expect(result + decoder.end()).toBe(`a${ char }b`);
+        });
+
+        test('should emit complete characters as soon as they are available', () => {
+            const decoder = new StringDecoder('utf8');
+            expect(decoder.write(new Uint8Array([ 0x61, 0xE2, 0x82 ]))).toBe('a');
+            expect(decoder.write(new Uint8Array([ 0xAC, 0x62 ]))).toBe('€b');
+            expect(decoder.end()).toBe('');
+        });
+
+        test('should flush an incomplete sequence as a single replacement character', () => {
+            const decoder = new StringDecoder('utf8');
+            expect(decoder.write(new Uint8Array([ 0xF0, 0x9F, 0x98 ]))).toBe('');
+            expect(decoder.end()).toBe('\uFFFD');
+            expect(decoder.end()).toBe('');
+        });
+
+        test('should decode the final chunk passed to end', () => {
+            const decoder = new StringDecoder('utf8');
+            expect(decoder.write(new Uint8Array([ 0xE2 ]))).toBe('');
+            expect(decoder.end(new Uint8Array([ 0x82, 0xAC ]))).toBe('€');
+        });
+    });
+
+    describe('utf16le', () => {
+        test('should hold back an odd trailing byte', () => {
+            const decoder = new StringDecoder('utf16le');
+            expect(decoder.write(new Uint8Array([ 0x61, 0x00, 0x62 ]))).toBe('a');
+            expect(decoder.write(new Uint8Array([ 0x00 ]))).toBe('b');
+        });
+
+        test('should hold back a high surrogate until its low surrogate arrives', () => {
+            const decoder = new StringDecoder('utf16le');
+            expect(decoder.write(new Uint8Array([ 0x3D, 0xD8 ]))).toBe('');
+            expect(decoder.write(new Uint8Array([ 0x38 ]))).toBe('');
+            expect(decoder.write(new Uint8Array([ 0xDE ]))).toBe('😸');
+        });
+
+        test('should flush a lone high surrogate and drop an odd byte on end', () => {
+            const decoder = new StringDecoder('utf16le');
+            decoder.write(new Uint8Array([ 0x3D, 0xD8 ]));
+            expect(decoder.end()).toBe('\uD83D');
+
+            decoder.write(new Uint8Array([ 0x61 ]));
+            expect(decoder.end()).toBe('');
+        });
+    });
+
+    describe('base64', () => {
+        test('should only encode complete groups of three bytes', () => {
+            const decoder = new StringDecoder('base64');
+            expect(decoder.write(new Uint8Array([ 0x61, 0x6F ]))).toBe('');
+            expect(decoder.write(new Uint8Array([ 0x65, 0x75 ]))).toBe('YW9l');
+            expect(decoder.end()).toBe('dQ==');
+        });
+
+        test('should match encoding the whole input at once', () => {
+            const decoder = new StringDecoder('base64url');
+            const bytes = new Uint8Array([ 0xFB, 0xFF, 0xBF, 0x01, 0x02 ]);
+
+            let result = '';
+            for (const byte of bytes) {
+                result += decoder.write(new Uint8Array([ byte ]));
+            }
+
+            expect(result + decoder.end()).toBe('-_-_AQI');
+        });
+    });
+
+    describe('Buffer chunks', () => {
+        test.each([
+            [ 'utf8', 'a€😸b' ],
+            [ 'utf16le', 'a€😸b' ],
+            [ 'base64', 'a€😸b' ]
+        ] as const)('should decode %s fed one Buffer byte at a time', (encoding, text) => {
+            const bytes = Buffer.from(text, encoding === 'base64' ? 'utf8' : encoding);
+            const decoder = new StringDecoder(encoding);
+
+            let result = '';
+            for (let i = 0; i < bytes.length; i++) {
+                result += decoder.write(bytes.subarray(i, i + 1));
+            }
+
+            expect(result + decoder.end()).toBe(bytes.toString(encoding));
+        });
+
+        test('should hold back a whole Buffer chunk without decoding it', () => {
+            const utf8 = new StringDecoder('utf8');
+            expect(utf8.write(Buffer.from([ 0xE2 ]))).toBe('');
+            expect(utf8.write(Buffer.from([ 0x82, 0xAC ]))).toBe('€');
+
+            const utf16 = new StringDecoder('utf16le');
+            expect(utf16.write(Buffer.from([ 0x3D ]))).toBe('');
+            expect(utf16.end(Buffer.from([ 0x00 ]))).toBe('=');
+        });
+    });
+
+    describe('single-byte encodings', () => {
+        test('should clear the high bit for ascii and keep it for latin1', () => {
+            const bytes = new Uint8Array([ 0x63, 0x61, 0x66, 0xE9 ]);
+
+            expect(new StringDecoder('ascii').write(bytes)).toBe('cafi');
+            expect(new StringDecoder('latin1').write(bytes)).toBe('café');
+            expect(new StringDecoder('binary').write(bytes)).toBe('café');
+        });
+    });
+});
@@ -0,0 +1,256 @@
+/**
+ * Import will remove at compile time
+ */
+
+import type { BufferEncoding } from '@providers/interfaces/buffer.interfaces';
+
+/**
+ * Imports
+ */
+
+import { encodeUTF8 } from '@components/utf8.component';
+import {
+    encodeHEX,
+    isInstance,
+    encodeASCII,
+    encodeLatin1,
+    encodeBase64,
+    encodeUTF16LE,
+    encodeBase64URL
+} from '@components/charset.component';
+
+/**
+ * The `StringDecoder` class decodes a stream of byte chunks into strings, preserving multibyte characters
+ * that are split across chunk boundaries.
+ * It mirrors the API of the Node.js `string_decoder` module.
+ *
+ * ## Description:
+ * Decoding every chunk independently with `Buffer.toString` corrupts characters whose bytes are split between
+ * two chunks (a UTF-8 sequence, a UTF-16LE surrogate pair, or a Base64 group of three bytes).
+ * The `StringDecoder` keeps such incomplete trailing bytes in an internal buffer and prepends them to the next chunk
+ * passed to `write`, so that the concatenation of all outputs equals the decoding of the whole byte stream.
+ *
+ * - **Input**:
+ *   - `encoding` (optional): The character encoding of the incoming bytes (default is `'utf8'`).
+ *
+ * - **Output**:
+ *   - A `StringDecoder` instance exposing `write` and `end`.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * const decoder = new StringDecoder('utf8');
+ * decoder.write(new Uint8Array([ 0xE2, 0x82 ])); // ''
+ * decoder.write(new Uint8Array([ 0xAC ]));       // '€'
+ * decoder.end();                                 // ''
+ * ```
+ *
+ * ## Error Handling:
+ * - The constructor throws a `TypeError` if the encoding is not supported.
+ *
+ * @param encoding - (Optional) The character encoding used to decode the bytes (default is `'utf8'`).
+ * @throws {TypeError} If an unknown encoding is provided.
+ */
+
+export class StringDecoder {
+    /**
+     * The normalized name of the encoding used by this decoder.
+     */
+
+    readonly encoding: BufferEncoding;
+
+    /**
+     * Bytes from the previous chunk that did not form a complete character.
+     */
+
+    private pending: Uint8Array = new Uint8Array(0);
+
+    /**
+     * Creates a new decoder for the given encoding.
+     *
+     * @param encoding - (Optional) The character encoding used to decode the bytes (default is `'utf8'`).
+     * @throws {TypeError} If an unknown encoding is provided.
+     */
+
+    constructor(encoding: BufferEncoding = 'utf8') {
+        this.encoding = StringDecoder.normalizeEncoding(encoding);
+    }
+
+    /**
+     * Decodes a chunk of bytes and returns the complete characters it contains.
+     *
+     * ## Description:
+     * Bytes left over from a previous call are prepended to `buffer`.
+     * Any incomplete character at the end of the resulting bytes is held back until the next call to `write` or `end`.
+     * When a string is passed, it is returned unchanged.
+     *
+     * ## Example:
+     *
+     * ```ts
+     * const decoder = new StringDecoder('utf16le');
+     * decoder.write(new Uint8Array([ 0x3D, 0xD8 ])); // '' (high surrogate is held back)
+     * decoder.write(new Uint8Array([ 0x38, 0xDE ])); // '😸'
+     * ```
+     *
+     * @param buffer - The bytes to decode.
+     * @returns The decoded string, excluding any incomplete trailing character.
+     * @throws {TypeError} If `buffer` is neither a string nor a `Uint8Array`.
+     */
+
+    write(buffer: Uint8Array | string): string {
+        if (typeof buffer === 'string') {
+            return buffer;
+        }
+
+        if (!isInstance(buffer, Uint8Array)) {
+            throw new TypeError('The "buffer" argument must be an instance of Uint8Array or string');
+        }
+
+        // A plain view, so that slicing a `Buffer` chunk copies and follows `Uint8Array` bounds
+        let bytes = new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+        if (this.pending.length > 0) {
+            bytes = new Uint8Array(this.pending.length + buffer.length);
+            bytes.set(this.pending);
+            bytes.set(buffer, this.pending.length);
+        }
+
+        const end = bytes.length - this.incompleteLength(bytes);
+        this.pending = bytes.slice(end);
+
+        return this.decode(bytes.subarray(0, end));
+    }
+
+    /**
+     * Returns any remaining input stored in the internal buffer as a string.
+     *
+     * ## Description:
+     * If `buffer` is provided, `write` is called with it first.
+     * Incomplete UTF-8 sequences are replaced with a single `'\uFFFD'`,
+     * a trailing odd UTF-16LE byte is dropped, and remaining Base64 bytes are encoded with padding.
+     * After `end` is called, the decoder can be reused for new input.
+     *
+     * ## Example:
+     *
+     * ```ts
+     * const decoder = new StringDecoder('utf8');
+     * decoder.write(new Uint8Array([ 0xE2, 0x82 ])); // ''
+     * decoder.end();                                 // '\uFFFD'
+     * ```
+     *
+     * @param buffer - (Optional) The final bytes to decode.
+     * @returns The decoded string, including any flushed remainder.
+     */
+
+    end(buffer?: Uint8Array | string): string {
+        const result = buffer === undefined ? '' : this.write(buffer);
+        const pending = this.pending;
+        this.pending = new Uint8Array(0);
+
+        if (pending.length === 0) {
+            return result;
+        }
+
+        return result + (this.encoding === 'utf8' ? '\uFFFD' : this.decode(pending));
+    }
+
+    /**
+     * Maps an encoding alias to the canonical name used by the decoder.
+     *
+     * @param encoding - The encoding name to normalize.
+     * @returns The canonical encoding name.
+     * @throws {TypeError} If an unknown encoding is provided.
+     */
+
+    private static normalizeEncoding(encoding: string): BufferEncoding {
+        switch (encoding.toLowerCase()) {
+            case 'utf8':
+            case 'utf-8':
+                return 'utf8';
+            case 'ucs2':
+            case 'ucs-2':
+            case 'utf16le':
+            case 'utf-16le':
+                return 'utf16le';
+            case 'latin1':
+            case 'binary':
+                return 'latin1';
+            case 'hex':
+            case 'ascii':
+            case 'base64':
+            case 'base64url':
+                return <BufferEncoding> encoding.toLowerCase();
+            default:
+                throw new TypeError('Unknown encoding: ' + encoding);
+        }
+    }
+
+    /**
+     * Decodes bytes that are known to contain only complete characters.
+     *
+     * @param bytes - The bytes to decode.
+     * @returns The decoded string.
+     */
+
+    private decode(bytes: Uint8Array): string {
+        switch (this.encoding) {
+            case 'utf8':
+                return encodeUTF8(bytes);
+            case 'utf16le':
+                return encodeUTF16LE(bytes);
+            case 'base64':
+                return encodeBase64(bytes);
+            case 'base64url':
+                return encodeBase64URL(bytes);
+            case 'hex':
+                return encodeHEX(bytes);
+            case 'latin1':
+                return encodeLatin1(bytes);
+            default:
+                return encodeASCII(bytes);
+        }
+    }
+
+    /**
+     * Computes how many bytes at the end of `bytes` belong to an incomplete character.
+     *
+     * ## Description:
+     * - **UTF-8**: Looks back at most three bytes for a lead byte whose sequence runs past the end of the input.
+     * - **UTF-16LE**: Holds back an odd trailing byte and a trailing high surrogate waiting for its low surrogate.
+     * - **Base64**: Holds back the bytes that do not fill a complete group of three.
+     *
+     * @param bytes - The bytes to inspect.
+     * @returns The number of trailing bytes to keep for the next call.
+     */
+
+    private incompleteLength(bytes: Uint8Array): number {
+        const length = bytes.length;
+
+        switch (this.encoding) {
+            case 'utf8':
+                for (let i = length - 1; i >= 0 && i >= length - 3; i--) {
+                    const byte = bytes[i];
+                    if ((byte & 0xC0) === 0x80) continue; // Continuation byte
+
+                    const needed = byte >= 0xF8 ? 1 : byte >= 0xF0 ? 4 : byte >= 0xE0 ? 3 : byte >= 0xC0 ? 2 : 1;
+
+                    return needed > length - i ? length - i : 0;
+                }
+
+                return 0;
+            case 'utf16le': {
+                let tail = length % 2;
+                if (length - tail >= 2) {
+                    const codeUnit = bytes[length - tail - 2] | (bytes[length - tail - 1] << 8);
+                    if (codeUnit >= 0xD800 && codeUnit <= 0xDBFF) tail += 2;
+                }
+
+                return tail;
+            }
+            case 'base64':
+            case 'base64url':
+                return length % 3;
+            default:
+                return 0;
+        }
+    }
+}
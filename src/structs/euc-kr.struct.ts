@@ -0,0 +1,203 @@
+/**
+ * The WHATWG `euc-kr` index (KS X 1001 with the Unified Hangul Code extension of Windows code page 949),
+ * used by the EUC-KR codec.
+ *
+ * ## Description:
+ * The pointer of a character is `(lead - 0x81) * 190 + (trail - 0x41)`.
+ *
+ * The index is stored compactly and expanded by the CJK codecs the first time it is used.
+ * Reading the string by code points, every character is the code point of the next pointer, except:
+ * - `'\u0000'` followed by a character `n`: the next `n` pointers (the char code of `n`) are not mapped.
+ * - `'\u0001'` followed by a character `n`: the next `n` pointers continue the sequence of the previous code point
+ *   (each one is the previous code point plus one).
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(eucKrIndex.codePointAt(0));  // Outputs: 44034 (U+AC02 at pointer 0, bytes 81 41)
+ * ```
+ */
+
+export const eucKrIndex = [
+    '갂갃갅갆갋\u0001\u0004갘갞갟갡\u0001\u0002갥\u0001\u0006갮갲\u0001\u0002\u0000\u0006갵\u0001\u0002갺갻갽\u0001\u0002걁\u0001\u0009걌걎\u0001\u0005걕\u0000\u0006걖걗걙',
+    '\u0001\u0002걝\u0001\u0012걲걳걵걶걹걻\u0001\u0004겂겇겈겍\u0001\u0002겑\u0001\u0002겕\u0001\u0006겞겢\u0001\u0005겫겭겮겱\u0001\u0006겺겾\u0001\u0002곂곃곅\u0001\u0002곉',
+    '\u0001\u0002곍\u0001\u0007곖곘\u0001\u0007곢곣곥곦곩곫곭곮곲곴곷\u0001\u0004곾곿괁\u0001\u0002괅괇\u0001\u0004괎괐괒\u0001\u0005괙\u0001\u0002괝\u0001\u0002괡\u0001\u0007괪괫괮',
+    '\u0001\u0005\u0000\u0006괶괷괹\u0001\u0002괽\u0001\u0006굆굈굊\u0001\u0005굑\u0001\u0002굕\u0001\u0002\u0000\u0006굙\u0001\u0007굢굤\u0001\u0007굮굯굱굲굷\u0001\u0003굾',
+    '궀궃\u0001\u0004궊궋궍\u0001\u0002궑\u0001\u000A궞\u0001\u0005궥\u0001\u0011궸\u0001\u0007귂귃귅\u0001\u0002귉\u0001\u0006귒귔\u0001\u0007귝\u0001\u0002귡\u0001\u0002귥',
+    '\u0001\u0012귺귻귽귾긂\u0001\u0005긊긌긎\u0001\u0005긕\u0001\u0007\u0000\u0006긝\u0001\u0012긲긳긵긶긹긻긼\u0000\u0006긽\u0001\u0002깂깄깇\u0001\u0002깋깏깑\u0001\u0002깕깗',
+    '\u0001\u0004깞깢\u0001\u0002깦깧깪깫깭\u0001\u0002깱\u0001\u0006깺깾\u0001\u0005꺆\u0001\u0005꺍\u0001\u002E꺿껁\u0001\u0002껅\u0001\u0006껎껒\u0001\u0005껚껛껝',
+    '\u0001\u000A껩껪껬껮\u0001\u0005껵\u0001\u0002껹\u0001\u0002껽\u0001\u0008\u0000\u0006꼆꼉\u0001\u0003꼎꼏꼑\u0001\u0012\u0000\u0006꼤\u0001\u0007꼮꼯꼱꼳꼵\u0001\u0006',
+    '꼾꽀꽄\u0001\u0003꽊\u0001\u0005꽑\u0001\u000A꽞\u0001\u0005꽦\u0001\u0012꽺\u0001\u0005꾁\u0001\u0002꾅\u0001\u0002꾉\u0001\u0006꾒\u0001\u0002꾖\u0001\u0005꾝',
+    '\u0001\u001A꾺꾻꾽\u0001\u0002꿁\u0001\u0005꿊꿌꿏\u0001\u0004꿕\u0001\u0006꿝\u0001\u0004\u0000\u0006꿢\u0001\u0005꿪\u0001\u0005꿲꿳꿵\u0001\u0002꿹\u0001\u0006뀂뀃',
+    '\u0000\u0006뀅\u0001\u0006뀍\u0001\u0002뀑\u0001\u0002뀕\u0001\u0006뀞\u0001\u0009뀩\u0001\u001A끆끇끉끋끍끏\u0001\u0003끖끘끚\u0001\u0002끞\u0001\u001D끾끿낁',
+    '\u0001\u0002낅\u0001\u0006낎낐낒\u0001\u0005낛낝낞낣\u0001\u0004낪낰낲낶낷낹\u0001\u0002낽\u0001\u0006냆냊\u0001\u0005냒\u0000\u0006냓냕\u0001\u0002냙\u0001\u0006냡',
+    '\u0001\u0003냦\u0001\u000A\u0000\u0006냱\u0001\u0016넊넍\u0001\u0002넑넔\u0001\u0003넚넞\u0001\u0004넦넧넩\u0001\u0002넭\u0001\u0006넶넺\u0001\u0005녂녃녅\u0001\u0002녉',
+    '\u0001\u0006녒녓녖녗녙\u0001\u0002녝\u0001\u0002녡\u0001\u0016녺녻녽\u0001\u0002놁놃\u0001\u0004놊놌놎\u0001\u0003놕\u0001\u0002놙\u0001\u0002놝\u0001\u000A놩',
+    '\u0001\u000F\u0000\u0006놹\u0001\u0012뇍\u0001\u0002뇑\u0001\u0002뇕\u0000\u0006뇖\u0001\u0005뇞뇠\u0001\u0007뇪뇫뇭\u0001\u0002뇱\u0001\u0007뇺뇼뇾\u0001\u0005눆눇눉눊',
+    '눍\u0001\u0006눖눘눚\u0001\u0005눡\u0001\u0012눵\u0001\u0006눽\u0001\u001A뉙\u0001\u0002뉝\u0001\u0002뉡\u0001\u0006뉪\u0001\u0009뉶\u0001\u0005뉽\u0001\u0006늆',
+    '\u0001\u0002늊\u0001\u0004\u0000\u0006늏늒늓늕\u0001\u0002늛\u0001\u0004늢늤늧\u0001\u0002늫늭\u0001\u0002늱\u0001\u0002늵\u0001\u0002\u0000\u0006늸\u0001\u000F닊닋닍',
+    '\u0001\u0002닑닓\u0001\u0004닚닜닞\u0001\u0003닣닧닩닪닰\u0001\u0002닶닼\u0001\u0002댂댃댅\u0001\u0002댉\u0001\u0006댒댖\u0001\u0005댝\u0001\u0036덗덙덚덝덠\u0001\u0003덦덨덪덬덭덯',
+    '덲덳덵\u0001\u0002덹\u0001\u0006뎂뎆\u0001\u0005뎍\u0000\u0006뎎뎏뎑\u0001\u0002뎕\u0001\u000A뎢\u0001\u0005뎩\u0001\u0002뎭\u0000\u0006뎮\u0001\u0015돆돇돉돊돍돏돑',
+    '\u0001\u0002돖돘돚돜돞돟돡\u0001\u0002돥\u0001\u0002돩\u0001\u0012돽\u0001\u0012됑\u0001\u0006됙\u0001\u0002됝\u0001\u0002됡\u0001\u0006됪됬\u0001\u0007됵\u0001\u001A둒',
+    '둓둕\u0001\u0002둙\u0001\u0006둢둤둦\u0000\u0006둧\u0001\u0004둭\u0001\u0012뒁뒂\u0000\u0006뒃\u0001\u0004뒉\u0001\u0013뒞\u0001\u0005뒥\u0001\u0002뒩\u0001\u0002뒭',
+    '\u0001\u0007뒶뒸뒺\u0001\u0005듁\u0001\u0002듅\u0001\u0002듉\u0001\u0006듑\u0001\u0003듖\u0001\u0005듞듟듡듢듥듧\u0001\u0004듮듰듲\u0001\u0005듹\u0001\u001A딖딗딙딚딝',
+    '\u0001\u0006딦딫\u0001\u0004딲딳딵\u0001\u0002딹\u0001\u0006땂땆\u0000\u0006땇\u0001\u0003땎땏땑\u0001\u0002땕\u0001\u0006땞땢\u0001\u0008\u0000\u0006땫\u0001\u0034떢떣',
+    '떥\u0001\u0002떩떬\u0001\u0003떲떶\u0001\u0004떾떿뗁\u0001\u0002뗅\u0001\u0006뗎뗒\u0001\u0005뗙\u0001\u0012뗭\u0001\u0022똒똓똕\u0001\u0002똙\u0001\u0004\u0000\u0006똞',
+    '\u0001\u0006똦\u0001\u0005똭\u0001\u0006똵\u0001\u0005\u0000\u0006똻\u0001\u000C뙉\u0001\u001A뙥\u0001\u0002뙩\u0001\u0032뚞뚟뚡\u0001\u0002뚥\u0001\u0005뚭',
+    '\u0001\u0003뚲\u0001\u0021뛕\u0001\u0008\u0000\u0006뛞\u0001\u0011뛱\u0001\u0002뛵\u0001\u0002뛹뛺\u0000\u0006뛻\u0001\u0004뜂\u0001\u0002뜆\u0001\u0021뜪뜫뜭뜮뜱',
+    '\u0001\u0006뜺뜼\u0001\u0007띅\u0001\u0002띉\u0001\u0002띍\u0001\u0006띖\u0001\u0009띡\u0001\u0002띥\u0001\u0002띩\u0001\u0006띲띴띶\u0001\u0005띾띿랁\u0001\u0002랅',
+    '\u0001\u0006랎랓\u0001\u0002랚랛랝\u0001\u0002랡\u0001\u0006랪랮\u0001\u0005랶랷랹\u0001\u0008\u0000\u0006럂\u0001\u0004럈럊\u0001\u0013\u0000\u0006럞\u0001\u000D럮럯럱',
+    '\u0001\u0002럵\u0001\u0006럾렂\u0001\u0004렊렋렍\u0001\u0002렑\u0001\u0006렚렜렞\u0001\u0005렦렧렩\u0001\u0002렭\u0001\u0006렶렺\u0001\u0005롁\u0001\u0002롅\u0001\u000B',
+    '롒롔\u0001\u0007롞롟롡\u0001\u0002롥\u0001\u0006롮롰롲\u0001\u0005롹\u0001\u0002롽\u0001\u000F뢎\u0001\u0011\u0000\u0006뢠\u0001\u0007뢩\u0001\u0006뢱\u0001\u0002뢵',
+    '\u0001\u0002뢹\u0001\u0004\u0000\u0006뢾뢿룂룄룆\u0001\u0005룍\u0001\u0002룑\u0001\u0002룕\u0001\u0007룞룠룢\u0001\u0005룪룫룭\u0001\u0002룱\u0001\u0006룺룼룾',
+    '\u0001\u0005뤅\u0001\u0012뤙\u0001\u0006뤡\u0001\u001A뤾뤿륁\u0001\u0002륅\u0001\u0006륍륎륐륒\u0001\u0005륚륛륝\u0001\u0002륡\u0001\u0006륪륬륮\u0001\u0005륶륷륹',
+    '\u0001\u0002륽\u0000\u0006륾\u0001\u0005릆릈릋릌릏\u0001\u000F\u0000\u0006릟\u0001\u000C릮릯릱\u0001\u0002릵\u0001\u0006릾맀맂\u0001\u0005맊맋맍맓\u0001\u0004맚맜맟맠맢맦맧맩',
+    '\u0001\u0002맭\u0001\u0006맶맻\u0001\u0004먂\u0001\u0005먉\u0001\u000B먖\u0001\u0021먺먻먽\u0001\u0002멁멃\u0001\u0004멊멌멏\u0001\u0003멖멗멙\u0001\u0002멝\u0001\u0006',
+    '멦멪\u0001\u0005\u0000\u0006멲멳멵\u0001\u0002멹\u0001\u0009몆몈\u0001\u0003몍\u0001\u0005\u0000\u0006몓\u0001\u0014몪몭\u0001\u0002몱몳\u0001\u0004몺몼몾\u0001\u0005뫅',
+    '\u0001\u0002뫉\u0001\u000E뫚\u0001\u0021뫽\u0001\u0002묁\u0001\u0002묅\u0001\u0007묎묐묒\u0001\u0005묙\u0001\u0002묝\u0001\u0002묡\u0001\u0007묪묬\u0001\u0007묷묹묺묿',
+    '\u0001\u0004뭆뭈뭊\u0001\u0002뭎뭑뭒\u0000\u0006뭓뭕\u0001\u0002뭙\u0001\u0007뭢뭤\u0001\u0007뭭\u0001\u0004\u0000\u0006뭲\u0001\u0015뮉\u0001\u0002뮍\u0001\u0002뮑',
+    '\u0001\u0012뮥\u0001\u0002뮩\u0001\u0002뮭\u0001\u0006뮵뮶뮸\u0001\u0007믁\u0001\u0002믅\u0001\u0002믉\u0001\u0006믑믒믔\u0001\u0023믺믻믽믾밁밃\u0001\u0004밊밎밐밒밓밙밚밠',
+    '\u0001\u0003밦밨밪\u0001\u0002밮밯밲밳밵\u0000\u0006밶밷밹\u0001\u0006뱂뱆\u0001\u0002뱊뱋뱎뱏뱑\u0001\u0008\u0000\u0006뱚\u0001\u0002뱞\u0001\u0025벆벇벉벊벍벏\u0001\u0004벖벘벛',
+    '\u0001\u0004벢벣벥벦벩\u0001\u0006벲벶\u0001\u0005벾벿볁\u0001\u0002볅\u0001\u0007볎볒\u0001\u0002볖볗볙\u0001\u0002볝\u0001\u0016볷볹\u0001\u0002볽\u0001\u0006봆봈봊',
+    '\u0001\u0005봑\u0001\u0002봕\u0001\u0008\u0000\u0006봞\u0001\u0005봥\u0001\u0006봭\u0001\u000C\u0000\u0006봺\u0001\u0005뵁\u0001\u0006뵊뵋뵍\u0001\u0002뵑',
+    '\u0001\u0006뵚\u0001\u0009뵥\u0001\u0002뵩\u0001\u0016붂붃붅붆붋\u0001\u0004붒붔붖\u0001\u0002붛붝\u0001\u0006붥\u0001\u000A붱\u0001\u0006붹\u0001\u001A뷖뷗뷙',
+    '\u0001\u0002뷝\u0001\u000B뷪\u0001\u0005뷱\u0000\u0006뷲뷳뷵\u0001\u0002뷹\u0001\u0006븁븂븄븆\u0001\u0005븎븏븑\u0001\u0002\u0000\u0006븕\u0001\u0006븞븠\u0001\u0023빆',
+    '빇빉\u0001\u0002빍빏\u0001\u0004빖빘빜\u0001\u0003빢빣빥\u0001\u0002빩빫\u0001\u0004빲빶\u0001\u0004빾빿뺁\u0001\u0002뺅\u0001\u0006뺎뺒\u0001\u0005뺚\u0001\u000D뺩',
+    '\u0001\u0026뻒뻓\u0000\u0006뻕뻖뻙\u0001\u0006뻡뻢뻦\u0001\u0005뻭\u0001\u0008\u0000\u0006뻶\u0001\u000A뼂\u0001\u0005뼊\u0001\u000D뼚뼞\u0001\u0021뽂뽃뽅\u0001\u0002뽉',
+    '\u0001\u0006뽒\u0001\u0002뽖\u0001\u003D뾕\u0001\u0008\u0000\u0006뾞\u0001\u0011뾱\u0001\u0007\u0000\u0006뾹\u0001\u000B뿆\u0001\u0005뿎뿏뿑\u0001\u0002뿕',
+    '\u0001\u0006뿝뿞뿠뿢\u0001\u0059쀽\u0001\u0013쁒\u0001\u0005쁙\u0001\u0002\u0000\u0006쁝\u0001\u0002쁡\u0001\u0006쁪\u0001\u000F\u0000\u0006쁺\u0001\u0015삒삓삕',
+    '\u0001\u0002삙\u0001\u0006삢삤삦\u0001\u0005삮삱삲삷\u0001\u0004삾샂\u0001\u0002샆샇샊샋샍\u0001\u0002샑\u0001\u0006샚샞\u0001\u0005샦샧샩\u0001\u0002샭\u0001\u0006샶샸샺',
+    '\u0001\u0005섁\u0001\u0002섅\u0001\u0002섉\u0001\u0006섑\u0001\u0003섖\u0001\u0005섡섢섥섨\u0001\u0003섮섲\u0001\u0003섷섺섻섽\u0001\u0002셁\u0001\u0006셊셎\u0001\u0005',
+    '셖셗\u0000\u0006셙\u0001\u0002셝\u0001\u0006셦셪\u0001\u0005셱\u0001\u0002셵\u0001\u0002셹\u0001\u0002\u0000\u0006셼\u0001\u0008솆\u0001\u0005솏솑\u0001\u0002솕솗',
+    '\u0001\u0004솞솠솢\u0001\u0002솦솧솪솫솭\u0001\u0002솱\u0001\u000B솾\u0001\u0005쇅\u0001\u0002쇉\u0001\u0002쇍\u0001\u0006쇕쇖쇙\u0001\u0006쇡\u0001\u0002쇥\u0001\u0002',
+    '쇩\u0001\u0006쇲쇴\u0001\u0007쇾쇿숁\u0001\u0002숅\u0001\u0006숎숐숒\u0001\u0005숚숛숝숞숡\u0001\u0006숪숬숮숰숳숵\u0001\u0010\u0000\u0006쉆쉇쉉\u0001\u0006쉒쉓쉕\u0001\u0002쉙',
+    '\u0001\u0006쉡\u0001\u0003쉦\u0000\u0006쉧\u0001\u0004쉮쉯쉱\u0001\u0002쉵\u0001\u0006쉾슀슂\u0001\u0005슊\u0001\u0005슑\u0001\u0006슙슚슜슞\u0001\u0005슦슧슩',
+    '\u0001\u0002슮\u0001\u0005슶슸슺\u0001\u0021싞싟싡싢싥\u0001\u0005싮싰싲\u0001\u0003싷싺싽\u0001\u0002쌁\u0001\u0006쌊쌋쌎\u0001\u0004쌖쌗쌙\u0001\u0002쌝\u0001\u0006쌦쌧쌪',
+    '\u0001\u0008\u0000\u0006쌳\u0001\u0011썆\u0001\u0007\u0000\u0006썎\u0001\u0019썪썫썭\u0001\u0002썱썳\u0001\u0004썺썻썾\u0001\u0005쎅\u0001\u0002쎉\u0001\u0002쎍',
+    '\u0001\u0032쏁\u0001\u0016쏚쏛쏝쏞쏡쏣\u0001\u0004쏪\u0001\u0002쏮\u0001\u0005쏶쏷쏹\u0001\u0005\u0000\u0006쏿\u0001\u0008쐉\u0001\u0006쐑\u0001\u0009\u0000\u0006쐛',
+    '\u0001\u0008쐥\u0001\u0006쐭\u0001\u0002쐱\u0001\u0002쐵\u0001\u0006쐾\u0001\u0009쑉\u0001\u001A쑦쑧쑩\u0001\u0002쑭\u0001\u0006쑶\u0001\u0002쑺\u0001\u0005쒁',
+    '\u0001\u0012쒕\u0001\u0006쒝\u0001\u001A쒹\u0001\u0002쒽\u0001\u0008\u0000\u0006쓆\u0001\u0019\u0000\u0006쓠\u0001\u0008쓪\u0001\u0005쓲쓳쓵\u0001\u0002쓹쓻',
+    '\u0001\u0003씂\u0001\u0009씍\u0001\u0002씑\u0001\u0002씕\u0001\u0006씝\u0001\u000A씪씫씭\u0001\u0002씱\u0001\u0006씺씼씾\u0001\u0005앆앇앋앏\u0001\u0003앖앚\u0001\u0002',
+    '앟앢앣앥\u0001\u0002앩\u0001\u0006앲앶\u0001\u0005앾앿얁\u0001\u0002얅얆얈\u0001\u0003얎얐얒\u0001\u0002얖얙\u0001\u0002얝\u0001\u0002얡\u0001\u0007얪\u0001\u0009얶',
+    '\u0000\u0006얷얺얿\u0001\u0004엋엍엏엒엓엕\u0001\u0002엙\u0001\u0006엢엤엦엧\u0000\u0006엨\u0001\u0003엯엱\u0001\u0002엵엸\u0001\u0003옂\u0001\u0002옉\u0001\u0002옍',
+    '\u0001\u0002옑\u0001\u0006옚옝\u0001\u0006옦옧옩\u0001\u0002옯옱옲옶옸옺옼\u0001\u0003왂왃왅\u0001\u0002왉\u0001\u0006왒왖\u0001\u0005왞왟왡\u0001\u000A왭왮왰왲\u0001\u0005왺왻왽',
+    '\u0001\u0002욁\u0001\u0006욊욌욎\u0001\u0005욖욗욙\u0001\u0002욝\u0001\u0006욦욨욪\u0001\u0005욲욳욵\u0001\u0002욻\u0001\u0004웂웄웆\u0001\u0005웎\u0000\u0006웏웑',
+    '\u0001\u0002웕\u0001\u0006웞웟웢\u0001\u0005웪웫웭\u0001\u0002웱웲\u0000\u0006웳\u0001\u0004웺\u0001\u0002웾\u0001\u0005윆윇윉\u0001\u0002윍\u0001\u0006윖윘윚',
+    '\u0001\u0005윢윣윥\u0001\u0002윩\u0001\u0006윲윴윶윸\u0001\u0003윾윿읁\u0001\u0002읅\u0001\u0004읋읎읐읙\u0001\u0002읝\u0001\u0002읡\u0001\u0006읩읪읬\u0001\u0007읶읷읹',
+    '\u0001\u0002읿\u0001\u0003잆잋\u0001\u0002잏잒잓잕잙잛\u0001\u0004잢잧\u0001\u0004잮잯잱\u0001\u0002잵\u0001\u0006잾쟂\u0001\u0005쟊쟋쟍쟏쟑\u0001\u0006쟙\u0001\u0003',
+    '\u0000\u0006쟞\u0001\u0005쟥\u0001\u0002쟩\u0001\u0002쟭\u0001\u000D\u0000\u0006쟻\u0001\u0004젂젃젅\u0001\u0002젉젋\u0001\u0004젒젔젗\u0001\u0004젞젟젡\u0001\u0002젥',
+    '\u0001\u0006젮젰젲\u0001\u0005젹\u0001\u0002젽\u0001\u0002졁\u0001\u0006졊졋졎\u0001\u0005졕\u0001\u001A졲졳졵\u0001\u0002졹졻\u0001\u0004좂좄좈\u0001\u0002좎',
+    '\u0001\u0005좕\u0001\u0007좞좠좢\u0001\u0005좩\u0001\u0012좾\u0001\u0003\u0000\u0006죂죃죅\u0001\u0002죉\u0001\u0002죍\u0001\u0006죖죘죚\u0001\u0005죢죣죥\u0000\u0006죦',
+    '\u0001\u000E죶\u0001\u0005죾죿줁\u0001\u0002줇\u0001\u0004줎\u3000\u0001\u0002·‥…¨〃\u00AD―∥＼∼‘’“”〔〕〈\u0001\u0009±×÷≠≤≥∞∴°′″℃Å￠￡￥♂♀∠⊥⌒∂∇≡≒§※☆★○●◎◇◆□■△▲▽▼→←↑↓',
+    '↔〓≪≫√∽∝∵∫∬∈∋⊆⊇⊂⊃∪∩∧∨￢줐줒\u0001\u0005줙\u0001\u0012\u0000\u0006줭\u0001\u0006줵\u0001\u0012\u0000\u0006쥈\u0001\u0007쥒쥓쥕\u0001\u0002쥙\u0001\u0006쥢쥤',
+    '\u0001\u0007쥭\u0001\u0002⇒⇔∀∃´～ˇ˘˝˚˙¸˛¡¿ː∮∑∏¤℉‰◁◀▷▶♤♠♡♥♧♣⊙◈▣◐◑▒▤▥▨▧▦▩♨☏☎☜☞¶†‡↕↗↙↖↘♭♩♪♬㉿㈜№㏇™㏂㏘℡€®\u0000\u0017쥱\u0001\u0002쥵\u0001\u0006쥽\u0001\u000A즊즋즍',
+    '\u0001\u0002\u0000\u0006즑\u0001\u0006즚즜즞\u0001\u0010\u0000\u0006즯\u0001\u0010짂짃짅짆짉짋\u0001\u0004짒짔짗짘짛！\u0001\u003A￦］\u0001\u0020￣짞짟짡짣짥짦짨\u0001\u0003짮짲',
+    '\u0001\u0005짺짻짽\u0001\u0002쨁\u0001\u0003\u0000\u0006쨅\u0001\u0002쨊쨎\u0001\u0005쨕\u0001\u0002쨙\u0001\u000C\u0000\u0006쨦\u0001\u0002쨪\u0001\u001Cㄱ',
+    '\u0001\u005D쩇\u0001\u0004쩎쩏쩑\u0001\u0002쩕\u0001\u0006쩞쩢\u0001\u0005쩩쩪\u0000\u0006쩫\u0001\u0011쩾\u0001\u0005쪅쪆\u0000\u0006쪇\u0001\u0010쪙\u0001\u000Eⅰ',
+    '\u0001\u0009\u0000\u0005Ⅰ\u0001\u0009\u0000\u0007Α\u0001\u0010Σ\u0001\u0006\u0000\u0008α\u0001\u0010σ\u0001\u0006\u0000\u0006쪨\u0001\u0013쪾쪿쫁',
+    '\u0001\u0002쫅\u0000\u0006쫆\u0001\u0005쫎쫐쫒쫔\u0001\u0003쫚\u0001\u0005쫡\u0001\u0006\u0000\u0006쫨\u0001\u0003쫭\u0001\u0006쫵\u0001\u0012쬉쬊─│┌┐┘└├┬┤┴┼━┃┏┓┛┗',
+    '┣┳┫┻╋┠┯┨┷┿┝┰┥┸╂┒┑┚┙┖┕┎┍┞┟┡┢┦┧┩┪┭┮┱┲┵┶┹┺┽┾╀╁╃\u0001\u0007\u0000\u001A쬋\u0001\u0004쬑\u0001\u0002쬕\u0001\u0002쬙\u0001\u0006쬢\u0001\u0007\u0000\u0006쬪',
+    '\u0001\u0016쭂\u0001\u0002\u0000\u0006쭅\u0001\u0002쭊쭋쭍\u0001\u0002쭑\u0001\u0006쭚\u0001\u0002쭞\u0001\u0005쭥\u0001\u0007㎕\u0001\u0002ℓ㎘㏄㎣\u0001\u0003㎙',
+    '\u0001\u0009㏊㎍\u0001\u0002㏏㎈㎉㏈㎧㎨㎰\u0001\u0009㎀\u0001\u0004㎺\u0001\u0005㎐\u0001\u0004Ω㏀㏁㎊\u0001\u0002㏖㏅㎭\u0001\u0002㏛㎩\u0001\u0003㏝㏐㏓㏃㏉㏜㏆\u0000\u000F쭭',
+    '\u0001\u000A쭺\u0001\u000E\u0000\u0006쮉\u0001\u0012쮝\u0001\u0006\u0000\u0006쮤\u0001\u0013쮹\u0001\u000BÆÐªĦ\u0000\u0001Ĳ\u0000\u0001ĿŁØŒºÞŦŊ\u0000\u0001',
+    '㉠\u0001\u001Bⓐ\u0001\u0019①\u0001\u000E½⅓⅔¼¾⅛\u0001\u0003쯅\u0001\u000E쯕\u0001\u000A\u0000\u0006쯠\u0001\u0003쯥쯦쯨쯪\u0001\u0012\u0000\u0006쯽\u0001\u000E찎',
+    '찏찑\u0001\u0002찕\u0001\u0006찞\u0001\u0002찣찤æđðħıĳĸŀłøœßþŧŋŉ㈀\u0001\u001B⒜\u0001\u0019⑴\u0001\u000E¹²³⁴ⁿ₁\u0001\u0003찥찦찪찫찭찯찱\u0001\u0006찺찿\u0001\u0004챆챇',
+    '챉\u0001\u0002챍챎\u0000\u0006챏\u0001\u0004챖챚\u0001\u0005챡\u0001\u0002챥챧챩\u0001\u0006챱챲\u0000\u0006챳챴챶\u0001\u001Dぁ\u0001\u0052\u0000\u000B첔\u0001\u0003첚',
+    '첛첝\u0001\u0002첡\u0001\u0006첪첮\u0001\u0005첶첷첹\u0000\u0006첺첻첽\u0001\u0006쳆쳈쳊\u0001\u0005쳑\u0001\u0002쳕\u0001\u0005\u0000\u0006쳛\u0001\u0008쳥\u0001\u0006',
+    '쳭\u0001\u0002쳱\u0001\u000Cァ\u0001\u0055\u0000\u0008쳾\u0001\u0002촂\u0001\u0005촊촋촍\u0001\u0002촑\u0001\u0006촚촜촞\u0001\u0002\u0000\u0006촡\u0001\u0002촥',
+    '\u0001\u0002촩\u0001\u0002촭\u0001\u000B촺\u0001\u0004\u0000\u0006촿\u0001\u001C쵝\u0001\u0002А\u0001\u0005ЁЖ\u0001\u0019\u0000\u000Fа\u0001\u0005ёж',
+    '\u0001\u0019\u0000\u000D쵡\u0001\u0002쵥\u0001\u0006쵮쵰쵲\u0001\u0005쵹\u0001\u0007\u0000\u0006춁\u0001\u0006춉\u0001\u000A춖춗춙\u0001\u0002춝\u0001\u0002',
+    '\u0000\u0006춠\u0001\u0003춦춨춪\u0001\u0005춱\u0001\u0012췅\u0000\u005E췆\u0001\u0005췍\u0001\u0002췑\u0001\u0010\u0000\u0006췢\u0001\u0005췩\u0001\u0002췭',
+    '\u0001\u0002췱\u0001\u0006췺췼췾\u0001\u0004\u0000\u0006츃츅\u0001\u0002츉\u0001\u0002츍\u0001\u0006츕\u0001\u0003츚\u0001\u0005츢츣츥\u0001\u0002츩\u0001\u0002',
+    '\u0000\u005E츬\u0001\u0003츲츴츶\u0001\u0013\u0000\u0006칊\u0001\u000D칚칛칝칞칢\u0001\u0005칪칬\u0000\u0006칮\u0001\u0005칶칷칹\u0001\u0002칽\u0001\u0006캆캈캊',
+    '\u0001\u0005캒캓캕\u0001\u0002캙\u0000\u005E캚\u0001\u0005캢캦\u0001\u0005캮\u0001\u000C\u0000\u0006캻\u0001\u0005컂\u0001\u0013\u0000\u0006컖\u0001\u000D컦컧컩컪컭',
+    '\u0001\u0006컶컺\u0001\u0005가각간갇\u0001\u0003감\u0001\u0007같\u0001\u0004갠갤갬갭갯\u0001\u0002갸갹갼걀걋걍걔걘걜거걱건걷걸걺검겁것\u0001\u0003겉\u0001\u0003겐겔겜겝겟\u0001\u0002겨',
+    '\u0001\u0002견겯결겸겹겻\u0001\u0002곁계곈곌곕곗고곡곤곧골곪곬곯\u0001\u0002곳공곶과곽관괄괆켂켃켅\u0001\u0002켉\u0001\u0006켒켔켖\u0001\u0005켝\u0001\u0002켡\u0001\u0002\u0000\u0006켥',
+    '\u0001\u0006켮켲\u0001\u0005켹\u0001\u000B\u0000\u0006콅\u0001\u000E콖콗콙\u0001\u0002콝\u0001\u0006콦콨콪\u0001\u0002괌괍괏광괘괜괠괩괬괭괴괵괸괼굄굅굇굉교굔굘굡굣구국군굳\u0001\u0003굻',
+    '\u0001\u0002굿궁궂궈궉권궐궜궝궤궷귀귁귄귈귐귑귓규균귤그극근귿\u0001\u0002금급긋긍긔기긱긴긷길긺김깁깃깅깆깊까\u0001\u0002깐깔깖깜깝깟\u0001\u0002깥깨깩깬깰깸콭\u0001\u0002콲콳콵\u0001\u0002콹\u0001\u0006쾁',
+    '\u0001\u0003쾆\u0001\u0005쾍\u0000\u0006쾎\u0001\u0012쾢\u0001\u0005쾩\u0000\u0006쾪\u0001\u0005쾱\u0001\u0012쿅\u0001\u0006깹깻\u0001\u0002꺄꺅꺌꺼\u0001\u0002껀껄껌껍',
+    '껏\u0001\u0002께껙껜껨껫껭껴껸껼꼇꼈꼍꼐꼬꼭꼰꼲꼴꼼꼽꼿꽁\u0001\u0002꽈꽉꽐꽜꽝꽤꽥꽹꾀꾄꾈꾐꾑꾕꾜꾸꾹꾼꿀꿇\u0001\u0002꿋꿍꿎꿔꿜꿨꿩꿰꿱꿴꿸뀀뀁뀄뀌뀐뀔뀜뀝뀨끄끅끈끊끌끎끓\u0001\u0002끗끙쿌\u0001\u0013쿢쿣쿥\u0001\u0002쿩',
+    '\u0000\u0006쿪\u0001\u0005쿲쿴쿶\u0001\u0005쿽\u0001\u0002퀁\u0001\u0002퀅\u0001\u0005\u0000\u0006퀋\u0001\u0005퀒\u0001\u0005퀙\u0001\u0013끝끼끽낀낄낌낍낏낑나',
+    '\u0001\u0002난낟\u0001\u0003남납낫\u0001\u0004낱낳\u0001\u0002낸낼냄냅냇\u0001\u0002냐냑냔냘냠냥너넉넋넌널넒넓넘넙넛\u0001\u0002넣\u0001\u0002넨넬넴넵넷\u0001\u0002녀녁년녈념녑녔녕녘녜녠노녹논놀놂놈놉놋농',
+    '높\u0001\u0002놘놜놨뇌뇐뇔뇜뇝퀮\u0001\u0005퀶퀷퀹\u0001\u0002퀽\u0001\u0006큆큈큊\u0001\u0005\u0000\u0006큑\u0001\u0002큕\u0001\u0002큙\u0001\u0006큡\u0001\u000A큮큯',
+    '\u0000\u0006큱\u0001\u0002큵\u0001\u0006큾\u0001\u0002킂\u0001\u0012뇟뇨뇩뇬뇰뇹뇻뇽누눅눈눋눌눔눕눗눙눠눴눼뉘뉜뉠뉨뉩뉴뉵뉼늄늅늉느늑는늘\u0001\u0002늠늡늣능늦늪늬늰늴니닉닌닐닒님닙닛닝닢다\u0001\u0002단닫',
+    '\u0001\u0004닳\u0001\u0002닷\u0001\u0004닿\u0001\u0002댄댈댐댑댓\u0001\u0002댜더\u0001\u0002던덛덜덞덟덤덥킕\u0001\u000E킦킧킩\u0001\u0002킭\u0001\u0005\u0000\u0006킳킶킸킺',
+    '\u0001\u0005탂탃탅\u0001\u0002탊\u0001\u0005탒탖\u0001\u0004\u0000\u0006탛탞탟탡\u0001\u0002탥\u0001\u0006탮탲\u0001\u0005탹\u0001\u000B덧덩덫덮데덱덴델뎀뎁뎃\u0001\u0002뎌뎐뎔뎠뎡',
+    '뎨뎬도독돈돋돌돎돐돔돕돗동돛돝돠돤돨돼됐되된될됨됩됫됴두둑둔둘둠둡둣둥둬뒀뒈뒝뒤뒨뒬뒵뒷뒹듀듄듈듐듕드득든듣들듦듬듭듯등듸디딕딘딛딜딤딥딧\u0001\u0003따딱딴딸턅\u0001\u0007턎\u0001\u0011\u0000\u0006턠\u0001\u000F턲턳턵',
+    '\u0001\u0002턹턻\u0001\u0003\u0000\u0006턿텂텆\u0001\u0005텎텏텑\u0001\u0002텕\u0001\u0006텞텠텢\u0001\u0005텩\u0001\u0002텭땀땁땃\u0001\u0002땋\u0001\u0002땐땔땜땝땟',
+    '\u0001\u0002떠떡떤떨떪떫떰떱떳\u0001\u0002떻\u0001\u0002뗀뗄뗌뗍뗏\u0001\u0002뗘뗬또똑똔똘똥똬똴뙈뙤뙨뚜뚝뚠뚤뚫뚬뚱뛔뛰뛴뛸뜀뜁뜅뜨뜩뜬뜯뜰뜸뜹뜻띄띈띌띔띕띠띤띨띰띱띳띵라락란랄람랍랏\u0001\u0003랖랗텮\u0001\u000D텽',
+    '\u0001\u0006톅\u0001\u0002톉톊\u0000\u0006톋\u0001\u0014톢톣톥\u0001\u0002\u0000\u0006톩\u0001\u0006톲톴톶\u0001\u0003톻톽\u0001\u0002퇁\u0001\u000E래랙랜랠램랩랫',
+    '\u0001\u0002랴략랸럇량러럭런럴럼럽럿\u0001\u0002렇\u0001\u0002렌렐렘렙렛렝려력련렬렴렵렷\u0001\u0002례롄롑롓로록론롤롬롭롯롱롸롼뢍뢨뢰뢴뢸룀룁룃룅료룐룔룝룟룡루룩룬룰룸룹룻룽뤄뤘뤠뤼뤽륀륄륌륏륑류륙륜률륨륩퇐\u0001\u0007퇙',
+    '\u0001\u0011\u0000\u0006퇫\u0001\u0008퇵\u0001\u0002퇹\u0001\u000D\u0000\u0006툈툊\u0001\u0005툑\u0001\u0018륫륭르륵른를름릅릇릉릊릍릎리릭린릴림립릿링마막만많\u0001\u0004맘맙맛망맞맡맣',
+    '\u0001\u0002맨맬맴맵맷\u0001\u0003먀먁먈먕머먹먼멀멂멈멉멋멍멎멓\u0001\u0002멘멜멤멥멧\u0001\u0002며멱면멸몃\u0001\u0002몇몌모목몫몬몰몲몸몹못몽뫄뫈뫘뫙뫼툪툫툮툯툱\u0001\u0002툵\u0001\u0006툾퉀퉂',
+    '\u0001\u0005퉉\u0001\u0003\u0000\u0006퉍\u0001\u000E퉝\u0001\u0006퉥\u0001\u0003\u0000\u0006퉩\u0001\u0016튂튃튅\u0001\u0002튉\u0001\u0003묀묄묍묏묑묘묜묠묩묫무',
+    '\u0001\u0002문묻\u0001\u0003뭄뭅뭇뭉뭍뭏뭐뭔뭘뭡뭣뭬뮈뮌뮐뮤뮨뮬뮴뮷므믄믈믐믓미믹민믿밀밂밈밉밋\u0001\u0002및밑바\u0001\u0004받\u0001\u0004밤밥밧방밭배백밴밸뱀뱁뱃\u0001\u0002뱉뱌뱍뱐뱝버벅번벋벌벎범법벗튍',
+    '\u0001\u0002튒\u0001\u0002튖\u0001\u0005튝\u0001\u0002튡\u0001\u0002튥\u0001\u0006튭\u0000\u0006튮\u0001\u0002튲\u0001\u0005튺튻튽튾틁틃\u0001\u0004틊틌\u0001\u0005',
+    '\u0000\u0006틒틓틕\u0001\u0002틙\u0001\u0002틝\u0001\u0006틦\u0001\u0009틲틳틵\u0001\u0002틹틺벙벚베벡벤벧벨벰벱벳\u0001\u0002벼벽변별볍볏\u0001\u0002볕볘볜보\u0001\u0002본볼봄봅봇봉봐봔봤봬뵀',
+    '뵈뵉뵌뵐뵘뵙뵤뵨부북분붇\u0001\u0003붐붑붓붕붙붚붜붤붰붸뷔뷕뷘뷜뷩뷰뷴뷸븀븃븅브븍븐블븜븝븟비빅빈빌빎빔빕빗빙\u0001\u0002빠빡빤틻\u0001\u0004팂팄팆\u0001\u0005팏팑\u0001\u0002팕팗\u0001\u0004팞팢팣\u0000\u0006팤팦팧',
+    '팪팫팭\u0001\u0002팱\u0001\u0006팺팾\u0001\u0005퍆\u0001\u0003\u0000\u0006퍊\u0001\u001F빨빪빰빱빳\u0001\u0002빻\u0001\u0002뺀뺄뺌뺍뺏\u0001\u0002뺘뺙뺨뻐뻑뻔뻗뻘뻠뻣\u0001\u0002뻬',
+    '뼁뼈뼉뼘뼙뼛\u0001\u0002뽀뽁뽄뽈뽐뽑뽕뾔뾰뿅뿌뿍뿐뿔뿜뿟뿡쀼쁑쁘쁜쁠쁨쁩삐삑삔삘삠삡삣삥사삭삯산삳\u0001\u0003삼삽삿\u0001\u0002샅새색샌샐샘샙샛\u0001\u0002샤퍪\u0001\u0011퍾퍿펁\u0001\u0002펅\u0001\u0002',
+    '\u0000\u0006펈\u0001\u0003펎펒\u0001\u0005펚펛펝\u0001\u0002펡\u0001\u0006펪펬펮\u0000\u0006펯\u0001\u0004펵\u0001\u0002펹\u0001\u0002펽\u0001\u0006폆폇폊\u0001\u0005폑',
+    '\u0001\u0005샥샨샬샴샵샷샹섀섄섈섐섕서\u0001\u0004섣설섦섧섬섭섯\u0001\u0002섶세섹센셀셈셉셋\u0001\u0002셔셕션셜셤셥셧\u0001\u0002셰셴셸솅소\u0001\u0002손솔솖솜솝솟송솥솨솩솬솰솽쇄쇈쇌쇔쇗쇘쇠쇤쇨쇰쇱쇳쇼쇽숀숄숌숍숏숑수숙순숟술',
+    '숨숩숫숭폗폙\u0001\u0007폢폤\u0001\u0007폮폯폱\u0001\u0002폵\u0001\u0002\u0000\u0006폸\u0001\u0003폾퐀퐂\u0001\u0005퐉\u0001\u000D\u0000\u0006퐗\u0001\u0005퐞',
+    '\u0001\u0019숯숱숲숴쉈쉐쉑쉔쉘쉠쉥쉬쉭쉰쉴쉼쉽쉿슁슈슉슐슘슛슝스슥슨슬슭슴습슷승시식신싣실싫\u0001\u0002싯싱싶싸싹싻싼쌀쌈쌉쌌쌍쌓\u0001\u0002쌘쌜쌤쌥쌨쌩썅써썩썬썰썲썸썹썼썽쎄쎈쎌쏀쏘쏙쏜쏟쏠쏢쏨쏩쏭쏴쏵쏸쐈쐐쐤쐬쐰퐸\u0001\u0007푁',
+    '\u0001\u0002푅\u0001\u000E\u0000\u0006푔\u0001\u0007푝\u0001\u0002푡\u0001\u0002푥\u0001\u0007푮푰\u0001\u0002\u0000\u0006푳\u0001\u0004푺푻푽푾풁풃\u0001\u0004풊풌풎',
+    '\u0001\u0005풕\u0001\u0008쐴쐼쐽쑈쑤쑥쑨쑬쑴쑵쑹쒀쒔쒜쒸쒼쓩쓰쓱쓴쓸쓺쓿\u0001\u0002씌씐씔씜씨씩씬씰씸씹씻씽아악안\u0001\u0002알\u0001\u0002앓\u0001\u0002앗\u0001\u0002앝앞애액앤앨앰앱앳\u0001\u0002야약얀',
+    '얄얇얌얍얏양얕얗얘얜얠얩어억언얹얻\u0001\u0003엄\u0001\u0006엌엎풞\u0001\u000A풪\u0001\u000E\u0000\u0006풹\u0001\u0012퓍\u0001\u0002퓑\u0001\u0002퓕\u0000\u0006퓖\u0001\u0005퓝퓞퓠',
+    '\u0001\u0007퓩\u0001\u0002퓭\u0001\u0002퓱\u0001\u0006퓹퓺퓼에엑엔엘엠엡엣엥여\u0001\u0002연열엶엷염\u0001\u0005옅\u0001\u0003옌옐옘옙옛옜오옥온올\u0001\u0002옰옳\u0001\u0002옷옹옻와왁완왈왐왑',
+    '왓\u0001\u0002왜왝왠왬왯왱외왹왼욀욈욉욋욍요욕욘욜욤욥욧용우욱운울\u0001\u0002움웁웃웅워웍원월웜웝웠웡웨퓾\u0001\u0005픅\u0001\u0002픉\u0001\u0002픍\u0001\u0006픖픘\u0001\u0005\u0000\u0006픞',
+    '\u0001\u0019\u0000\u0006픸\u0001\u0003픾픿핁\u0001\u0002핅\u0001\u0006핎핐핒\u0001\u0005핚핛핝\u0001\u0002핡\u0001\u0002웩웬웰웸웹웽위윅윈윌윔윕윗윙유육윤율윰윱윳융윷으윽은을읊음읍읏응',
+    '\u0001\u0007읜읠읨읫이익인일\u0001\u0002잃\u0001\u0002잇\u0001\u0003잎자작잔잖\u0001\u0002잚잠잡잣\u0001\u0003재잭잰잴잼잽잿\u0001\u0002쟈쟉쟌쟎쟐쟘쟝쟤쟨쟬저적전절젊핤핦핧핪핬핮\u0001\u0005핶핷핹',
+    '\u0001\u0002핽\u0001\u0006햆햊햋\u0000\u0006햌\u0001\u0003햑\u0001\u0013햦햧\u0000\u0006햨\u0001\u001F점접젓정젖제젝젠젤젬젭젯젱져젼졀졈졉졌졍졔조족존졸졺좀좁좃종\u0001\u0002좋\u0001\u0002좔좝',
+    '좟좡좨좼좽죄죈죌죔죕죗죙죠죡죤죵주죽준줄\u0001\u0002줌줍줏중줘줬줴쥐쥑쥔쥘쥠쥡쥣쥬쥰쥴쥼즈즉즌즐즘즙즛증지직진짇질짊짐집짓헊헋헍\u0001\u0002헑헓\u0001\u0004헚헜헞\u0001\u0005헦헧헩\u0001\u0002헭헮\u0000\u0006헯',
+    '\u0001\u0004헶헸헺\u0001\u0005혂혃혅\u0001\u0002혉\u0001\u0006혒\u0000\u0006혖\u0001\u0005혝\u0001\u0002혡\u0001\u0002혥\u0001\u0007혮\u0001\u0009혺혻징짖짙짚짜짝짠짢짤짧짬짭짯',
+    '\u0001\u0002째짹짼쨀쨈쨉쨋\u0001\u0002쨔쨘쨩쩌쩍쩐쩔쩜쩝쩟\u0001\u0002쩨쩽쪄쪘쪼쪽쫀쫄쫌쫍쫏쫑쫓쫘쫙쫠쫬쫴쬈쬐쬔쬘쬠쬡쭁쭈쭉쭌쭐쭘쭙쭝쭤쭸쭹쮜쮸쯔쯤쯧쯩찌찍찐찔찜찝찡찢찧\u0001\u0002찬찮찰참찹찻혽\u0001\u0002홁\u0001\u0003홆홇홊',
+    '홌홎\u0001\u0002홒홓홖홗홙\u0001\u0002홝\u0001\u0004\u0000\u0006홢\u0001\u0004홨홪\u0001\u0005홲홳홵\u0001\u000B\u0000\u0006횁횂횄횆\u0001\u0005횎횏횑\u0001\u0002횕',
+    '\u0001\u0007횞횠횢\u0001\u0005횩횪찼\u0001\u0002채책챈챌챔챕챗\u0001\u0002챠챤챦챨챰챵처척천철첨첩첫\u0001\u0002체첵첸첼쳄쳅쳇쳉쳐쳔쳤쳬쳰촁초촉촌촐촘촙촛총촤촨촬촹최쵠쵤쵬쵭쵯쵱쵸춈추축춘출춤춥춧충춰췄췌췐취췬췰췸췹췻췽츄츈츌츔츙츠측츤츨츰',
+    '츱츳층횫횭\u0001\u0002횱\u0001\u0007횺횼\u0001\u0007훆훇훉\u0001\u0002\u0000\u0006훍\u0001\u0003훒훓훕훖훘훚\u0001\u0005훡\u0001\u0002훥\u0001\u0002훩\u0001\u0004',
+    '\u0000\u0006훮훯훱\u0001\u0003훶\u0001\u0005훾훿휁\u0001\u0002휅\u0001\u000B휒\u0001\u0002치칙친칟\u0001\u0002침칩칫칭카칵칸칼캄캅캇캉캐캑캔캘캠캡캣\u0001\u0002캬캭컁커컥컨컫컬컴컵컷',
+    '\u0001\u0002케켁켄켈켐켑켓켕켜켠켤켬켭켯\u0001\u0002켸코콕콘콜콤콥콧콩콰콱콴콸쾀쾅쾌쾡쾨쾰쿄쿠쿡쿤쿨쿰쿱쿳쿵쿼퀀퀄퀑퀘퀭퀴퀵퀸퀼휕\u0001\u0002휚휛휝\u0001\u0002휡\u0001\u0006휪휬휮\u0001\u0005휶휷휹\u0000\u0006휺휻휽',
+    '\u0001\u0006흅흆흈흊\u0001\u0005흒흓흕흚\u0001\u0004\u0000\u0006흟흢흤흦\u0001\u0002흪흫흭\u0001\u0002흱\u0001\u0002흵\u0001\u0006흾\u0001\u0002힂\u0001\u0005힊힋큄큅큇큉큐큔큘큠크',
+    '큭큰클큼큽킁키킥킨킬킴킵킷킹타탁탄탈탉탐탑탓\u0001\u0002태택탠탤탬탭탯\u0001\u0002탸턍터턱턴털턺텀텁텃\u0001\u0002테텍텐텔템텝텟텡텨텬텼톄톈토톡톤톨톰톱톳통톺톼퇀퇘퇴퇸툇툉툐투툭툰툴툼툽툿퉁퉈퉜힍\u0001\u0002힑\u0001\u0006힚힜힞',
+    '\u0001\u0005\u0000\u004E퉤튀튁튄튈튐튑튕튜튠튤튬튱트특튼튿틀틂틈틉틋틔틘틜틤틥티틱틴틸팀팁팃팅파\u0001\u0002판팔팖팜팝팟\u0001\u0002팥패팩팬팰팸팹팻\u0001\u0002퍄퍅퍼퍽펀펄펌펍펏\u0001\u0002페펙펜펠펨펩펫펭펴편펼폄폅폈평폐폘폡폣',
+    '포폭폰폴폼폽폿퐁\u0000\u0060퐈퐝푀푄표푠푤푭푯푸푹푼푿풀풂품풉풋풍풔풩퓌퓐퓔퓜퓟퓨퓬퓰퓸퓻퓽프픈플픔픕픗피픽핀필핌핍핏핑하학한할핥함합핫항해핵핸핼햄햅햇\u0001\u0002햐향허헉헌헐헒험헙헛헝헤헥헨헬헴헵헷헹혀혁현혈혐협혓\u0001\u0002혜혠\u0000\u0060혤혭호혹',
+    '혼홀홅홈홉홋홍홑화확환활홧황홰홱홴횃횅회획횐횔횝횟횡효횬횰횹횻후훅훈훌훑훔훗훙훠훤훨훰훵훼훽휀휄휑휘휙휜휠휨휩휫휭휴휵휸휼흄흇흉흐흑흔흖\u0001\u0003흠흡흣흥흩희흰흴흼흽힁히힉힌힐힘힙힛힝\u0000\u011E伽佳假價加可呵哥嘉嫁家暇架枷柯歌珂痂稼苛茄街袈訶賈跏軻迦駕刻却各恪慤殼珏脚覺角',
+    '閣侃刊墾奸姦干幹懇揀杆柬桿澗癎看磵稈竿簡肝艮艱諫間乫喝曷渴碣竭葛褐蝎鞨勘坎堪嵌感憾戡敢柑橄減甘疳監瞰紺邯鑑鑒龕\u0000\u0060匣岬甲胛鉀閘剛堈姜岡崗康强彊慷江畺疆糠絳綱羌腔舡薑襁講鋼降鱇介价個凱塏愷愾慨改槪漑疥皆盖箇芥蓋豈鎧開喀客坑更粳羹醵倨去居巨拒据據擧渠炬祛距踞車遽鉅鋸乾件健巾建愆楗腱虔',
+    '蹇鍵騫乞傑杰桀儉劍劒檢\u0000\u0060瞼鈐黔劫怯迲偈憩揭擊格檄激膈覡隔堅牽犬甄絹繭肩見譴遣鵑抉決潔結缺訣兼慊箝謙鉗鎌京俓倞傾儆勁勍卿坰境庚徑慶憬擎敬景暻更梗涇炅烱璟璥瓊痙硬磬竟競絅經耕耿脛莖警輕逕鏡頃頸驚鯨係啓堺契季屆悸戒桂械\u0000\u0060棨溪界癸磎稽系繫繼計誡谿階鷄古叩告呱固姑孤',
+    '尻庫拷攷故敲暠枯槁沽痼皐睾稿羔考股膏苦苽菰藁蠱袴誥賈辜錮雇顧高鼓哭斛曲梏穀谷鵠困坤崑昆梱棍滾琨袞鯤汨滑骨供公共功孔工恐恭拱控攻珙空蚣貢鞏串寡戈果瓜\u0000\u0060科菓誇課跨過鍋顆廓槨藿郭串冠官寬慣棺款灌琯瓘管罐菅觀貫關館刮恝括适侊光匡壙廣曠洸炚狂珖筐胱鑛卦掛罫乖傀塊壞怪愧拐槐魁宏紘肱轟交僑咬',
+    '喬嬌嶠巧攪敎校橋狡皎矯絞翹膠蕎蛟較轎郊餃驕鮫丘久九仇俱具勾\u0000\u0060區口句咎嘔坵垢寇嶇廐懼拘救枸柩構歐毆毬求溝灸狗玖球瞿矩究絿耉臼舅舊苟衢謳購軀逑邱鉤銶駒驅鳩鷗龜國局菊鞠鞫麴君窘群裙軍郡堀屈掘窟宮弓穹窮芎躬倦券勸卷圈拳捲權淃眷厥獗蕨蹶闕机櫃潰詭軌饋句晷歸貴\u0000\u0060鬼龜叫',
+    '圭奎揆槻珪硅窺竅糾葵規赳逵閨勻均畇筠菌鈞龜橘克剋劇戟棘極隙僅劤勤懃斤根槿瑾筋芹菫覲謹近饉契今妗擒昑檎琴禁禽芩衾衿襟金錦伋及急扱汲級給亘兢矜肯企伎其冀嗜器圻基埼夔奇妓寄岐崎己幾忌技旗旣\u0000\u0060朞期杞棋棄機欺氣汽沂淇玘琦琪璂璣畸畿碁磯祁祇祈祺箕紀綺羈耆耭肌記譏豈起錡錤飢饑騎騏驥麒緊佶吉拮',
+    '桔金喫儺喇奈娜懦懶拏拿癩\u0001\u0005那樂\u0001\u0004諾酪\u0001\u0003暖欄煖爛蘭難鸞捏捺南嵐枏楠湳濫男藍\u0001\u0002\u0000\u0060納臘蠟衲囊娘廊\u0001\u0004乃來內奈柰耐冷女年撚秊念恬拈捻寧寗努勞奴弩怒擄\u0001\u0002瑙盧',
+    '\u0001\u0005駑魯\u0001\u000A濃籠聾膿農惱牢磊腦賂雷尿壘\u0001\u0007嫩訥杻紐勒\u0001\u0005能菱陵尼泥匿溺多茶\u0000\u0060丹亶但單團壇彖斷旦檀段湍短端簞緞蛋袒鄲鍛撻澾獺疸達啖坍憺擔曇淡湛潭澹痰聃膽蕁覃談譚錟沓畓答踏遝唐堂塘幢戇撞棠當糖螳黨代垈坮',
+    '大對岱帶待戴擡玳臺袋貸隊黛宅德悳倒刀到圖堵塗導屠島嶋度徒悼挑掉搗桃\u0000\u0060棹櫂淘渡滔濤燾盜睹禱稻萄覩賭跳蹈逃途道都鍍陶韜毒瀆牘犢獨督禿篤纛讀墩惇敦旽暾沌焞燉豚頓乭突仝冬凍動同憧東桐棟洞潼疼瞳童胴董銅兜斗杜枓痘竇荳讀豆逗頭屯臀芚遁遯鈍得嶝橙燈登等藤謄鄧騰喇懶拏癩羅',
+    '\u0000\u0060蘿螺裸邏樂洛烙珞絡落諾酪駱丹亂卵欄欒瀾爛蘭鸞剌辣嵐擥攬欖濫籃纜藍襤覽拉臘蠟廊朗浪狼琅瑯螂郞來崍徠萊冷掠略亮倆兩凉梁樑粮粱糧良諒輛量侶儷勵呂廬慮戾旅櫚濾礪藜蠣閭驢驪麗黎力曆歷瀝礫轢靂憐戀攣漣\u0000\u0060煉璉練聯蓮輦連鍊冽列劣洌烈裂廉斂殮濂簾獵令伶囹寧岺嶺怜玲笭羚翎聆',
+    '逞鈴零靈領齡例澧禮醴隷勞怒撈擄櫓潞瀘爐盧老蘆虜路輅露魯鷺鹵碌祿綠菉錄鹿麓論壟弄朧瀧瓏籠聾儡瀨牢磊賂賚賴雷了僚寮廖料燎療瞭聊蓼\u0000\u0060遼鬧龍壘婁屢樓淚漏瘻累縷蔞褸鏤陋劉旒柳榴流溜瀏琉瑠留瘤硫謬類六戮陸侖倫崙淪綸輪律慄栗率隆勒肋凜凌楞稜綾菱陵俚利厘吏唎履悧李梨浬犁狸理璃異痢籬罹羸莉裏裡里',
+    '釐離鯉吝潾燐璘藺躪隣鱗麟林淋琳臨霖砬\u0000\u0060立笠粒摩瑪痲碼磨馬魔麻寞幕漠膜莫邈万卍娩巒彎慢挽晩曼滿漫灣瞞萬蔓蠻輓饅鰻唜抹末沫茉襪靺亡妄忘忙望網罔芒茫莽輞邙埋妹媒寐昧枚梅每煤罵買賣邁魅脈貊陌驀麥孟氓猛盲盟萌冪覓免冕勉棉沔眄眠綿緬面麵滅\u0000\u0060蔑冥名命明暝椧溟皿瞑茗蓂螟酩',
+    '銘鳴袂侮冒募姆帽慕摸摹暮某模母毛牟牡瑁眸矛耗芼茅謀謨貌木沐牧目睦穆鶩歿沒夢朦蒙卯墓妙廟描昴杳渺猫竗苗錨務巫憮懋戊拇撫无楙武毋無珷畝繆舞茂蕪誣貿霧鵡墨默們刎吻問文\u0000\u0060汶紊紋聞蚊門雯勿沕物味媚尾嵋彌微未梶楣渼湄眉米美薇謎迷靡黴岷悶愍憫敏旻旼民泯玟珉緡閔密蜜謐剝博拍搏撲朴樸泊珀璞箔粕縛',
+    '膊舶薄迫雹駁伴半反叛拌搬攀斑槃泮潘班畔瘢盤盼磐磻礬絆般蟠返頒飯勃拔撥渤潑\u0000\u0060發跋醱鉢髮魃倣傍坊妨尨幇彷房放方旁昉枋榜滂磅紡肪膀舫芳蒡蚌訪謗邦防龐倍俳北培徘拜排杯湃焙盃背胚裴裵褙賠輩配陪伯佰帛柏栢白百魄幡樊煩燔番磻繁蕃藩飜伐筏罰閥凡帆梵氾汎泛犯範范法琺僻劈壁擘檗璧癖',
+    '\u0000\u0060碧蘗闢霹便卞弁變辨辯邊別瞥鱉鼈丙倂兵屛幷昞昺柄棅炳甁病秉竝輧餠騈保堡報寶普步洑湺潽珤甫菩補褓譜輔伏僕匐卜宓復服福腹茯蔔複覆輹輻馥鰒本乶俸奉封峯峰捧棒烽熢琫縫蓬蜂逢鋒鳳不付俯傅剖副否咐埠夫婦\u0000\u0060孚孵富府復扶敷斧浮溥父符簿缶腐腑膚艀芙莩訃負賦賻赴趺部釜阜附駙鳧',
+    '北分吩噴墳奔奮忿憤扮昐汾焚盆粉糞紛芬賁雰不佛弗彿拂崩朋棚硼繃鵬丕備匕匪卑妃婢庇悲憊扉批斐枇榧比毖\u0001\u0002沸泌琵痺砒碑秕秘粃緋翡肥\u0000\u0060脾臂菲蜚裨誹譬費鄙非飛鼻嚬嬪彬斌檳殯浜濱瀕牝玭貧賓頻憑氷聘騁乍事些仕伺似使俟僿史司唆嗣四士奢娑寫寺射巳師徙思捨斜斯柶査梭死沙泗渣瀉獅',
+    '砂社祀祠私篩紗絲肆舍莎蓑蛇裟詐詞謝賜赦辭邪飼駟麝削數朔索\u0000\u0060傘刪山散汕珊産疝算蒜酸霰乷撒殺煞薩三參杉森渗芟蔘衫揷澁鈒颯上傷像償商喪嘗孀尙峠常床庠廂想桑橡湘爽牀狀相祥箱翔裳觴詳象賞霜塞璽賽嗇塞穡索色牲生甥省笙墅壻嶼序庶徐恕抒捿敍暑曙書栖棲犀瑞筮絮緖署\u0000\u0060胥舒薯西',
+    '誓逝鋤黍鼠夕奭席惜昔晳析汐淅潟石碩蓆釋錫仙僊先善嬋宣扇敾旋渲煽琁瑄璇璿癬禪線繕羨腺膳船蘚蟬詵跣選銑鐥饍鮮卨屑楔泄洩渫舌薛褻設說雪齧剡暹殲纖蟾贍閃陝攝涉燮葉城姓宬性惺成星晟猩珹盛省筬\u0000\u0060聖聲腥誠醒世勢歲洗稅笹細說貰召嘯塑宵小少巢所掃搔昭梳沼消溯瀟炤燒甦疏疎瘙笑篠簫素紹蔬蕭蘇訴逍遡邵',
+    '銷韶騷俗屬束涑粟續謖贖速孫巽損蓀遜飡率宋悚松淞訟誦送頌刷殺灑碎鎖衰釗修受嗽囚垂壽嫂守岫峀帥愁\u0000\u0060戍手授搜收數樹殊水洙漱燧狩獸琇璲瘦睡秀穗竪粹綏綬繡羞脩茱蒐蓚藪袖誰讐輸遂邃酬銖銹隋隧隨雖需須首髓鬚叔塾夙孰宿淑潚熟琡璹肅菽巡徇循恂旬栒楯橓殉洵淳珣盾瞬筍純脣舜荀蓴蕣詢諄醇錞順馴戌術述鉥',
+    '崇崧\u0000\u0060嵩瑟膝蝨濕拾習褶襲丞乘僧勝升承昇繩蠅陞侍匙嘶始媤尸屎屍市弑恃施是時枾柴猜矢示翅蒔蓍視試詩諡豕豺埴寔式息拭植殖湜熄篒蝕識軾食飾伸侁信呻娠宸愼新晨燼申神紳腎臣莘薪藎蜃訊身辛辰迅失室實悉審尋心沁\u0000\u0060沈深瀋甚芯諶什十拾雙氏亞俄兒啞娥峨我牙芽莪蛾衙訝阿雅餓鴉鵝堊',
+    '岳嶽幄惡愕握樂渥鄂鍔顎鰐齷安岸按晏案眼雁鞍顔鮟斡謁軋閼唵岩巖庵暗癌菴闇壓押狎鴨仰央怏昻殃秧鴦厓哀埃崖愛曖涯碍艾隘靄厄扼掖液縊腋額\u0000\u0060櫻罌鶯鸚也倻冶夜惹揶椰爺耶若野弱掠略約若葯蒻藥躍亮佯兩凉壤孃恙揚攘敭暘梁楊樣洋瀁煬痒瘍禳穰糧羊良襄諒讓釀陽量養圄御於漁瘀禦語馭魚齬億憶抑檍臆偃堰彦焉',
+    '言諺孼蘖俺儼嚴奄掩淹嶪業円予余勵\u0001\u0002如廬\u0000\u0060旅歟汝濾璵礖礪與艅茹輿轝閭餘驪\u0001\u0002亦力域役易曆歷疫繹譯轢逆驛嚥堧姸娟宴年延憐戀捐挻撚椽沇沿涎涓淵演漣烟然煙煉燃燕璉硏硯秊筵緣練縯聯衍軟輦\u0001\u0002鉛鍊鳶列\u0001\u0002悅涅',
+    '烈熱裂說閱厭廉\u0001\u0002染殮炎焰琰艶苒\u0000\u0060簾閻髥鹽曄獵燁葉令囹塋寧嶺嶸影怜映暎楹榮永泳渶潁濚瀛瀯煐營獰玲瑛瑩瓔盈穎纓羚聆英詠迎鈴鍈零霙靈領乂倪例刈叡曳汭濊猊睿穢芮藝蘂禮裔詣譽豫醴銳隸霓預五伍俉傲午吾吳嗚塢墺奧娛寤悟惡懊敖旿晤梧汚澳\u0000\u0060烏熬獒筽蜈誤',
+    '鰲鼇屋沃獄玉鈺溫瑥瘟穩縕蘊兀壅擁瓮甕癰翁邕雍饔渦瓦窩窪臥蛙蝸訛婉完宛梡椀浣玩琓琬碗緩翫脘腕莞豌阮頑曰往旺枉汪王倭娃歪矮外嵬巍猥畏了僚僥凹堯夭妖姚寥寮尿嶢拗搖撓擾料曜樂橈燎燿瑤療\u0000\u0060窈窯繇繞耀腰蓼蟯要謠遙遼邀饒慾欲浴縟褥辱俑傭冗勇埇墉容庸慂榕涌湧溶熔瑢用甬聳茸蓉踊鎔鏞龍于佑偶優又友',
+    '右宇寓尤愚憂旴牛玗瑀盂祐禑禹紆羽芋藕虞迂遇郵釪隅雨雩勖彧旭昱栯煜稶郁頊云暈橒殞澐熉耘芸蕓\u0000\u0060運隕雲韻蔚鬱亐熊雄元原員圓園垣媛嫄寃怨愿援沅洹湲源爰猿瑗苑袁轅遠阮院願鴛月越鉞位偉僞危圍委威尉慰暐渭爲瑋緯胃萎葦蔿蝟衛褘謂違韋魏乳侑儒兪劉唯喩孺宥幼幽庾悠惟愈愉揄攸有杻柔柚柳楡楢油洧流游溜',
+    '\u0000\u0060濡猶猷琉瑜由留癒硫紐維臾萸裕誘諛諭踰蹂遊逾遺酉釉鍮類六堉戮毓肉育陸倫允奫尹崙淪潤玧胤贇輪鈗閏律\u0001\u0003聿戎瀜絨融隆垠恩慇殷誾銀隱乙吟淫蔭陰音飮揖泣邑凝應膺鷹依倚儀宜意懿擬椅毅疑矣義艤薏蟻衣誼\u0000\u0060議醫二以伊利吏夷姨履已弛彛怡易',
+    '\u0001\u0003爾珥理異痍痢移罹而耳肄苡荑裏裡貽貳邇里離飴餌匿溺瀷益翊翌翼謚人仁刃印吝咽因姻寅引忍湮燐璘絪茵藺蚓認隣靭靷鱗麟一佚佾壹日溢逸鎰馹任壬妊姙恁林淋稔臨荏賃入卄\u0000\u0060立\u0001\u0002仍剩孕芿仔刺咨姉姿子字孜恣慈滋炙煮玆瓷疵磁紫者自茨蔗藉諮資雌作勺嚼斫昨灼炸',
+    '爵綽芍酌雀鵲孱棧殘潺盞岑暫潛箴簪蠶雜丈仗匠場墻壯奬將帳庄張掌暲杖樟檣欌漿牆狀獐璋章粧腸臟臧莊葬蔣薔藏裝贓醬長\u0000\u0060障再哉在宰才材栽梓渽滓災縡裁財載齋齎爭箏諍錚佇低儲咀姐底抵杵楮樗沮渚狙猪疽箸紵苧菹著藷詛貯躇這邸雎齟勣吊嫡寂摘敵滴狄炙的積笛籍績翟荻謫賊赤跡蹟迪迹適鏑佃佺傳全典前剪塡塼',
+    '奠專展廛悛戰栓殿氈澱\u0000\u0060煎琠田甸畑癲筌箋箭篆纏詮輾轉鈿銓錢鐫電顚顫餞切截折浙癤竊節絶占岾店漸点粘霑鮎點接摺蝶丁井亭停偵呈姃定幀庭廷征情挺政整旌晶晸柾楨檉正汀淀淨渟湞瀞炡玎珽町睛碇禎程穽精綎艇訂諪貞鄭酊釘鉦鋌錠霆靖\u0000\u0060靜頂鼎制劑啼堤帝弟悌提梯濟祭第臍薺製諸蹄醍除',
+    '際霽題齊俎兆凋助嘲弔彫措操早晁曺曹朝條棗槽漕潮照燥爪璪眺祖祚租稠窕粗糟組繰肇藻蚤詔調趙躁造遭釣阻雕鳥族簇足鏃存尊卒拙猝倧宗從悰慫棕淙琮種終綜縱腫\u0000\u0060踪踵鍾鐘佐坐左座挫罪主住侏做姝胄呪周嗾奏宙州廚晝朱柱株注洲湊澍炷珠疇籌紂紬綢舟蛛註誅走躊輳週酎酒鑄駐竹粥俊儁准埈寯峻晙樽浚準濬焌畯竣',
+    '蠢逡遵雋駿茁中仲衆重卽櫛楫汁葺增憎曾拯烝甑症繒蒸證贈之只\u0000\u0060咫地址志持指摯支旨智枝枳止池沚漬知砥祉祗紙肢脂至芝芷蜘誌識贄趾遲直稙稷織職唇嗔塵振搢晉晋桭榛殄津溱珍瑨璡畛疹盡眞瞋秦縉縝臻蔯袗診賑軫辰進鎭陣陳震侄叱姪嫉帙桎瓆疾秩窒膣蛭質跌迭斟朕什執潗緝輯\u0000\u0060鏶集徵懲',
+    '澄且侘借叉嗟嵯差次此磋箚茶蹉車遮捉搾着窄錯鑿齪撰澯燦璨瓚竄簒纂粲纘讚贊鑽餐饌刹察擦札紮僭參塹慘慙懺斬站讒讖倉倡創唱娼廠彰愴敞昌昶暢槍滄漲猖瘡窓脹艙菖蒼債埰寀寨彩採砦綵菜蔡采釵冊柵策\u0000\u0060責凄妻悽處倜刺剔尺慽戚拓擲斥滌瘠脊蹠陟隻仟千喘天川擅泉淺玔穿舛薦賤踐遷釧闡阡韆凸哲喆徹撤澈綴輟轍',
+    '鐵僉尖沾添甛瞻簽籤詹諂堞妾帖捷牒疊睫諜貼輒廳晴淸聽菁請靑鯖切剃替涕滯締諦逮遞體初剿哨憔抄招梢\u0000\u0060椒楚樵炒焦硝礁礎秒稍肖艸苕草蕉貂超酢醋醮促囑燭矗蜀觸寸忖村邨叢塚寵悤憁摠總聰蔥銃撮催崔最墜抽推椎楸樞湫皺秋芻萩諏趨追鄒酋醜錐錘鎚雛騶鰍丑畜祝竺筑築縮蓄蹙蹴軸逐春椿瑃出朮黜充忠沖蟲衝衷悴',
+    '膵萃\u0000\u0060贅取吹嘴娶就炊翠聚脆臭趣醉驟鷲側仄厠惻測層侈値嗤峙幟恥梔治淄熾痔痴癡稚穉緇緻置致蚩輜雉馳齒則勅飭親七柒漆侵寢枕沈浸琛砧針鍼蟄秤稱快他咤唾墮妥惰打拖朶楕舵陀馱駝倬卓啄坼度托拓擢晫柝濁濯琢琸託\u0000\u0060鐸呑嘆坦彈憚歎灘炭綻誕奪脫探眈耽貪塔搭榻宕帑湯糖蕩兌台太怠態',
+    '殆汰泰笞胎苔跆邰颱宅擇澤撑攄兎吐土討慟桶洞痛筒統通堆槌腿褪退頹偸套妬投透鬪慝特闖坡婆巴把播擺杷波派爬琶破罷芭跛頗判坂板版瓣販辦鈑\u0000\u0060阪八叭捌佩唄悖敗沛浿牌狽稗覇貝彭澎烹膨愎便偏扁片篇編翩遍鞭騙貶坪平枰萍評吠嬖幣廢弊斃肺蔽閉陛佈包匍匏咆哺圃布怖抛抱捕暴泡浦疱砲胞脯苞葡蒲袍褒逋鋪飽鮑',
+    '幅暴曝瀑爆輻俵剽彪慓杓標漂瓢票表豹飇飄驃\u0000\u0060品稟楓諷豊風馮彼披疲皮被避陂匹弼必泌珌畢疋筆苾馝乏逼下何厦夏廈昰河瑕荷蝦賀遐霞鰕壑學虐謔鶴寒恨悍旱汗漢澣瀚罕翰閑閒限韓割轄函含咸啣喊檻涵緘艦銜陷鹹合哈盒蛤閤闔陜亢伉姮嫦巷恒抗杭桁沆港缸肛航\u0000\u0060行降項亥偕咳垓奚孩害懈楷',
+    '海瀣蟹解該諧邂駭骸劾核倖幸杏荇行享向嚮珦鄕響餉饗香噓墟虛許憲櫶獻軒歇險驗奕爀赫革俔峴弦懸晛泫炫玄玹現眩睍絃絢縣舷衒見賢鉉顯孑穴血頁嫌俠協夾峽挾浹狹脅脇莢鋏頰亨兄刑型\u0000\u0060形泂滎瀅灐炯熒珩瑩荊螢衡逈邢鎣馨兮彗惠慧暳蕙蹊醯鞋乎互呼壕壺好岵弧戶扈昊晧毫浩淏湖滸澔濠濩灝狐琥瑚瓠皓祜糊縞胡芦',
+    '葫蒿虎號蝴護豪鎬頀顥惑或酷婚昏混渾琿魂忽惚笏哄弘汞泓洪烘紅虹訌鴻化和嬅樺火畵\u0000\u0060禍禾花華話譁貨靴廓擴攫確碻穫丸喚奐宦幻患換歡晥桓渙煥環紈還驩鰥活滑猾豁闊凰幌徨恍惶愰慌晃晄榥況湟滉潢煌璜皇篁簧荒蝗遑隍黃匯回廻徊恢悔懷晦會檜淮澮灰獪繪膾茴蛔誨賄劃獲宖橫鐄哮嚆孝效斅曉梟涍淆',
+    '\u0000\u0060爻肴酵驍侯候厚后吼喉嗅帿後朽煦珝逅勛勳塤壎焄熏燻薰訓暈薨喧暄煊萱卉喙毁彙徽揮暉煇諱輝麾休携烋畦虧恤譎鷸兇凶匈洶胸黑昕欣炘痕吃屹紇訖欠欽歆吸恰洽翕興僖凞喜噫囍姬嬉希憙憘戱晞曦熙熹熺犧禧稀羲詰'
+].join('');
@@ -0,0 +1,284 @@
+/**
+ * The WHATWG `gb18030` index of two-byte sequences, used by the GBK and GB18030 codecs.
+ *
+ * ## Description:
+ * The pointer of a character is `(lead - 0x81) * 190 + (trail - 0x40)`, skipping trail byte `0x7F`.
+ * It includes the GB18030-2022 remapping of the vertical forms from the private use area to U+FE10–U+FE19.
+ *
+ * The index is stored compactly and expanded by the CJK codecs the first time it is used.
+ * Reading the string by code points, every character is the code point of the next pointer, except:
+ * - `'\u0000'` followed by a character `n`: the next `n` pointers (the char code of `n`) are not mapped.
+ * - `'\u0001'` followed by a character `n`: the next `n` pointers continue the sequence of the previous code point
+ *   (each one is the previous code point plus one).
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(gb18030Index.codePointAt(0));  // Outputs: 19970 (U+4E02 at pointer 0, bytes 81 40)
+ * ```
+ */
+
+export const gb18030Index = [
+    '丂丄\u0001\u0002丏丒丗丟\u0001\u0002丣並丩丮丯丱丳丵丷丼乀\u0001\u0002乄乆乊乑乕乗乚乛乢\u0001\u0003乧乨乪\u0001\u0005乲乴\u0001\u0009乿\u0001\u0006亇亊亐亖亗亙亜\u0001\u0002亣亪亯\u0001\u0002',
+    '亴亶\u0001\u0003亼\u0001\u0002仈仌仏仐仒仚\u0001\u0002仠仢仦仧仩仭\u0001\u0002仱仴仸\u0001\u0002仼仾伀伂\u0001\u0006伋伌伒\u0001\u0004伜伝伡伣伨伩伬\u0001\u0002伱伳伵伷伹伻伾\u0001\u0004佄佅佇',
+    '\u0001\u0005佒佔佖佡佢佦佨佪佫佭佮佱佲併佷\u0001\u0003佽侀\u0001\u0002侅\u0001\u0002侊侌侎侐侒侓侕侖侘\u0001\u0002侜侞侟価侢侤侫侭侰\u0001\u0004侶\u0001\u0008俀\u0001\u0002俆\u0001\u0003俋',
+    '\u0001\u0002俒\u0001\u0004俙俛俠俢俤俥俧俫俬俰俲俴\u0001\u0003俹俻\u0001\u0002俿\u0001\u000C倎倐們倓倕\u0001\u0002倛倝倞倠倢\u0001\u0002倧倫倯\u0001\u000A倻倽倿\u0001\u0003偄',
+    '\u0001\u0002偉\u0001\u0002偍偐\u0001\u0004偖\u0001\u0003偛偝\u0001\u0007偦\u0001\u0005偭\u0001\u0008偸\u0001\u0002偼偽傁\u0001\u0003傆傇傉\u0001\u0003傎\u0001\u0014傤傦',
+    '傪傫傭\u0001\u0004傳\u0001\u0006傼\u0001\u0012僐\u0001\u0005僗\u0001\u0002僛\u0001\u000A僨\u0001\u0003僯\u0001\u0003僴僶\u0001\u0004僼\u0001\u0009儈\u0001\u0002儌',
+    '\u0001\u0005儓\u0001\u000D儢\u0001\u001C兂兇兊兌兎\u0001\u0002兒兓兗\u0001\u0002兛兝\u0001\u0004兣兤兦內兩兪兯兲兺兾兿冃冄円冇冊冋冎\u0001\u0003冓冔冘冚冝\u0001\u0002冡冣冦\u0001\u0004冭冮冴冸',
+    '\u0001\u0002冾冿凁\u0001\u0002凅凈凊凍凎凐凒\u0001\u0008凜凞凟凢凣凥\u0001\u0005凬凮凱凲凴凷凾刄刅刉刋刌刏刐刓\u0001\u0002刜刞刟刡\u0001\u0002別\u0001\u0002刪刬刯刱刲刴刵刼刾剄\u0001\u0005剋剎剏剒剓剕剗',
+    '\u0001\u0004剝剟剠剢\u0001\u0002剦剨剫\u0001\u0003剰剱剳\u0001\u0009剾劀劃\u0001\u0004劉\u0001\u0006劑劒劔\u0001\u0006劜劤\u0001\u0003劮\u0001\u0002労\u0001\u0009勀',
+    '\u0001\u0002勄\u0001\u0002勈勊勌\u0001\u0003勑勓\u0001\u0002勗務\u0001\u0005勠\u0001\u0003勥\u0001\u000A勱\u0001\u0007勻\u0001\u0002匁\u0001\u0003匇匉\u0001\u0003匎匑',
+    '\u0001\u0003匘匛匜匞匟匢匤匥匧\u0001\u0002匫\u0001\u0002匯\u0001\u0009匼匽區卂卄卆卋\u0001\u0002卐協単卙卛卝卥卨卪卬卭卲卶卹卻\u0001\u0003厀厁厃厇厈厊厎\u0001\u0006厖厗厙厛厜厞厠厡厤厧厪\u0001\u0003厯',
+    '\u0001\u0006厷\u0001\u0003厼\u0001\u0002叀參\u0001\u0004収\u0001\u0002叒叓叕叚叜\u0001\u0002叡叢叧叴叺叾\u0001\u0002吂吅吇吋吔吘\u0001\u0002吜吢吤吥吪吰吳吶吷吺吽吿呁呂呄呅呇呉呌\u0001\u0003呑',
+    '呚呝\u0001\u0004呣呥呧呩\u0001\u0007呴呹呺呾呿咁咃咅咇\u0001\u0003咍咑咓咗咘咜咞\u0001\u0004咥咮咰咲咵\u0001\u0002咹咺咼咾哃哅哊哋哖哘哛哠\u0001\u0004哫哬哯\u0001\u0002哴\u0001\u0005哻哾唀唂',
+    '\u0001\u0003唈唊\u0001\u0004唒唓唕\u0001\u0005唜\u0001\u0003唡唥唦唨唩唫唭唲唴\u0001\u0002唸\u0001\u0003唽啀啂啅啇啈啋\u0001\u0004啑\u0001\u0003啗\u0001\u0004啝\u0001\u0003啢啣啨啩',
+    '啫啯\u0001\u0005啹啺啽啿喅喆喌\u0001\u0002喐喒喓喕\u0001\u0002喚喛喞喠\u0001\u0006喨\u0001\u0008喲喴営喸喺喼喿\u0001\u0004嗆\u0001\u0002嗊嗋嗎\u0001\u0002嗕嗗\u0001\u0004嗞嗠嗢嗧嗩嗭嗮嗰嗱嗴嗶',
+    '嗸\u0001\u0004嗿嘂\u0001\u0005嘊嘋嘍嘐\u0001\u0007嘙嘚嘜嘝嘠\u0001\u0002嘥嘦嘨\u0001\u0003嘮\u0001\u0002嘳嘵嘷嘸嘺嘼\u0001\u0002噀\u0001\u000B噏\u0001\u0004噕噖噚噛噝\u0001\u0004噣',
+    '噥\u0001\u0002噭\u0001\u0003噲\u0001\u0003噷\u0001\u0003噽\u0001\u0007嚇\u0001\u0006嚐\u0001\u0002嚔\u0001\u000E嚤\u0001\u000A嚰\u0001\u0006嚸\u0001\u0003嚽',
+    '\u0001\u000C囋\u0001\u0008囕囖囘囙囜団囥\u0001\u0005囬囮囯囲図囶\u0001\u0002囻囼圀\u0001\u0002圅圇國\u0001\u0010圝圞圠\u0001\u0002圤\u0001\u0003圫圱圲圴\u0001\u0004圼圽圿坁坃',
+    '\u0001\u0003坈坉坋坒\u0001\u0004坘坙坢坣坥坧坬坮坰\u0001\u0002坴坵坸\u0001\u0002坽\u0001\u0004垇\u0001\u0003垍\u0001\u0004垔\u0001\u0006垜\u0001\u0003垥垨垪垬垯\u0001\u0002垳垵',
+    '\u0001\u0002垹\u0001\u0008埄\u0001\u0006埌埍埐埑埓埖埗埛埜埞埡\u0001\u0002埥\u0001\u0007埮埰\u0001\u0003埵\u0001\u0002埻埼埾埿堁堃\u0001\u0002堈\u0001\u0002堌堎\u0001\u0002堒',
+    '\u0001\u0002堖\u0001\u0002堚\u0001\u0003堟堢堣堥\u0001\u0004堫\u0001\u0004報\u0001\u0003堶\u0001\u000D塅\u0001\u0006塎\u0001\u0002塒塓塕\u0001\u0002塙\u0001\u0004塟',
+    '\u0001\u0005塦\u0001\u0004塭\u0001\u0010塿墂墄墆\u0001\u0002墊\u0001\u0007墔\u0001\u0004墛\u0001\u0002墠\u0001\u0007墪\u0001\u0011墽\u0001\u0003壂\u0001\u0002壆',
+    '\u0001\u000A壒\u0001\u0002壖\u0001\u000D壥\u0001\u0005壭壯壱売壴壵壷壸壺\u0001\u0007夃夅夆夈\u0001\u0004夎夐\u0001\u0003夗夘夛夝夞夠\u0001\u0003夦夨夬夰夲夳夵夶夻夽\u0001\u0003奃奅奆奊奌奍奐奒',
+    '奓奙奛\u0001\u0004奡奣奤奦\u0001\u000C奵奷奺\u0001\u0002奾\u0001\u0002妅妉妋妌妎\u0001\u0003妔妕妘妚\u0001\u0003妟\u0001\u0003妦妧妬妭妰妱妳\u0001\u0005妺妼妽妿\u0001\u0006姇',
+    '\u0001\u0002姌\u0001\u0003姕姖姙姛姞\u0001\u0004姤姦姧姩\u0001\u0002姭\u0001\u000B姺姼\u0001\u0002娀娂娊娋娍\u0001\u0003娒娔\u0001\u0003娙\u0001\u0002娝娞娡娢娤娦\u0001\u0002娪',
+    '\u0001\u0006娳娵娷\u0001\u0004娽\u0001\u0002婁\u0001\u0004婇婈婋\u0001\u0009婖\u0001\u0003婛\u0001\u0006婣\u0001\u0003婨婩婫\u0001\u0008婸婹婻\u0001\u0003媀\u0001\u0011',
+    '媓\u0001\u0006媜\u0001\u000D媫\u0001\u0006媴媶媷媹\u0001\u0004媿嫀嫃\u0001\u0005嫊嫋嫍\u0001\u0004嫓嫕嫗嫙\u0001\u0002嫝\u0001\u0002嫢嫤嫥嫧嫨嫪嫬\u0001\u0004嫲\u0001\u0016嬊',
+    '\u0001\u000B嬘\u0001\u0019嬳嬵嬶嬸\u0001\u0007孁\u0001\u000E孒孖孞孠孡孧孨孫孭\u0001\u0002孲孴孶\u0001\u0003孻孼孾孿宂宆宊宍宎宐\u0001\u0002宔宖実宧\u0001\u0002宬\u0001\u0003宱宲宷宺',
+    '\u0001\u0002寀寁寃寈\u0001\u0003寍\u0001\u0002寑寔\u0001\u0008寠寢寣實寧審\u0001\u0004寯寱\u0001\u0006寽対尀専尃尅將專尋\u0001\u0003尐尒尓尗尙尛尞\u0001\u0003尣尦尨\u0001\u0003尭',
+    '\u0001\u0003尲尳尵\u0001\u0002屃屄屆屇屌屍屒\u0001\u0002屖\u0001\u0002屚\u0001\u0003屟屢層屧\u0001\u0006屰屲\u0001\u0006屻\u0001\u0003岀岃\u0001\u0004岉\u0001\u0002岎岏岒岓岕岝',
+    '\u0001\u0004岤\u0001\u0004岪岮\u0001\u0002岲岴岶岹\u0001\u0003岾峀峂峃峅\u0001\u0005峌\u0001\u0005峓\u0001\u0005峚\u0001\u0006峢峣峧峩峫峬峮峯峱\u0001\u0009峼\u0001\u0005崄崅崈',
+    '\u0001\u0005崏\u0001\u0004崕崗\u0001\u0003崜崝崟\u0001\u0004崥崨崪\u0001\u0002崯\u0001\u0004崵\u0001\u0007崿\u0001\u0007嵈嵉嵍\u0001\u000A嵙嵚嵜嵞\u0001\u000A嵪嵭嵮嵰',
+    '\u0001\u0003嵵\u0001\u000C嶃\u0001\u0015嶚\u0001\u0002嶞\u0001\u0018嶸\u0001\u000C巆\u0001\u0006巎\u0001\u000C巜巟巠巣巤巪巬巭巰巵巶巸\u0001\u0004巿帀帄帇帉\u0001\u0002帍帎帒帓帗帞',
+    '\u0001\u0007帨\u0001\u0004帯帰帲\u0001\u0004帹帺帾\u0001\u0003幃幆\u0001\u0005幍\u0001\u0006幖\u0001\u0004幜幝幟幠幣\u0001\u000E幵幷幹幾庁\u0001\u0002庅庈庉庌\u0001\u0002庒庘庛庝庡',
+    '\u0001\u0003庨\u0001\u0004庮\u0001\u0004庴庺\u0001\u0003庿\u0001\u0009廋\u0001\u0005廔廕廗\u0001\u0003廜\u0001\u000B廩廫\u0001\u0008廵廸廹廻\u0001\u0002弅\u0001\u0002弉',
+    '弌\u0001\u0002弐弒弔弖弙弚弜\u0001\u0002弡\u0001\u0003弨弫弬弮弰弲\u0001\u0006弻弽\u0001\u0002彁\u0001\u000E彑彔彙\u0001\u0003彞\u0001\u0002彣彥彧彨彫彮彯彲彴\u0001\u0002彸彺彽',
+    '\u0001\u0002徃徆徍\u0001\u0002徑従徔徖徚徛徝\u0001\u0003徢\u0001\u0005復徫徬徯\u0001\u0005徶徸\u0001\u0003徾\u0001\u0004忇忈忊忋忎忓\u0001\u0002忚\u0001\u0002忞忟忢忣忥忦忨忩忬忯忰忲',
+    '\u0001\u0002忶忷忹忺忼怇\u0001\u0002怋怌怐怑怓怗怘怚怞怟怢\u0001\u0002怬\u0001\u0002怰\u0001\u0004怶\u0001\u0004怽怾恀恄\u0001\u0006恌恎恏恑恓恔恖\u0001\u0002恛恜恞\u0001\u0003恥恦恮恱恲恴恵恷',
+    '恾悀\u0001\u0002悅\u0001\u0003悊悋悎\u0001\u0003悓悕悗\u0001\u0002悜悞悡悢悤悥悧悩悪悮悰悳悵\u0001\u0002悹悺悽\u0001\u0007惇\u0001\u0002惌\u0001\u0004惒\u0001\u0002惖惗惙惛惞惡',
+    '\u0001\u0004惪惱惲惵惷惸惻\u0001\u0004愂\u0001\u0003愇愊\u0001\u0002愐\u0001\u0004愖\u0001\u0003愛\u0001\u0003愡愢愥愨\u0001\u0002愬\u0001\u0012慀\u0001\u0007慉態慍慏慐慒',
+    '\u0001\u0002慖\u0001\u0006慞\u0001\u0003慣\u0001\u0003慩\u0001\u0006慱\u0001\u0003慶慸\u0001\u0012憌憍憏\u0001\u0004憕\u0001\u0007憞\u0001\u0008憪憫憭\u0001\u0009憸',
+    '\u0001\u0005憿\u0001\u0002懃\u0001\u0004應懌\u0001\u0004懓懕\u0001\u0010懧\u0001\u000D懶\u0001\u0008戀\u0001\u0005戇戉戓戔戙戜\u0001\u0002戠戣戦\u0001\u0003戫戭戯',
+    '\u0001\u0003戵戶戸\u0001\u0004扂扄\u0001\u0002扊扏扐払\u0001\u0002扙扚扜\u0001\u0006扤扥扨扱扲扴扵扷扸扺扻扽抁\u0001\u0002抅\u0001\u0003抋\u0001\u0005抔抙抜\u0001\u0002抣抦抧抩抪抭',
+    '\u0001\u0003抲\u0001\u0002抶\u0001\u0002抺抾拀拁拃拋拏拑拕拝拞拠拡拤拪拫拰拲拵拸\u0001\u0003挀挃\u0001\u0003挊\u0001\u0003挏挐挒\u0001\u0003挗\u0001\u0002挜挦挧挩挬\u0001\u0002挰挱挳',
+    '\u0001\u0005挻挼挾\u0001\u0003捄捇捈捊捑\u0001\u0003捖\u0001\u0007捠捤\u0001\u0002捨捪\u0001\u0002捯捰捲\u0001\u0003捸捹捼\u0001\u0003掁掃\u0001\u0003掋掍掑掓\u0001\u0002掗掙',
+    '\u0001\u0006採掤掦掫掯掱掲掵掶掹掻掽掿\u0001\u0004揅揇揈揊\u0001\u0002揑揓\u0001\u0002揗\u0001\u0006揟揢揤\u0001\u0004揫揬揮\u0001\u0003揳揵揷揹\u0001\u0003揾搃搄搆\u0001\u0004損搎搑搒搕',
+    '\u0001\u0005搝搟搢\u0001\u0003搧\u0001\u0002搫搮\u0001\u0005搵\u0001\u0004搻搼搾摀摂摃摉摋\u0001\u0006摓摕\u0001\u0002摙\u0001\u0004摟\u0001\u0007摨摪\u0001\u0002摮',
+    '\u0001\u0009摻\u0001\u0006撃撆撈\u0001\u0008撓撔撗撘撚\u0001\u0003撟\u0001\u0004撥\u0001\u0003撪撫撯撱\u0001\u0003撶撹撻撽\u0001\u0002擁擃擄擆\u0001\u0006擏擑擓\u0001\u0003擙',
+    '\u0001\u0004擟\u0001\u0002擣擥擧\u0001\u0018攁\u0001\u0007攊\u0001\u0007攓\u0001\u0004攙\u0001\u000B攦\u0001\u0004攬攭攰\u0001\u0003攷攺攼攽敀\u0001\u0004敆敇敊敋敍敎敐敒',
+    '\u0001\u0002敗敘敚敜敟\u0001\u0002敤敥敧\u0001\u0003敭\u0001\u0002敱敳敵敶數\u0001\u000E斈\u0001\u0002斍\u0001\u0002斒斔\u0001\u0002斘斚斝斞斠斢斣斦斨斪斬斮斱\u0001\u0007斺斻斾',
+    '\u0001\u0002旂旇\u0001\u0003旍旐旑旓\u0001\u0002旘\u0001\u0007旡旣旤旪旫旲\u0001\u0003旸旹旻\u0001\u0004昁昄昅昇\u0001\u0002昋昍昐\u0001\u0002昖\u0001\u0002昚\u0001\u0002昞昡',
+    '\u0001\u0003昦昩\u0001\u0003昮昰昲昳昷\u0001\u0004昽昿晀時晄\u0001\u0006晍晎晐晑晘晙晛\u0001\u0003晠晢晣晥晧晩\u0001\u0004晱\u0001\u0002晵晸晹晻\u0001\u0002晿\u0001\u0002暃暅暆暈',
+    '\u0001\u0003暍\u0001\u0003暒\u0001\u0003暘\u0001\u0004暞\u0001\u0008暩\u0001\u0004暯\u0001\u0004暵\u0001\u0003暺\u0001\u0003暿\u0001\u0019曚曞\u0001\u0007曧曨曪',
+    '\u0001\u0005曱曵曶書曺曻曽朁\u0001\u0006朌朎朏朑\u0001\u0002朖朘\u0001\u0002朜朞朠\u0001\u0005朧朩朮朰朲朳朶\u0001\u0003朻朼朾朿杁杄杅杇杊杋杍杒杔杕杗\u0001\u0004杝杢\u0001\u0002杦杧杫杬杮東杴杶杸',
+    '\u0001\u0003杽枀枂枃枅枆枈枊枌\u0001\u0003枑\u0001\u0003枖枙枛枟\u0001\u0002枤枦枩枬枮枱枲枴枹\u0001\u0007柂柅\u0001\u0009柕\u0001\u0002柛柟柡柣柤柦\u0001\u0002柪柫柭柮柲柵\u0001\u0007柾栁',
+    '\u0001\u0003栆栍栐栒栔栕栘\u0001\u0004栞\u0001\u0002栢\u0001\u0006栫\u0001\u0006栴\u0001\u0002栺栻栿桇桋桍桏桒桖\u0001\u0009桪桬\u0001\u0007桵桸\u0001\u0008梂梄梇\u0001\u0007梐',
+    '\u0001\u0002梔\u0001\u0002梘\u0001\u0009梣\u0001\u0002梩\u0001\u0003梮梱梲梴梶\u0001\u0009棁棃\u0001\u0005棊棌棎\u0001\u0003棓棔棖棗棙棛\u0001\u0004棡棢棤\u0001\u0009棯棲',
+    '\u0001\u0002棶\u0001\u0002棻棽\u0001\u0003椂\u0001\u0002椆\u0001\u0004椌椏椑椓\u0001\u000B椡\u0001\u0002椥\u0001\u0007椮椯椱\u0001\u0002椵\u0001\u0003椺\u0001\u0002椾楀',
+    '楁楃\u0001\u0010楕楖楘楙楛楜楟楡楢楤楥楧\u0001\u0003楬業楯楰楲\u0001\u0004楺楻楽\u0001\u0002榁榃榅榊\u0001\u0002榎\u0001\u0005榖榗榙榚榝\u0001\u0009榩榪榬榮\u0001\u0002榲榳榵榶榸\u0001\u0002榼',
+    '\u0001\u0004槂\u0001\u0007構槍槏槑\u0001\u0002槕\u0001\u0005槜\u0001\u0002槡\u0001\u000B槮\u0001\u0003槳\u0001\u0009槾樀\u0001\u0009樋\u0001\u000B標\u0001\u0005樠樢',
+    '\u0001\u0005権樫\u0001\u0003樰樲\u0001\u0002樶\u0001\u0006樿\u0001\u0004橅橆橈\u0001\u0007橑\u0001\u0006橚橜\u0001\u0004橢\u0001\u0002橦\u0001\u000A橲\u0001\u0006橺橻橽',
+    '\u0001\u0002檁\u0001\u0002檅\u0001\u0008檏檒\u0001\u0004檘\u0001\u0007檡\u0001\u0007檪檭\u0001\u0072欥欦欨\u0001\u0009欳\u0001\u0003欸欻\u0001\u0002欿\u0001\u0003歄歅歈',
+    '歊歋歍\u0001\u000B歚\u0001\u0007歨歩歫\u0001\u000D歺歽\u0001\u0003殅殈殌殎\u0001\u0003殔殕殗\u0001\u0002殜\u0001\u0004殢\u0001\u0007殫\u0001\u0007殶殸\u0001\u0006毀毃毄毆',
+    '\u0001\u0004毌毎毐毑毘毚毜\u0001\u0004毢\u0001\u0007毬\u0001\u0002毰\u0001\u0002毴毶\u0001\u0002毺\u0001\u0002毾\u0001\u0006氈\u0001\u0004氎氒気氜\u0001\u0002氠氣氥氫',
+    '\u0001\u0002氱氳氶氷氹\u0001\u0003氾氿汃\u0001\u0002汈汋\u0001\u0004汑\u0001\u0002汖汘\u0001\u0002汢汣汥\u0001\u0002汫\u0001\u0004汱汳汵汷汸決\u0001\u0002汿沀沄沇沊沋沍沎沑沒沕',
+    '\u0001\u0003沚沜\u0001\u0002沠沢沨沬沯沰沴\u0001\u0003沺泀\u0001\u0003泆\u0001\u0002泋泍\u0001\u0002泑泒泘\u0001\u0002泜泝泟泤泦泧泩泬泭泲泴泹泿洀洂洃洅洆洈\u0001\u0002洍洏\u0001\u0002洓',
+    '\u0001\u0003洘洜洝洟\u0001\u0005洦洨洩洬洭洯洰洴洶\u0001\u0002洺洿浀浂浄浉浌浐浕\u0001\u0003浛浝浟浡浢浤浥浧浨浫\u0001\u0002浰\u0001\u0003浵浶浹\u0001\u0002浽\u0001\u0004涃涄涆涇涊涋涍涏涐涒涖',
+    '\u0001\u0004涜涢涥涬涭涰涱涳涴涶涷涹\u0001\u0005淁\u0001\u0002淈\u0001\u0002淍\u0001\u0003淒\u0001\u0003淗淚\u0001\u0002淟淢淣淥淧\u0001\u0003淭淯淰淲淴\u0001\u0002淸淺淽',
+    '\u0001\u0007渆\u0001\u0003渋渏渒渓渕渘渙減渜渞渟渢渦\u0001\u0002渪測渮渰渱渳渵\u0001\u0002渹渻\u0001\u0007湅\u0001\u0007湏\u0001\u0003湕湗湙湚湜\u0001\u0002湠\u0001\u000A湬湭湯',
+    '\u0001\u000E満\u0001\u0002溄溇溈溊\u0001\u0004溑\u0001\u0006溙\u0001\u0002溝溞溠溡溣溤溦溨溩溫\u0001\u0003溰溳溵溸溹溼溾\u0001\u0002滃\u0001\u0003滈\u0001\u0002滌\u0001\u0002滐滒滖',
+    '滘滙滛\u0001\u0002滣滧滪\u0001\u0009滵\u0001\u0003滺\u0001\u0007漃\u0001\u0002漇漈漊\u0001\u0004漐\u0001\u0002漖\u0001\u0009漡\u0001\u0002漥\u0001\u0003漬漮漰漲漴漵漷',
+    '\u0001\u0006漿\u0001\u0006潈\u0001\u0002潌潎\u0001\u0009潙\u0001\u0002潝潟\u0001\u0002潣\u0001\u0002潧\u0001\u0005潯\u0001\u0002潳潵\u0001\u0002潹潻潽\u0001\u0006澅',
+    '\u0001\u0002澊澋澏\u0001\u000C澝\u0001\u0003澢\u0001\u0004澨\u0001\u000A澴澵澷澸澺\u0001\u0005濁濃\u0001\u0005濊\u0001\u0006濓\u0001\u000A濟濢\u0001\u000B濰\u0001\u0020',
+    '瀒\u0001\u0007瀜\u0001\u0006瀤\u0001\u0010瀶\u0001\u0002瀺\u0001\u0011灍灎灐\u0001\u000D灟\u0001\u000B灮灱\u0001\u0003灷灹\u0001\u0002災炁\u0001\u0003炆\u0001\u0002炋',
+    '\u0001\u0002炏\u0001\u0002炓炗炘炚炛炞\u0001\u000C炰炲炴\u0001\u0002為炾炿烄\u0001\u0003烉烋\u0001\u000C烚烜\u0001\u0002烠\u0001\u0003烥烪烮烰\u0001\u0006烸烺\u0001\u0002烾',
+    '\u0001\u000A焋\u0001\u0004焑焒焔焗焛\u0001\u000A焧\u0001\u0007焲\u0001\u0003焷\u0001\u000D煆\u0001\u0003煋煍煏\u0001\u000C煝煟\u0001\u0004煥煩\u0001\u0004煯\u0001\u0002',
+    '煴\u0001\u0003煹煻煼煾\u0001\u0005熅\u0001\u0004熋\u0001\u0003熐\u0001\u0003熕\u0001\u0002熚\u0001\u0004熡\u0001\u0006熩\u0001\u0002熭\u0001\u0005熴熶\u0001\u0002熺',
+    '\u0001\u0008燄\u0001\u0009燏\u0001\u0004燖\u0001\u0009燡\u0001\u0003燦燨\u0001\u0005燯\u0001\u0009燺\u0001\u000B爇\u0001\u0015爞\u0001\u0009爩爫爭\u0001\u0002爲',
+    '\u0001\u0002爺爼爾牀\u0001\u0006牉\u0001\u0002牎\u0001\u0003牓\u0001\u0002牗牘牚牜牞牠牣\u0001\u0002牨牪\u0001\u0003牰牱牳牴牶\u0001\u0002牻\u0001\u0002犂犃犅\u0001\u0004犌犎犐犑犓',
+    '\u0001\u000B犠\u0001\u000B犮犱\u0001\u0002犵犺\u0001\u0006狅\u0001\u0002狉\u0001\u0003狏狑狓\u0001\u0003狘狚狛\uE4C6\u0001\u005F\u3000\u0001\u0002·ˉˇ¨〃々—～‖…‘’“”〔〕〈',
+    '\u0001\u0007〖〗【】±×÷∶∧∨∑∏∪∩∈∷√⊥∥∠⌒⊙∫∮≡≌≈∽∝≠≮≯≤≥∞∵∴♂♀°′″℃＄¤￠￡‰§№☆★○●◎◇◆□■△▲※→←↑↓〓\uE526\u0001\u005Fⅰ\u0001\u0009\uE766\u0001\u0005⒈\u0001\u0013⑴',
+    '\u0001\u0013①\u0001\u0009€\uE76D㈠\u0001\u0009\uE76E\uE76FⅠ\u0001\u000B\uE770\uE771\uE586\u0001\u005E\u3000！\u0001\u0002￥％\u0001\u0058￣\uE5E6',
+    '\u0001\u005Fぁ\u0001\u0052\uE772\u0001\u000A\uE646\u0001\u005Fァ\u0001\u0055\uE77D\u0001\u0007\uE6A6\u0001\u005FΑ\u0001\u0010Σ\u0001\u0006\uE785',
+    '\u0001\u0007α\u0001\u0010σ\u0001\u0006︐︒︑︓\u0001\u0003︵︶︹︺︿﹀︽︾﹁\u0001\u0003︗︘︻︼︷︸︱︙︳︴\uE797\u0001\u0008\uE706\u0001\u005FА\u0001\u0005ЁЖ\u0001\u0019',
+    '\uE7A0\u0001\u000Eа\u0001\u0005ёж\u0001\u0019\uE7AF\u0001\u000Cˊˋ˙–―‥‵℅℉↖\u0001\u0003∕∟∣≒≦≧⊿═\u0001\u0023▁\u0001\u000E▓\u0001\u0002▼▽◢\u0001\u0003☉⊕〒〝',
+    '〞\uE7BC\u0001\u000Aāáǎàēéěèīíǐìōóǒòūúǔùǖǘǚǜüêɑḿńňǹɡ\uE7C9\u0001\u0003ㄅ\u0001\u0024\uE7CD\u0001\u0014〡\u0001\u0008㊣㎎㎏㎜\u0001\u0002㎡㏄㏎㏑㏒㏕︰￢￤\uE7E2℡㈱',
+    '\uE7E3‐\uE7E4\u0001\u0002ー゛゜ヽヾ〆ゝゞ﹉\u0001\u0009﹔\u0001\u0003﹙\u0001\u000D﹨\u0001\u0003〾⿰\u0001\u000B〇\uE7F4\u0001\u000C─\u0001\u004B\uE801\u0001\u000E狜',
+    '狝狟狢\u0001\u0005狪狫狵狶狹狽\u0001\u0003猂猄\u0001\u0005猋\u0001\u0002猏\u0001\u0003猔猘\u0001\u0002猟猠猣猤猦\u0001\u0002猭猯猰猲猳猵猶猺\u0001\u0003獀\u0001\u000C獎獏獑獓',
+    '\u0001\u0003獘\u0001\u0007獡\u0001\u000A獮獰獱\uE000\u0001\u005D獲\u0001\u000B獿\u0001\u0004玅玆玈玊玌玍玏玐玒\u0001\u0003玗\u0001\u0003玜\u0001\u0002玠玡玣\u0001\u0005玪玬玭',
+    '玱玴\u0001\u0002玸玹玼\u0001\u0003珁珃\u0001\u0004珋珌珎珒\u0001\u0006珚\u0001\u0003珟珡\u0001\u0003珦珨珪\u0001\u0002珮\u0001\u0003珳\u0001\u0004\uE05E\u0001\u005D珸',
+    '\u0001\u000A琄琇琈琋\u0001\u0003琑\u0001\u0008琜\u0001\u0005琣琤琧琩琫琭琯琱琲琷\u0001\u0004琽\u0001\u0003瑂\u0001\u0012瑖瑘瑝瑠\u0001\u000C瑮瑯瑱\u0001\u0004瑸\u0001\u0002',
+    '\uE0BC\u0001\u005D瑻\u0001\u0002瑿璂璄\u0001\u0002璈\u0001\u0002璌璍璏璑\u0001\u000A璝璟\u0001\u0007璪\u0001\u000F璻\u0001\u0016瓓\u0001\u0008瓝瓟瓡瓥瓧\u0001\u0006瓰',
+    '\u0001\u0002\uE11A\u0001\u005D瓳瓵瓸\u0001\u0006甀\u0001\u0003甅\u0001\u0007甎甐甒甔\u0001\u0003甛甝甞甠\u0001\u0004甦甧甪甮甴甶甹甼甽甿畁\u0001\u0003畆畇畉畊畍畐\u0001\u0003畕',
+    '\u0001\u0003畝\u0001\u0007畧\u0001\u0002畫\u0001\u0006畳畵\u0001\u0002畺\u0001\u0004疀\u0001\u0002疄疅疇\uE178\u0001\u005D疈\u0001\u0002疌\u0001\u0002疐疓疕疘疛疜疞疢疦',
+    '\u0001\u0004疭疶疷疺疻疿\u0001\u0002痆痋痌痎\u0001\u0003痓痗痙痚痜痝痟\u0001\u0002痥痩痬\u0001\u0003痲痳痵\u0001\u0003痺痻痽痾瘂瘄瘆\u0001\u0003瘋瘍\u0001\u0002瘑\u0001\u0003瘖瘚瘜',
+    '\u0001\u0002瘡瘣瘧瘨瘬瘮瘯瘱瘲瘶瘷瘹\u0001\u0002瘽癁療癄\uE1D6\u0001\u005D癅\u0001\u0006癎\u0001\u0005癕癗\u0001\u0004癝癟\u0001\u0003癤\u0001\u0006癬\u0001\u0002癰',
+    '\u0001\u0007癹発發癿\u0001\u0002皃皅皉皊皌皍皏皐皒皔皕皗皘皚\u0001\u0009皥\u0001\u0008皯皰皳皵\u0001\u0009盀盁盃啊阿埃挨哎唉哀皑癌蔼矮艾碍爱隘鞍氨安俺按暗岸胺案肮昂盎凹敖熬翱袄傲奥懊澳芭捌扒叭吧笆八疤巴拔跋靶把耙坝霸罢爸白柏百摆佰败拜稗斑班',
+    '搬扳般颁板版扮拌伴瓣半办绊邦帮梆榜膀绑棒磅蚌镑傍谤苞胞包褒剥盄盇盉盋盌盓盕盙盚盜\u0001\u0002盠\u0001\u0004盦\u0001\u0007盰盳盵\u0001\u0002盺盻盽盿眀眂眃眅眆眊県眎\u0001\u000A眛\u0001\u0003眡眣\u0001\u0002眧眪',
+    '\u0001\u0002眮眰\u0001\u0004眹眻眽\u0001\u0002睂睄\u0001\u0002睈\u0001\u0007睒\u0001\u0007睜薄雹保堡饱宝抱报暴豹鲍爆杯碑悲卑北辈背贝钡倍狈备惫焙被奔苯本笨崩绷甭泵蹦迸逼鼻比鄙笔彼碧蓖蔽毕毙毖币庇痹闭敝弊必辟壁臂避陛鞭边编贬扁便变',
+    '卞辨辩辫遍标彪膘表鳖憋别瘪彬斌濒滨宾摈兵冰柄丙秉饼炳睝\u0001\u0003睤睧睩睪睭\u0001\u000B睺\u0001\u0002瞁\u0001\u0002瞆\u0001\u0005瞏瞐瞓\u0001\u000B瞡瞣瞤瞦瞨瞫瞭\u0001\u0002瞱瞲瞴瞶\u0001\u0004瞼瞾矀',
+    '\u0001\u000C矎\u0001\u0008矘\u0001\u0002矝\u0001\u0004矤病并玻菠播拨钵波博勃搏铂箔伯帛舶脖膊渤泊驳捕卜哺补埠不布步簿部怖擦猜裁材才财睬踩采彩菜蔡餐参蚕残惭惨灿苍舱仓沧藏操糙槽曹草厕策侧册测层蹭插叉茬茶查碴搽察岔差诧拆柴豺搀掺蝉馋谗缠铲产阐颤昌猖矦矨矪矯',
+    '\u0001\u0003矴矵矷矹\u0001\u0003砃\u0001\u0005砊砋砎\u0001\u0002砓砕砙砛砞砠\u0001\u0002砤砨砪砫砮砯砱\u0001\u0002砵砶砽砿硁\u0001\u0003硆硈\u0001\u0003硍硏硑硓硔硘\u0001\u0004硞',
+    '\u0001\u000B硯\u0001\u0007硸\u0001\u0003硽\u0001\u0006场尝常长偿肠厂敞畅唱倡超抄钞朝嘲潮巢吵炒车扯撤掣彻澈郴臣辰尘晨忱沉陈趁衬撑称城橙成呈乘程惩澄诚承逞骋秤吃痴持匙池迟弛驰耻齿侈尺赤翅斥炽充冲虫崇宠抽酬畴踌稠愁筹仇绸瞅丑臭初出橱厨躇锄雏滁除楚碄',
+    '\u0001\u0002碈碊碋碏碐碒碔\u0001\u0002碙碝碞碠碢碤碦碨\u0001\u0007碵\u0001\u0003確\u0001\u0003碿磀磂\u0001\u0002磆\u0001\u0002磌\u0001\u0003磑\u0001\u0002磖\u0001\u0002磚',
+    '\u0001\u000D磩\u0001\u0002磭\u0001\u0004磳磵磶磸磹磻\u0001\u0005礂\u0001\u0002礆\u0001\u0006础储矗搐触处揣川穿椽传船喘串疮窗幢床闯创吹炊捶锤垂春椿醇唇淳纯蠢戳绰疵茨磁雌辞慈瓷词此刺赐次聪葱囱匆从丛凑粗醋簇促蹿篡窜摧崔催脆瘁粹淬翠',
+    '村存寸磋撮搓措挫错搭达答瘩打大呆歹傣戴带殆代贷袋待逮礍\u0001\u0005礔\u0001\u0009礟\u0001\u0004礥\u0001\u000E礵\u0001\u0004礽礿祂\u0001\u0003祇祊\u0001\u0008祔祕祘祙祡祣祤祦祩\u0001\u0003祮祰',
+    '\u0001\u0006祹祻\u0001\u0004禂禃禆\u0001\u0003禋\u0001\u0003禐\u0001\u0002怠耽担丹单郸掸胆旦氮但惮淡诞弹蛋当挡党荡档刀捣蹈倒岛祷导到稻悼道盗德得的蹬灯登等瞪凳邓堤低滴迪敌笛狄涤翟嫡抵底地蒂第帝弟递缔颠掂滇碘点典靛垫电佃甸店惦奠淀殿碉叼雕凋刁',
+    '掉吊钓调跌爹碟蝶迭谍叠禓\u0001\u0006禛\u0001\u000B禨\u0001\u000A禴\u0001\u0004禼禿秂秄秅秇秈秊秌秎\u0001\u0002秓秔秖秗秙\u0001\u0005秠\u0001\u0002秥秨秪秬秮秱\u0001\u0006秹秺秼秾秿稁稄稅稇',
+    '\u0001\u0003稌稏\u0001\u0004稕稖稘稙稛稜丁盯叮钉顶鼎锭定订丢东冬董懂动栋侗恫冻洞兜抖斗陡豆逗痘都督毒犊独读堵睹赌杜镀肚度渡妒端短锻段断缎堆兑队对墩吨蹲敦顿囤钝盾遁掇哆多夺垛躲朵跺舵剁惰堕蛾峨鹅俄额讹娥恶厄扼遏鄂饿恩而儿耳尔饵洱二稝稟稡稢稤\u0001\u000E稴',
+    '\u0001\u0002稸稺稾穀\u0001\u0005穇\u0001\u0009穒\u0001\u0004穘\u0001\u0017穱\u0001\u0002穵穻\u0001\u0003窂窅窇窉\u0001\u0003窎\u0001\u0002窓窔窙\u0001\u0002窞窡窢贰发罚筏伐乏阀法珐',
+    '藩帆番翻樊矾钒繁凡烦反返范贩犯饭泛坊芳方肪房防妨仿访纺放菲非啡飞肥匪诽吠肺废沸费芬酚吩氛分纷坟焚汾粉奋份忿愤粪丰封枫蜂峰锋风疯烽逢冯缝讽奉凤佛否夫敷肤孵扶拂辐幅氟符伏俘服窣窤窧窩\u0001\u0002窮\u0001\u0004窴\u0001\u000A竀\u0001\u000A竌',
+    '\u0001\u0009竗竘竚\u0001\u0003竡竢竤竧\u0001\u0005竮竰\u0001\u0008竻竼竾笀\u0001\u0002笅笇笉笌\u0001\u0002笐笒笓笖\u0001\u0002笚笜笝笟笡\u0001\u0002笧笩笭浮涪福袱弗甫抚辅俯釜斧脯腑府腐赴副覆赋复傅付阜父腹',
+    '负富讣附妇缚咐噶嘎该改概钙盖溉干甘杆柑竿肝赶感秆敢赣冈刚钢缸肛纲岗港杠篙皋高膏羔糕搞镐稿告哥歌搁戈鸽胳疙割革葛格蛤阁隔铬个各给根跟耕更庚羹笯笰笲笴\u0001\u0003笹笻笽笿\u0001\u0005筆筈筊筍筎筓筕筗筙筜筞筟筡筣\u0001\u000A筯筰筳筴筶筸筺筼筽筿箁\u0001\u0003',
+    '箆\u0001\u0006箎箏箑\u0001\u0002箖箘\u0001\u0003箞\u0001\u0002箣\u0001\u0002箮\u0001\u0002箲箳箵\u0001\u0002箹\u0001\u0007篂\u0001\u0002埂耿梗工攻功恭龚供躬公宫弓巩汞拱贡共钩勾沟苟狗垢构购够辜',
+    '菇咕箍估沽孤姑鼓古蛊骨谷股故顾固雇刮瓜剐寡挂褂乖拐怪棺关官冠观管馆罐惯灌贯光广逛瑰规圭硅归龟闺轨鬼诡癸桂柜跪贵刽辊滚棍锅郭国果裹过哈篅篈\u0001\u0003篍\u0001\u0003篒篔\u0001\u0004篛篜篞\u0001\u0002篢\u0001\u0002篧\u0001\u0002篫',
+    '\u0001\u0002篯篰篲\u0001\u0004篸\u0001\u0003篽篿\u0001\u0007簈\u0001\u0002簍簎簐\u0001\u0005簗\u0001\u0007簠\u0001\u0005簨簩簫\u0001\u000C簹\u0001\u0005籂骸孩海氦亥害骇酣憨邯韩含涵',
+    '寒函喊罕翰撼捍旱憾悍焊汗汉夯杭航壕嚎豪毫郝好耗号浩呵喝荷菏核禾和何合盒貉阂河涸赫褐鹤贺嘿黑痕很狠恨哼亨横衡恒轰哄烘虹鸿洪宏弘红喉侯猴吼厚候后呼乎忽瑚壶葫胡蝴狐糊湖籃\u0001\u0009籎\u0001\u0024籵\u0001\u0005籾\u0001\u000A粊\u0001\u0006粓粔粖粙',
+    '\u0001\u0002粠粡粣粦\u0001\u0003粫\u0001\u0002粯粰粴\u0001\u0004粺粻弧虎唬护互沪户花哗华猾滑画划化话槐徊怀淮坏欢环桓还缓换患唤痪豢焕涣宦幻荒慌黄磺蝗簧皇凰惶煌晃幌恍谎灰挥辉徽恢蛔回毁悔慧卉惠晦贿秽会烩汇讳诲绘荤昏婚魂浑混豁活伙火获或惑霍货祸击圾基机畸稽',
+    '积箕粿糀糂\u0001\u0002糆糉糋糎\u0001\u0006糘糚糛糝糞糡\u0001\u0006糩\u0001\u0005糰\u0001\u0007糹糺糼\u0001\u000D紋\u0001\u0014紡紣\u0001\u0003紨\u0001\u0002紬\u0001\u0002細',
+    '\u0001\u0006肌饥迹激讥鸡姬绩缉吉极棘辑籍集及急疾汲即嫉级挤几脊己蓟技冀季伎祭剂悸济寄寂计记既忌际妓继纪嘉枷夹佳家加荚颊贾甲钾假稼价架驾嫁歼监坚尖笺间煎兼肩艰奸缄茧检柬碱硷拣捡简俭剪减荐槛鉴践贱见键箭件紷\u0001\u0036絯\u0001\u0007絸\u0001\u0020健舰剑饯渐',
+    '溅涧建僵姜将浆江疆蒋桨奖讲匠酱降蕉椒礁焦胶交郊浇骄娇嚼搅铰矫侥脚狡角饺缴绞剿教酵轿较叫窖揭接皆秸街阶截劫节桔杰捷睫竭洁结解姐戒藉芥界借介疥诫届巾筋斤金今津襟紧锦仅谨进靳晋禁近烬浸継\u0001\u000C綧\u0001\u0006綯\u0001\u004B尽劲荆兢茎睛晶鲸京惊精粳经井警景颈静境敬镜径',
+    '痉靖竟竞净炯窘揪究纠玖韭久灸九酒厩救旧臼舅咎就疚鞠拘狙疽居驹菊局咀矩举沮聚拒据巨具距踞锯俱句惧炬剧捐鹃娟倦眷卷绢撅攫抉掘倔爵觉决诀绝均菌钧军君峻緻\u0001\u003F縼\u0001\u0004繂\u0001\u0004繈\u0001\u0015俊竣浚郡骏喀咖卡咯开揩楷凯慨刊堪勘坎砍看康慷糠扛抗亢',
+    '炕考拷烤靠坷苛柯棵磕颗科壳咳可渴克刻客课肯啃垦恳坑吭空恐孔控抠口扣寇枯哭窟苦酷库裤夸垮挎跨胯块筷侩快宽款匡筐狂框矿眶旷况亏盔岿窥葵奎魁傀繞\u0001\u0023纃\u0001\u0017纜\u0001\u0002纮纴纻纼绖绤绬绹缊缐缞缷缹缻\u0001\u0006罃罆\u0001\u0009罒罓馈',
+    '愧溃坤昆捆困括扩廓阔垃拉喇蜡腊辣啦莱来赖蓝婪栏拦篮阑兰澜谰揽览懒缆烂滥琅榔狼廊郎朗浪捞劳牢老佬姥酪烙涝勒乐雷镭蕾磊累儡垒擂肋类泪棱楞冷厘梨犁黎篱狸离漓理李里鲤礼莉荔吏栗丽厉励砾历利傈例俐罖罙罛\u0001\u0003罠罣\u0001\u0004罫\u0001\u0002罯罰罳罵',
+    '\u0001\u0003罺\u0001\u0003罿羀羂\u0001\u0007羋羍羏\u0001\u0004羕\u0001\u0004羛羜羠羢羣羥羦羨\u0001\u0006羱羳\u0001\u0004羺羻羾翀翂\u0001\u0002翆\u0001\u0003翋翍翏\u0001\u0004翖翗翙',
+    '\u0001\u0005翢翣痢立粒沥隶力璃哩俩联莲连镰廉怜涟帘敛脸链恋炼练粮凉梁粱良两辆量晾亮谅撩聊僚疗燎寥辽潦了撂镣廖料列裂烈劣猎琳林磷霖临邻鳞淋凛赁吝拎玲菱零龄铃伶羚凌灵陵岭领另令溜琉榴硫馏留刘瘤流柳六龙聋咙笼窿翤翧翨翪\u0001\u0003翯翲翴\u0001\u0006翽',
+    '\u0001\u0002耂耇\u0001\u0003耎耏耑耓耚耛耝\u0001\u0002耡耣耤耫\u0001\u0005耲耴耹耺耼耾聀聁聄聅聇\u0001\u0002聎\u0001\u0003聓聕\u0001\u0002聙聛\u0001\u000D聫\u0001\u0005聲',
+    '\u0001\u000B隆垄拢陇楼娄搂篓漏陋芦卢颅庐炉掳卤虏鲁麓碌露路赂鹿潞禄录陆戮驴吕铝侣旅履屡缕虑氯律率滤绿峦挛孪滦卵乱掠略抡轮伦仑沦纶论萝螺罗逻锣箩骡裸落洛骆络妈麻玛码蚂马骂嘛吗埋买麦卖迈脉瞒馒蛮满蔓曼慢漫聾肁肂肅肈肊肍\u0001\u0005肔肕肗肙肞肣肦\u0001\u0002肬肰肳肵肶肸',
+    '肹肻胅胇\u0001\u0004胏\u0001\u0006胘胟胠胢胣胦胮胵胷胹胻胾\u0001\u0003脃\u0001\u0002脇脈脋脌脕脗脙脛\u0001\u0002脟\u0001\u000C脭脮脰脳\u0001\u0002脷脹\u0001\u0004脿谩芒茫盲氓忙莽猫茅锚毛矛铆卯茂冒帽貌贸么',
+    '玫枚梅酶霉煤没眉媒镁每美昧寐妹媚门闷们萌蒙檬盟锰猛梦孟眯醚靡糜迷谜弥米秘觅泌蜜密幂棉眠绵冕免勉娩缅面苗描瞄藐秒渺庙妙蔑灭民抿皿敏悯闽明螟鸣铭名命谬摸腀\u0001\u0005腇腉腍\u0001\u0002腒腖\u0001\u0002腛\u0001\u0004腡\u0001\u0003腦腨腪',
+    '\u0001\u0002腯腲腳腵\u0001\u0003膁膃\u0001\u0004膉膋\u0001\u0003膐膒\u0001\u0005膙膚膞\u0001\u0004膤膥膧膩膫\u0001\u0007膴\u0001\u0005膼\u0001\u0003臄臅臇\u0001\u0002臋臍',
+    '\u0001\u0006摹蘑模膜磨摩魔抹末莫墨默沫漠寞陌谋牟某拇牡亩姆母墓暮幕募慕木目睦牧穆拿哪呐钠那娜纳氖乃奶耐奈南男难囊挠脑恼闹淖呢馁内嫩能妮霓倪泥尼拟你匿腻逆溺蔫拈年碾撵捻念娘酿鸟尿捏聂孽啮镊镍涅您柠狞凝宁臔\u0001\u000E臤\u0001\u0002臨臩臫臮\u0001\u0004臵',
+    '\u0001\u0005臽臿舃與\u0001\u0004舎舏舑舓舕\u0001\u0005舝舠舤\u0001\u0003舩舮舲舺舼舽舿\u0001\u0004艅艆艈艊艌\u0001\u0002艐\u0001\u0007艙艛\u0001\u0003艠\u0001\u0007艩拧泞牛扭钮纽脓浓农弄奴努怒',
+    '女暖虐疟挪懦糯诺哦欧鸥殴藕呕偶沤啪趴爬帕怕琶拍排牌徘湃派攀潘盘磐盼畔判叛乓庞旁耪胖抛咆刨炮袍跑泡呸胚培裴赔陪配佩沛喷盆砰抨烹澎彭蓬棚硼篷膨朋鹏捧碰坯砒霹批披劈琵毗艪\u0001\u0003艱艵\u0001\u0003艻艼芀芁芃芅\u0001\u0002芉芌芐芓\u0001\u0003芚芛芞芠芢芣芧芲',
+    '芵芶芺\u0001\u0002芿苀苂苃苅苆苉苐苖苙苚苝苢苧\u0001\u0003苬\u0001\u0002苰苲苳苵苶苸苺苼\u0001\u0004茊茋茍茐茒茓茖茘茙茝\u0001\u0009茩茪茮茰茲茷茻茽啤脾疲皮匹痞僻屁譬篇偏片骗飘漂瓢票撇瞥拼频贫品聘乒坪苹萍平凭瓶评屏坡泼颇婆破魄迫粕剖扑铺仆莆',
+    '葡菩蒲埔朴圃普浦谱曝瀑期欺栖戚妻七凄漆柒沏其棋奇歧畦崎脐齐旗祈祁骑起岂乞企启契砌器气迄弃汽泣讫掐茾茿荁荂荄荅荈荊\u0001\u0004荓荕\u0001\u0004荝荢荰\u0001\u0006荹荺荾\u0001\u0006莇莈莊\u0001\u0003莏\u0001\u0002莔',
+    '\u0001\u0003莙莚莝莟莡\u0001\u0006莬\u0001\u0003莵莻莾莿菂\u0001\u0002菆菈菉菋菍菎菐\u0001\u0003菕菗菙\u0001\u0002菞菢\u0001\u0002菦\u0001\u0002菫\u0001\u0002恰洽牵扦钎铅千迁签仟谦乾黔钱钳前潜',
+    '遣浅谴堑嵌欠歉枪呛腔羌墙蔷强抢橇锹敲悄桥瞧乔侨巧鞘撬翘峭俏窍切茄且怯窃钦侵亲秦琴勤芹擒禽寝沁青轻氢倾卿清擎晴氰情顷请庆琼穷秋丘邱球求囚酋泅趋区蛆曲躯屈驱渠菮華菳\u0001\u0004菺\u0001\u0002菾\u0001\u0002萂萅萇\u0001\u0003萐萒\u0001\u0005萙',
+    '\u0001\u0002萞\u0001\u0005萩\u0001\u0007萲\u0001\u0005萹\u0001\u0002萾\u0001\u0007葇\u0001\u0009葒\u0001\u0004葘葝\u0001\u0003葢葤\u0001\u0004葪葮\u0001\u0002葲葴葷葹葻',
+    '葼取娶龋趣去圈颧权醛泉全痊拳犬券劝缺炔瘸却鹊榷确雀裙群然燃冉染瓤壤攘嚷让饶扰绕惹热壬仁人忍韧任认刃妊纫扔仍日戎茸蓉荣融熔溶容绒冗揉柔肉茹蠕儒孺如辱乳汝入褥软阮蕊瑞锐闰润若弱撒洒萨腮鳃塞赛三叁葽\u0001\u0004蒃\u0001\u0003蒊蒍蒏\u0001\u0007蒘蒚蒛蒝',
+    '\u0001\u0003蒢\u0001\u000C蒰蒱蒳蒵\u0001\u0002蒻蒼蒾蓀蓂蓃蓅\u0001\u0003蓋蓌蓎蓏蓒蓔蓕蓗\u0001\u0005蓞蓡蓢蓤蓧\u0001\u0004蓭\u0001\u0002蓱\u0001\u000A蓽蓾蔀\u0001\u0002伞散桑嗓丧搔骚扫嫂瑟色涩',
+    '森僧莎砂杀刹沙纱傻啥煞筛晒珊苫杉山删煽衫闪陕擅赡膳善汕扇缮墒伤商赏晌上尚裳梢捎稍烧芍勺韶少哨邵绍奢赊蛇舌舍赦摄射慑涉社设砷申呻伸身深娠绅神沈审婶甚肾慎渗声生甥牲升绳蔃\u0001\u0008蔍\u0001\u0003蔒蔔\u0001\u0002蔘蔙蔛\u0001\u0003蔠蔢',
+    '\u0001\u0008蔭\u0001\u0009蔾\u0001\u0004蕄\u0001\u0003蕋\u0001\u000A蕗蕘蕚\u0001\u0003蕟\u0001\u0004蕥\u0001\u0002蕩\u0001\u0008蕳蕵\u0001\u0003蕼蕽蕿\u0001\u0002省盛剩',
+    '胜圣师失狮施湿诗尸虱十石拾时什食蚀实识史矢使屎驶始式示士世柿事拭誓逝势是嗜噬适仕侍释饰氏市恃室视试收手首守寿授售受瘦兽蔬枢梳殊抒输叔舒淑疏书赎孰熟薯暑曙署蜀黍鼠属术述树束戍竖墅庶数漱薂薃薆薈\u0001\u0006薐\u0001\u000A薝\u0001\u0006薥\u0001\u0002薩薫',
+    '\u0001\u0002薱\u0001\u0005薸薺\u0001\u0006藂\u0001\u0006藊\u0001\u0004藑藒藔藖\u0001\u0005藝\u0001\u0006藥\u0001\u0003藪\u0001\u000E恕刷耍摔衰甩帅栓拴霜双爽谁水睡税吮瞬顺舜说硕朔烁斯撕嘶思私司',
+    '丝死肆寺嗣四伺似饲巳松耸怂颂送宋讼诵搜艘擞嗽苏酥俗素速粟僳塑溯宿诉肃酸蒜算虽隋随绥髓碎岁穗遂隧祟孙损笋蓑梭唆缩琐索锁所塌他它她塔藹藺藼\u0001\u0002蘀\u0001\u0004蘆\u0001\u000A蘒\u0001\u0003蘗\u0001\u000F蘨蘪\u0001\u000D蘹',
+    '\u0001\u0002蘽\u0001\u000F虒虓處\u0001\u0004虛\u0001\u0002號\u0001\u0002虣\u0001\u0007獭挞蹋踏胎苔抬台泰酞太态汰坍摊贪瘫滩坛檀痰潭谭谈坦毯袒碳探叹炭汤塘搪堂棠膛唐糖倘躺淌趟烫掏涛滔绦萄桃逃淘陶讨套特藤腾疼誊梯剔踢锑提题蹄啼体替嚏',
+    '惕涕剃屉天添填田甜恬舔腆挑条迢眺跳贴铁帖厅听烃虭虯虰虲\u0001\u0006蚃\u0001\u0006蚎\u0001\u0004蚔蚖\u0001\u0005蚞\u0001\u0004蚥蚦蚫蚭蚮蚲蚳蚷\u0001\u0002蚻\u0001\u0004蛁\u0001\u0002蛅蛈蛌蛍蛒蛓蛕',
+    '\u0001\u0002蛚蛜蛝蛠\u0001\u0003蛥\u0001\u0003蛪\u0001\u0002蛯蛵\u0001\u0002蛺\u0001\u0003蛿蜁蜄\u0001\u0002蜋蜌蜎\u0001\u0003蜔蜖汀廷停亭庭挺艇通桐酮瞳同铜彤童桶捅筒统痛偷投头透凸秃突图徒途涂屠土吐兔湍团',
+    '推颓腿蜕褪退吞屯臀拖托脱鸵陀驮驼椭妥拓唾挖哇蛙洼娃瓦袜歪外豌弯湾玩顽丸烷完碗挽晚皖惋宛婉万腕汪王亡枉网往旺望忘妄威蜙蜛蜝蜟蜠蜤蜦\u0001\u0002蜪\u0001\u0003蜯蜰蜲蜳蜵蜶蜸\u0001\u0002蜼蜽蝀\u0001\u0006蝊蝋蝍蝏\u0001\u0003蝔',
+    '\u0001\u0002蝘蝚\u0001\u0005蝡蝢蝦\u0001\u0007蝯蝱\u0001\u0002蝵蝷\u0001\u0003蝿\u0001\u0002螄螆螇螉螊螌螎\u0001\u0004螔\u0001\u0002螘\u0001\u0006螠\u0001\u0004巍微危韦违桅围唯惟为',
+    '潍维苇萎委伟伪尾纬未蔚味畏胃喂魏位渭谓尉慰卫瘟温蚊文闻纹吻稳紊问嗡翁瓮挝蜗涡窝我斡卧握沃巫呜钨乌污诬屋无芜梧吾吴毋武五捂午舞伍侮坞戊雾晤物勿务悟误昔熙析西硒矽晰嘻吸锡牺螥\u0001\u0002螩螪螮螰\u0001\u0002螴螶\u0001\u0003螻螼螾螿蟁\u0001\u0004蟇',
+    '\u0001\u0002蟌\u0001\u0004蟔\u0001\u0006蟜\u0001\u0003蟡\u0001\u0003蟦\u0001\u0003蟫\u0001\u0002蟯\u0001\u0009蟺\u0001\u0003蟿\u0001\u0003蠄\u0001\u0005蠋',
+    '\u0001\u0007蠔蠗\u0001\u0003蠜\u0001\u0004蠣稀息希悉膝夕惜熄烯溪汐犀檄袭席习媳喜铣洗系隙戏细瞎虾匣霞辖暇峡侠狭下厦夏吓掀锨先仙鲜纤咸贤衔舷闲涎弦嫌显险现献县腺馅羡宪陷限线相厢镶香箱襄湘乡翔祥详想响享项巷橡像向象萧硝霄削哮嚣销消宵淆晓蠤\u0001\u000D蠳',
+    '\u0001\u0005蠺蠻蠽\u0001\u0002衁\u0001\u0002衆\u0001\u0005衎\u0001\u0005衕衖衘衚\u0001\u0006衦衧衪衭衯衱衳\u0001\u0003衸\u0001\u0004袀袃袆袇袉袊袌袎\u0001\u0003袓\u0001\u0002袗',
+    '\u0001\u0004袝\u0001\u0004袣袥\u0001\u0005小孝校肖啸笑效楔些歇蝎鞋协挟携邪斜胁谐写械卸蟹懈泄泻谢屑薪芯锌欣辛新忻心信衅星腥猩惺兴刑型形邢行醒幸杏性姓兄凶胸匈汹雄熊休修羞朽嗅锈秀袖绣墟戌需虚嘘须徐许蓄酗叙旭序畜恤絮婿绪续轩喧宣悬旋玄袬袮\u0001\u0002袲',
+    '\u0001\u0004袸\u0001\u0003袽\u0001\u0003裃裄裇裈裊\u0001\u0003裏\u0001\u0002裓裖裗裚\u0001\u0004裠裡裦裧裩\u0001\u0006裲裵\u0001\u0002裺裻製裿\u0001\u0002褃\u0001\u0006褋',
+    '\u0001\u0004褑褔\u0001\u0004褜\u0001\u0004褢\u0001\u0002褦\u0001\u0003褬\u0001\u0003褱\u0001\u0002褵褷选癣眩绚靴薛学穴雪血勋熏循旬询寻驯巡殉汛训讯逊迅压押鸦鸭呀丫芽牙蚜崖衙涯雅哑亚讶焉咽阉烟淹盐严研蜒岩延言颜阎炎沿奄',
+    '掩眼衍演艳堰燕厌砚雁唁彦焰宴谚验殃央鸯秧杨扬佯疡羊洋阳氧仰痒养样漾邀腰妖瑶褸\u0001\u0008襂襃襅\u0001\u0018襠\u0001\u0005襧\u0001\u0013襼\u0001\u0002覀覂覄覅覇\u0001\u001A摇尧遥窑谣姚咬舀药要耀椰噎耶爷野冶也页掖业叶曳腋夜液一壹医',
+    '揖铱依伊衣颐夷遗移仪胰疑沂宜姨彝椅蚁倚已乙矣以艺抑易邑屹亿役臆逸肄疫亦裔意毅忆义益溢诣议谊译异翼翌绎茵荫因殷音阴姻吟银淫寅饮尹引隐覢\u0001\u001E觃觍觓\u0001\u0002觗\u0001\u0002觛觝觟\u0001\u0003觤觧\u0001\u0003觬\u0001\u0002觰',
+    '\u0001\u0002觴\u0001\u000B訁\u0001\u0005計\u0001\u0015印英樱婴鹰应缨莹萤营荧蝇迎赢盈影颖硬映哟拥佣臃痈庸雍踊蛹咏泳涌永恿勇用幽优悠忧尤由邮铀犹油游酉有友右佑釉诱又幼迂淤于盂榆虞愚舆余俞逾鱼愉渝渔隅予娱雨与屿禹宇语羽玉域芋郁吁遇喻峪御愈欲狱育誉訞',
+    '\u0001\u001F訿\u0001\u0008詉\u0001\u002F詺\u0001\u0006浴寓裕预豫驭鸳渊冤元垣袁原援辕园员圆猿源缘远苑愿怨院曰约越跃钥岳粤月悦阅耘云郧匀陨允运蕴酝晕韵孕匝砸杂栽哉灾宰载再在咱攒暂赞赃脏葬遭糟凿藻枣早澡蚤躁噪造皂灶燥责择则泽贼怎增憎曾赠扎喳渣札轧誁',
+    '\u0001\u0007誋\u0001\u0007誔\u0001\u004F铡闸眨栅榨咋乍炸诈摘斋宅窄债寨瞻毡詹粘沾盏斩辗崭展蘸栈占战站湛绽樟章彰漳张掌涨杖丈帐账仗胀瘴障招昭找沼赵照罩兆肇召遮折哲蛰辙者锗蔗这浙珍斟真甄砧臻贞针侦枕疹诊震振镇阵蒸挣睁征狰争怔整拯正政諤\u0001\u0022謈',
+    '\u0001\u001D謧\u0001\u001E帧症郑证芝枝支吱蜘知肢脂汁之织职直植殖执值侄址指止趾只旨纸志挚掷至致置帜峙制智秩稚质炙痔滞治窒中盅忠钟衷终种肿重仲众舟周州洲诌粥轴肘帚咒皱宙昼骤珠株蛛朱猪诸诛逐竹烛煮拄瞩嘱主著柱助蛀贮铸筑譆\u0001\u001F譧\u0001\u0004譭',
+    '\u0001\u0032讬讱讻诇诐诪谉谞住注祝驻抓爪拽专砖转撰赚篆桩庄装妆撞壮状椎锥追赘坠缀谆准捉拙卓桌琢茁酌啄着灼浊兹咨资姿滋淄孜紫仔籽滓子自渍字鬃棕踪宗综总纵邹走奏揍租足卒族祖诅阻组钻纂嘴醉最罪尊遵昨左佐柞做作坐座\uE810\u0001\u0004谸\u0001\u0008豂',
+    '\u0001\u0003豈豊豋豍\u0001\u0007豖\u0001\u0003豛\u0001\u0005豣\u0001\u0006豬\u0001\u0006豴\u0001\u0003豻\u0001\u0006貃貄貆\u0001\u0002貋貍\u0001\u0006貕\u0001\u0002貙',
+    '\u0001\u0014亍丌兀丐廿卅丕亘丞鬲孬噩丨禺丿匕乇夭爻卮氐囟胤馗毓睾鼗丶亟鼐乜乩亓芈孛啬嘏仄厍厝厣厥厮靥赝匚叵匦匮匾赜卦卣刂刈刎刭刳刿剀剌剞剡剜蒯剽劂劁劐劓冂罔亻仃仉仂仨仡仫仞伛仳伢佤仵伥伧伉伫佞佧攸佚佝貮\u0001\u005F佟佗伲伽佶佴侑侉侃侏佾佻侪佼侬侔俦俨俪俅俚俣俜俑俟俸倩偌俳倬倏',
+    '倮倭俾倜倌倥倨偾偃偕偈偎偬偻傥傧傩傺僖儆僭僬僦僮儇儋仝氽佘佥俎龠汆籴兮巽黉馘冁夔勹匍訇匐凫夙兕亠兖亳衮袤亵脔裒禀嬴蠃羸冫冱冽冼贎\u0001\u000E贠赑赒赗赟赥赨\u0001\u0002赬赮赯赱赲赸\u0001\u0008趂趃趆\u0001\u0003趌\u0001\u0004趒趓趕',
+    '\u0001\u0009趠\u0001\u0002趤\u0001\u000C趲趶趷趹趻趽跀\u0001\u0002跅跇\u0001\u0003跍跐跒\u0001\u0002凇冖冢冥讠讦讧讪讴讵讷诂诃诋诏诎诒\u0001\u0002诖诘诙诜诟诠诤诨诩诮诰诳诶诹诼诿谀谂谄谇谌谏谑谒谔',
+    '\u0001\u0002谙谛谘谝谟\u0001\u0002谥谧谪谫谮谯谲谳谵谶卩卺阝阢阡阱阪阽阼陂陉陔陟陧陬陲陴隈隍隗隰邗邛邝邙邬邡邴邳邶邺跕跘跙跜跠\u0001\u0002跥\u0001\u0002跩跭跮跰\u0001\u0002跴跶跼跾\u0001\u0006踆\u0001\u0002踋踍踎踐',
+    '\u0001\u0003踕\u0001\u0007踠踡踤\u0001\u0004踫踭踰踲\u0001\u0002踶\u0001\u0002踻踼踾踿蹃蹅蹆蹌\u0001\u0004蹓\u0001\u0005蹚\u0001\u000B蹧蹨蹪蹫蹮蹱邸邰郏郅邾郐郄郇郓郦郢郜郗郛郫郯郾鄄鄢鄞鄣鄱鄯鄹酃酆刍奂劢',
+    '劬劭劾哿勐勖勰叟燮矍廴凵凼鬯厶弁畚巯坌垩垡塾墼壅壑圩圬圪圳圹圮圯坜圻坂坩垅坫垆坼坻坨坭坶坳垭垤垌垲埏垧垴垓垠埕埘埚埙埒垸埴埯埸埤埝蹳蹵蹷\u0001\u0004蹽蹾躀躂\u0001\u0002躆躈\u0001\u0006躑\u0001\u0002躕\u0001\u0006躝躟\u0001\u000B',
+    '躭躮躰躱躳\u0001\u0006躻\u0001\u0012軏\u0001\u0015堋堍埽埭堀堞堙塄堠塥塬墁墉墚墀馨鼙懿艹艽艿芏芊芨芄芎芑芗芙芫芸芾芰苈苊苣芘芷芮苋苌苁芩芴芡芪芟苄苎芤苡茉苷苤茏茇苜苴苒苘茌苻苓茑茚茆茔茕苠苕茜荑荛荜茈莒茼茴茱莛荞茯荏荇荃荟荀茗荠茭茺茳荦荥軥\u0001\u005F',
+    '荨茛荩荬荪荭荮莰荸莳莴莠莪莓莜莅荼莶莩荽莸荻莘莞莨莺莼菁萁菥菘堇萘萋菝菽菖萜萸萑萆菔菟萏萃菸菹菪菅菀萦菰菡葜葑葚葙葳蒇蒈葺蒉葸萼葆葩葶蒌蒎萱葭蓁蓍蓐蓦蒽蓓蓊蒿蒺蓠蒡蒹蒴蒗蓥蓣蔌甍蔸蓰蔹蔟蔺轅\u0001\u0020轪辀辌辒辝辠\u0001\u0002辤\u0001\u0003辪辬',
+    '\u0001\u0003農\u0001\u0003辷辸辺\u0001\u0002辿迀迃迆迉\u0001\u0004迏迒迖迗迚迠迡迣迧迬迯迱迲迴\u0001\u0002迺\u0001\u0002迾迿逇逈逌逎逓逕逘蕖蔻蓿蓼蕙蕈蕨蕤蕞蕺瞢蕃蕲蕻薤薨薇薏蕹薮薜薅薹薷薰藓藁藜藿蘧蘅蘩蘖蘼廾弈夼奁耷奕奚奘匏尢尥',
+    '尬尴扌扪抟抻拊拚拗拮挢拶挹捋捃掭揶捱捺掎掴捭掬掊捩掮掼揲揸揠揿揄揞揎摒揆掾摅摁搋搛搠搌搦搡摞撄摭撖這逜連\u0001\u0002逧\u0001\u0005逰\u0001\u0004逷逹逺逽逿遀遃遅遆遈\u0001\u0004過達\u0001\u0002遙遚遜\u0001\u0005遤遦遧適',
+    '\u0001\u0003遯\u0001\u0004遶\u0001\u0006遾邁還\u0001\u0003邉邊邌\u0001\u0004邒邔邖邘邚邜邞\u0001\u0002邤邥邧\u0001\u0002邫邭邲邷邼邽邿郀摺撷撸撙撺擀擐擗擤擢攉攥攮弋忒甙弑卟叱叽叩叨叻吒吖吆呋呒\u0001\u0002',
+    '呖呃吡呗呙吣吲咂咔呷呱呤咚咛咄呶呦咝哐咭哂咴哒咧咦哓哔呲咣哕咻咿哌哙哚哜咩咪咤哝哏哞唛哧唠哽唔哳唢唣唏唑唧唪啧喏喵啉啭啁啕唿啐唼郂郃郆郈郉郋\u0001\u0002郒郔\u0001\u0002郘\u0001\u0002郞\u0001\u0002郣\u0001\u0002郩郪郬郮郰',
+    '\u0001\u0003郵\u0001\u0002郹\u0001\u0003郿\u0001\u0002鄃鄅\u0001\u0013鄚\u0001\u0003鄟\u0001\u0002鄤\u0001\u000A鄰鄲\u0001\u0006鄺\u0001\u0008酄唷啖啵\u0001\u0002唳唰啜',
+    '喋嗒喃喱喹喈喁喟啾嗖喑啻嗟喽喾喔喙嗪嗷嗉嘟嗑嗫嗬嗔嗦嗝嗄嗯嗥嗲嗳嗌嗍嗨嗵嗤辔嘞嘈嘌嘁嘤嘣嗾嘀嘧嘭噘嘹噗嘬噍噢噙噜噌噔嚆噤噱噫噻噼嚅嚓嚯囔囗囝囡囵囫囹囿圄圊圉圜帏帙帔帑帱帻帼酅酇酈酑酓\u0001\u0003酘酙酛酜酟酠酦\u0001\u0002酫酭酳酺\u0001\u0002醀',
+    '\u0001\u0004醆醈醊醎醏醓\u0001\u0006醜\u0001\u0005醤\u0001\u0005醫醬醰\u0001\u0003醶\u0001\u0003醻\u0001\u000B釈釋釐釒\u0001\u0009針\u0001\u0008帷幄幔幛幞幡岌屺岍岐岖岈岘岙岑岚岜岵岢岽岬岫岱岣',
+    '峁岷峄峒峤峋峥崂崃崧崦崮崤崞崆崛嵘崾崴崽嵬嵛嵯嵝嵫嵋嵊嵩嵴嶂嶙嶝豳嶷巅彳彷徂徇徉後徕徙徜徨徭徵徼衢彡犭犰犴犷犸狃狁狎狍狒狨狯狩狲狴狷猁狳猃狺釦\u0001\u005F狻猗猓猡猊猞猝猕猢猹猥猬猸猱獐獍獗獠獬獯獾舛夥飧夤夂饣饧\u0001\u0005饴饷饽馀馄馇馊馍馐馑馓\u0001\u0002庀庑庋庖',
+    '庥庠庹庵庾庳赓廒廑廛廨廪膺忄忉忖忏怃忮怄忡忤忾怅怆忪忭忸怙怵怦怛怏怍怩怫怊怿怡恸恹恻恺恂鉆\u0001\u002D鉵\u0001\u0018銏\u0001\u0018恪恽悖悚悭悝悃悒悌悛惬悻悱惝惘惆惚悴愠愦愕愣惴愀愎愫慊慵憬憔憧憷懔懵忝隳闩闫闱闳闵闶闼闾阃阄阆阈阊\u0001\u0003阏阒阕',
+    '\u0001\u0002阙阚丬爿戕氵汔汜汊沣沅沐沔沌汨汩汴汶沆沩泐泔沭泷泸泱泗沲泠泖泺泫泮沱泓泯泾銨\u0001\u0005銯\u0001\u0018鋉\u0001\u0040洹洧洌浃浈洇洄洙洎洫浍洮洵洚浏浒浔洳涑浯涞涠浞涓涔浜浠浼浣渚淇淅淞渎涿淠渑淦淝淙渖涫渌涮渫湮湎湫溲湟溆湓湔渲渥湄滟溱溘滠漭滢',
+    '溥溧溽溻溷滗溴滏溏滂溟潢潆潇漤漕滹漯漶潋潴漪漉漩澉澍澌潸潲潼潺濑錊\u0001\u0033錿\u0001\u002A鍫濉澧澹澶濂濡濮濞濠濯瀚瀣瀛瀹瀵灏灞宀宄宕宓宥宸甯骞搴寤寮褰寰蹇謇辶迓迕迥迮迤迩迦迳迨逅逄逋逦逑逍逖逡逵逶逭逯遄遑遒遐遨遘遢遛暹遴遽邂邈邃邋彐彗彖彘尻咫屐屙孱屣屦羼弪弩弭艴弼鬻屮妁妃妍',
+    '妩妪妣鍬\u0001\u0022鎐\u0001\u0039鏋\u0001\u0002妗姊妫妞妤姒妲妯姗妾娅娆姝娈姣姘姹娌娉娲娴娑娣娓婀婧婊婕娼婢婵胬媪媛婷婺媾嫫媲嫒嫔媸嫠嫣嫱嫖嫦嫘嫜嬉嬗嬖嬲嬷孀尕尜孚孥孳孑孓孢驵驷驸驺驿驽骀骁骅骈骊骐骒骓骖骘骛\u0001\u0002骟骠骢骣骥骧纟纡纣纥纨纩鏎',
+    '\u0001\u0007鏗\u0001\u0057纭纰纾绀\u0001\u0002绉绋绌绐绔绗绛绠绡绨绫绮绯绱绲缍绶绺绻绾缁\u0001\u0002缇缈缋缌缏缑缒缗缙缜缛缟缡\u0001\u0006缪\u0001\u0003缯\u0001\u0004缵幺畿巛甾邕玎玑玮玢玟珏珂珑玷玳珀珉珈珥珙顼琊珩珧',
+    '珞玺珲琏琪瑛琦琥琨琰琮琬鐯\u0001\u000E鐿\u0001\u002B鑬\u0001\u0018钑钖钘铇铏铓铔铚铦铻锜锠琛琚瑁瑜瑗瑕瑙瑷瑭瑾璜璎璀璁璇璋璞璨璩璐璧瓒璺韪\u0001\u0002杌杓杞杈杩枥枇杪杳枘枧杵枨枞枭枋杷杼柰栉柘栊柩枰栌柙枵柚枳柝栀柃枸柢栎柁柽栲栳桠桡桎桢桄桤梃栝桕桦桁桧',
+    '桀栾桊桉栩梵梏桴桷梓桫棂楮棼椟椠棹锧锳锽镃镈镋镕镚镠镮镴镵長\u0001\u0007門\u0001\u004B椤棰椋椁楗棣椐楱椹楠楂楝榄楫榀榘楸椴槌榇榈槎榉楦楣楹榛榧榻榫榭槔榱槁槊槟榕槠榍槿樯槭樗樘橥槲橄樾檠橐橛樵檎橹樽樨橘橼檑檐檩檗檫猷獒殁殂殇殄殒殓殍殚殛殡殪轫轭轱\u0001\u0002轵轶轸轷',
+    '轹轺轼轾辁辂辄辇辋闌\u0001\u001B闬闿阇阓阘阛阞阠阣\u0001\u0006阫\u0001\u0002阯阰阷\u0001\u0003阾陁陃陊陎陏陑\u0001\u0002陖\u0001\u0004陜\u0001\u0002陠陣陥陦陫陭\u0001\u0004陳陸\u0001\u000C隇隉',
+    '隊辍\u0001\u0002辘辚軎戋戗戛戟戢戡戥戤戬臧瓯瓴瓿甏甑甓攴旮\u0001\u0002昊昙杲昃昕昀炅曷昝昴昱昶昵耆晟晔晁晏晖晡晗晷暄暌暧暝暾曛曜曦曩贲贳贶贻贽赀赅赆赈赉赇赍赕赙觇觊\u0001\u0002觎\u0001\u0003牮犟牝牦牯牾牿犄犋犍犏犒挈挲掰隌階隑\u0001\u0002隕',
+    '隖隚際隝\u0001\u0009隨\u0001\u0007隱隲隴隵隷隸隺隻隿雂雃雈雊雋雐雑雓雔雖\u0001\u0009雡\u0001\u0006雫\u0001\u0003雰\u0001\u0002雴雵雸雺\u0001\u0003雿霂霃霅霊\u0001\u0002霐\u0001\u0002霔霕霗',
+    '\u0001\u0004霝霟霠搿擘耄毪毳毽毵毹氅氇氆氍氕氘\u0001\u0002氡氩氤氪氲攵敕敫牍牒牖爰虢刖肟肜肓肼朊肽肱肫肭肴肷胧\u0001\u0003胛胂胄胙胍胗朐胝胫胱胴胭脍脎胲胼朕脒豚脶脞脬脘脲腈腌腓腴腙腚腱腠腩腼腽腭腧塍媵膈膂膑滕膣膪臌朦臊膻霡\u0001\u0008霫霬霮霯霱霳',
+    '\u0001\u0004霺\u0001\u0003霿\u0001\u0012靔靕靗靘靚靜靝靟靣靤靦\u0001\u0002靪\u0001\u0008靵靷\u0001\u0004靽\u0001\u0007鞆\u0001\u0004鞌鞎\u0001\u0002鞓鞕\u0001\u0002鞙',
+    '\u0001\u0004臁膦欤欷欹歃歆歙飑\u0001\u0002飕飙飚殳彀毂觳斐齑斓於旆旄旃旌旎旒旖炀炜炖炝炻烀炷炫炱烨烊焐焓焖焯焱煳煜煨煅煲煊煸煺熘熳熵熨熠燠燔燧燹爝爨灬焘煦熹戾戽扃扈扉礻祀祆祉祛祜祓祚祢祗祠祯祧祺禅禊禚禧禳忑忐鞞鞟鞡鞢鞤\u0001\u0006鞬鞮鞰鞱鞳鞵',
+    '\u0001\u0030韨韮\u0001\u0004韴韷\u0001\u0017怼恝恚恧恁恙恣悫愆愍慝憩憝懋懑戆肀聿沓泶淼矶矸砀砉砗砘砑斫砭砜砝砹\u0001\u0002砟砼砥砬砣砩硎硭硖硗砦硐硇硌硪碛碓碚碇碜碡碣碲碹碥磔磙磉磬磲礅磴礓礤礞礴龛黹黻黼盱眄眍盹眇眈眚眢眙眭眦眵眸睐睑睇睃睚睨頏',
+    '\u0001\u005F睢睥睿瞍睽瞀瞌瞑瞟瞠瞰瞵瞽町畀畎畋畈畛畲畹疃罘罡罟詈罨罴罱罹羁罾盍盥蠲钅\u0001\u0002钋钊钌钍钏钐钔钗钕钚\u0001\u0002钣钤钫钪钭钬钯钰钲钴钶\u0001\u0004钼钽钿铄铈\u0001\u0006铐\u0001\u0002铕\u0001\u0002铙铘',
+    '铛铞\u0001\u0002铢铤铥铧铨铪顯\u0001\u0005颋颎颒颕颙颣風\u0001\u0025飏飐飔飖飗飛\u0001\u0002飠\u0001\u0006飩\u0001\u001E铩铫铮铯铳\u0001\u0002铷铹铼铽铿锃锂锆锇锉锊锍\u0001\u0002锒\u0001\u0004',
+    '锘锛锝\u0001\u0002锢锪锫锩锬锱锲锴锶\u0001\u0002锼锾锿镂锵镄\u0001\u0002镉镌镎镏镒\u0001\u0002镖\u0001\u0003镛镞镟镝镡镢镤\u0001\u0008镯镱\u0001\u0002锺矧矬雉秕秭秣秫稆嵇稃稂稞稔餈\u0001\u0004餎餏餑',
+    '\u0001\u001C餯\u0001\u0024饖\u0001\u000C饤饦饳饸饹饻饾馂馃馉稹稷穑黏馥穰皈皎皓皙皤瓞瓠甬鸠鸢鸨\u0001\u0004鸲鸱鸶鸸鸷鸹鸺鸾鹁鹂鹄鹆\u0001\u0003鹋鹌鹎鹑鹕鹗鹚\u0001\u0002鹞鹣鹦\u0001\u0006鹱鹭鹳疒疔疖疠疝疬疣疳疴疸痄疱',
+    '疰痃痂痖痍痣痨痦痤痫痧瘃痱痼痿瘐瘀瘅瘌瘗瘊瘥瘘瘕瘙馌馎馚\u0001\u000A馦馧馩\u0001\u0050瘛瘼瘢瘠癀瘭瘰瘿瘵癃瘾瘳癍癞癔癜癖癫癯翊竦穸穹窀窆窈窕窦窠窬窨窭窳衤衩衲衽衿袂袢裆袷袼裉裢裎裣裥裱褚裼裨裾裰褡褙褓褛褊褴褫褶襁襦襻疋胥皲皴矜耒耔耖耜耠耢耥\u0001\u0002耩耨耱耋耵聃',
+    '聆聍聒聩聱覃顸颀颃駺\u0001\u005F颉颌颍颏颔颚颛颞颟颡颢颥颦虍虔虬虮虿虺虼虻蚨蚍蚋蚬蚝蚧蚣蚪蚓蚩蚶蛄蚵蛎蚰蚺蚱蚯蛉蛏蚴蛩蛱蛲蛭蛳蛐蜓蛞蛴蛟蛘蛑蜃蜇蛸蜈蜊蜍蜉蜣蜻蜞蜥蜮蜚蜾蝈蜴蜱蜩蜷蜿螂蜢蝽蝾蝻蝠蝰蝌蝮螋蝓蝣蝼蝤蝙蝥螓螯螨蟒驚\u0001\u0011驲骃骉骍骎骔骕骙骦骩',
+    '\u0001\u0006骲\u0001\u0003骹骻骽\u0001\u0002髃髄髆\u0001\u0004髍\u0001\u0003髒體\u0001\u0003髙\u0001\u0005髠髢\u0001\u0003髧\u0001\u0003髬髮髰\u0001\u0008髺髼',
+    '\u0001\u0006鬄\u0001\u0002蟆螈螅螭螗螃螫蟥螬螵螳蟋蟓螽蟑蟀蟊蟛蟪蟠蟮蠖蠓蟾蠊蠛蠡蠹蠼缶罂罄罅舐竺竽笈笃笄笕笊笫笏筇笸笪笙笮笱笠笥笤笳笾笞筘筚筅筵筌筝筠筮筻筢筲筱箐箦箧箸箬箝箨箅箪箜箢箫箴篑篁篌篝篚篥篦篪簌篾篼簏簖簋鬇鬉\u0001\u0005鬐\u0001\u0002鬔',
+    '\u0001\u000A鬠\u0001\u0002鬤\u0001\u000A鬰鬱鬳\u0001\u0007鬽\u0001\u0003魆魊\u0001\u0002魎魐魒魓魕\u0001\u0026簟簪簦簸籁籀臾舁舂舄臬衄舡\u0001\u0002舭舯舨舫舸舻舳舴舾艄艉艋艏艚艟艨衾袅袈裘裟襞羝羟羧羯羰羲',
+    '籼敉粑粝粜粞粢粲粼粽糁糇糌糍糈糅糗糨艮暨羿翎翕翥翡翦翩翮翳糸絷綦綮繇纛麸麴赳趄趔趑趱赧赭豇豉酊酐酎酏酤魼\u0001\u005F酢酡酰酩酯酽酾酲酴酹醌醅醐醍醑醢醣醪醭\u0001\u0002醵醴醺豕鹾趸跫踅蹙蹩趵趿趼趺跄跖跗跚跞跎跏跛跆跬跷跸跣跹跻跤踉跽踔踝踟踬踮踣踯踺蹀踹踵踽踱蹉蹁蹂蹑蹒蹊蹰蹶蹼蹯',
+    '蹴躅躏躔躐躜躞豸貂貊貅貘貔斛觖觞觚觜鯜\u0001\u005F觥觫觯訾謦靓雩雳雯霆霁霈霏霎霪霭霰霾龀龃龅\u0001\u0005龌黾鼋鼍隹隼隽雎雒瞿雠銎銮鋈錾鍪鏊鎏鐾鑫鱿鲂鲅\u0001\u0003稣鲋鲎鲐\u0001\u0002鲔鲕鲚鲛鲞\u0001\u0005鲥\u0001\u0004鲫鲭鲮鲰',
+    '\u0001\u0007鲺\u0001\u0003鳄\u0001\u0003鳊鳋鰼\u0001\u003F鱽鱾鲀鲃鲄鲉鲊鲌鲏鲓鲖\u0001\u0003鲝鲪鲬鲯鲹鲾\u0001\u0004鳈鳉鳑鳒鳚鳛鳠鳡鳌\u0001\u0004鳓\u0001\u0002鳗\u0001\u0002鳜鳝鳟鳢靼鞅鞑鞒鞔',
+    '鞯鞫鞣鞲鞴骱骰骷鹘骶骺骼髁髀髅髂髋髌髑魅魃魇魉魈魍魑飨餍餮饕饔髟髡髦髯髫髻髭髹鬈鬏鬓鬟鬣麽麾縻麂麇麈麋麒鏖麝麟黛\u0001\u0002黠黟黢黩黧黥黪黯鼢鼬鼯鼹鼷鼽鼾齄鳣\u0001\u005F\uE234\u0001\u005D鵃\u0001\u005F\uE292\u0001\u005D鶣',
+    '\u0001\u005F\uE2F0\u0001\u005D鸃\u0001\u001B鸤鸧鸮鸰鸴鸻鸼鹀鹍鹐鹒\u0001\u0002鹖鹙鹝鹟\u0001\u0003鹥鹮鹯鹲鹴\u0001\u0009麀麁麃\u0001\u0003麉麊麌\u0001\u0005麔\u0001\u0008麞麠',
+    '\u0001\u0005麧\u0001\u0003\uE34E\u0001\u005D麫\u0001\u0008麵\u0001\u0002麹麺麼麿\u0001\u0004黅\u0001\u0003黊\u0001\u0002黐黒黓黕\u0001\u0002黙黚點黡黣黤黦黨黫\u0001\u0003黰',
+    '\u0001\u0008黺黽黿\u0001\u000B鼌鼏鼑鼒鼔\u0001\u0002鼘鼚\u0001\u0005鼡鼣\u0001\u0008鼭鼮鼰鼱\uE3AC\u0001\u005D鼲\u0001\u0004鼸鼺鼼鼿\u0001\u0004齅\u0001\u000A齒\u0001\u002C龁',
+    '龂龍\u0001\u000B龜\u0001\u0002龡\u0001\u0004郎凉秊裏隣\uE40A\u0001\u005D兀\u0001\u0003﨑﨓﨔礼﨟\u0001\u0002﨣﨤﨧\u0001\u0002⺁\uE816\u0001\u0002⺄㑳㑇⺈⺋龴㖞㘚㘎⺌⺗㥮㤘龵㧏㧟㩳㧐龶龷㭎㱮㳠',
+    '⺧\uE831龸⺪䁖䅟⺮䌷⺳⺶⺷\uE83B䎱䎬⺻䏝䓖䙡䙌龹䜣䜩䝼䞍⻊䥇䥺䥽䦂䦃䦅䦆䦟䦛䦷䦶龺\uE855䲣䲟\u0001\u0002䱷䲢䴓\u0001\u0006䶮龻\uE468\u0001\u005D'
+].join('');
+
+/**
+ * The WHATWG `gb18030 ranges` index, mapping the four-byte sequences of GB18030 in the Basic Multilingual Plane.
+ *
+ * ## Description:
+ * Each entry is a `[ pointer, codePoint ]` pair starting a range in which pointers and code points increase together.
+ * The pointer of a four-byte sequence `b1 b2 b3 b4` is
+ * `(((b1 - 0x81) * 10 + b2 - 0x30) * 126 + b3 - 0x81) * 10 + b4 - 0x30`.
+ * Pointer `7457` (U+E7C7) and the supplementary planes (pointers from `189000`) are handled by the codecs.
+ */
+
+export const gb18030Ranges: ReadonlyArray<readonly [ number, number ]> = [
+    [ 0, 0x0080 ], [ 36, 0x00A5 ], [ 38, 0x00A9 ], [ 45, 0x00B2 ], [ 50, 0x00B8 ], [ 81, 0x00D8 ],
+    [ 89, 0x00E2 ], [ 95, 0x00EB ], [ 96, 0x00EE ], [ 100, 0x00F4 ], [ 103, 0x00F8 ], [ 104, 0x00FB ],
+    [ 105, 0x00FD ], [ 109, 0x0102 ], [ 126, 0x0114 ], [ 133, 0x011C ], [ 148, 0x012C ], [ 172, 0x0145 ],
+    [ 175, 0x0149 ], [ 179, 0x014E ], [ 208, 0x016C ], [ 306, 0x01CF ], [ 307, 0x01D1 ], [ 308, 0x01D3 ],
+    [ 309, 0x01D5 ], [ 310, 0x01D7 ], [ 311, 0x01D9 ], [ 312, 0x01DB ], [ 313, 0x01DD ], [ 341, 0x01FA ],
+    [ 428, 0x0252 ], [ 443, 0x0262 ], [ 544, 0x02C8 ], [ 545, 0x02CC ], [ 558, 0x02DA ], [ 741, 0x03A2 ],
+    [ 742, 0x03AA ], [ 749, 0x03C2 ], [ 750, 0x03CA ], [ 805, 0x0402 ], [ 819, 0x0450 ], [ 820, 0x0452 ],
+    [ 7922, 0x2011 ], [ 7924, 0x2017 ], [ 7925, 0x201A ], [ 7927, 0x201E ], [ 7934, 0x2027 ], [ 7943, 0x2031 ],
+    [ 7944, 0x2034 ], [ 7945, 0x2036 ], [ 7950, 0x203C ], [ 8062, 0x20AD ], [ 8148, 0x2104 ], [ 8149, 0x2106 ],
+    [ 8152, 0x210A ], [ 8164, 0x2117 ], [ 8174, 0x2122 ], [ 8236, 0x216C ], [ 8240, 0x217A ], [ 8262, 0x2194 ],
+    [ 8264, 0x219A ], [ 8374, 0x2209 ], [ 8380, 0x2210 ], [ 8381, 0x2212 ], [ 8384, 0x2216 ], [ 8388, 0x221B ],
+    [ 8390, 0x2221 ], [ 8392, 0x2224 ], [ 8393, 0x2226 ], [ 8394, 0x222C ], [ 8396, 0x222F ], [ 8401, 0x2238 ],
+    [ 8406, 0x223E ], [ 8416, 0x2249 ], [ 8419, 0x224D ], [ 8424, 0x2253 ], [ 8437, 0x2262 ], [ 8439, 0x2268 ],
+    [ 8445, 0x2270 ], [ 8482, 0x2296 ], [ 8485, 0x229A ], [ 8496, 0x22A6 ], [ 8521, 0x22C0 ], [ 8603, 0x2313 ],
+    [ 8936, 0x246A ], [ 8946, 0x249C ], [ 9046, 0x254C ], [ 9050, 0x2574 ], [ 9063, 0x2590 ], [ 9066, 0x2596 ],
+    [ 9076, 0x25A2 ], [ 9092, 0x25B4 ], [ 9100, 0x25BE ], [ 9108, 0x25C8 ], [ 9111, 0x25CC ], [ 9113, 0x25D0 ],
+    [ 9131, 0x25E6 ], [ 9162, 0x2607 ], [ 9164, 0x260A ], [ 9218, 0x2641 ], [ 9219, 0x2643 ], [ 11329, 0x2E82 ],
+    [ 11331, 0x2E85 ], [ 11334, 0x2E89 ], [ 11336, 0x2E8D ], [ 11346, 0x2E98 ], [ 11361, 0x2EA8 ], [ 11363, 0x2EAB ],
+    [ 11366, 0x2EAF ], [ 11370, 0x2EB4 ], [ 11372, 0x2EB8 ], [ 11375, 0x2EBC ], [ 11389, 0x2ECB ], [ 11682, 0x2FFC ],
+    [ 11686, 0x3004 ], [ 11687, 0x3018 ], [ 11692, 0x301F ], [ 11694, 0x302A ], [ 11714, 0x303F ], [ 11716, 0x3094 ],
+    [ 11723, 0x309F ], [ 11725, 0x30F7 ], [ 11730, 0x30FF ], [ 11736, 0x312A ], [ 11982, 0x322A ], [ 11989, 0x3232 ],
+    [ 12102, 0x32A4 ], [ 12336, 0x3390 ], [ 12348, 0x339F ], [ 12350, 0x33A2 ], [ 12384, 0x33C5 ], [ 12393, 0x33CF ],
+    [ 12395, 0x33D3 ], [ 12397, 0x33D6 ], [ 12510, 0x3448 ], [ 12553, 0x3474 ], [ 12851, 0x359F ], [ 12962, 0x360F ],
+    [ 12973, 0x361B ], [ 13738, 0x3919 ], [ 13823, 0x396F ], [ 13919, 0x39D1 ], [ 13933, 0x39E0 ], [ 14080, 0x3A74 ],
+    [ 14298, 0x3B4F ], [ 14585, 0x3C6F ], [ 14698, 0x3CE1 ], [ 15583, 0x4057 ], [ 15847, 0x4160 ], [ 16318, 0x4338 ],
+    [ 16434, 0x43AD ], [ 16438, 0x43B2 ], [ 16481, 0x43DE ], [ 16729, 0x44D7 ], [ 17102, 0x464D ], [ 17122, 0x4662 ],
+    [ 17315, 0x4724 ], [ 17320, 0x472A ], [ 17402, 0x477D ], [ 17418, 0x478E ], [ 17859, 0x4948 ], [ 17909, 0x497B ],
+    [ 17911, 0x497E ], [ 17915, 0x4984 ], [ 17916, 0x4987 ], [ 17936, 0x499C ], [ 17939, 0x49A0 ], [ 17961, 0x49B8 ],
+    [ 18664, 0x4C78 ], [ 18703, 0x4CA4 ], [ 18814, 0x4D1A ], [ 18962, 0x4DAF ], [ 19043, 0x9FA6 ], [ 33469, 0xE76C ],
+    [ 33470, 0xE7C8 ], [ 33471, 0xE7E7 ], [ 33484, 0xE815 ], [ 33485, 0xE819 ], [ 33490, 0xE81F ], [ 33497, 0xE827 ],
+    [ 33501, 0xE82D ], [ 33505, 0xE833 ], [ 33513, 0xE83C ], [ 33520, 0xE844 ], [ 33536, 0xE856 ], [ 33550, 0xE865 ],
+    [ 37845, 0xF92D ], [ 37921, 0xF97A ], [ 37948, 0xF996 ], [ 38029, 0xF9E8 ], [ 38038, 0xF9F2 ], [ 38064, 0xFA10 ],
+    [ 38065, 0xFA12 ], [ 38066, 0xFA15 ], [ 38069, 0xFA19 ], [ 38075, 0xFA22 ], [ 38076, 0xFA25 ], [ 38078, 0xFA2A ],
+    [ 39108, 0xFE32 ], [ 39109, 0xFE45 ], [ 39113, 0xFE53 ], [ 39114, 0xFE58 ], [ 39115, 0xFE67 ], [ 39116, 0xFE6C ],
+    [ 39265, 0xFF5F ], [ 39394, 0xFFE6 ]
+];
@@ -0,0 +1,93 @@
+/**
+ * The WHATWG `jis0212` index (JIS X 0212 supplementary kanji), used by the EUC-JP decoder
+ * for the three-byte sequences starting with `0x8F`.
+ *
+ * ## Description:
+ * The pointer of a character is `row * 94 + cell`. The EUC-JP encoder does not use this index.
+ *
+ * The index is stored compactly and expanded by the CJK codecs the first time it is used.
+ * Reading the string by code points, every character is the code point of the next pointer, except:
+ * - `'\u0000'` followed by a character `n`: the next `n` pointers (the char code of `n`) are not mapped.
+ * - `'\u0001'` followed by a character `n`: the next `n` pointers continue the sequence of the previous code point
+ *   (each one is the previous code point plus one).
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(jis0212Index.charCodeAt(1));    // Outputs: 108 (pointers 0-107 are not mapped)
+ * console.log(jis0212Index.codePointAt(2));   // Outputs: 728 (U+02D8 at pointer 108)
+ * ```
+ */
+
+export const jis0212Index = [
+    '\u0000\u006C˘ˇ¸˙˝¯˛˚～΄΅\u0000\u0008¡¦¿\u0000\u0026ºª©®™¤№\u0000\u0167ΆΈ\u0001\u0002Ϊ\u0000\u0001Ό\u0000\u0001ΎΫ\u0000\u0001Ώ\u0000\u0004ά\u0001\u0003ϊ',
+    'ΐόςύϋΰώ\u0000\u0023Ђ\u0001\u000AЎЏ\u0000\u0023ђ\u0001\u000Aўџ\u0000\u005EÆĐ\u0000\u0001Ħ\u0000\u0001Ĳ\u0000\u0001ŁĿ\u0000\u0001ŊØŒ\u0000\u0001ŦÞ',
+    '\u0000\u0010æđðħıĳĸłŀŉŋøœßŧþ\u0000\u002EÁÀÄÂĂǍĀĄÅÃĆĈČÇĊĎÉÈËÊĚĖĒĘ\u0000\u0001ĜĞĢĠĤÍÌÏÎǏİĪĮĨĴĶĹĽĻŃŇŅÑÓÒÖÔǑŐŌÕŔŘŖŚŜŠŞŤŢÚÙÜÛŬǓŰŪŲŮŨǗǛǙǕŴÝŸŶŹŽŻ\u0000\u0007',
+    'áàäâăǎāąåãćĉčçċďéèëêěėēęǵĝğ\u0000\u0001ġĥíìïîǐ\u0000\u0001īįĩĵķĺľļńňņñóòöôǒőōõŕřŗśŝšşťţúùüûŭǔűūųůũǘǜǚǖŵýÿŷźžż\u0000\u017F丂丄丅丌丒丟丣两丨丫丮\u0001\u0002丵乀乁乄乇乑',
+    '乚乜乣乨乩乴乵乹乿亍亖亗亝亯亹仃仐仚仛仠\u0001\u0002仨仯仱仳仵份\u0001\u0003伂伃伈伋伌伒伕\u0001\u0002伙伮伱你伳伵伷伹伻伾佀佂佈佉佋佌佒佔佖佘佟佣佪佬佮佱佷\u0001\u0003佽佾侁侂侄侅侉侊侌侎侐侒\u0001\u0002侗侙侚侞侟侲侷侹侻',
+    '\u0001\u0003俀俁俅俆俈俉俋\u0001\u0002俏俒俜俠俢俰俲俼俽俿\u0001\u0002倄倇倊倌倎倐倓倗倘倛\u0001\u0003倢倧倮倰倲倳倵偀\u0001\u0002偅偆偊偌偎偑\u0001\u0002偗偙偟偠偢偣偦偧偪偭偰偱倻傁傃傄傆傊傎\u0001\u0002傒',
+    '\u0001\u0002傖傛傜傞\u0001\u0004傪傯傰傹傺傽僀僃僄僇僌僎僐僓僔僘僜僝僟僢僤僦僨僩僯僱僶僺僾儃儆\u0001\u0002儋\u0001\u0003僲儐儗儙儛\u0001\u0003儣儧儨儬儭儯儱儳\u0001\u0002儸儹兂兊兏兓兕兗兘兟兤兦兾冃冄冋冎冘冝冡冣冭冸冺冼冾冿凂凈',
+    '减凑\u0001\u0002凕凘凞凢凥凮凲\u0001\u0002凷刁刂刅划刓刕刖刘刢刨刱刲刵刼剅剉剕剗剘剚剜剟\u0001\u0002剦剮剷\u0001\u0002劀劂劅劊劌劓劕\u0001\u0003劚劜劤\u0001\u0003劯劰劶\u0001\u0002劺劻劽勀勄勆勈勌勏勑勔勖勛勜勡勥勨',
+    '\u0001\u0002勬勰勱勴勶勷匀匃匊\u0001\u0002匑匓匘匛匜匞匟匥匧\u0001\u0002匫\u0001\u0002匰匲匵匼\u0001\u0002卂卌卋卙卛卡卣卥卬卭卲卹卾厃厇厈厎厓厔厙厝厡厤厪厫厯厲厴厵厷厸厺厽叀叅叏叒叓叕叚叝叞叠另叧叵吂吓吚吡吧吨吪启吱吴吵呃呄呇呍呏呞呢呤呦呧',
+    '呩呫呭呮呴呿咁咃咅咈咉咍咑咕咖咜咟咡咦咧咩咪咭咮咱咷咹\u0001\u0002咿哆哊响哎哠哪哬哯哶哼哾\u0001\u0003唅唈唉唌\u0001\u0002唕唪唫唲唵唶唻\u0001\u0002啁啇啉啊啍啐啑啘啚啛啞啠啡啤啦啿喁喂喆喈喎喏喑\u0001\u0003喗喣喤喭喲喿嗁嗃嗆嗉嗋嗌嗎嗑',
+    '\u0001\u0002嗗嗘嗛嗞嗢嗩嗶嗿嘅嘈嘊嘍\u0001\u0005嘙嘬嘰嘳嘵嘷嘹嘻\u0001\u0002嘿\u0001\u0002噃噄噆噉噋噍噏噔噞噠\u0001\u0003噦噩噭噯噱噲噵嚄嚅嚈嚋嚌嚕嚙嚚嚝\u0001\u0002嚦\u0001\u0003嚫\u0001\u0002嚱嚳嚷嚾囅',
+    '囉\u0001\u0002囏囐囌囍囙囜囝囟囡囤\u0001\u0004囱囫园囶囷圁圂圇圊圌圑圕圚圛圝圠圢\u0001\u0003圩圪圬圮圯圳圴圽\u0001\u0002坅坆坌坍坒坢坥坧坨坫坭\u0001\u0004坳\u0001\u0002坷坹\u0001\u0003坾垁垃垌垔垗垙垚垜',
+    '\u0001\u0003垡垕垧\u0001\u0002垬垸垽埇埈埌埏埕埝埞埤埦埧埩埭埰埵埶埸埽\u0001\u0002堃堄堈堉埡堌堍堛堞\u0001\u0002堦堧堭堲堹堿塉塌塍塏塐塕塟塡塤塧塨塸塼塿\u0001\u0002墇\u0001\u0003墌墍墏墐墔墖墝墠\u0001\u0002墦墩墱墲壄',
+    '墼壂壈壍壎壐壒壔壖壚壝壡壢壩壳夅夆夋夌夒\u0001\u0002虁夝夡夣夤夨夯夰夳夵夶夿奃奆奒奓奙奛奝\u0001\u0002奡奣奫奭奯奲奵奶她奻奼妋妌妎妒妕妗妟妤妧妭\u0001\u0003妳妷妺妼姁姃姄姈姊姍姒姝\u0001\u0002姣姤姧姮姯姱姲姴姷娀娄娌\u0001\u0002娒娓娞娣娤娧',
+    '娨娪娭娰婄婅婇婈婌婐婕婞婣婥婧婭婷婺婻婾媋媐媓媖媙媜媞\u0001\u0002媢媧媬媱\u0001\u0002媵媸媺媻媿嫄嫆嫈嫏嫚嫜嫠嫥嫪嫮嫵嫶嫽嬀嬁嬈嬗嬴嬙嬛嬝嬡嬥嬭嬸孁孋孌孒孖孞孨孮孯孼\u0001\u0003宁宄宆宊宎宐宑宓宔宖宨宩宬宭宯宱宲宷宺宼寀寁寍寏寖\u0001\u0004寠寯寱寴寽尌',
+    '尗尞尟尣尦尩尫尬尮尰尲尵尶屙屚屜屢屣屧\u0001\u0002屭屰屴屵屺\u0001\u0003岇岈岊岏岒岝岟岠岢岣岦岪岲岴岵岺峉峋峒峝峗峮峱峲峴崁崆崍崒崫崣崤崦崧崱崴崹崽崿嵂嵃嵆嵈嵕嵑嵙嵊嵟\u0001\u0003嵤嵪嵭嵰嵹嵺嵾嵿嶁嶃嶈嶊嶒\u0001\u0003嶙嶛嶟嶠嶧嶫嶰嶴嶸嶹巃巇巋巐巎巘巙',
+    '巠巤巩巸巹帀帇帍帒帔帕帘帟帠帮帨帲帵帾幋幐幉幑幖幘幛幜幞幨幪\u0001\u0004幰庀庋庎庢庤庥庨庪庬庱庳庽\u0001\u0002廆廌廋廎廑廒廔廕廜廞廥廫异弆\u0001\u0002弎弙弜弝弡\u0001\u0003弨弫弬弮弰弴弶弻弽弿彀彄彅彇彍彐彔彘彛彠彣彤彧彯彲彴彵彸彺彽彾徉徍徏徖徜徝徢徧徫',
+    '徤徬徯\u0001\u0002徸忄忇\u0001\u0002忋忐\u0001\u0004忞忡忢忨\u0001\u0002忬\u0001\u0003忲忳忶忺忼怇怊怍怓怔怗怘怚怟怤怭怳怵恀恇\u0001\u0002恌恑恔恖恗恝恡恧恱恾恿悂悆悈悊悎悑悓悕悘悝悞悢悤悥您悰悱悷悻悾惂惄惈',
+    '\u0001\u0003惎惏惔惕惙惛惝惞惢惥惲惵惸惼惽愂愇愊愌愐\u0001\u0004愖愗愙愜愞愢愪愫愰愱愵\u0001\u0002愹慁慅慆慉慞慠慬慲慸慻慼慿\u0001\u0002憃憄憋憍憒憓憗憘憜憝憟憠憥憨憪憭憸憹憼懀\u0001\u0002懎懏懕懜\u0001\u0003懡懢懧懩懥懬懭懯戁戃',
+    '戄戇戓戕戜戠戢戣戧戩戫戹戽扂\u0001\u0002扆扌扐\u0001\u0002扔扖扚扜扤扭扯扳扺扽抍\u0001\u0003抦抨抳抶抷抺抾抿拄拎拕拖拚拪拲拴拼拽挃挄挊挋挍挐挓挖挘挩挪挭挵挶挹挼捁\u0001\u0003捆捊捋捎捒\u0001\u0002捘捛捥捦捬捭捱捴捵捸捼捽捿掂掄掇掊掐掔掕掙掚',
+    '掞掤掦掭\u0001\u0002掽揁揅揈揎揑揓\u0001\u0002揜揠揥揪揬揲揳揵揸揹搉搊搐搒搔搘搞搠搢搤搥搩搪搯搰搵搽搿摋摏摑\u0001\u0003摚\u0001\u0003摟\u0001\u0002摣摭摳摴摻摽撅撇撏\u0001\u0002撘撙撛撝撟撡撣撦撨撬撳撽\u0001\u0002擄',
+    '擉\u0001\u0003擎擐擑擕擗擤擥擩擪擭擰擵擷擻擿攁攄攈\u0001\u0002攏攓攔攖攙攛攞攟攢攦攩攮攱攺攼攽敃敇敉敐敒敔敟敠敧敫敺敽斁斅斊斒斕斘斝斠斣斦斮斲\u0001\u0002斿旂旈旉旎旐旔旖旘旟旰旲旴旵旹旾\u0001\u0002昄昈昉昍昑昒昕昖昝昞昡\u0001\u0003昦昩',
+    '\u0001\u0003昮昰昱昳昹昷晀晅晆晊晌晑晎晗\u0001\u0002晛晜晠晡曻晪\u0001\u0002晾晳晵晿晷\u0001\u0002晻暀晼暋\u0001\u0002暐暒暙\u0001\u0003暟暠暤暭暱暲暵暻暿曀曂曃曈曌曎曏曔曛曟曨曫曬曮曺朅朇朎朓朙朜朠朢朳朾杅杇杈杌杔杕杝杦杬杮杴杶',
+    '杻极构枎枏枑枓枖枘枙枛枰\u0001\u0002枵枻\u0001\u0002柹柀柂柃柅柈柉柒柗柙柜柡柦柰柲柶柷桒栔栙栝栟栨栧栬栭栯\u0001\u0002栳栻栿桄桅桊桌桕桗桘桛桫桮\u0001\u0004桵桹\u0001\u0003梂梄梆梈梖梘梚梜梡梣梥梩梪梮梲梻棅棈棌棏\u0001\u0002棓棖',
+    '棙棜棝棥棨棪\u0001\u0003棰棱棵棶棻\u0001\u0002椆椉椊椐椑椓椖椗椱椳椵椸椻楂楅楉楎楗楛楣\u0001\u0003楨楩楬楰\u0001\u0002楺楻楿榀榍榒榖榘榡榥榦榨榫榭榯榷榸榺榼槅槈槑槖槗槢槥槮槯槱槳槵槾樀樁樃樏樑樕樚樝樠樤樨樰樲樴樷樻樾樿橅橆橉橊橎橐',
+    '\u0001\u0002橕橖橛橤橧橪橱橳橾檁檃檆檇檉檋檑檛檝\u0001\u0002檥檫檯\u0001\u0002檴檽\u0001\u0002櫆櫉櫈櫌櫐櫔\u0001\u0002櫜櫝櫤櫧櫬櫰\u0001\u0002櫼櫽欂欃欆欇欉欏\u0001\u0002欗欛欞欤欨欫欬欯欵欶欻欿歆歊歍歒歖歘歝歠歧歫歮',
+    '歰歵歽歾殂殅殗殛殟殠殢殣殨殩殬\u0001\u0002殰殸殹殽殾毃毄毉毌毖毚毡毣毦毧毮毱毷毹毿氂氄氅氉氍氎氐氒氙氟氦\u0001\u0002氬氮氳氵氶氺氻氿汊汋汍汏汒汔汙汛汜汫汭汯汴汶汸汹汻沅\u0001\u0002沉沔沕沗沘沜沟沰沲沴泂泆泍泏\u0001\u0003泔泖泚泜泠泧泩泫泬泮泲泴洄洇洊洎',
+    '洏洑洓洚洦\u0001\u0002汧洮洯洱洹洼洿浗浞浟浡浥浧浯浰浼涂涇涑涒涔涖\u0001\u0002涪涬涴涷涹涽涿淄淈淊淎淏淖淛淝淟淠淢淥淩淯淰淴淶淼渀渄渞渢渧渲渶渹渻渼湄湅湈湉湋湏湑\u0001\u0003湗湜\u0001\u0002湢湣湨湳湻湽溍溓溙溠溧溭溮溱溳溻溿\u0001\u0002滃滇',
+    '滈滊滍\u0001\u0002滫滭滮滹滻滽漄漈漊漌漍漖漘漚漛漦漩漪漯漰漳漶漻漼漭潏潑\u0001\u0002潗潙潚潝潞潡潢潨潬潽潾澃澇澈澋\u0001\u0002澐澒\u0001\u0002澖澚澟澠澥\u0001\u0003澮\u0001\u0002澵澶澼濅濇濈濊濚濞濨濩濰濵濹濼濽瀀瀅',
+    '\u0001\u0002瀍瀗瀠瀣瀯瀴瀷瀹瀼灃灄灈\u0001\u0003灔灕灝灞灎灤灥灬灮灵灶灾炁炅炆炔\u0001\u0004炛炤炫炰炱炴炷烊烑烓\u0001\u0003烘烜烤烺焃\u0001\u0004焋焌焏焞焠焫焭焯\u0001\u0002焸煁煅\u0001\u0002煊煋煐煒煗煚煜煞煠煨煹熀',
+    '熅熇熌熒熚熛熠熢熯熰熲熳熺熿\u0001\u0002燄燋燌燓燖燙燚燜燸燾爀爇\u0001\u0002爓爗爚爝爟爤爫爯爴爸爹牁\u0001\u0002牅牎\u0001\u0002牓牕牖牚牜牞牠牣牨牫牮牯牱牷牸牻牼牿犄犉犍犎犓犛犨犭犮犱犴犾狁狇狉狌狕狖狘狟狥狳狴狺狻狾猂猄猅猇猋猍猒猓猘猙猞猢猤猧猨猬猱猲',
+    '猵猺猻猽獃獍獐獒獖獘獝\u0001\u0003獦獧獩獫獬獮獯獱獷獹獼玀玁玃玅玆玎玐玓玕玗玘玜玞\u0001\u0002玢玥玦玪玫玭玵玷玹玼玽玿珅珆珉珋珌珏珒珓珖珙珝珡珣珦珧珩珴珵珷珹\u0001\u0002珽珿\u0001\u0002琄琇琊琑琚琛琤琦琨\u0001\u0009琹瑀瑃瑄瑆瑇瑋瑍瑑瑒瑗瑝',
+    '瑢瑦\u0001\u0002瑫瑭瑮瑱瑲璀璁璅\u0001\u0002璉璏\u0001\u0003璘\u0001\u0002璜璟\u0001\u0002璣璦璨\u0001\u0003璮璯璱璲璵璹璻璿瓈瓉瓌瓐瓓瓘瓚瓛瓞瓟瓤瓨瓪瓫瓯瓴瓺\u0001\u0002瓿甆甒甖甗甠甡甤甧甩甪甯甶甹甽',
+    '\u0001\u0003畃畇畈畎畐畒畗畞畟畡畯畱畹\u0001\u0005疁疅疐疒疓疕疙疜疢疤疴疺疿\u0001\u0002痄痆痌痎痏痗痜痟\u0001\u0002痤痧痬痮痯痱痹瘀瘂\u0001\u0002瘇瘈瘊瘌瘏瘒瘓瘕瘖瘙瘛\u0001\u0003瘣瘥瘦瘩瘭瘲瘳瘵瘸\u0001\u0002瘼癊癀',
+    '癁癃\u0001\u0002癉癋癕癙癟癤癥癭\u0001\u0002癱癴皁皅皌皍皕皛\u0001\u0002皟皠皢\u0001\u0006皪皭皽盁盅盉盋盌盎盔盙盠盦盨盬盰盱盶盹盼眀眆眊眎眒眔眕眗眙眚眜眢眨眭\u0001\u0002眴\u0001\u0002眹眽眾睂睅睆睊睍\u0001\u0002睒睖',
+    '睗睜睞\u0001\u0002睢睤睧睪睬睰睲\u0001\u0002睺睽瞀瞄瞌瞍瞔\u0001\u0002瞚瞟瞢瞧瞪瞮瞯瞱瞵瞾矃矉矑矒矕矙矞\u0001\u0002矤矦矪矬矰矱矴矸矻砅砆砉砍砎砑砝砡\u0001\u0002砭砮砰砵砷硃硄硇硈硌硎硒硜硞硠硡硣硤硨硪确硺硾碊碏碔碘碡碝',
+    '\u0001\u0002碤碨碬碭碰\u0001\u0003碻碽碿磇\u0001\u0002磌磎磒磓磕磖磤磛磟\u0001\u0002磦磪磲磳礀磶磷磺磻磿礆礌礐礚礜礞\u0001\u0002礥礧礩礭礱礴礵礻礽礿祄\u0001\u0002祊祋祏祑祔祘祛祜祧祩祫祲祹祻祼祾禋禌禑禓\u0001\u0003禘',
+    '禛禜禡禨禩禫禯禱禴禸离秂秄秇秈秊秏秔秖秚秝秞秠秢秥秪秫秭秱秸秼稂稃稇稉稊稌稑稕稛稞稡稧稫稭稯稰稴稵稸\u0001\u0002穄穅穇穈穌穕穖穙穜穝穟穠穥穧穪穭穵穸穾窀窂窅窆窊窋窐窑窔窞窠窣窬窳窵窹窻窼竆竉竌竎竑竛竨竩竫竬竱竴竻竽竾笇笔笟笣笧笩\u0001\u0002笭\u0001\u0004笴笽笿',
+    '\u0001\u0002筇筎筕筠筤筦筩筪筭筯筲筳筷箄箉箎箐箑箖箛箞箠箥箬箯箰箲箵箶箺\u0001\u0003篂篅篈篊篔篖篗篙\u0001\u0002篨篪篲篴篵篸\u0001\u0002篼篾簁\u0001\u0003簆簉簋簌簎簏簙簛簠簥簦簨簬簱簳簴簶簹簺籆籊籕籑\u0001\u0002籙',
+    '\u0001\u0005籡籣籧籩籭籮籰籲籹籼籽粆粇粏粔粞粠粦粰粶粷粺\u0001\u0002粿糄糇\u0001\u0002糍糏糓\u0001\u0002糗糙糚糝糦糩糫糵紃紇\u0001\u0002紏紑\u0001\u0002紖紝紞紣紦紪紭紱紼\u0001\u0002絀絁絇絈絍絑絓絗絙絚絜絝絥絧絪絰絸',
+    '絺絻絿綁\u0001\u0002綅綆綈綋\u0001\u0002綑綖綗綝綞綦綧綪綳綶綷綹緂\u0001\u0004緌\u0001\u0002緗緙縀緢緥緦緪緫緭緱緵緶緹緺縈縐縑縕縗縜縝縠縧縨縬縭縯縳縶縿繄繅繇繎繐繒繘繟繡繢繥繫繮繯繳繸繾纁纆纇纊纍纑纕纘纚纝纞缼缻缽\u0001\u0002罃罄罇罏罒罓罛',
+    '\u0001\u0002罡罣\u0001\u0003罭罱罽\u0001\u0003羋羍羏\u0001\u0002羖羗羜羡羢羦羪羭羴羼羿翀翃翈翎翏翛翟翣翥翨翬翮翯翲翺翽\u0001\u0002耇耈耊耍\u0001\u0002耑耓耔耖耝\u0001\u0003耤耦耬耮耰耴耵耷耹耺耼耾聀聄聠聤聦聭聱聵肁肈',
+    '肎肜肞肦肧肫肸肹胈胍胏胒胔胕胗胘胠胭胮胰胲胳胶胹胺胾脃脋脖\u0001\u0002脜脞脠脤脧脬脰脵脺脼腅腇腊腌腒腗腠腡腧\u0001\u0002腭腯腷膁膐膄\u0001\u0002膋膎膖膘膛膞膢膮膲膴膻臋臃臅臊臎臏臕臗臛臝臞臡臤臫臬臰\u0001\u0002臵臶臸臹臽臿舀舃舏舓舔舙舚舝舡舢舨舲舴舺艃',
+    '\u0001\u0003艋艎艏艑艖艜艠艣艧艭艴艻艽艿\u0001\u0002芃芄芇芉芊芎芑芔芖芘芚芛芠芡芣芤芧\u0001\u0003芮芰芲芴芷芺芼芾芿苆苐苕苚苠苢苤苨苪苭苯苶苷苽苾茀茁茇茈茊茋荔茛茝\u0001\u0002茡茢茬\u0001\u0002茰茳茷茺茼茽荂\u0001\u0002荇荍荎荑',
+    '荕\u0001\u0002荰荸荽荿莀莂莄莆莍莒莔莕莘莙莛\u0001\u0002莦莧莩莬莾\u0001\u0002菇菉菏\u0001\u0002菔菝荓菨菪菶菸菹菼萁萆萊萏萑萕萙莭萯萹葅葇葈葊葍葏葑葒葖葘\u0001\u0002葜葠葤葥葧葪葰葳葴葶葸葼葽蒁蒅蒒蒓蒕蒞蒦蒨\u0001\u0002蒯蒱蒴蒺',
+    '蒽蒾蓀蓂蓇蓈蓌蓏蓓蓜蓧蓪蓯\u0001\u0003蓷蔲蓺蓻蓽蔂蔃蔇蔌蔎蔐蔜蔞蔢\u0001\u0003蔧蔪蔫蔯蔳蔴蔶蔿蕆蕏\u0001\u0004蕖蕙蕜\u0001\u0006蕤蕫蕯蕹\u0001\u0002蕽蕿薁薅薆薉薋薌薏薓薘薝薟薠薢薥薧薴薶\u0001\u0002薼\u0001\u0003藂藇',
+    '藊藋藎薭藘藚藟藠藦藨藭藳藶藼藿蘀蘄蘅蘍蘎蘐\u0001\u0002蘘蘙蘛蘞蘡蘧蘩蘶蘸蘺蘼蘽虀虂虆虒虓虖\u0001\u0003虝虠\u0001\u0004虩虬虯虵\u0001\u0002虺蚍蚑蚖蚘蚚蚜蚡蚦\u0001\u0002蚭蚱蚳\u0001\u0002蚷\u0001\u0002蚿',
+    '\u0001\u0002蛃蛅蛑蛒蛕蛗蛚蛜蛠蛣蛥蛧蚈蛺蛼蛽蜄蜅蜇蜋蜎\u0001\u0002蜓蜔蜙蜞蜟蜡蜣蜨蜮蜯蜱蜲蜹蜺蜼\u0001\u0002蝀蝃蝅蝍蝘蝝蝡蝤蝥蝯蝱蝲蝻螃\u0001\u0006螋螌螐螓螕螗\u0001\u0002螞螠螣螧螬\u0001\u0002螱螵螾螿蟁蟈',
+    '\u0001\u0002蟎蟕蟖蟙蟚蟜蟟蟢\u0001\u0002蟪蟫蟭蟱蟳蟸蟺蟿蠁蠃蠆蠉\u0001\u0002蠐蠙蠒\u0001\u0002蠘蠚\u0001\u0002蠞蠟蠨蠭蠮蠰蠲蠵蠺蠼衁衃衅衈\u0001\u0003衎衑衕衖衘衚衜衟衠衤衩衱衹衻袀袘袚\u0001\u0002袟袠袨袪袺袽袾裀裊',
+    '\u0001\u0004裑\u0001\u0002裛裞裧裯\u0001\u0002裵裷褁褆褍\u0001\u0002褕褖褘\u0001\u0002褜褠褦\u0001\u0002褰\u0001\u0002褵褹褺褾襀襂襅襆襉襏襒襗襚\u0001\u0002襡\u0001\u0002襫襮襰襳襵襺',
+    '\u0001\u0003覉覍覐覔覕覛覜覟覠覥覰覴\u0001\u0003覼觔\u0001\u0004觥觩觫觭觱觳觶觹觽觿訄訅訇訏訑訒訔訕訞訠訢訤訦訫訬訯訵訷訽訾詀詃詅詇詉詍詎詓詖\u0001\u0002詜詝詡詥詧詵\u0001\u0002詹\u0001\u0002詾\u0001\u0002誃誆誋誏誐',
+    '誒誖誗誙誟誧誩誮誯誳誶誷誻誾諃諆諈\u0001\u0002諑諓\u0001\u0002諗諝諟諬諰諴\u0001\u0002諼諿謅謆謋謑謜謞謟謊謭謰謷謼譂\u0001\u0004譈譒\u0001\u0002譙譍譞譣譭譶譸譹譼譾讁讄讅讋讍讏讔讕讜讞讟谸谹谽谾豅豇豉豋豏豑豓豔豗豘豛豝豙豣豤豦豨豩豭豳豵豶豻',
+    '豾貆貇貋貐貒貓貙貛貜貤貹貺賅賆賉賋賏賖賕賙賝賡賨賬賯賰賲賵賷賸賾賿贁贃贉贒贗贛赥赩赬赮赿趂趄趈趍趐趑趕趞\u0001\u0002趦趫趬趯趲趵趷趹趻跀跅\u0001\u0003跊跎跑跔跕跗跙跤跥跧跬跰趼跱跲跴跽踁踄\u0001\u0002踋踑踔踖踠\u0001\u0003踦踧踱踳踶',
+    '\u0001\u0003踽蹀蹁蹋蹍\u0001\u0002蹔蹛\u0001\u0003蹡蹢蹩蹬蹭蹯\u0001\u0002蹹\u0001\u0002躂躃躉躐躒躕躚躛躝躞躢躧躩躭躮躳躵躺躻軀軁軃軄軇軏軑軔軜軨軮軰軱軷軹軺軭輀輂輇輈輏輐輖\u0001\u0002輞輠輡輣輥輧輨輬\u0001\u0002輴',
+    '\u0001\u0003輺轀轁轃轇轏轑\u0001\u0004轘轝轞轥辝辠辡辤\u0001\u0002辵辶辸达迀迁迆迊迋迍运迒迓迕迠迣迤迨迮迱迵迶迻迾适逄逈逌逘逛逨逩逯逪逬逭逳逴逷逿遃遄遌遛遝遢遦遧遬遰遴遹邅邈邋邌邎邐邕邗\u0001\u0002邛邠\u0001\u0002邥邰邲',
+    '\u0001\u0002邶邽郌邾郃\u0001\u0002郇郈郕郗\u0001\u0002郜郝郟郥郒郶郫郯郰郴郾\u0001\u0002鄄\u0001\u0002鄈鄍鄐鄔鄖\u0001\u0002鄚鄜鄞鄠鄥鄢鄣鄧鄩鄮鄯鄱鄴鄶鄷鄹鄺鄼鄽酃酇酈酏酓酗酙\u0001\u0002酡酤酧酭酴酹',
+    '\u0001\u0002醁醃醅醆醊醎醑醓\u0001\u0002醘醞醡醦醨醬\u0001\u0002醰\u0001\u0003醶醻\u0001\u0002醿釂釃釅釓釔釗釙釚釞釤釥釩釪釬\u0001\u0005釷釹釻釽鈀鈁鈄\u0001\u0003鈉鈊鈌鈐鈒鈓鈖鈘鈜鈝鈣\u0001\u0003鈨鈮',
+    '\u0001\u0002鈳鈵鈶鈸\u0001\u0002鈼鈾鉀鉂鉃鉆鉇鉊鉍\u0001\u0002鉑鉘鉙鉜鉝鉠鉡鉥鉧\u0001\u0002鉮\u0001\u0002鉵\u0001\u0004鉻\u0001\u0002鉿銈\u0001\u0002銍銎銒銗銙銟銠銤銥銧銨銫銯銲銶銸銺',
+    '\u0001\u0003銿\u0001\u0004鋅\u0001\u0003鋋\u0001\u0003鋐鋓鋕鋗\u0001\u0002鋜鋝鋟\u0001\u0002鋣鋥鋧鋨鋬鋮鋰鋹鋻鋿錀錂錈錍錑錔錕錜\u0001\u0003錡錤錥錧錩錪錳錴錶錷鍇\u0001\u0002鍐\u0001\u0002鍕鍗',
+    '鍘鍚鍞鍤鍥鍧鍩鍪鍭鍯\u0001\u0002鍳鍴鍶鍺鍽鍿\u0001\u0003鎈鎊鎋鎍鎏鎒鎕鎘鎛鎞鎡鎣鎤鎦鎨鎫鎴\u0001\u0002鎺鎩鏁鏄\u0001\u0003鏉\u0001\u0004鏓鏙鏜鏞鏟鏢鏦鏧鏹鏷鏸鏺鏻鏽鐁鐂鐄鐈鐉鐍\u0001\u0002鐕\u0001\u0002鐟鐮鐯鐱',
+    '\u0001\u0003鐻鐿鐽鑃鑅鑈鑊鑌鑕鑙鑜鑟鑡鑣鑨鑫鑭\u0001\u0002鑱鑲钄钃镸镹镾閄閈閌\u0001\u0002閝\u0001\u0002閡閦閩閫閬閴閶閺閽閿闆闈闉闋闐\u0001\u0003闙闚闝\u0001\u0003闤闦阝阞阢阤\u0001\u0002阬阱阳阷',
+    '\u0001\u0003阼阽陁陒陔陖\u0001\u0002陡陮陴陻陼陾陿隁\u0001\u0003隉隑隖隚隝隟隤\u0001\u0002隩隮隯隳隺雊雒嶲雘雚雝\u0001\u0002雩雯雱雺霂霃霅霉霚霛霝霡\u0001\u0002霨霱霳靁靃靊靎靏靕靗靘靚靛靣靧靪靮靳靶\u0001\u0002靻靽靿',
+    '鞀鞉鞕\u0001\u0002鞙鞚鞞鞟鞢鞬鞮鞱鞲鞵鞶鞸\u0001\u0002鞼鞾鞿韁韄韅韇韉韊韌\u0001\u0002韐韑韔韗\u0001\u0002韝韞韠韛韡韤韯韱韴韷韸韺頇頊頙頍頎頔頖頜頞頠頣頦頫頮\u0001\u0002頲頳頵頥頾顄顇顊顑\u0001\u0002顖顗顙顚顢顣顥顦顪顬颫颭颮颰',
+    '颴颷颸颺颻颿飂飅飈飌飡飣飥\u0001\u0002飪飳飶餂餇餈餑餕\u0001\u0002餚\u0001\u0002餟餢餦餧餫餱\u0001\u0004餹\u0001\u0003饀饁饆\u0001\u0002饍饎饔饘饙饛饜饞\u0001\u0002馛馝馟馦馰\u0001\u0002馵馹馺馽馿駃駉駓駔',
+    '駙駚駜駞駧駪\u0001\u0002駰駴駵駹駽駾騂\u0001\u0002騋騌騐騑騖騞騠騢\u0001\u0002騧騭騮騳騵騶騸驇驁驄驊\u0001\u0002驎驑驔驖驝骪骬骮骯骲骴\u0001\u0002骹骻骾骿髁髃髆髈髎髐髒髕\u0001\u0002髛髜髠髤髥髧髩髬髲髳髵髹髺髽髿',
+    '\u0001\u0006鬈鬉鬋\u0001\u0003鬐鬒鬖鬙鬛鬜鬠鬦鬫鬭鬳\u0001\u0002鬷鬹鬺鬽魈魋魌魕\u0001\u0002魛魞魡魣魥魦魨魪\u0001\u0004魳魵魷\u0001\u0002魿鮀鮄\u0001\u0003鮉\u0001\u0002鮍鮏鮐鮔鮚鮝鮞鮦鮧鮩鮬鮰',
+    '\u0001\u0002鮷鮸鮻鮼鮾鮿鯁鯇鯈鯎鯐鯗鯘鯝鯟鯥鯧鯪鯫鯯鯳鯷\u0001\u0003鯽鯿鰀鰂鰋鰏鰑鰖鰘\u0001\u0002鰜鰞鰢鰣鰦\u0001\u0004鰱鰵\u0001\u0002鰽鱁鱃\u0001\u0002鱉鱊鱎\u0001\u0002鱓鱔鱖鱘鱛鱝\u0001\u0002鱣鱩鱪鱜',
+    '鱫鱨鱮鱰鱲鱵鱷鱻鳦鳲鳷鳹鴋鴂鴑鴗鴘鴜\u0001\u0002鴯鴰鴲\u0001\u0002鴺鴼鵅鴽鵂鵃鵇鵊鵓鵔鵟鵣鵢鵥鵩\u0001\u0002鵰鵶鵷鵻鵼鵾鶃鶄鶆鶊鶍鶎鶒鶓鶕\u0001\u0003鶡鶪鶬鶮鶱鶵鶹鶼鶿鷃鷇鷉鷊鷔\u0001\u0003鷚鷞\u0001\u0002鷥鷧鷩鷫鷮鷰鷳鷴鷾鸊鸂',
+    '鸇鸎鸐\u0001\u0002鸕鸖鸙鸜鸝鹺\u0001\u0002麀麂\u0001\u0003麇麎麏麖麘麛麞麤麨麬麮\u0001\u0002麳\u0001\u0002黆黈黋黕黟黤黧黬\u0001\u0002黰\u0001\u0002黵黸黿鼂鼃鼉鼏\u0001\u0003鼔鼖鼗鼙',
+    '\u0001\u0002鼟鼢鼦鼪鼫鼯鼱鼲鼴鼷鼹鼺鼼鼽鼿齁齃\u0001\u0004齓齕\u0001\u0003齚齝齞齨齩齭\u0001\u0004齳齵齺齽龏\u0001\u0003龔龖龗龞龡\u0001\u0002龥'
+].join('');
@@ -95,7 +95,8 @@ export const hexByteLookupTable = Array.from(
  * Lookup table for Base64 character decoding.
  *
  * ## Description:
- * This table maps Base64-encoded characters (A-Z, a-z, 0-9, '+', '/') to their corresponding 6-bit values.
+ * This table maps Base64-encoded characters (A-Z, a-z, 0-9, '+', '/') and their URL-safe counterparts ('-', '_')
+ * to their corresponding 6-bit values.
  * The table is initialized with a default value of `-1` for each index, and then populated with valid Base64 character
  * values where each character corresponds to a 6-bit integer (0–63).
  * This lookup table allows for fast Base64 decoding by directly mapping characters to their numeric equivalents,
@@ -108,6 +109,7 @@ export const hexByteLookupTable = Array.from(
  *   - `'0'` to `'9'` (ASCII codes 48–57) map to values 52–61.
  *   - `'+'` (ASCII code 43) maps to 62.
  *   - `'/'` (ASCII code 47) maps to 63.
+ *   - `'-'` (ASCII code 45) maps to 62 and `'_'` (ASCII code 95) maps to 63 (Base64URL alphabet).
  *   - All other characters are initialized to `-1`, indicating they are not valid Base64 characters.
  *
  * - **Input**:
@@ -133,8 +135,10 @@ export const hexByteLookupTable = Array.from(
 
 export const base64LookupTable = new Array(256).fill(-1);
 export const base64Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+export const base64UrlChars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789-_';
 for (let i = 0; i < base64Chars.length; i++) {
     base64LookupTable[base64Chars.charCodeAt(i)] = i;
+    base64LookupTable[base64UrlChars.charCodeAt(i)] = i;
 }
 
 /**
@@ -182,3 +186,140 @@ export const utf16leLookupTable: string[] = new Array(0x10000);
 for (let i = 0; i <= 0xFFFF; i++) {
     utf16leLookupTable[i] = String.fromCharCode(i);
 }
+
+/**
+ * Alphabets and lookup tables for the Base32 encodings.
+ *
+ * ## Description:
+ * - **`base32Chars`**: The alphabet of RFC 4648 §6 (`A`–`Z`, `2`–`7`), used for TOTP secrets.
+ * - **`base32HexChars`**: The "Extended Hex" alphabet of RFC 4648 §7 (`0`–`9`, `A`–`V`),
+ *   which preserves the sort order of the encoded data.
+ * - **`crockford32Chars`**: Douglas Crockford's alphabet (`0`–`9` and the letters except `I`, `L`, `O` and `U`).
+ *
+ * Each lookup table maps an ASCII character code to its 5-bit value (0–31), or to `-1` for characters outside the alphabet.
+ * Letters are mapped in both cases, so that decoding is case-insensitive.
+ * The Crockford table also maps the easily confused letters `O` to `0`, and `I` and `L` to `1`.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(base32LookupTable['b'.charCodeAt(0)]);       // Outputs: 1
+ * console.log(crockford32LookupTable['L'.charCodeAt(0)]);  // Outputs: 1
+ * console.log(base32HexLookupTable['W'.charCodeAt(0)]);    // Outputs: -1
+ * ```
+ */
+
+export const base32Chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+export const base32HexChars = '0123456789ABCDEFGHIJKLMNOPQRSTUV';
+export const crockford32Chars = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+export const base32LookupTable = new Array(256).fill(-1);
+export const base32HexLookupTable = new Array(256).fill(-1);
+export const crockford32LookupTable = new Array(256).fill(-1);
+for (let i = 0; i < 32; i++) {
+    base32LookupTable[base32Chars.charCodeAt(i)] = i;
+    base32LookupTable[base32Chars.toLowerCase().charCodeAt(i)] = i;
+    base32HexLookupTable[base32HexChars.charCodeAt(i)] = i;
+    base32HexLookupTable[base32HexChars.toLowerCase().charCodeAt(i)] = i;
+    crockford32LookupTable[crockford32Chars.charCodeAt(i)] = i;
+    crockford32LookupTable[crockford32Chars.toLowerCase().charCodeAt(i)] = i;
+}
+
+for (const [ char, value ] of [ [ 'O', 0 ], [ 'I', 1 ], [ 'L', 1 ] ] as const) {
+    crockford32LookupTable[char.charCodeAt(0)] = value;
+    crockford32LookupTable[char.toLowerCase().charCodeAt(0)] = value;
+}
+
+/**
+ * Alphabet and lookup table for the Base58 encoding used by Bitcoin.
+ *
+ * ## Description:
+ * The alphabet leaves out `0`, `O`, `I` and `l`, which are easily confused when read or typed.
+ * The lookup table maps an ASCII character code to its value (0–57), or to `-1` for characters outside the alphabet.
+ * Unlike Base32, Base58 is case-sensitive.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(base58LookupTable['1'.charCodeAt(0)]);  // Outputs: 0
+ * console.log(base58LookupTable['z'.charCodeAt(0)]);  // Outputs: 57
+ * console.log(base58LookupTable['0'.charCodeAt(0)]);  // Outputs: -1
+ * ```
+ */
+
+export const base58Chars = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+export const base58LookupTable = new Array(256).fill(-1);
+for (let i = 0; i < base58Chars.length; i++) {
+    base58LookupTable[base58Chars.charCodeAt(i)] = i;
+}
+
+/**
+ * Alphabets and lookup tables for the Base85 encodings.
+ *
+ * ## Description:
+ * - **`ascii85Chars`**: The 85 consecutive ASCII characters from `!` to `u` used by Adobe's Ascii85 (PostScript and PDF).
+ * - **`z85Chars`**: The alphabet of ZeroMQ's Z85 (RFC 32/Z85), chosen to be safe in source code and configuration files.
+ *
+ * Each lookup table maps an ASCII character code to its value (0–84), or to `-1` for characters outside the alphabet.
+ * The special `z` abbreviation of Ascii85 is not part of its table.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(ascii85LookupTable['u'.charCodeAt(0)]);  // Outputs: 84
+ * console.log(z85LookupTable['#'.charCodeAt(0)]);      // Outputs: 84
+ * console.log(z85LookupTable['~'.charCodeAt(0)]);      // Outputs: -1
+ * ```
+ */
+
+export const ascii85Chars = Array.from({ length: 85 }, (_, index) => String.fromCharCode(index + 33)).join('');
+export const z85Chars = '0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ.-:+=^!/*?&<>()[]{}@%$#';
+export const ascii85LookupTable = new Array(256).fill(-1);
+export const z85LookupTable = new Array(256).fill(-1);
+for (let i = 0; i < 85; i++) {
+    ascii85LookupTable[ascii85Chars.charCodeAt(i)] = i;
+    z85LookupTable[z85Chars.charCodeAt(i)] = i;
+}
+
+/**
+ * Alphabet and lookup table for the data part of Bech32 and Bech32m strings (BIP 173 and BIP 350).
+ *
+ * ## Description:
+ * Each character encodes a 5-bit word (0–31).
+ * The lookup table only maps lower-case characters, as strings are lower-cased before they are decoded.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(bech32LookupTable['q'.charCodeAt(0)]);  // Outputs: 0
+ * console.log(bech32LookupTable['b'.charCodeAt(0)]);  // Outputs: -1
+ * ```
+ */
+
+export const bech32Chars = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+export const bech32LookupTable = new Array(256).fill(-1);
+for (let i = 0; i < bech32Chars.length; i++) {
+    bech32LookupTable[bech32Chars.charCodeAt(i)] = i;
+}
+
+/**
+ * Alphabet and lookup table for the Base45 encoding of RFC 9285.
+ *
+ * ## Description:
+ * The 45 characters are exactly those of the QR code alphanumeric mode, so Base45 data can be stored in a QR code
+ * more compactly than Base64. The lookup table maps an ASCII character code to its value (0–44),
+ * or to `-1` for characters outside the alphabet, including lower-case letters.
+ *
+ * ## Example:
+ *
+ * ```ts
+ * console.log(base45LookupTable['A'.charCodeAt(0)]);  // Outputs: 10
+ * console.log(base45LookupTable[':'.charCodeAt(0)]);  // Outputs: 44
+ * console.log(base45LookupTable['a'.charCodeAt(0)]);  // Outputs: -1
+ * ```
+ */
+
+export const base45Chars = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+export const base45LookupTable = new Array(256).fill(-1);
+for (let i = 0; i < base45Chars.length; i++) {
+    base45LookupTable[base45Chars.charCodeAt(i)] = i;
+}